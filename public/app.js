@@ -4,6 +4,85 @@ let savings = 908.25;
 let currentMonth = new Date().getMonth();
 let currentYear = new Date().getFullYear();
 let allTransactions = [];
+let categories = [];
+
+// Fetch every transaction matching the filters, following pagination cursors
+async function fetchTransactions(params = {}) {
+    const transactions = [];
+    let cursor = null;
+    do {
+        const query = new URLSearchParams({ ...params, limit: '200' });
+        if (cursor) query.set('cursor', cursor);
+        const response = await fetch('/api/transactions?' + query);
+        const page = await response.json();
+        if (!page.success) break;
+        transactions.push(...page.transactions);
+        cursor = page.nextCursor;
+    } while (cursor);
+    return transactions;
+}
+
+// Load the user's categories and fill every category picker from them
+async function loadCategories() {
+    try {
+        const response = await fetch('/api/categories');
+        const data = await response.json();
+        categories = data.categories || [];
+    } catch (error) {
+        console.error('Error loading categories:', error);
+    }
+
+    const indent = c => c.parentId ? '↳ ' : '';
+    const option = c => '<option value="' + c.id + '">' + indent(c) + c.icon + ' ' + c.name + '</option>';
+    const ordered = categoriesInHierarchy(categories);
+    const categoryInput = document.getElementById('categoryInput');
+    if (categoryInput) categoryInput.innerHTML = ordered.map(option).join('');
+    const scanCategory = document.getElementById('scanCategory');
+    if (scanCategory) scanCategory.innerHTML = ordered.filter(c => c.kind === 'expense').map(option).join('');
+    const categoryFilter = document.getElementById('categoryFilter');
+    if (categoryFilter) {
+        categoryFilter.innerHTML = '<option value="all">All Categories</option>' +
+            ordered.map(c => '<option value="' + c.id + '">' + indent(c) + c.name + '</option>').join('');
+    }
+    return categories;
+}
+
+function categoryLabel(id) {
+    const category = categories.find(c => c.id === id);
+    return category ? category.icon + ' ' + category.name : id;
+}
+
+// Subcategories report under their parent ("food > groceries" counts as food)
+function topLevelCategory(id) {
+    const category = categories.find(c => c.id === id);
+    return category && category.parentId ? category.parentId : id;
+}
+
+// Spending per top-level category, with subcategory amounts folded into their parent
+function topLevelBreakdown(breakdown) {
+    const rolled = {};
+    Object.entries(breakdown).forEach(([id, amount]) => {
+        const parent = topLevelCategory(id);
+        rolled[parent] = (rolled[parent] || 0) + amount;
+    });
+    return rolled;
+}
+
+// Spending for budgets at either level: subcategories keep their own amount, parents include them
+function rollUpBreakdown(breakdown) {
+    const spending = { ...breakdown };
+    Object.entries(breakdown).forEach(([id, amount]) => {
+        const parent = topLevelCategory(id);
+        if (parent !== id) spending[parent] = (spending[parent] || 0) + amount;
+    });
+    return spending;
+}
+
+// Top-level categories, each followed by its subcategories
+function categoriesInHierarchy(list) {
+    const isTopLevel = c => !c.parentId || !list.some(parent => parent.id === c.parentId);
+    return list.filter(isTopLevel).flatMap(parent => [parent, ...list.filter(c => c.parentId === parent.id)]);
+}
 
 // Tab Management
 function switchTab(clickedBtn, tabName) {
@@ -70,6 +149,23 @@ function toggleSidebar() {
     }
 }
 
+// The browser's time zone: a transaction entered without a date is dated today on the user's calendar
+const TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// The last add-transaction request sent and its idempotency key: resending the same
+// entry (a double click, or a retry after a network error) reuses the key, so it is added once
+let pendingAdd = null;
+
+function postTransaction(body) {
+    const json = JSON.stringify(body);
+    if (!pendingAdd || pendingAdd.body !== json) pendingAdd = { body: json, key: crypto.randomUUID() };
+    return fetch('/api/add-transaction', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': pendingAdd.key, 'X-Timezone': TIMEZONE },
+        body: json
+    });
+}
+
 // Budget Management
 async function addTransactionFromForm() {
     const amount = parseFloat(document.getElementById('amountInput').value);
@@ -77,6 +173,7 @@ async function addTransactionFromForm() {
     const category = document.getElementById('categoryInput').value;
     const type = document.getElementById('typeInput').value;
     const date = document.getElementById('dateInput').value;
+    const tags = document.getElementById('tagsInput').value.split(',').map(tag => tag.trim()).filter(Boolean);
     
     if (!amount || !description) {
         alert('Please fill in all fields');
@@ -84,30 +181,25 @@ async function addTransactionFromForm() {
     }
     
     try {
-        const response = await fetch('/api/add-transaction', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({ amount, description, category, type, date })
-        });
+        const response = await postTransaction({ amount, description, category, type, date, tags });
         
         const result = await response.json();
         
         if (response.ok) {
+            pendingAdd = null;
             // Clear form
             document.getElementById('amountInput').value = '';
             document.getElementById('descriptionInput').value = '';
-            // Keep date as is for easy multiple entries
+            // Keep date and tags as they are for easy multiple entries
             
             // Refresh data
             await updateDashboardData();
             await loadBudgetData();
             
-            // Show success message
-            showNotification(result.message, 'success');
+            // Show success message, or a warning when it looks like an entry already made
+            showNotification(result.possibleDuplicateOf ? `⚠️ ${result.message}` : result.message, result.possibleDuplicateOf ? 'info' : 'success');
         } else {
-            showNotification(result.error || 'Failed to add transaction', 'error');
+            showNotification(result.message || result.error || 'Failed to add transaction', 'error');
         }
     } catch (error) {
         console.error('Error adding transaction:', error);
@@ -117,10 +209,7 @@ async function addTransactionFromForm() {
 
 async function loadBudgetData() {
     try {
-        const response = await fetch('/api/get-summary');
-        const data = await response.json();
-        
-        allTransactions = data.transactions || [];
+        allTransactions = await fetchTransactions();
         
         // Update monthly selector
         updateMonthlySelector();
@@ -139,14 +228,22 @@ async function loadBudgetData() {
     }
 }
 
+// A split transaction counts once per line in category breakdowns
+function categoryLines(transaction) {
+    return transaction.splits && transaction.splits.length > 0
+        ? transaction.splits
+        : [{ amount: transaction.amount, category: transaction.category }];
+}
+
 function calculateMonthlyBreakdown(month, year) {
     const breakdown = {};
     allTransactions.forEach(transaction => {
         if (transaction.type === 'expense') {
             const txDate = new Date(transaction.date || transaction.timestamp);
             if (txDate.getMonth() === month && txDate.getFullYear() === year) {
-                const category = transaction.category;
-                breakdown[category] = (breakdown[category] || 0) + transaction.amount;
+                categoryLines(transaction).forEach(line => {
+                    breakdown[line.category] = (breakdown[line.category] || 0) + line.amount;
+                });
             }
         }
     });
@@ -182,14 +279,9 @@ function changeMonth(direction) {
 
 async function loadCategoryBudgets(categoryBreakdown) {
     const container = document.getElementById('categoryBudgets');
-    const categories = [
-        { name: 'food', emoji: '🍕', label: 'Food' },
-        { name: 'transportation', emoji: '🚗', label: 'Transportation' },
-        { name: 'housing', emoji: '🏠', label: 'Housing' },
-        { name: 'entertainment', emoji: '🎬', label: 'Entertainment' },
-        { name: 'shopping', emoji: '🛍️', label: 'Shopping' },
-        { name: 'healthcare', emoji: '🏥', label: 'Healthcare' }
-    ];
+    if (categories.length === 0) await loadCategories();
+    const expenseCategories = categoriesInHierarchy(categories.filter(c => c.kind === 'expense'));
+    const spending = rollUpBreakdown(categoryBreakdown);
     
     // Fetch current budgets
     let budgets = {};
@@ -200,31 +292,28 @@ async function loadCategoryBudgets(categoryBreakdown) {
     } catch (error) {
         console.error('Error fetching budgets:', error);
         // Use default budgets
-        budgets = {
-            food: 500, transportation: 300, housing: 1000,
-            entertainment: 200, shopping: 300, healthcare: 400
-        };
+        expenseCategories.forEach(c => { if (c.defaultBudget !== null) budgets[c.id] = c.defaultBudget; });
     }
     
-    container.innerHTML = categories.map(cat => {
-        const spent = categoryBreakdown[cat.name] || 0;
-        const budget = budgets[cat.name] || 500;
+    container.innerHTML = expenseCategories.map(cat => {
+        const spent = spending[cat.id] || 0;
+        const budget = budgets[cat.id] || 500;
         const percentage = (spent / budget) * 100; // Don't cap for status calculation
         const displayPercentage = Math.min(percentage, 100); // Cap for progress bar only
         const status = percentage > 100 ? '🚨 Over budget' : percentage > 90 ? '⚠️ Near limit' : '✅ On track';
         
-        return '<div class="budget-card" data-category="' + cat.name + '">' +
+        return '<div class="budget-card" data-category="' + cat.id + '">' +
             '<div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 1rem;">' +
                 '<div style="display: flex; align-items: center; gap: 0.5rem;">' +
-                    '<span style="font-size: 1.5rem;">' + cat.emoji + '</span>' +
-                    '<h4 style="margin: 0;">' + cat.label + '</h4>' +
+                    '<span style="font-size: 1.5rem;">' + cat.icon + '</span>' +
+                    '<h4 style="margin: 0;">' + (cat.parentId ? '↳ ' : '') + cat.name + '</h4>' +
                 '</div>' +
-                '<button class="edit-budget-btn" data-category="' + cat.name + '" data-budget="' + budget + '" style="background: rgba(255,255,255,0.2); border: none; border-radius: 50%; width: 36px; height: 36px; color: white; cursor: pointer; font-size: 1.1rem; transition: all 0.2s ease; display: flex; align-items: center; justify-content: center;">⚙️</button>' +
+                '<button class="edit-budget-btn" data-category="' + cat.id + '" data-budget="' + budget + '" style="background: rgba(255,255,255,0.2); border: none; border-radius: 50%; width: 36px; height: 36px; color: white; cursor: pointer; font-size: 1.1rem; transition: all 0.2s ease; display: flex; align-items: center; justify-content: center;">⚙️</button>' +
             '</div>' +
             '<div style="margin-bottom: 0.5rem;">' +
                 '<div style="display: flex; justify-content: space-between;">' +
                     '<span>$' + spent.toFixed(2) + '</span>' +
-                    '<span id="budget-' + cat.name + '">/ $' + budget.toFixed(2) + '</span>' +
+                    '<span id="budget-' + cat.id + '">/ $' + budget.toFixed(2) + '</span>' +
                 '</div>' +
                 '<div style="background: rgba(255,255,255,0.3); height: 8px; border-radius: 4px; margin-top: 0.5rem;">' +
                     '<div style="background: white; height: 100%; width: ' + displayPercentage + '%; border-radius: 4px; transition: width 0.5s ease;"></div>' +
@@ -304,9 +393,11 @@ function loadTransactionsList() {
         const transactionDate = new Date(transaction.timestamp);
         const matchesMonth = transactionDate.getMonth() === currentMonth &&
                            transactionDate.getFullYear() === currentYear;
-        const matchesCategory = categoryFilter === 'all' || transaction.category === categoryFilter;
+        const matchesCategory = categoryFilter === 'all' ||
+            categoryLines(transaction).some(line => line.category === categoryFilter || topLevelCategory(line.category) === categoryFilter);
         const matchesType = typeFilter === 'all' || transaction.type === typeFilter;
-        const matchesSearch = !searchVal || (transaction.description || '').toLowerCase().includes(searchVal);
+        const matchesSearch = !searchVal || (transaction.description || '').toLowerCase().includes(searchVal) ||
+            (transaction.tags || []).some(tag => tag.includes(searchVal));
         const matchesMin = isNaN(minAmt) || transaction.amount >= minAmt;
         const matchesMax = isNaN(maxAmt) || transaction.amount <= maxAmt;
         const txDate = transaction.date || new Date(transaction.timestamp).toISOString().split('T')[0];
@@ -330,10 +421,11 @@ function loadTransactionsList() {
             return `<div class="transaction-item">
                 <div class="transaction-info">
                     <div class="transaction-description">${transaction.description}${recurring ? ' <span style="font-size:0.72rem;background:#667eea;color:white;border-radius:4px;padding:1px 6px;vertical-align:middle;">🔁 recurring</span>' : ''}</div>
-                    <div class="transaction-category">${transaction.category} • ${new Date(transaction.timestamp).toLocaleDateString()}</div>
+                    ${transaction.tags ? `<div>${transaction.tags.map(tag => `<span style="font-size:0.72rem;background:#edf2f7;color:#4a5568;border-radius:4px;padding:1px 6px;margin-right:4px;">#${tag}</span>`).join('')}</div>` : ''}
+                    <div class="transaction-category">${transaction.splits ? transaction.splits.map(line => line.category + ' $' + line.amount.toFixed(2)).join(', ') : transaction.category} • ${new Date(transaction.timestamp).toLocaleDateString()}${transaction.attachmentIds ? ` • ${transaction.attachmentIds.map((id, i) => `<a href="/api/attachments/${encodeURIComponent(id)}" target="_blank" rel="noopener" title="View receipt">📎${transaction.attachmentIds.length > 1 ? i + 1 : ''}</a>`).join(' ')}` : ''}</div>
                 </div>
                 <div class="transaction-amount ${transaction.type}">
-                    ${transaction.type === 'expense' ? '-' : '+'} $${transaction.amount.toFixed(2)}
+                    ${transaction.type === 'expense' ? '-' : transaction.type === 'transfer' ? '⇄' : '+'} $${transaction.amount.toFixed(2)}
                 </div>
             </div>`;
         }).join('');
@@ -375,12 +467,14 @@ function initializeMonthSelector() {
 
 async function loadAnalyticsData() {
     try {
-        const [summaryResponse, budgetsResponse] = await Promise.all([
+        if (categories.length === 0) await loadCategories();
+        const [summaryResponse, budgetsResponse, transactions] = await Promise.all([
             fetch('/api/get-summary'),
-            fetch('/api/get-budgets')
+            fetch('/api/get-budgets'),
+            fetchTransactions()
         ]);
 
-        const data = await summaryResponse.json();
+        const data = { ...(await summaryResponse.json()), transactions };
         const budgetData = await budgetsResponse.json();
 
         // Parse selected month/year
@@ -399,7 +493,9 @@ async function loadAnalyticsData() {
             if (t.type === 'expense') {
                 const txDate = new Date(t.timestamp);
                 if (txDate.getMonth() === targetMonth && txDate.getFullYear() === targetYear) {
-                    selectedMonthCategoryBreakdown[t.category] = (selectedMonthCategoryBreakdown[t.category] || 0) + t.amount;
+                    categoryLines(t).forEach(line => {
+                        selectedMonthCategoryBreakdown[line.category] = (selectedMonthCategoryBreakdown[line.category] || 0) + line.amount;
+                    });
                 }
             }
         });
@@ -516,14 +612,14 @@ function loadMonthlySpendingTrend(transactions, showSampleData = false) {
 function loadBudgetPerformance(categoryBreakdown, budgets) {
     const container = document.getElementById('budgetPerformance');
     
-    const categories = ['food', 'transportation', 'housing', 'entertainment', 'shopping', 'healthcare'];
-    const performanceData = categories.map(category => {
-        const spent = categoryBreakdown[category] || 0;
-        const budget = budgets[category] || 500;
+    const spending = rollUpBreakdown(categoryBreakdown);
+    const performanceData = categoriesInHierarchy(categories.filter(c => c.kind === 'expense')).map(category => {
+        const spent = spending[category.id] || 0;
+        const budget = budgets[category.id] || 500;
         const percentage = budget > 0 ? (spent / budget) * 100 : 0;
         
         return {
-            category: category.charAt(0).toUpperCase() + category.slice(1),
+            category: (category.parentId ? '↳ ' : '') + category.name,
             spent,
             budget,
             percentage: percentage, // Keep real percentage for status calculation
@@ -603,7 +699,9 @@ async function loadAIInsights(data) {
                 monthlyIncome += t.amount;
             } else if (t.type === 'expense') {
                 monthlyExpenses += t.amount;
-                monthlyCategories[t.category] = (monthlyCategories[t.category] || 0) + t.amount;
+                categoryLines(t).forEach(line => {
+                    monthlyCategories[line.category] = (monthlyCategories[line.category] || 0) + line.amount;
+                });
             }
         }
     });
@@ -851,7 +949,8 @@ async function sendMessage(message) {
         const response = await fetch('/api/advice', {
             method: 'POST',
             headers: {
-                'Content-Type': 'application/json'
+                'Content-Type': 'application/json',
+                'X-Timezone': TIMEZONE
             },
             body: JSON.stringify({ message, conversationId: 'default' })
         });
@@ -947,7 +1046,8 @@ function switchAnalyticsYear(year) {
 
 
 document.addEventListener('DOMContentLoaded', function() {
-    // Load real data first, then animate
+    // Fill the category pickers, then load real data and animate
+    loadCategories();
     updateDashboardData();
 
     // Default analytics to current year (2026) and initialize month selector
@@ -1083,6 +1183,26 @@ function fileToDataURL(file) {
     });
 }
 
+// Small JPEG preview of a receipt image, or null when the browser cannot draw it
+function imageThumbnail(dataURL, maxSize = 240) {
+    return new Promise(resolve => {
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.width * scale));
+            canvas.height = Math.max(1, Math.round(img.height * scale));
+            canvas.getContext('2d').drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', 0.7));
+        };
+        img.onerror = () => resolve(null);
+        img.src = dataURL;
+    });
+}
+
+// Stored receipt from the last scan, linked to the transaction when it is added
+let scannedAttachmentId = null;
+
 async function scanReceiptFromFile() {
     const status = document.getElementById('scanStatus');
     const input = document.getElementById('scanFile');
@@ -1097,6 +1217,8 @@ async function scanReceiptFromFile() {
         showNotification('Scanning receipt... This may take a moment', 'info');
         
         const dataURL = await fileToDataURL(file);
+        const thumbnail = await imageThumbnail(dataURL);
+        scannedAttachmentId = null;
         
         // Add timeout to prevent hanging
         const controller = new AbortController();
@@ -1105,7 +1227,7 @@ async function scanReceiptFromFile() {
         const response = await fetch('/api/scan-receipt', {
             method: 'POST', 
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ image: dataURL, filename: file.name }),
+            body: JSON.stringify({ image: dataURL, filename: file.name, thumbnail }),
             signal: controller.signal
         });
         
@@ -1114,6 +1236,7 @@ async function scanReceiptFromFile() {
         const res = await response.json();
         console.log('Scanner response:', res);
         
+        scannedAttachmentId = res.attachmentId || null;
         if (!response.ok || !res.success) {
             throw new Error(res?.error || 'Scan failed');
         }
@@ -1138,7 +1261,8 @@ async function scanReceiptFromFile() {
         }
 
         document.getElementById('scanAmount').value = outAmount ?? '';
-        document.getElementById('scanMerchant').value = outMerchant ?? '';
+        // Prefer the name of a merchant the user already has ("Costco" for "COSTCO WHOLESALE #123")
+        document.getElementById('scanMerchant').value = res.merchantName || outMerchant || '';
         document.getElementById('scanCategory').value = res.category ?? 'other';
         document.getElementById('scanDate').value = outDate ?? new Date().toISOString().slice(0,10);
         
@@ -1238,13 +1362,11 @@ async function addScannedTransaction() {
     }
     
     try {
-        const response = await fetch('/api/add-transaction', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ amount, description, category, type: 'expense', date })
-        });
+        const response = await postTransaction({ amount, description, category, type: 'expense', date, ...(scannedAttachmentId ? { attachmentId: scannedAttachmentId } : {}) });
         const res = await response.json();
-        if (!response.ok) throw new Error(res?.error || 'Failed');
+        if (!response.ok) throw new Error(res?.message || res?.error || 'Failed');
+        pendingAdd = null;
+        scannedAttachmentId = null;
         
         // Clear form
         amountInput.value = '';
@@ -1253,7 +1375,7 @@ async function addScannedTransaction() {
         
         await updateDashboardData();
         await loadBudgetData();
-        showNotification(`✅ Added $${amount.toFixed(2)} expense for "${description}"`, 'success');
+        showNotification(res.possibleDuplicateOf ? `⚠️ ${res.message}` : `✅ Added $${amount.toFixed(2)} expense for "${description}"`, res.possibleDuplicateOf ? 'info' : 'success');
     } catch (e) { 
         console.error('Add transaction error:', e);
         showNotification('Failed to add scanned expense: ' + (e?.message || 'Unknown error'), 'error'); 
@@ -1563,7 +1685,9 @@ function loadSpendingForecast(transactions, budgets) {
     transactions.forEach(t => {
         if (t.type === 'expense' && t.date && t.date.startsWith(ym)) {
             monthSpent += t.amount;
-            catSpent[t.category] = (catSpent[t.category] || 0) + t.amount;
+            categoryLines(t).forEach(line => {
+                catSpent[line.category] = (catSpent[line.category] || 0) + line.amount;
+            });
         }
     });
     const dailyRate = monthSpent / daysElapsed;
@@ -1628,8 +1752,9 @@ function loadSpendingHeatmap(transactions, targetMonth, targetYear) {
 }
 
 // ===== MONTH-OVER-MONTH COMPARISON (patch into loadCategoryAnalytics) =====
-function loadCategoryAnalyticsWithComparison(categoryBreakdown, targetMonth, targetYear) {
+function loadCategoryAnalyticsWithComparison(monthlyBreakdown, targetMonth, targetYear) {
     const container = document.getElementById('categoryChart');
+    const categoryBreakdown = topLevelBreakdown(monthlyBreakdown);
     const total = Object.values(categoryBreakdown).reduce((s, a) => s + a, 0);
     if (total === 0) {
         container.innerHTML = '<p style="text-align:center;color:#718096;padding:2rem;">No spending data for this month</p>';
@@ -1642,7 +1767,10 @@ function loadCategoryAnalyticsWithComparison(categoryBreakdown, targetMonth, tar
     const prevBreakdown = {};
     allTransactions.forEach(t => {
         if (t.type === 'expense' && t.date && t.date.startsWith(prevYm)) {
-            prevBreakdown[t.category] = (prevBreakdown[t.category] || 0) + t.amount;
+            categoryLines(t).forEach(line => {
+                const cat = topLevelCategory(line.category);
+                prevBreakdown[cat] = (prevBreakdown[cat] || 0) + line.amount;
+            });
         }
     });
     container.innerHTML = Object.entries(categoryBreakdown)
@@ -1685,14 +1813,13 @@ function initCategoryAutosuggest() {
                 const cat = data.category;
                 const suggestedCat = document.getElementById('suggestedCat');
                 if (suggestionEl && suggestedCat && cat && cat !== 'other') {
-                    const labels = {food:'🍕 Food',transportation:'🚗 Transportation',housing:'🏠 Housing',entertainment:'🎬 Entertainment',shopping:'🛍️ Shopping',healthcare:'🏥 Healthcare',income:'💰 Income'};
-                    suggestedCat.textContent = labels[cat] || cat;
+                    suggestedCat.textContent = categoryLabel(cat);
                     suggestionEl.style.display = 'block';
                     suggestedCat.onclick = function() {
                         const sel = document.getElementById('categoryInput');
                         if (sel) sel.value = cat;
                         suggestionEl.style.display = 'none';
-                        showNotification('Category set to ' + (labels[cat] || cat), 'success');
+                        showNotification('Category set to ' + categoryLabel(cat), 'success');
                     };
                 }
             } catch(e) {}
@@ -1745,9 +1872,11 @@ async function fetchGoalAdvice(goal) {
         const now = new Date();
         const ym = now.getFullYear() + '-' + String(now.getMonth() + 1).padStart(2, '0');
         const catBreakdown = {};
-        (sumData.transactions || []).forEach(t => {
+        (await fetchTransactions({ month: ym, type: 'expense' })).forEach(t => {
             if (t.type === 'expense' && t.date && t.date.startsWith(ym)) {
-                catBreakdown[t.category] = (catBreakdown[t.category] || 0) + t.amount;
+                categoryLines(t).forEach(line => {
+                    catBreakdown[line.category] = (catBreakdown[line.category] || 0) + line.amount;
+                });
             }
         });
 
@@ -1801,3 +1930,80 @@ function isRecurring(t) {
     const desc = (t.description || '').toLowerCase();
     return RECURRING_KEYWORDS.some(k => desc.includes(k));
 }
+
+// ===== ACCOUNT (sign in / sign out) =====
+// Any API call answered with 401 means the session is missing or expired: ask the user to sign in.
+// A 429 means a rate limit or the daily AI quota ran out: say so, with when it resets.
+(function() {
+    const nativeFetch = window.fetch.bind(window);
+    let signInShown = false;
+
+    window.fetch = async function(input, init) {
+        const response = await nativeFetch(input, init);
+        const url = typeof input === 'string' ? input : input.url;
+        if (response.status === 401 && !url.includes('/api/auth/')) showSignIn();
+        if (response.status === 429) {
+            response.clone().json()
+                .then(body => showNotification(body.message || 'Too many requests; please wait a moment', 'error'))
+                .catch(() => {});
+        }
+        return response;
+    };
+
+    function showSignIn() {
+        if (signInShown) return;
+        signInShown = true;
+
+        const overlay = document.createElement('div');
+        overlay.id = 'signInOverlay';
+        overlay.style.cssText = 'position:fixed;inset:0;background:rgba(0,0,0,0.55);display:flex;align-items:center;justify-content:center;z-index:10000;';
+        overlay.innerHTML = `
+            <form id="signInForm" style="background:#fff;color:#2d3748;padding:28px;border-radius:16px;width:320px;max-width:90vw;box-shadow:0 20px 60px rgba(0,0,0,0.3);display:flex;flex-direction:column;gap:12px;">
+                <h3 style="margin:0 0 4px;">💰 Sign in to Finance AI</h3>
+                <input id="signInEmail" type="email" placeholder="Email" autocomplete="email" required style="padding:10px;border:1px solid #e2e8f0;border-radius:8px;">
+                <input id="signInPassword" type="password" placeholder="Password (8+ characters)" autocomplete="current-password" minlength="8" required style="padding:10px;border:1px solid #e2e8f0;border-radius:8px;">
+                <div id="signInError" style="color:#e53e3e;font-size:0.85rem;min-height:1em;"></div>
+                <button type="submit" data-action="login" style="padding:10px;border:none;border-radius:8px;background:#667eea;color:#fff;cursor:pointer;">Sign in</button>
+                <button type="submit" data-action="signup" style="padding:10px;border:1px solid #667eea;border-radius:8px;background:none;color:#667eea;cursor:pointer;">Create account</button>
+            </form>`;
+        document.body.appendChild(overlay);
+
+        const form = overlay.querySelector('#signInForm');
+        form.addEventListener('submit', async function(event) {
+            event.preventDefault();
+            const action = event.submitter && event.submitter.dataset.action === 'signup' ? 'signup' : 'login';
+            const errorEl = document.getElementById('signInError');
+            errorEl.textContent = '';
+            try {
+                const response = await nativeFetch('/api/auth/' + action, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        email: document.getElementById('signInEmail').value,
+                        password: document.getElementById('signInPassword').value
+                    })
+                });
+                const result = await response.json();
+                if (result.success) {
+                    window.location.reload();
+                } else if (result.errors) {
+                    errorEl.textContent = result.errors.map(e => `${e.field} ${e.message}`).join('; ');
+                } else {
+                    errorEl.textContent = result.message || 'Could not sign in';
+                }
+            } catch (error) {
+                errorEl.textContent = 'Could not reach the server';
+            }
+        });
+    }
+
+    document.addEventListener('DOMContentLoaded', function() {
+        const signOutBtn = document.getElementById('signOutBtn');
+        if (signOutBtn) {
+            signOutBtn.addEventListener('click', async function() {
+                await nativeFetch('/api/auth/logout', { method: 'POST' });
+                window.location.reload();
+            });
+        }
+    });
+})();
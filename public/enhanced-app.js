@@ -189,7 +189,7 @@ class EnhancedFinanceAssistant {
       // Send message to AI for processing
       const response = await fetch('/api/advice', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'X-Timezone': Intl.DateTimeFormat().resolvedOptions().timeZone },
         body: JSON.stringify({ query: message })
       });
       
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { validateAccountInput, accountIdFromName } from './account';
+
+describe('Account Model', () => {
+  it('should accept a credit card with a negative opening balance', () => {
+    const result = validateAccountInput({ name: ' Visa ', type: 'credit_card', openingBalance: -520.25, openingDate: '2026-01-01' });
+    expect(result.valid && result.value).toEqual({ name: 'Visa', type: 'credit_card', openingBalance: -520.25, openingDate: '2026-01-01' });
+  });
+
+  it('should report every invalid field at once', () => {
+    const result = validateAccountInput({ name: '', type: 'brokerage', openingBalance: '100', openingDate: '2026-02-30' });
+    expect(!result.valid && result.errors.map(e => e.field)).toEqual(['name', 'type', 'openingBalance', 'openingDate']);
+  });
+
+  it('should derive ids from names', () => {
+    expect(accountIdFromName('Chase Sapphire!')).toBe('chase-sapphire');
+  });
+});
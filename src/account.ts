@@ -0,0 +1,101 @@
+/**
+ * Account Domain Model
+ * Every transaction belongs to an account. Balances start from the account's
+ * opening balance on its opening date; liabilities (credit cards, loans)
+ * carry negative balances so the total is a true net figure.
+ */
+
+import { FieldError, ValidationResult, isValidISODate } from './transaction';
+
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'cash' | 'loan';
+
+export const ACCOUNT_TYPES: readonly AccountType[] = ['checking', 'savings', 'credit_card', 'cash', 'loan'];
+
+// Existing data is attached to this account the first time accounts are created
+export const DEFAULT_ACCOUNT_ID = 'checking';
+export const DEFAULT_ACCOUNT_NAME = 'Checking';
+export const DEFAULT_OPENING_BALANCE = 4250;
+// A ledger with no history yet opens its default account at zero, early enough for any back-dated entry
+export const EMPTY_LEDGER_OPENING_DATE = '1970-01-01';
+
+export const MAX_ACCOUNT_NAME_LENGTH = 60;
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+  openingDate: string;  // YYYY-MM-DD; transactions before this date are not part of the balance
+  createdAt: number;
+  externalRef?: string; // the bank's id for the account, from an imported statement
+}
+
+export interface AccountInput {
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+  openingDate?: string;
+}
+
+export interface AccountBalance extends Account {
+  balance: number;
+}
+
+export interface Balances {
+  accounts: AccountBalance[];
+  total: number;
+}
+
+/**
+ * Validate untrusted input for creating or replacing an account
+ */
+export function validateAccountInput(input: unknown): ValidationResult<AccountInput> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+
+  const body = input as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    errors.push({ field: 'name', message: 'is required' });
+  } else if (name.length > MAX_ACCOUNT_NAME_LENGTH) {
+    errors.push({ field: 'name', message: `must be at most ${MAX_ACCOUNT_NAME_LENGTH} characters` });
+  }
+
+  if (!ACCOUNT_TYPES.includes(body.type as AccountType)) {
+    errors.push({ field: 'type', message: `must be one of: ${ACCOUNT_TYPES.join(', ')}` });
+  }
+
+  const openingBalance = body.openingBalance ?? 0;
+  if (typeof openingBalance !== 'number' || !Number.isFinite(openingBalance)) {
+    errors.push({ field: 'openingBalance', message: 'must be a finite number' });
+  }
+
+  const hasDate = body.openingDate !== undefined && body.openingDate !== null && body.openingDate !== '';
+  if (hasDate && !isValidISODate(body.openingDate)) {
+    errors.push({ field: 'openingDate', message: 'must be a valid date in YYYY-MM-DD format' });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      name,
+      type: body.type as AccountType,
+      openingBalance: openingBalance as number,
+      ...(hasDate ? { openingDate: body.openingDate as string } : {})
+    }
+  };
+}
+
+/**
+ * Turn an account name into a stable id ("Chase Sapphire" → "chase-sapphire")
+ */
+export function accountIdFromName(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || crypto.randomUUID();
+}
@@ -3,8 +3,85 @@
 
 import { ReceiptScanner } from './receipt-scanner';
 import { initializeKnowledgeBase } from './knowledge-base';
-import { retrieveContext, buildRAGPrompt, indexTransaction, suggestCategory } from './rag-handler';
+import { retrieveContext, buildRAGPrompt, indexTransaction, indexTransactions, unindexTransaction, unindexTransactions, suggestCategory } from './rag-handler';
 import { createVectorDB, getVectorDBName } from './vector-db-factory';
+import { FinanceStore, ConversationMessage, Conversation, Goal, MemberTotals, TransactionFilter, TrashedTransaction } from './finance-store';
+import {
+  Transaction,
+  TransactionInput,
+  TransactionPatch,
+  FieldError,
+  ValidationResult,
+  validateTransactionInput,
+  validateTransactionPatch,
+  applyTransactionPatch,
+  createTransaction,
+  formatFieldErrors,
+  clientToday,
+  TIMEZONE_HEADER,
+  isValidISODate,
+  transferErrors,
+  splitErrors,
+  categoryLines,
+  formatSplits,
+  TRANSFER_CATEGORY
+} from './transaction';
+import { parseTransactionQuery } from './transaction-query';
+import { Account, DEFAULT_ACCOUNT_ID, validateAccountInput, accountIdFromName } from './account';
+import {
+  Category,
+  FALLBACK_CATEGORY_ID,
+  validateCategoryInput,
+  validateBudgetInput,
+  categoryIdFromName,
+  categorizeByKeywords,
+  findCategoryInMessage,
+  subcategoryTotals,
+  describeCategoryBreakdown
+} from './category';
+import { normalizeTag, findTagInMessage } from './tag';
+import { Merchant, validateMerchantInput, merchantKey, merchantIdFromKey } from './merchant';
+import {
+  Attachment,
+  AttachmentSource,
+  AttachmentStorage,
+  AttachmentUpload,
+  SqlAttachmentStorage,
+  attachmentKey,
+  decodeDataUrl,
+  parseAttachmentUpload,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+  PENDING_ATTACHMENT_TTL_MS
+} from './attachment';
+import { AuditActor, AuditRef, auditAction, isOthersPersonalEntry, sameSnapshot, parseAuditQuery, personalBudgetId, splitPersonalBudgetId } from './audit';
+import { NetWorth, normalizeNetWorth } from './net-worth';
+import { IDEMPOTENCY_KEY_HEADER, IDEMPOTENCY_KEY_TTL_MS, MAX_IDEMPOTENCY_KEY_LENGTH, isValidIdempotencyKey, requestFingerprint } from './idempotency';
+import { MemberContext, NO_MEMBER, describeMember, householdMember, memberContext, memberName } from './household';
+import { DUPLICATE_DATE_WINDOW_DAYS, duplicatePairIds, findPossibleDuplicate, isPossibleDuplicate, shiftDate } from './duplicates';
+import {
+  IMPORT_TTL_MS,
+  ImportFormat,
+  ImportRow,
+  LedgerParseResult,
+  ParsedRow,
+  PendingImport,
+  ReportedBalance,
+  StatementAccount,
+  bankAccountDetails,
+  rowExternalIds,
+  rowsToCommit,
+  summarizeImport,
+  validateFileImportInput,
+  validateImportCommit
+} from './import';
+import { CsvParseResult, DATE_ORDERS, DateOrder, SavedCsvMapping, parseCsvStatement, validateCsvImportInput, validateSavedMappingInput } from './csv-import';
+import { ofxAccountDetails, parseOfx } from './ofx-import';
+import { parseCamt053 } from './camt-import';
+import { parseMt940 } from './mt940-import';
+import { parseQif } from './qif-import';
+import { LedgerFormat, parseLedger, writeLedger } from './ledger';
+import { BACKUP_FORMAT, BACKUP_VERSION, Backup, BackupFile, RESTORE_MODES, RESTORE_REPLACE_CONFIRMATION, RestoreMode, encodeBase64, validateBackup } from './backup';
+import { LATEST_SCHEMA_VERSION, SCHEMA_VERSION_KEY } from './migrations';
 
 interface Env {
   AI: any;
@@ -15,8 +92,19 @@ interface Env {
   CHROMA_DATABASE?: string;
   FinanceAgent: DurableObjectNamespace;
   ENVIRONMENT?: string;
+  TRASH_RETENTION_DAYS?: string;
 }
 
+// Key-value storage key of the net worth statement
+const NET_WORTH_KEY = 'netWorth';
+
+// Deleted transactions stay restorable for this long unless TRASH_RETENTION_DAYS overrides it
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Value of ?confirm= that /api/reset-data requires
+export const RESET_CONFIRMATION = 'delete-all-data';
+
 // Function calling tool definitions
 interface FunctionDefinition {
   name: string;
@@ -38,28 +126,28 @@ interface FunctionResult {
   data?: any;
   message: string;
   action?: string;
-}
-
-interface ConversationMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  timestamp: number;
-}
-
-interface Conversation {
-  id: string;
-  messages: ConversationMessage[];
-  startTime: number;
-  lastUpdated: number;
+  possibleDuplicateOf?: string;  // id of an existing transaction the added one may repeat
 }
 
 export class APIHandlers {
   state: DurableObjectState;
   env: Env;
+  store: FinanceStore;
+  attachments: AttachmentStorage;
+  ownerId: string | null = null;  // the user or household this instance belongs to, as forwarded by the Worker
 
-  constructor(state: DurableObjectState, env: Env) {
+  constructor(state: DurableObjectState, env: Env, store: FinanceStore, attachments?: AttachmentStorage) {
     this.state = state;
     this.env = env;
+    this.store = store;
+    this.attachments = attachments ?? new SqlAttachmentStorage(state.storage.sql);
+  }
+
+  /**
+   * The vector database, with transaction vectors scoped to this instance's owner
+   */
+  private vectorDB() {
+    return createVectorDB(this.env, this.ownerId ?? undefined);
   }
 
   // ========== CONVERSATION MEMORY METHODS ==========
@@ -68,40 +156,21 @@ export class APIHandlers {
    * Save a message to the conversation history
    */
   async saveMessage(role: 'user' | 'assistant' | 'system', content: string, conversationId: string = 'default'): Promise<void> {
-    const conversations = await this.state.storage.get('conversations') as Record<string, Conversation> || {};
-
-    if (!conversations[conversationId]) {
-      conversations[conversationId] = {
-        id: conversationId,
-        messages: [],
-        startTime: Date.now(),
-        lastUpdated: Date.now()
-      };
-    }
-
     const message: ConversationMessage = {
       role,
       content,
       timestamp: Date.now()
     };
 
-    conversations[conversationId].messages.push(message);
-    conversations[conversationId].lastUpdated = Date.now();
-
-    // Limit conversation history to last 50 messages to prevent memory bloat
-    if (conversations[conversationId].messages.length > 50) {
-      conversations[conversationId].messages = conversations[conversationId].messages.slice(-50);
-    }
-
-    await this.state.storage.put('conversations', conversations);
+    // The store trims each conversation to its most recent 50 messages
+    this.store.appendMessage(conversationId, message);
   }
 
   /**
    * Load conversation history
    */
   async loadConversation(conversationId: string = 'default'): Promise<ConversationMessage[]> {
-    const conversations = await this.state.storage.get('conversations') as Record<string, Conversation> || {};
-    return conversations[conversationId]?.messages || [];
+    return this.store.getMessages(conversationId);
   }
 
   /**
@@ -121,22 +190,27 @@ export class APIHandlers {
     }).join('\n') + '\n\n';
   }
 
+  /**
+   * Where a conversation is kept: on a household's ledger each member has their own,
+   * whatever id their client sends
+   */
+  private conversationKey(member: MemberContext, conversationId: string): string {
+    const memberId = householdMember(member);
+    return memberId ? `${memberId}:${conversationId}` : conversationId;
+  }
+
   /**
    * Clear conversation history
    */
   async clearConversation(conversationId: string = 'default'): Promise<void> {
-    const conversations = await this.state.storage.get('conversations') as Record<string, Conversation> || {};
-    if (conversations[conversationId]) {
-      delete conversations[conversationId];
-      await this.state.storage.put('conversations', conversations);
-    }
+    this.store.clearConversation(conversationId);
   }
 
   /**
    * Get all conversations
    */
   async getAllConversations(): Promise<Record<string, Conversation>> {
-    return await this.state.storage.get('conversations') as Record<string, Conversation> || {};
+    return this.store.listConversations();
   }
 
   // ========== FUNCTION CALLING DEFINITIONS ==========
@@ -145,6 +219,21 @@ export class APIHandlers {
    * Get available functions that AI can call
    */
   getAvailableFunctions(): FunctionDefinition[] {
+    const categories = this.store.listCategories();
+    const categoryIds = categories.map(c => c.id);
+    const expenseCategoryIds = categories.filter(c => c.kind === 'expense').map(c => c.id);
+    const tagNames = this.store.listTags().map(t => t.name);
+    const tagList = tagNames.length > 0 ? ` Existing tags: ${tagNames.join(', ')}` : '';
+    const splitLine = {
+      type: 'object',
+      properties: {
+        amount: { type: 'number', description: 'Amount of this line in dollars' },
+        category: { type: 'string', enum: categoryIds, description: 'Category of this line' },
+        note: { type: 'string', description: 'Optional note for this line' }
+      },
+      required: ['amount', 'category']
+    };
+
     return [
       {
         name: 'add_transaction',
@@ -162,31 +251,53 @@ export class APIHandlers {
             },
             category: {
               type: 'string',
-              enum: ['food', 'transportation', 'housing', 'entertainment', 'shopping', 'healthcare', 'other'],
-              description: 'The spending category'
+              enum: categoryIds,
+              description: 'The spending category (omit for transfers)'
             },
             type: {
               type: 'string',
-              enum: ['expense', 'income'],
-              description: 'Whether this is an expense or income'
+              enum: ['expense', 'income', 'transfer'],
+              description: 'Whether this is an expense, income, or a transfer between the user\'s own accounts (not counted as income or spending)'
             },
             date: {
               type: 'string',
               description: 'Transaction date in YYYY-MM-DD format (optional, defaults to today)'
+            },
+            account: {
+              type: 'string',
+              description: 'Account name, e.g. "Savings" or "Visa" (optional, defaults to Checking). For transfers, the account the money leaves'
+            },
+            to_account: {
+              type: 'string',
+              description: 'Transfers only: the account the money goes to (e.g. "Savings", or the credit card being paid)'
+            },
+            splits: {
+              type: 'array',
+              description: 'Optional: split one purchase across categories (e.g. a Costco receipt that is part food, part shopping). At least two lines whose amounts add up to the total; omit category when splitting',
+              items: splitLine
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: `Optional free-form labels that cut across categories, e.g. "vacation-2026" or "reimbursable" (lowercase, hyphens instead of spaces).${tagList}`
+            },
+            idempotency_key: {
+              type: 'string',
+              description: 'Optional unique id for this purchase; repeating a call with the same id returns the first result instead of adding the transaction again'
             }
           },
-          required: ['amount', 'description', 'category', 'type']
+          required: ['amount', 'description', 'type']
         }
       },
       {
         name: 'set_budget',
-        description: 'Set or update the monthly budget limit for a specific spending category',
+        description: 'Set or update the monthly budget limit for a spending category. A budget on a parent category covers its subcategories',
         parameters: {
           type: 'object',
           properties: {
             category: {
               type: 'string',
-              enum: ['food', 'transportation', 'housing', 'entertainment', 'shopping', 'healthcare', 'other'],
+              enum: expenseCategoryIds,
               description: 'The category to set the budget for'
             },
             amount: {
@@ -205,12 +316,24 @@ export class APIHandlers {
           properties: {
             category: {
               type: 'string',
-              enum: ['food', 'transportation', 'housing', 'entertainment', 'shopping', 'healthcare', 'other', 'all'],
+              enum: [...expenseCategoryIds, 'all'],
               description: 'The category to analyze, or "all" for all categories'
             },
             month: {
               type: 'string',
               description: 'Month name (e.g., "October", "November") or "current" for current month'
+            },
+            tag: {
+              type: 'string',
+              description: `Only count transactions with this tag (e.g. a trip or project); covers all time unless month is given.${tagList}`
+            },
+            merchant: {
+              type: 'string',
+              description: 'Only count spending at this merchant or store (e.g. "Costco"); also returns visit frequency and average ticket'
+            },
+            by_member: {
+              type: 'boolean',
+              description: 'Shared household ledgers only: also split the total by the member who recorded each transaction (e.g. "how much did I spend vs. my partner on dining")'
             }
           },
           required: []
@@ -227,16 +350,104 @@ export class APIHandlers {
       },
       {
         name: 'delete_transaction',
-        description: 'Delete a specific transaction by its description or recent transaction',
+        description: 'Move a specific transaction to the trash (restorable). If several transactions match, the candidates are returned so you can ask the user which one',
+        parameters: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Transaction id, if known (e.g. from a previous list of candidates)'
+            },
+            description: {
+              type: 'string',
+              description: 'Text in the description of the transaction to delete'
+            },
+            date: {
+              type: 'string',
+              description: 'Date of the transaction in YYYY-MM-DD format (optional, narrows the match)'
+            }
+          },
+          required: []
+        }
+      },
+      {
+        name: 'restore_transaction',
+        description: 'Undo a deletion by restoring a transaction from the trash. With no arguments, restores the most recently deleted one',
+        parameters: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Id of the trashed transaction'
+            },
+            description: {
+              type: 'string',
+              description: 'Text in the description of the trashed transaction'
+            }
+          },
+          required: []
+        }
+      },
+      {
+        name: 'update_transaction',
+        description: 'Edit an existing transaction (amount, description, category, type or date). Identify it by match_description and optionally match_date, then pass only the fields to change',
         parameters: {
           type: 'object',
           properties: {
+            id: {
+              type: 'string',
+              description: 'Transaction id, if known (e.g. from a previous list of candidates)'
+            },
+            match_description: {
+              type: 'string',
+              description: 'Text in the description of the transaction to edit (e.g., "lunch")'
+            },
+            match_date: {
+              type: 'string',
+              description: 'Date of the transaction to edit in YYYY-MM-DD format (optional, narrows the match)'
+            },
+            amount: {
+              type: 'number',
+              description: 'New amount'
+            },
             description: {
               type: 'string',
-              description: 'The description of the transaction to delete'
+              description: 'New description'
+            },
+            category: {
+              type: 'string',
+              enum: categoryIds,
+              description: 'New category'
+            },
+            type: {
+              type: 'string',
+              enum: ['income', 'expense'],
+              description: 'New transaction type'
+            },
+            date: {
+              type: 'string',
+              description: 'New date in YYYY-MM-DD format'
+            },
+            account: {
+              type: 'string',
+              description: 'Name of the account to move the transaction to'
+            },
+            to_account: {
+              type: 'string',
+              description: 'Transfers only: new destination account name'
+            },
+            splits: {
+              type: 'array',
+              description: 'Replace the split lines (amounts must add up to the total); pass an empty array to remove the split',
+              items: splitLine
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: `Replace the transaction's tags; pass an empty array to remove them.${tagList}`
             }
           },
-          required: ['description']
+          required: []
         }
       }
     ];
@@ -245,9 +456,10 @@ export class APIHandlers {
   // ========== FUNCTION CALL HANDLERS ==========
 
   /**
-   * Execute a function call requested by the AI
+   * Execute a function call requested by the AI. Changes are audited under `actor`;
+   * transactions are recorded as created by `member`.
    */
-  async executeFunction(functionCall: FunctionCall): Promise<FunctionResult> {
+  async executeFunction(functionCall: FunctionCall, actor: AuditActor = 'ai:default', member: MemberContext = NO_MEMBER, today?: string): Promise<FunctionResult> {
     const { name, arguments: argsStr } = functionCall;
 
     try {
@@ -255,19 +467,25 @@ export class APIHandlers {
 
       switch (name) {
         case 'add_transaction':
-          return await this.handleAddTransaction(args);
+          return await this.handleAddTransaction(args, actor, member, today);
 
         case 'set_budget':
-          return await this.handleSetBudget(args);
+          return await this.handleSetBudget(args, actor);
 
         case 'get_spending_summary':
-          return await this.handleGetSpendingSummary(args);
+          return await this.handleGetSpendingSummary(args, member);
 
         case 'get_budget_status':
-          return await this.handleGetBudgetStatus();
+          return await this.handleGetBudgetStatus(member);
 
         case 'delete_transaction':
-          return await this.handleDeleteTransaction(args);
+          return await this.handleDeleteTransaction(args, actor);
+
+        case 'update_transaction':
+          return await this.handleUpdateTransaction(args, actor);
+
+        case 'restore_transaction':
+          return await this.handleRestoreTransaction(args, actor);
 
         default:
           return {
@@ -287,52 +505,93 @@ export class APIHandlers {
   /**
    * Handler: Add transaction
    */
-  private async handleAddTransaction(args: any): Promise<FunctionResult> {
-    const { amount, description, category, type, date } = args;
+  private async handleAddTransaction(args: any, actor: AuditActor, member: MemberContext, today?: string): Promise<FunctionResult> {
+    const { idempotency_key, ...call } = args || {};
+    if (idempotency_key !== undefined && !isValidIdempotencyKey(idempotency_key)) {
+      return {
+        success: false,
+        message: `Invalid transaction: idempotency_key must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} printable characters`
+      };
+    }
 
-    const transactionDate = date || new Date().toISOString().slice(0, 10);
-    const transaction = {
-      id: crypto.randomUUID(),
-      amount: parseFloat(amount),
-      description,
-      category,
-      type,
-      date: transactionDate,
-      timestamp: new Date(transactionDate + 'T12:00:00').getTime()
+    // Keys are scoped to the conversation; hashing happens first, as the only real await before the insert
+    const idempotency = idempotency_key !== undefined
+      ? { key: `${actor}:${idempotency_key}`, fingerprint: await requestFingerprint(call) }
+      : null;
+    const previous = idempotency && this.store.getIdempotencyRecord(idempotency.key, Date.now() - IDEMPOTENCY_KEY_TTL_MS);
+    if (previous) {
+      return previous.fingerprint === idempotency!.fingerprint
+        ? previous.response as FunctionResult
+        : { success: false, message: `idempotency_key "${idempotency_key}" was already used for a different transaction` };
+    }
+
+    const { account, to_account, ...fields } = call;
+    if (account) fields.accountId = this.resolveAccountId(account);
+    if (to_account) fields.toAccountId = this.resolveAccountId(to_account);
+
+    const validation = this.validateNewTransaction(fields, {}, today);
+    if (!validation.valid) {
+      return {
+        success: false,
+        data: { errors: validation.errors },
+        message: `Invalid transaction: ${formatFieldErrors(validation.errors)}`
+      };
+    }
+
+    const transaction = this.withMerchant(createTransaction(validation.value), validation.value.merchant);
+    if (member.userId) transaction.createdBy = member.userId;
+    const { amount, description, category, type } = transaction;
+    const duplicate = this.possibleDuplicate(transaction);
+
+    const tagged = transaction.tags ? ` tagged ${transaction.tags.join(', ')}` : '';
+    const message = (type === 'transfer'
+      ? `Transferred $${amount} from ${this.store.getAccount(transaction.accountId)?.name} to ${this.store.getAccount(transaction.toAccountId!)?.name} ("${description}")`
+      : transaction.splits
+        ? `Added ${type} of $${amount} for "${description}" split across ${formatSplits(transaction.splits)}`
+        : `Added ${type} of $${amount} for "${description}" in ${category} category`) + tagged
+      + (duplicate ? `. Possible duplicate of "${duplicate.description}" ($${duplicate.amount} on ${duplicate.date})` : '');
+
+    const result: FunctionResult = {
+      success: true,
+      data: transaction,
+      message,
+      action: `${type}_added`,
+      ...(duplicate ? { possibleDuplicateOf: duplicate.id } : {})
     };
 
-    const transactions = await this.state.storage.get('transactions') as any[] || [];
-    transactions.push(transaction);
-    await this.state.storage.put('transactions', transactions);
+    await this.audited(actor, [{ entity: 'transaction', id: transaction.id }], () => this.state.storage.transactionSync(() => {
+      this.store.insertTransaction(transaction);
+      if (idempotency) this.recordIdempotentResult(idempotency, result);
+    }));
 
     // ========== RAG ENHANCEMENT ==========
     // Index transaction for semantic search (same as direct API endpoint)
     try {
-      const vectorDB = createVectorDB(this.env);
+      const vectorDB = this.vectorDB();
       await indexTransaction(transaction, this.env.AI, vectorDB);
     } catch (indexError) {
       console.log('Transaction indexing skipped:', indexError);
       // Don't fail the whole operation if indexing fails
     }
 
-    return {
-      success: true,
-      data: transaction,
-      message: `Added ${type} of $${amount} for "${description}" in ${category} category`,
-      action: `${type}_added`
-    };
+    return result;
   }
 
   /**
    * Handler: Set budget
    */
-  private async handleSetBudget(args: any): Promise<FunctionResult> {
-    const { category, amount } = args;
+  private async handleSetBudget(args: any, actor: AuditActor): Promise<FunctionResult> {
+    const validation = validateBudgetInput(args, this.store.listCategories());
+    if (!validation.valid) {
+      return {
+        success: false,
+        data: { errors: validation.errors },
+        message: `Invalid budget: ${formatFieldErrors(validation.errors)}`
+      };
+    }
+    const { category, amount } = validation.value;
 
-    const budgets = await this.state.storage.get('budgets') as Record<string, number> || {};
-    const oldBudget = budgets[category] || 0;
-    budgets[category] = parseFloat(amount);
-    await this.state.storage.put('budgets', budgets);
+    const oldBudget = await this.audited(actor, [{ entity: 'budget', id: category }], () => this.store.setBudget(category, amount));
 
     return {
       success: true,
@@ -344,15 +603,39 @@ export class APIHandlers {
   /**
    * Handler: Get spending summary
    */
-  private async handleGetSpendingSummary(args: any): Promise<FunctionResult> {
-    const { category, month } = args;
-    const transactions = await this.state.storage.get('transactions') as any[] || [];
-
-    let filtered = transactions.filter(t => t.type === 'expense');
+  private async handleGetSpendingSummary(args: any, member: MemberContext): Promise<FunctionResult> {
+    const { category, month, tag, merchant, by_member } = args;
+    const filter: TransactionFilter = { type: 'expense' };
 
     // Filter by category if specified
     if (category && category !== 'all') {
-      filtered = filtered.filter(t => t.category === category);
+      filter.category = category;
+    }
+
+    // Filter by tag if specified; an unknown tag is reported rather than silently matching nothing
+    if (tag) {
+      const tagName = normalizeTag(tag);
+      if (!tagName || !this.store.getTag(tagName)) {
+        const known = this.store.listTags().map(t => t.name);
+        return {
+          success: false,
+          message: `No tag named "${tag}"${known.length > 0 ? `. Existing tags: ${known.join(', ')}` : ''}`
+        };
+      }
+      filter.tags = [tagName];
+    }
+
+    // Filter by merchant if specified, matching any spelling of a registered merchant
+    let merchantRecord: Merchant | null = null;
+    if (merchant) {
+      merchantRecord = this.store.findMerchant(String(merchant));
+      if (!merchantRecord) {
+        return {
+          success: false,
+          message: `No merchant matching "${merchant}" has any transactions`
+        };
+      }
+      filter.merchantId = merchantRecord.id;
     }
 
     // Filter by month if specified
@@ -363,23 +646,17 @@ export class APIHandlers {
       };
       const targetMonth = monthMap[month.toLowerCase()];
       if (targetMonth !== undefined) {
-        const currentYear = new Date().getFullYear();
-        filtered = filtered.filter(t => {
-          if (!t.date) return false;
-          const [year, m] = t.date.split('-');
-          return parseInt(year) === currentYear && parseInt(m) - 1 === targetMonth;
-        });
+        filter.month = `${new Date().getFullYear()}-${String(targetMonth + 1).padStart(2, '0')}`;
       }
     }
 
-    const total = filtered.reduce((sum, t) => sum + t.amount, 0);
-    const count = filtered.length;
-
     // Get category breakdown
-    const breakdown: Record<string, number> = {};
-    filtered.forEach(t => {
-      breakdown[t.category] = (breakdown[t.category] || 0) + t.amount;
-    });
+    const breakdown = this.store.categoryTotals(filter);
+    const total = Object.values(breakdown).reduce((sum, amount) => sum + amount, 0);
+    const count = this.store.countTransactions(filter);
+    const byMember = by_member && member.members.length > 0
+      ? this.memberBreakdown(member, filter).map(m => `${describeMember(member, m.memberId)}: $${m.expenses.toFixed(2)} (${m.count})`).join(', ')
+      : '';
 
     return {
       success: true,
@@ -388,30 +665,28 @@ export class APIHandlers {
         count,
         category: category || 'all',
         month: month || 'all time',
+        ...(filter.tags ? { tag: filter.tags[0] } : {}),
+        ...(merchantRecord ? { merchant: merchantRecord.name, merchantStats: this.store.merchantStats(filter)[0] ?? null } : {}),
+        ...(byMember ? { memberBreakdown: this.memberBreakdown(member, filter) } : {}),
         breakdown,
-        transactions: filtered.slice(-5) // Last 5 transactions
+        transactions: this.store.listTransactions(filter, { newestFirst: true, limit: 5 }).reverse() // Last 5 transactions
       },
-      message: `Found ${count} transaction(s) totaling $${total.toFixed(2)}`
+      message: `Found ${count} transaction(s)${filter.tags ? ` tagged ${filter.tags[0]}` : ''}${merchantRecord ? ` at ${merchantRecord.name}` : ''} totaling $${total.toFixed(2)}`
+        + (byMember ? `. By member: ${byMember}` : '')
     };
   }
 
   /**
    * Handler: Get budget status
    */
-  private async handleGetBudgetStatus(): Promise<FunctionResult> {
-    const transactions = await this.state.storage.get('transactions') as any[] || [];
-    const budgets = await this.state.storage.get('budgets') as Record<string, number> || {};
+  private async handleGetBudgetStatus(member: MemberContext): Promise<FunctionResult> {
+    const budgets = this.store.getBudgets();
 
     // Calculate current month spending by category
     const now = new Date();
     const currentYearMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
 
-    const monthlySpending: Record<string, number> = {};
-    transactions
-      .filter(t => t.type === 'expense' && t.date && t.date.startsWith(currentYearMonth))
-      .forEach(t => {
-        monthlySpending[t.category] = (monthlySpending[t.category] || 0) + t.amount;
-      });
+    const monthlySpending = this.categorySpending({ type: 'expense', month: currentYearMonth });
 
     // Compare with budgets
     const status: Record<string, any> = {};
@@ -438,6 +713,16 @@ export class APIHandlers {
       }
     }
 
+    // On a household ledger, the asker's personal budgets count only what they recorded
+    const personal: Record<string, { budget: number; spent: number; remaining: number }> = {};
+    if (member.userId && member.members.length > 0) {
+      const ownSpending = this.categorySpending({ type: 'expense', month: currentYearMonth, createdBy: member.userId });
+      for (const [category, budget] of Object.entries(this.store.getPersonalBudgets(member.userId))) {
+        const spent = ownSpending[category] || 0;
+        personal[category] = { budget, spent, remaining: budget - spent };
+      }
+    }
+
     return {
       success: true,
       data: {
@@ -445,7 +730,8 @@ export class APIHandlers {
         overBudget,
         underBudget,
         totalBudget: Object.values(budgets).reduce((sum, b) => sum + b, 0),
-        totalSpent: Object.values(monthlySpending).reduce((sum, s) => sum + s, 0)
+        totalSpent: this.store.totalsByType({ month: currentYearMonth }).expense || 0,
+        ...(Object.keys(personal).length > 0 ? { personal } : {})
       },
       message: `Budget status: ${overBudget.length} over budget, ${underBudget.length} under budget`
     };
@@ -453,1410 +739,4297 @@ export class APIHandlers {
 
   /**
    * Handler: Delete transaction
+   * Moves exactly one transaction to the trash; ambiguous matches are returned as candidates.
    */
-  private async handleDeleteTransaction(args: any): Promise<FunctionResult> {
-    const { description } = args;
-    const transactions = await this.state.storage.get('transactions') as any[] || [];
+  private async handleDeleteTransaction(args: any, actor: AuditActor): Promise<FunctionResult> {
+    const { id, description, date } = args || {};
+    const lookup = this.locateTransaction(id, description, date);
+    if (!lookup.transaction) {
+      return lookup.failure;
+    }
 
-    // Find matching transaction (case-insensitive)
-    const index = transactions.findIndex(t =>
-      t.description.toLowerCase().includes(description.toLowerCase())
-    );
+    const deleted = await this.moveToTrash(lookup.transaction, actor);
+
+    return {
+      success: true,
+      data: deleted,
+      message: `Moved transaction to trash: ${deleted.description} ($${deleted.amount}) on ${deleted.date}. It can be restored for ${this.trashRetentionDays()} days`,
+      action: 'transaction_deleted'
+    };
+  }
 
-    if (index === -1) {
+  /**
+   * Handler: Restore transaction from the trash
+   */
+  private async handleRestoreTransaction(args: any, actor: AuditActor): Promise<FunctionResult> {
+    const { id, description } = args || {};
+    const trash = this.store.listTrash();
+    const match = id
+      ? trash.find(t => t.id === String(id))
+      : description
+        ? trash.find(t => t.description.toLowerCase().includes(String(description).toLowerCase()))
+        : trash[0];
+
+    if (!match) {
       return {
         success: false,
-        message: `No transaction found matching "${description}"`
+        message: description ? `No deleted transaction found matching "${description}"` : 'The trash is empty'
       };
     }
 
-    const deleted = transactions.splice(index, 1)[0];
-    await this.state.storage.put('transactions', transactions);
+    const restored = await this.restoreFromTrash(match.id, actor);
 
     return {
       success: true,
-      data: deleted,
-      message: `Deleted transaction: ${deleted.description} ($${deleted.amount})`
+      data: restored,
+      message: `Restored transaction: ${restored!.description} ($${restored!.amount}) on ${restored!.date}`,
+      action: 'transaction_restored'
     };
   }
 
-  async handleResetData(): Promise<Response> {
-    await this.state.storage.deleteAll();
-    // Note: ensureInitialized will be called from the main class
-    return new Response(JSON.stringify({ success: true, message: 'Data reset with new sample transactions' }), {
-      headers: { 'Content-Type': 'application/json' }
-    });
-  }
-
-  async getAIAdvice(request: Request): Promise<Response> {
-    try {
-      const body = await request.json() as { message: string; conversationId?: string };
-      const { message, conversationId = 'default' } = body;
+  /**
+   * Resolve the single transaction an AI action refers to, by id or by description (+ optional date).
+   * Never guesses: more than one match is reported back with the candidates.
+   */
+  private locateTransaction(
+    id: unknown,
+    description: unknown,
+    date: unknown
+  ): { transaction: Transaction; failure?: never } | { transaction?: never; failure: FunctionResult } {
+    if (id) {
+      const transaction = this.store.getTransaction(String(id));
+      return transaction
+        ? { transaction }
+        : { failure: { success: false, message: `No transaction found with id ${id}` } };
+    }
 
-      // Save user message to conversation history
-      await this.saveMessage('user', message, conversationId);
+    if (!description) {
+      return { failure: { success: false, message: 'Please say which transaction you mean (description or date)' } };
+    }
 
-      // Get current financial data to provide context to AI
-      const transactions = await this.state.storage.get('transactions') as any[] || [];
-      
-      // Calculate totals
-      const totalIncome = transactions
-        .filter(t => t.type === 'income')
-        .reduce((sum, t) => sum + t.amount, 0);
-      
-      const totalExpenses = transactions
-        .filter(t => t.type === 'expense')
-        .reduce((sum, t) => sum + t.amount, 0);
-      
-      // Category breakdown
-      const categoryBreakdown: { [key: string]: number } = {};
-      transactions
-        .filter(t => t.type === 'expense')
-        .forEach(t => {
-          categoryBreakdown[t.category] = (categoryBreakdown[t.category] || 0) + t.amount;
-        });
+    const matches = this.store.findTransactionsByDescription(
+      String(description),
+      isValidISODate(date) ? { from: date, to: date } : {}
+    );
 
-      // Realistic checking account: start with a base balance + net of all transactions
-      const STARTING_BALANCE = 4250.00;
-      const balance = STARTING_BALANCE + (totalIncome - totalExpenses);
+    if (matches.length === 0) {
+      return { failure: { success: false, message: `No transaction found matching "${description}"` } };
+    }
 
-      // ========== HYBRID APPROACH: Use deterministic code for precise calculations ==========
-      // For questions requiring exact calculations, use regex + direct computation
-      // For general advice, use LLM
-      
-      const financialContext = {
-        balance,
-        totalIncome,
-        totalExpenses,
-        categoryBreakdown,
-        transactionCount: transactions.length,
-        recentTransactions: transactions.slice(-5)
+    if (matches.length > 1) {
+      const candidates = matches.slice(-5).reverse();
+      return {
+        failure: {
+          success: false,
+          data: { candidates },
+          message: `Found ${matches.length} transactions matching "${description}". Ask the user which one they mean: ${candidates.map(t => `${t.date} ${t.description} $${t.amount} (id ${t.id})`).join('; ')}`
+        }
       };
-      
-      // Check for specific financial questions that need precise answers
-      const dayQuestion = message.match(/which day.*spend.*(most|least|highest|lowest)|what day.*(most|least).*(spending|money)|(highest|lowest).*(spending|money).*day|(most|least).*(money|spending).*day/i);
+    }
 
-      // Check for specific date queries (e.g., "how much did I spend on October 7th 2025" or "on 10/7/2025")
-      const specificDateQuestion = message.match(/how much.*(did|do|have).*spend.*(on|in)\s+([a-zA-Z]+\s+\d{1,2}(?:st|nd|rd|th)?(?:\s+\d{4})?|\d{1,2}\/\d{1,2}(?:\/\d{2,4})?)/i);
+    return { transaction: matches[0] };
+  }
 
-      // Check for month-level queries (e.g., "how much did I spend in October")
-      const monthQuestion = message.match(/how much.*(did|do|have).*spend.*(in|during|for)\s+.*?(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)/i);
+  /**
+   * Handler: Update transaction
+   * Locates the transaction by id or description (+ optional date) and applies the remaining fields.
+   * Ambiguous matches are returned as candidates instead of guessing.
+   */
+  private async handleUpdateTransaction(args: any, actor: AuditActor): Promise<FunctionResult> {
+    const { id, match_description, match_date, account, to_account, ...changes } = args || {};
+    if (account) changes.accountId = this.resolveAccountId(account);
+    if (to_account) changes.toAccountId = this.resolveAccountId(to_account);
 
-      const balanceQuestion = message.match(/what.*my.*balance|how much.*have|current.*balance/i);
+    const validation = validateTransactionPatch(changes, this.transactionValidationOptions());
+    if (!validation.valid) {
+      return {
+        success: false,
+        data: { errors: validation.errors },
+        message: `Invalid update: ${formatFieldErrors(validation.errors)}`
+      };
+    }
 
-      // Budget proximity question (e.g., "Am I close to my budget?", "Which budget am I closest to?")
-      const budgetProximityQuestion = message.match(/am I close.*budget|close.*to.*budget|closest.*budget|near.*budget/i);
+    const lookup = this.locateTransaction(id, match_description, match_date);
+    if (!lookup.transaction) {
+      return lookup.failure;
+    }
+    const target = lookup.transaction;
 
-      // Largest/highest budget question (e.g., "What's my largest budget?", "Which category has the highest budget?")
-      const largestBudgetQuestion = message.match(/largest.*budget|highest.*budget|biggest.*budget|what.*budget.*largest|which.*budget.*highest|which.*category.*largest.*budget/i);
+    const crossFieldErrors = this.crossFieldErrors(applyTransactionPatch(target, validation.value));
+    if (crossFieldErrors.length > 0) {
+      return {
+        success: false,
+        data: { errors: crossFieldErrors },
+        message: `Invalid update: ${formatFieldErrors(crossFieldErrors)}`
+      };
+    }
 
-      // Category question - but ONLY if it's not a date
-      // This regex should NOT match month names or dates like "10/7/2025"
-      const categoryQuestionMatch = message.match(/how much.*(did|do|have).*spend.*on\s+(\w+)/i);
-      const categoryQuestion = categoryQuestionMatch
-        && !specificDateQuestion  // Don't treat dates as categories
-        && !message.match(/on\s+(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)/i)  // Don't treat month names as categories
-        && !message.match(/on\s+\d{1,2}\/\d{1,2}/i)  // Don't treat MM/DD as categories
-        ? categoryQuestionMatch
-        : null;
-      
-      // Handle month-level questions (e.g., "how much did I spend in October?")
-      if (monthQuestion) {
-        const monthName = (monthQuestion[3] as string).toLowerCase();
-        const monthMap: Record<string, string> = {
-          'january': '01', 'jan': '01',
-          'february': '02', 'feb': '02',
-          'march': '03', 'mar': '03',
-          'april': '04', 'apr': '04',
-          'may': '05',
-          'june': '06', 'jun': '06',
-          'july': '07', 'jul': '07',
-          'august': '08', 'aug': '08',
-          'september': '09', 'sep': '09', 'sept': '09',
-          'october': '10', 'oct': '10',
-          'november': '11', 'nov': '11',
-          'december': '12', 'dec': '12'
-        };
+    const updated = await this.applyTransactionUpdate(target, validation.value, actor);
 
-        const monthNum = monthMap[monthName];
-        const year = message.match(/\d{4}/) ? message.match(/\d{4}/)![0] : '2025';
-        const monthKey = `${year}-${monthNum}`;
+    return {
+      success: true,
+      data: { before: target, after: updated },
+      message: `Updated transaction "${updated.description}" on ${updated.date}: ${Object.keys(validation.value).map(field => `${field} → ${this.describeField(updated, field as keyof TransactionPatch)}`).join(', ')}`,
+      action: 'transaction_updated'
+    };
+  }
 
-        // Filter transactions for this month
-        const monthTransactions = transactions.filter(t =>
-          t.type === 'expense' && t.date && t.date.startsWith(monthKey)
-        );
+  /**
+   * A transaction field as shown in an update summary
+   */
+  private describeField(transaction: Transaction, field: keyof TransactionPatch): string {
+    if (field === 'splits') return formatSplits(transaction.splits);
+    if (field === 'tags') return transaction.tags ? transaction.tags.join(', ') : 'none';
+    if (field === 'merchant') return this.store.getMerchant(transaction.merchantId ?? '')?.name ?? 'none';
+    return String(transaction[field]);
+  }
 
-        const totalSpent = monthTransactions.reduce((sum, t) => sum + t.amount, 0);
-        const monthNameFormatted = monthName.charAt(0).toUpperCase() + monthName.slice(1);
+  /**
+   * Persist a validated patch and re-index the transaction so semantic search stays current
+   */
+  private async applyTransactionUpdate(transaction: Transaction, patch: TransactionPatch, actor: AuditActor): Promise<Transaction> {
+    let updated = applyTransactionPatch(transaction, patch);
+    if (patch.merchant || patch.description || patch.type) {
+      updated = this.withMerchant(updated, patch.merchant);
+    }
+    await this.audited(actor, [{ entity: 'transaction', id: updated.id }], () => this.store.updateTransaction(updated));
 
-        if (monthTransactions.length > 0) {
-          const categoryBreakdown: Record<string, number> = {};
-          monthTransactions.forEach(t => {
-            categoryBreakdown[t.category] = (categoryBreakdown[t.category] || 0) + t.amount;
-          });
+    try {
+      const vectorDB = this.vectorDB();
+      await indexTransaction(updated, this.env.AI, vectorDB);
+    } catch (indexError) {
+      console.log('Transaction re-indexing skipped:', indexError);
+    }
 
-          const topCategories = Object.entries(categoryBreakdown)
-            .sort(([,a], [,b]) => b - a)
-            .slice(0, 3)
-            .map(([cat, amt]) => `${cat} ($${amt.toFixed(2)})`)
-            .join(', ');
+    return updated;
+  }
 
-          const responseText = `In ${monthNameFormatted} ${year}, you spent $${totalSpent.toFixed(2)} across ${monthTransactions.length} transaction${monthTransactions.length > 1 ? 's' : ''}. Top categories: ${topCategories}.`;
+  /**
+   * Link a transaction to the merchant named by the raw payee string (or else its
+   * description), registering a new merchant if none matches. Transfers have no merchant.
+   */
+  private withMerchant(transaction: Transaction, rawMerchant?: string): Transaction {
+    const { merchantId, ...rest } = transaction;
+    if (transaction.type === 'transfer') return rest;
+    const merchant = this.store.merchantFor(rawMerchant || transaction.description);
+    return merchant ? { ...rest, merchantId: merchant.id } : rest;
+  }
 
-          await this.saveMessage('assistant', responseText, conversationId);
-          return new Response(JSON.stringify({ response: responseText }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        } else {
-          const responseText = `You didn't record any spending in ${monthNameFormatted} ${year}.`;
-          await this.saveMessage('assistant', responseText, conversationId);
-          return new Response(JSON.stringify({ response: responseText }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
-      }
+  /**
+   * A validated new transaction as it is stored: linked to its merchant and to the
+   * household member who recorded it
+   */
+  private newTransaction(value: TransactionInput & { accountId: string; date: string }, createdBy: string | null): Transaction {
+    const transaction = this.withMerchant(createTransaction(value), value.merchant);
+    if (createdBy) transaction.createdBy = createdBy;
+    return transaction;
+  }
 
-      // Handle specific date questions (e.g., "how much did I spend on October 7th 2025?")
-      if (specificDateQuestion) {
-        const dateStr = specificDateQuestion[3]; // Extract the date string
-        const parsedDate = this.extractDateFromMessage(message);
+  // ========== ACCOUNTS ==========
 
-        // Filter transactions for this specific date
-        const dateKey = parsedDate.toISOString().split('T')[0]; // YYYY-MM-DD format
-        const dateTransactions = transactions.filter(t =>
-          t.type === 'expense' && t.date === dateKey
-        );
+  /**
+   * Transactions may only reference existing accounts and active categories
+   */
+  private transactionValidationOptions() {
+    return {
+      accountIds: this.store.listAccounts().map(a => a.id),
+      categories: this.store.listCategories().map(c => c.id)
+    };
+  }
 
-        if (dateTransactions.length > 0) {
-          const totalSpent = dateTransactions.reduce((sum, t) => sum + t.amount, 0);
-          const categoryBreakdown: Record<string, number> = {};
+  /**
+   * Map an account id or name (case-insensitive) to its id; unknown references pass
+   * through unchanged so validation reports them
+   */
+  private resolveAccountId(reference: unknown): string {
+    const text = String(reference).trim();
+    const match = this.store.listAccounts().find(a => a.id === text || a.name.toLowerCase() === text.toLowerCase());
+    return match ? match.id : text;
+  }
 
-          dateTransactions.forEach(t => {
-            categoryBreakdown[t.category] = (categoryBreakdown[t.category] || 0) + t.amount;
-          });
+  /**
+   * Rules spanning several fields, checked on the final transaction: transfer shape,
+   * split lines adding up to the amount, and no dates before an account's opening
+   * date (those transactions would never reach its balance)
+   */
+  private crossFieldErrors(transaction: TransactionInput & { accountId: string; date: string }, pendingAccounts: readonly Account[] = []): FieldError[] {
+    const errors = [...transferErrors(transaction), ...splitErrors(transaction)];
+    for (const accountId of [transaction.accountId, transaction.toAccountId]) {
+      const account = accountId ? this.store.getAccount(accountId) ?? pendingAccounts.find(a => a.id === accountId) : null;
+      if (account && transaction.date < account.openingDate) {
+        errors.push({ field: 'date', message: `is before the ${account.name} account's opening date (${account.openingDate})` });
+      }
+    }
+    return errors;
+  }
 
-          const topCategory = Object.entries(categoryBreakdown)
-            .sort(([,a], [,b]) => b - a)[0];
+  /**
+   * Validate a new transaction and resolve its account, defaulting to checking, and its
+   * date, defaulting to `today` on the client's calendar (see TIMEZONE_HEADER), else to
+   * the UTC date. `pending` holds the accounts and categories an import is about to create.
+   */
+  private validateNewTransaction(
+    input: unknown,
+    pending: { accounts?: Account[]; categories?: Category[] } = {},
+    today: string = new Date().toISOString().slice(0, 10)
+  ): ValidationResult<TransactionInput & { accountId: string; date: string }> {
+    const options = this.transactionValidationOptions();
+    options.accountIds.push(...(pending.accounts ?? []).map(a => a.id));
+    options.categories.push(...(pending.categories ?? []).map(c => c.id));
+    const validation = validateTransactionInput(input, options);
+    if (!validation.valid) return validation;
+
+    const value = { ...validation.value, accountId: validation.value.accountId || DEFAULT_ACCOUNT_ID, date: validation.value.date || today };
+    const errors = this.crossFieldErrors(value, pending.accounts);
+    return errors.length > 0 ? { valid: false, errors } : { valid: true, value };
+  }
 
-          const responseText = `On ${parsedDate.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}, you spent $${totalSpent.toFixed(2)} across ${dateTransactions.length} transaction${dateTransactions.length > 1 ? 's' : ''}. ${topCategory ? `Most of it went to ${topCategory[0]} ($${topCategory[1].toFixed(2)}).` : ''}`;
+  // ========== HOUSEHOLD MEMBERS ==========
 
-          await this.saveMessage('assistant', responseText, conversationId);
-          return new Response(JSON.stringify({ response: responseText }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        } else {
-          const responseText = `You didn't record any spending on ${parsedDate.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}. Your total spending across all dates is $${financialContext.totalExpenses.toFixed(2)}.`;
+  /**
+   * Totals per member who recorded the matching transactions, on a household ledger (empty
+   * on a personal one). Current members with nothing recorded are listed with zeros.
+   */
+  private memberBreakdown(member: MemberContext, filter: TransactionFilter = {}): (MemberTotals & { name: string })[] {
+    if (member.members.length === 0) return [];
+    const totals = this.store.memberTotals(filter);
+    for (const { userId } of member.members) {
+      if (!totals.some(t => t.memberId === userId)) totals.push({ memberId: userId, income: 0, expenses: 0, count: 0 });
+    }
+    return totals.map(t => {
+      const known = member.members.find(m => m.userId === t.memberId);
+      return { ...t, name: known ? memberName(known) : t.memberId ?? 'unrecorded' };
+    });
+  }
 
-          await this.saveMessage('assistant', responseText, conversationId);
-          return new Response(JSON.stringify({ response: responseText }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
-      }
+  /**
+   * A direct answer to "how much did I spend vs. my partner (on dining)?" on a household
+   * ledger, or null when the message is not such a question. Covers the category the
+   * question names (all spending otherwise), this month or all time.
+   */
+  private compareMemberSpending(member: MemberContext, message: string): string | null {
+    if (member.members.length < 2) return null;
+    const comparing = /\b(vs\.?|versus|compared (to|with)|than|who spen[dt]|each of us|partner|spouse|wife|husband)\b/i.test(message)
+      || member.members.some(m => {
+        const name = memberName(m).replace(/\W/g, '');
+        return m.userId !== member.userId && name.length > 0 && new RegExp(`\\b${name}\\b`, 'i').test(message);
+      });
+    if (!comparing || !/spen[dt]|cost|paid|pay/i.test(message)) return null;
 
-      // Handle day-specific questions with DETERMINISTIC calculation
-      if (dayQuestion) {
-        const isLeast = /least|lowest/.test(message.toLowerCase());
-        const monthMatch = message.match(/(?:in|of)\s+(january|february|march|april|may|june|july|august|september|october|november|december)/i);
-        const dailySpending = this.calculateDailySpending(transactions, monthMatch ? monthMatch[1] : null);
-        
-        if (dailySpending.found) {
-          const day = isLeast ? dailySpending.lowestDay : dailySpending.highestDay;
-          const superlative = isLeast ? 'lowest' : 'highest';
-          const responseText = `${day.date} was your ${superlative} spending day${monthMatch ? ` in ${monthMatch[1]}` : ''} with $${day.amount.toFixed(2)} spent across ${day.transactionCount} transaction${day.transactionCount > 1 ? 's' : ''}. ${day.topCategory ? `Most of it went to ${day.topCategory.category} ($${day.topCategory.amount.toFixed(2)}).` : ''}`;
+    const category = findCategoryInMessage(message, this.store.listCategories());
+    const thisMonth = /this month/i.test(message);
+    const filter: TransactionFilter = { type: 'expense', ...(category ? { category: category.id } : {}), ...(thisMonth ? { month: this.currentYearMonth() } : {}) };
+    const rows = this.memberBreakdown(member, filter);
 
-          // Save assistant response
-          await this.saveMessage('assistant', responseText, conversationId);
+    const scope = `${category ? ` on ${category.name}` : ''}${thisMonth ? ' this month' : ''}`;
+    const parts = rows.map(m => {
+      const who = describeMember(member, m.memberId);
+      return `${who === 'you' ? 'You' : who} spent $${m.expenses.toFixed(2)} (${m.count} transaction${m.count === 1 ? '' : 's'})`;
+    });
+    const total = rows.reduce((sum, m) => sum + m.expenses, 0);
+    let text = `Spending${scope} by member: ${parts.join('; ')}. Together that's $${total.toFixed(2)}.`;
+
+    const you = rows.find(m => m.memberId === member.userId);
+    const others = rows.filter(m => m.memberId !== member.userId && m.memberId !== null);
+    if (you && others.length === 1) {
+      const difference = you.expenses - others[0].expenses;
+      const name = describeMember(member, others[0].memberId);
+      text += Math.abs(difference) < 0.005
+        ? ` You and ${name} spent the same.`
+        : ` You spent $${Math.abs(difference).toFixed(2)} ${difference > 0 ? 'more' : 'less'} than ${name}.`;
+    }
+    return text;
+  }
 
-          return new Response(JSON.stringify({
-            response: responseText
-          }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        } else {
-          const responseText = `I couldn't find daily spending data${monthMatch ? ` for ${monthMatch[1]}` : ''}. Your transactions show total spending of $${financialContext.totalExpenses.toFixed(2)}.`;
+  // ========== IDEMPOTENCY AND DUPLICATES ==========
 
-          // Save assistant response
-          await this.saveMessage('assistant', responseText, conversationId);
+  private recordIdempotentResult(idempotency: { key: string; fingerprint: string }, response: unknown): void {
+    const now = Date.now();
+    this.store.saveIdempotencyRecord({ ...idempotency, response, createdAt: now }, now - IDEMPOTENCY_KEY_TTL_MS);
+  }
 
-          return new Response(JSON.stringify({
-            response: responseText
-          }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
-      }
-      
-      // Handle monthly spending questions with DETERMINISTIC calculation
-      if (monthQuestion) {
-        const monthName = (monthQuestion[3] as string).toLowerCase();
-        const monthlySpending = this.calculateMonthlySpending(transactions, monthName);
+  /**
+   * The existing transaction a new one most likely repeats: same type and amount,
+   * a similar description, dated within DUPLICATE_DATE_WINDOW_DAYS
+   */
+  private possibleDuplicate(transaction: Transaction): Transaction | null {
+    const candidates = this.store.listTransactions({
+      type: transaction.type,
+      minAmount: transaction.amount,
+      maxAmount: transaction.amount,
+      from: shiftDate(transaction.date, -DUPLICATE_DATE_WINDOW_DAYS),
+      to: shiftDate(transaction.date, DUPLICATE_DATE_WINDOW_DAYS)
+    });
+    return findPossibleDuplicate(transaction, candidates);
+  }
 
-        if (monthlySpending.found) {
-          const responseText = `In ${monthlySpending.monthName}, you spent $${monthlySpending.amount.toFixed(2)} across ${monthlySpending.transactionCount} transactions. ${monthlySpending.topCategory ? `Your highest spending was in ${monthlySpending.topCategory.category} ($${monthlySpending.topCategory.amount.toFixed(2)}).` : ''}`;
-          await this.saveMessage('assistant', responseText, conversationId);
-          return new Response(JSON.stringify({
-            response: responseText
-          }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        } else {
-          const responseText = `I don't have spending data for ${monthName}. Your available data shows spending in the current month ($${financialContext.totalExpenses.toFixed(2)}).`;
-          await this.saveMessage('assistant', responseText, conversationId);
-          return new Response(JSON.stringify({
-            response: responseText
-          }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
-      }
+  /**
+   * Pairs of live transactions that may be the same purchase entered twice, newest first.
+   * Optional `from`/`to` (YYYY-MM-DD) limit the dates searched.
+   */
+  async getDuplicates(request: Request): Promise<Response> {
+    const params = new URL(request.url).searchParams;
+    const errors: FieldError[] = [];
+    const range: { from?: string; to?: string } = {};
+    for (const name of ['from', 'to'] as const) {
+      const value = params.get(name);
+      if (!value) continue;
+      if (isValidISODate(value)) range[name] = value;
+      else errors.push({ field: name, message: 'must be a valid date in YYYY-MM-DD format' });
+    }
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Invalid query: ${formatFieldErrors(errors)}`,
+        errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
-      // Handle budget proximity questions with DETERMINISTIC calculation
-      if (budgetProximityQuestion) {
-        const budgets = await this.state.storage.get('budgets') as Record<string, number> || {};
+    const pairs = this.store.sameAmountPairs(DUPLICATE_DATE_WINDOW_DAYS, range)
+      .map(ids => ids.map(id => this.store.getTransaction(id)!))
+      .filter(([a, b]) => isPossibleDuplicate(a, b));
 
-        if (Object.keys(budgets).length === 0) {
-          const responseText = `You haven't set any budgets yet. Use the budget manager to set monthly spending limits for different categories.`;
-          await this.saveMessage('assistant', responseText, conversationId);
-          return new Response(JSON.stringify({ response: responseText }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
+    return new Response(JSON.stringify({ success: true, pairs, count: pairs.length }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
 
-        // Calculate current month spending by category
-        const now = new Date();
-        const currentMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-        const monthTransactions = transactions.filter(t =>
-          t.type === 'expense' && t.date && t.date.startsWith(currentMonth)
-        );
+  /**
+   * Mark two transactions as reviewed and distinct, so they are no longer reported as duplicates.
+   * Body: { ids: [id, otherId] }
+   */
+  async dismissDuplicate(request: Request): Promise<Response> {
+    const body = await request.json().catch(() => null) as { ids?: unknown } | null;
+    const ids = body?.ids;
+    if (!Array.isArray(ids) || ids.length !== 2 || !ids.every(id => typeof id === 'string' && id) || ids[0] === ids[1]) {
+      const errors: FieldError[] = [{ field: 'ids', message: 'must be two different transaction ids' }];
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Invalid request: ${formatFieldErrors(errors)}`,
+        errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
-        const monthlySpending: Record<string, number> = {};
-        monthTransactions.forEach(t => {
-          monthlySpending[t.category] = (monthlySpending[t.category] || 0) + t.amount;
-        });
+    const missing = (ids as string[]).find(id => !this.store.getTransaction(id));
+    if (missing) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Transaction ${missing} not found`
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
-        // Calculate budget usage percentages
-        const budgetStatus = Object.entries(budgets).map(([category, budgetAmount]) => {
-          const spent = monthlySpending[category] || 0;
-          const percentage = (spent / budgetAmount) * 100;
-          return { category, budgetAmount, spent, percentage };
-        }).sort((a, b) => b.percentage - a.percentage);
+    this.store.dismissDuplicatePair(duplicatePairIds(ids[0], ids[1]), Date.now());
+    return new Response(JSON.stringify({ success: true, message: 'Marked as not duplicates' }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
 
-        const closest = budgetStatus[0];
+  // ========== TRASH ==========
 
-        if (closest.percentage >= 100) {
-          const overBudget = budgetStatus.filter(b => b.percentage >= 100);
-          const responseText = `You're over budget in ${overBudget.length} categor${overBudget.length > 1 ? 'ies' : 'y'}: ${overBudget.map(b => `${b.category} (${b.percentage.toFixed(0)}% used, $${b.spent.toFixed(2)}/$${b.budgetAmount.toFixed(2)})`).join(', ')}.`;
-          await this.saveMessage('assistant', responseText, conversationId);
-          return new Response(JSON.stringify({ response: responseText }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        } else {
-          const responseText = `You're closest to your ${closest.category} budget at ${closest.percentage.toFixed(1)}% used ($${closest.spent.toFixed(2)} of $${closest.budgetAmount.toFixed(2)}). ${budgetStatus.filter(b => b.percentage >= 80).length > 1 ? `Also watch: ${budgetStatus.filter(b => b.percentage >= 80 && b.category !== closest.category).map(b => `${b.category} (${b.percentage.toFixed(0)}%)`).join(', ')}.` : ''}`;
-          await this.saveMessage('assistant', responseText, conversationId);
-          return new Response(JSON.stringify({ response: responseText }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
-      }
+  private trashRetentionDays(): number {
+    const days = Number(this.env.TRASH_RETENTION_DAYS);
+    return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  }
 
-      // Handle largest/highest budget questions with DETERMINISTIC calculation
-      if (largestBudgetQuestion) {
-        const budgets = await this.state.storage.get('budgets') as Record<string, number> || {};
+  /**
+   * Soft-delete a transaction, drop it from semantic search and schedule its purge
+   */
+  private async moveToTrash(transaction: Transaction, actor: AuditActor): Promise<TrashedTransaction> {
+    const trashed = await this.audited(actor, [{ entity: 'transaction', id: transaction.id }], () => this.store.trashTransaction(transaction.id)!);
 
-        if (Object.keys(budgets).length === 0) {
-          const responseText = `You haven't set any budgets yet. Use the budget manager to set monthly spending limits for different categories.`;
-          await this.saveMessage('assistant', responseText, conversationId);
-          return new Response(JSON.stringify({ response: responseText }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
+    try {
+      const vectorDB = this.vectorDB();
+      await unindexTransaction(transaction.id, vectorDB);
+    } catch (indexError) {
+      console.log('Transaction unindexing skipped:', indexError);
+    }
 
-        // Find the largest budget
-        let largestCategory = '';
-        let largestAmount = 0;
+    await this.scheduleCleanup();
+    return trashed;
+  }
 
-        Object.entries(budgets).forEach(([category, amount]) => {
-          if (amount > largestAmount) {
-            largestAmount = amount;
-            largestCategory = category;
-          }
-        });
+  private async restoreFromTrash(id: string, actor: AuditActor): Promise<Transaction | null> {
+    const restored = await this.audited(actor, [{ entity: 'transaction', id }], () => this.store.restoreTransaction(id));
+    if (!restored) return null;
 
-        const responseText = `Your largest budget is ${largestCategory} at $${largestAmount.toFixed(2)}/month.`;
-        await this.saveMessage('assistant', responseText, conversationId);
-        return new Response(JSON.stringify({ response: responseText }), {
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
+    try {
+      const vectorDB = this.vectorDB();
+      await indexTransaction(restored, this.env.AI, vectorDB);
+    } catch (indexError) {
+      console.log('Transaction re-indexing skipped:', indexError);
+    }
 
-      // Handle balance questions with DETERMINISTIC calculation
-      if (balanceQuestion) {
-        const responseText = `Your current balance is $${financialContext.balance.toFixed(2)}. You have $${financialContext.totalIncome.toFixed(2)} in total income and $${financialContext.totalExpenses.toFixed(2)} in expenses across ${financialContext.transactionCount} transactions.`;
-        await this.saveMessage('assistant', responseText, conversationId);
-        return new Response(JSON.stringify({
-          response: responseText
-        }), {
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
+    return restored;
+  }
 
-      // Handle category questions with DETERMINISTIC calculation
-      if (categoryQuestion) {
-        const category = categoryQuestion[2].toLowerCase();
-        const categoryAmount = financialContext.categoryBreakdown[category] || 0;
+  /**
+   * Point the Durable Object alarm at the moment the oldest trashed transaction
+   * or unlinked scanned receipt expires
+   */
+  async scheduleCleanup(): Promise<void> {
+    const oldestTrashed = this.store.oldestTrashedAt();
+    const oldestPending = this.store.oldestPendingAttachmentAt();
+    const due = Math.min(
+      oldestTrashed === null ? Infinity : oldestTrashed + this.trashRetentionDays() * DAY_MS,
+      oldestPending === null ? Infinity : oldestPending + PENDING_ATTACHMENT_TTL_MS
+    );
+    if (due === Infinity) return;
 
-        if (categoryAmount > 0) {
-          const percentage = ((categoryAmount / financialContext.totalExpenses) * 100).toFixed(1);
-          const responseText = `You've spent $${categoryAmount.toFixed(2)} on ${category}, which is ${percentage}% of your total expenses ($${financialContext.totalExpenses.toFixed(2)}).`;
-          await this.saveMessage('assistant', responseText, conversationId);
-          return new Response(JSON.stringify({
-            response: responseText
-          }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        } else {
-          const responseText = `You haven't recorded any spending in the ${category} category yet. Your current spending categories are: ${Object.keys(financialContext.categoryBreakdown).join(', ')}.`;
-          await this.saveMessage('assistant', responseText, conversationId);
-          return new Response(JSON.stringify({
-            response: responseText
-          }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
-      }
+    const current = await this.state.storage.getAlarm();
+    if (current === null || current > due) {
+      await this.state.storage.setAlarm(due);
+    }
+  }
 
-      // LEGACY TRANSACTION PARSER DISABLED - Function calling now handles all actions
-      // The old parseTransactionIntent was conflicting with function calling
-      // Now we rely entirely on the LLM with function definitions to handle actions
+  /**
+   * Permanently delete trashed transactions that have reached the end of the retention
+   * period, with their attachments, and scanned receipts that never became a transaction
+   * (run from the alarm, which scheduleCleanup sets for exactly that moment). Their audit
+   * entries keep what happened but lose the snapshots, so nothing purged stays readable.
+   */
+  async purgeExpiredTrash(now: number = Date.now()): Promise<number> {
+    const cutoff = now - this.trashRetentionDays() * DAY_MS;
+    const expiring = this.store.listTrash().filter(t => t.deletedAt <= cutoff).map(t => t.id);
+    const expired = [
+      ...this.store.listAttachments(expiring),
+      ...this.store.listPendingAttachments(now - PENDING_ATTACHMENT_TTL_MS)
+    ];
 
-      // ========== PURE LLM APPROACH ==========
-      // Let the AI figure out what the user is asking and compute the answer
+    // The retention period is the rule behind these deletions
+    const refs: AuditRef[] = [
+      ...expiring.map(id => ({ entity: 'transaction' as const, id })),
+      ...expired.map(a => ({ entity: 'attachment' as const, id: a.id }))
+    ];
+    const purged = await this.audited('rule', refs, async () => {
+      const ids = this.store.purgeTrash(cutoff);
+      await this.removeAttachments(expired);
+      return ids;
+    });
+    this.store.redactAudit(refs);
+    if (purged.length > 0) {
+      console.log(`Purged ${purged.length} transaction(s) from trash`);
+    }
+    if (expired.length > 0) {
+      console.log(`Purged ${expired.length} attachment(s)`);
+    }
 
-      // Prepare detailed financial data for the LLM
-      const monthlyData = this.calculateMonthlyBreakdownForAllMonths(transactions);
-      const dailySpendingData = this.calculateDailySpendingSummary(transactions); // Pre-calculate daily spending
-      const categoryData = Object.entries(categoryBreakdown)
-        .sort(([,a], [,b]) => b - a)
-        .map(([cat, amt]) => `${cat}: $${amt.toFixed(2)}`)
-        .join(', ');
+    await this.scheduleCleanup();
+    return purged.length;
+  }
 
-      // Load budgets
-      const budgets = await this.state.storage.get('budgets') as Record<string, number> || {};
-      const budgetData = Object.entries(budgets)
-        .map(([cat, amt]) => `${cat}: $${amt.toFixed(2)}/month`)
-        .join(', ');
+  /**
+   * Delete everything this user has stored. Irreversible, so the caller must also pass
+   * ?confirm=delete-all-data (the Worker already requires an admin-scoped credential).
+   */
+  async handleResetData(request: Request): Promise<Response> {
+    const confirm = new URL(request.url).searchParams.get('confirm');
+    if (confirm !== RESET_CONFIRMATION) {
+      return new Response(JSON.stringify({
+        success: false,
+        errors: [{ field: 'confirm', message: `must be "${RESET_CONFIRMATION}" to delete all data` }]
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
-      // ========== RAG ENHANCEMENT ==========
-      // Retrieve relevant context from knowledge base and transaction history
-      let ragContext;
-      try {
-        const vectorDB = createVectorDB(this.env);
-        ragContext = await retrieveContext(
-          message,
-          transactions,
-          this.env.AI,
-          vectorDB
-        );
-      } catch (ragError) {
-        console.log('RAG retrieval skipped:', ragError);
-        ragContext = { knowledgeEntries: [], similarTransactions: [] };
-      }
+    await this.state.storage.deleteAll();
+    // Note: migrations are rerun from the main class
+    return new Response(JSON.stringify({ success: true, message: 'All data deleted' }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
 
-      const financialSummary = {
-        balance,
-        income: totalIncome,
-        expenses: totalExpenses,
-        categoryBreakdown
-      };
+  /**
+   * GET /api/backup - everything this ledger stores as one JSON document: every table,
+   * every key-value entry and the attachment files. POST /api/restore reads it back.
+   * The files are read and sent one at a time, so a ledger with many receipts is never
+   * held in memory whole.
+   */
+  async getBackup(): Promise<Response> {
+    const tables = this.store.backupTables();
+    const entries = await this.state.storage.list();
+    const keys = (tables.attachments ?? []).flatMap(row => {
+      const variants = row.has_thumbnail ? ['original', 'thumbnail'] as const : ['original'] as const;
+      return variants.map(variant => attachmentKey(String(row.id), variant));
+    });
 
-      // Build enhanced prompt with RAG context (for informational queries)
-      const ragEnhancedPrompt = buildRAGPrompt(message, ragContext, financialSummary);
+    const createdAt = new Date().toISOString();
+    const backup: Omit<Backup, 'files'> = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      schemaVersion: Number(entries.get(SCHEMA_VERSION_KEY)) || LATEST_SCHEMA_VERSION,
+      createdAt,
+      storage: Object.fromEntries([...entries].filter(([key]) => key !== SCHEMA_VERSION_KEY)),
+      tables
+    };
+    const attachments = this.attachments;
+    const encoder = new TextEncoder();
+    let next = 0;
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(`${JSON.stringify(backup).slice(0, -1)},"files":[`));
+      },
+      async pull(controller) {
+        while (next < keys.length) {
+          const key = keys[next++];
+          const file = await attachments.get(key);
+          if (!file) continue;
+          const entry: BackupFile = { key, contentType: file.contentType, data: encodeBase64(file.data) };
+          controller.enqueue(encoder.encode(`${sent++ > 0 ? ',' : ''}${JSON.stringify(entry)}`));
+          return;
+        }
+        controller.enqueue(encoder.encode(']}'));
+        controller.close();
+      }
+    });
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="finance-backup-${createdAt.slice(0, 10)}.json"`
+      }
+    });
+  }
 
-      // Get conversation history as proper message objects (last 5 messages for context)
-      const conversationHistory = await this.loadConversation(conversationId);
-      const recentMessages = conversationHistory.slice(-5);
+  /**
+   * POST /api/restore?mode=merge|replace - load a document from GET /api/backup. `merge`
+   * (the default) adds the rows, key-value entries and files not here yet and keeps
+   * everything that is; `replace` makes the backup the only data and must be confirmed
+   * with ?confirm=replace-all-data. The storage is left at the backup's schema version,
+   * so the caller reruns the migrations that bring an older backup up to date.
+   * Key-value entries and files are written before the rows and put back if the rows
+   * fail; the files the backup replaces are deleted only once the rows are in.
+   */
+  async restoreBackup(request: Request): Promise<Response> {
+    try {
+      const params = new URL(request.url).searchParams;
+      const mode = (params.get('mode') || 'merge') as RestoreMode;
+      const errors: FieldError[] = [];
+      if (!RESTORE_MODES.includes(mode)) {
+        errors.push({ field: 'mode', message: `must be one of: ${RESTORE_MODES.join(', ')}` });
+      } else if (mode === 'replace' && params.get('confirm') !== RESTORE_REPLACE_CONFIRMATION) {
+        errors.push({ field: 'confirm', message: `must be "${RESTORE_REPLACE_CONFIRMATION}" to replace all data` });
+      }
+      const validation = validateBackup(await request.json(), this.store.tableSchemas(), LATEST_SCHEMA_VERSION, [SCHEMA_VERSION_KEY]);
+      errors.push(...validation.errors);
+      if (!validation.backup || errors.length > 0) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid restore: ${formatFieldErrors(errors)}`,
+          errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-      // Get available functions for function calling
-      const functions = this.getAvailableFunctions();
-      const functionDescriptions = functions.map(f =>
-        `- ${f.name}: ${f.description}`
-      ).join('\n');
+      const { backup } = validation;
+      const current = await this.state.storage.list();
+      const currentAttachments = this.store.listAllAttachments();
+      const existing = new Set(currentAttachments.map(a => a.id));
+      const before = this.store.listTransactions();
+      // Files come along with the attachments the restore adds
+      const restoredIds = new Set((backup.tables.attachments ?? []).map(row => String(row.id)).filter(id => mode === 'replace' || !existing.has(id)));
+
+      const keys = Object.entries(backup.storage).filter(([key]) => mode === 'replace' || !current.has(key));
+      const written: string[] = [];
+      let added: Record<string, number>;
+      try {
+        if (mode === 'replace') await this.state.storage.delete([...current.keys()].filter(key => key !== SCHEMA_VERSION_KEY));
+        if (keys.length > 0) await this.state.storage.put(Object.fromEntries(keys));
+        const schemaVersion = Number(current.get(SCHEMA_VERSION_KEY)) || LATEST_SCHEMA_VERSION;
+        if (mode === 'replace' || backup.schemaVersion < schemaVersion) {
+          await this.state.storage.put(SCHEMA_VERSION_KEY, backup.schemaVersion);
+        }
+        for (const file of backup.files) {
+          if (!restoredIds.has(file.key.split('/')[0])) continue;
+          await this.attachments.put(file.key, { data: decodeDataUrl(file.data)!, contentType: file.contentType });
+          written.push(file.key);
+        }
+        added = this.store.restoreTables(backup.tables, mode);
+      } catch (error) {
+        // The rows were rolled back; leave the entries and files as they were too
+        await this.state.storage.delete(keys.map(([key]) => key).filter(key => !current.has(key)));
+        await this.state.storage.put(Object.fromEntries(current));
+        await this.attachments.delete(written.filter(key => !existing.has(key.split('/')[0])));
+        throw error;
+      }
+      if (mode === 'replace') {
+        const replaced = currentAttachments.filter(a => !restoredIds.has(a.id));
+        await this.attachments.delete(replaced.flatMap(a => [attachmentKey(a.id), attachmentKey(a.id, 'thumbnail')]));
+      }
+      const files = written.length;
+      await this.scheduleCleanup();
 
-      // Build a comprehensive system prompt with ALL financial data, conversation history, AND function calling
-      const systemPrompt = `You are an intelligent financial assistant with complete access to the user's financial data AND the ability to take actions.
+      // Index for semantic search what the restore added, and drop what it removed
+      try {
+        const after = this.store.listTransactions();
+        const kept = new Set(after.map(t => t.id));
+        const previous = new Set(before.map(t => t.id));
+        const vectorDB = this.vectorDB();
+        await unindexTransactions(before.filter(t => !kept.has(t.id)).map(t => t.id), vectorDB);
+        await indexTransactions(mode === 'replace' ? after : after.filter(t => !previous.has(t.id)), this.env.AI, vectorDB);
+      } catch (indexError) {
+        console.log('Transaction indexing skipped:', indexError);
+      }
 
-CRITICAL RULES:
-1. NEVER make up numbers or guess - use ONLY the data provided below
-2. NEVER do math calculations yourself - all totals are pre-calculated for you
-3. Be specific with numbers - always include dollar amounts and transaction counts
-4. If you don't have data for a specific period, say so clearly
-5. Keep responses concise and scannable - use bullet points and short paragraphs
-6. DO NOT repeat information from previous messages
-7. Answer ONLY what the user is currently asking
-8. Use conversation history ONLY for context, not to repeat responses
-9. Users can add transactions for ANY DATE (past, present, or future) - there are NO date restrictions
-10. The transaction data below is just what's been recorded so far, not a limit on what can be added
-11. IMPORTANT: Pay attention to [Action Summary] system messages - they contain details of actions you performed
-12. When asked what you did, refer to the [Action Summary] messages in conversation history
-13. CRITICAL: NEVER quote, display, or mention "[Action Summary]" text in your responses - it's internal context only. Just provide the answer naturally without referencing the summary.
-14. CRITICAL: NEVER list individual transaction details like "$60 housing, $92 housing..." - ALWAYS use summaries and totals instead.
+      const rows = Object.values(added).reduce((total, count) => total + count, 0);
+      return new Response(JSON.stringify({
+        success: true,
+        mode,
+        added,
+        keys: keys.length,
+        files,
+        schemaVersion: backup.schemaVersion,
+        message: `${mode === 'replace' ? 'Replaced all data with' : 'Merged'} the backup from ${backup.createdAt}: `
+          + `${rows} rows, ${keys.length} settings and ${files} attachment files`
+          + (backup.schemaVersion < LATEST_SCHEMA_VERSION ? `, migrated from schema version ${backup.schemaVersion}` : '')
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to restore the backup: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
 
-AVAILABLE ACTIONS - Call these functions when the user wants to DO something:
-${functionDescriptions}
+  async getAIAdvice(request: Request): Promise<Response> {
+    try {
+      const body = await request.json() as { message: string; conversationId?: string };
+      const { message } = body;
+      const member = memberContext(request);
+      const conversationId = this.conversationKey(member, body.conversationId || 'default');
+      const clock = clientToday(request.headers.get(TIMEZONE_HEADER));
+      if (!clock.valid) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid request: ${formatFieldErrors(clock.errors)}`,
+          errors: clock.errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      const today = clock.value;
 
-MULTI-STEP ACTIONS:
-You can call MULTIPLE functions in sequence for complex requests. Each function call should be on its own line.
+      // Save user message to conversation history
+      await this.saveMessage('user', message, conversationId);
 
-WHEN TO USE FUNCTION CALLS:
-- User wants to SET/UPDATE/CHANGE a budget → use set_budget
-- User wants to ADD/RECORD an expense or income → use add_transaction
-- User wants to DELETE/REMOVE a transaction → use delete_transaction
-- User wants to CHECK budget status → use get_budget_status
-- User wants to ANALYZE spending → use get_spending_summary
+      // Get current financial data to provide context to AI
+      const totals = this.store.totalsByType();
+      const totalIncome = totals.income || 0;
+      const totalExpenses = totals.expense || 0;
+      
+      // Category breakdown, with subcategories rolled up into their parents
+      const categoryBreakdown = this.store.categoryTotals({ type: 'expense' }, { rollUp: true });
+      const categorySpending = this.categorySpending({ type: 'expense' });
 
-DATE PARSING FOR add_transaction:
-CRITICAL: When user specifies a date in natural language, you MUST extract and convert it to YYYY-MM-DD format.
-- "June 19th" → "2025-06-19"
-- "July 4th" → "2025-07-04"
-- "yesterday" → calculate yesterday's date
-- "last week" → calculate appropriate date
-- "on 10/7/2025" → "2025-10-07"
-- If NO date is mentioned, omit the date parameter (defaults to today)
-- Always use the CURRENT YEAR (2025) unless user specifies otherwise
-- When asked what you did, remember and state the EXACT date you used in the function call
+      // Opening balances plus activity, across every account
+      const balances = this.store.getBalances();
+      const balance = balances.total;
 
-WHEN TO PROVIDE ADVICE (DO NOT use function calls):
-- User asks for recommendations: "Should I reduce spending?", "Where should I cut back?", "How can I save money?"
-- User asks for tips: "What are some ways to...", "Give me advice on..."
-- User asks for analysis: "Why is my spending high?", "What's causing..."
+      // ========== HYBRID APPROACH: Use deterministic code for precise calculations ==========
+      // For questions requiring exact calculations, use regex + direct computation
+      // For general advice, use LLM
+      
+      const financialContext = {
+        balance,
+        totalIncome,
+        totalExpenses,
+        categoryBreakdown,
+        transactionCount: this.store.countTransactions(),
+        recentTransactions: this.store.listTransactions({}, { newestFirst: true, limit: 5 }).reverse()
+      };
+      
+      // Check for specific financial questions that need precise answers
+      const dayQuestion = message.match(/which day.*spend.*(most|least|highest|lowest)|what day.*(most|least).*(spending|money)|(highest|lowest).*(spending|money).*day|(most|least).*(money|spending).*day/i);
 
-BUDGET RULE ANALYSIS (20/30/50 budget):
-When user asks "Am I following the 20/30/50 budget?" or similar:
-→ Categorize spending into THREE categories only:
-   • NEEDS (20%): Housing, Transportation, Food, Healthcare, Utilities
-   • WANTS (30%): Entertainment, Shopping, Dining out, Subscriptions
-   • SAVINGS (50%): Everything else / Net income - (Needs + Wants)
-→ Calculate percentages of TOTAL INCOME (not total expenses)
-→ Format response ONLY as a clean table/summary, NO transaction details
-→ Example good format:
-   "Based on your spending breakdown:
-   
-   📊 Your Budget Allocation:
-   • Needs: 35% ($2,100) - Target: 20%
-   • Wants: 28% ($1,680) - Target: 30%
-   • Savings: 37% ($2,220) - Target: 50%
-   
-   You're exceeding the needs category but still meeting your savings goal."
-→ NEVER list individual transactions or amounts like "$60 housing, $92 housing..."
+      // Check for specific date queries (e.g., "how much did I spend on October 7th 2025" or "on 10/7/2025")
+      const specificDateQuestion = message.match(/how much.*(did|do|have).*spend.*(on|in)\s+([a-zA-Z]+\s+\d{1,2}(?:st|nd|rd|th)?(?:\s+\d{4})?|\d{1,2}\/\d{1,2}(?:\/\d{2,4})?)/i);
 
-ADVICE RESPONSE FORMAT:
-→ Keep it SHORT (3-5 sentences MAX or 3-4 bullet points)
-→ Focus on top 2-3 categories with highest spending
-→ Use line breaks between suggestions for readability
-→ Include specific dollar amounts from their data
-→ Make each suggestion actionable and concise
-→ DO NOT suggest the user call functions - they can't call functions, only you can
-→ Example good format:
-   "Based on your spending, here are my top recommendations:
+      // Check for month-level queries (e.g., "how much did I spend in October")
+      const monthQuestion = message.match(/how much.*(did|do|have).*spend.*(in|during|for)\s+.*?(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)/i);
 
-   • Food ($500): Your highest category. Try meal planning to reduce dining out.
-   • Transportation ($200): Consider carpooling or public transit.
-   • Entertainment ($150): Look for free alternatives like parks or libraries."
+      const balanceQuestion = message.match(/what.*my.*balance|how much.*have|current.*balance/i);
 
-FORMAT for function calls (MUST match exactly):
-FUNCTION_CALL: {"name": "function_name", "arguments": {"param": "value"}}
+      // Tag question (e.g., "How much did the Lisbon trip cost?") - only for tags the user actually has
+      const tagQuestion = /how much|cost|spen[dt]|total/i.test(message)
+        ? findTagInMessage(message, this.store.listTags().map(t => t.name))
+        : null;
 
-SINGLE-STEP EXAMPLES:
-User: "Set my food budget to $500"
-→ FUNCTION_CALL: {"name": "set_budget", "arguments": {"category": "food", "amount": 500}}
+      // Budget proximity question (e.g., "Am I close to my budget?", "Which budget am I closest to?")
+      const budgetProximityQuestion = message.match(/am I close.*budget|close.*to.*budget|closest.*budget|near.*budget/i);
 
-User: "I spent $50 on groceries"
-→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 50, "description": "groceries", "category": "food", "type": "expense"}}
+      // Largest/highest budget question (e.g., "What's my largest budget?", "Which category has the highest budget?")
+      const largestBudgetQuestion = message.match(/largest.*budget|highest.*budget|biggest.*budget|what.*budget.*largest|which.*budget.*highest|which.*category.*largest.*budget/i);
 
-User: "Add a $50 food expense on June 19th"
-→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 50, "description": "food", "category": "food", "type": "expense", "date": "2025-06-19"}}
+      // Category question - but ONLY if it's not a date
+      // This regex should NOT match month names or dates like "10/7/2025"
+      const categoryQuestionMatch = message.match(/how much.*(did|do|have).*spend.*on\s+(\w+)/i);
+      const categoryQuestion = categoryQuestionMatch
+        && !specificDateQuestion  // Don't treat dates as categories
+        && !message.match(/on\s+(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)/i)  // Don't treat month names as categories
+        && !message.match(/on\s+\d{1,2}\/\d{1,2}/i)  // Don't treat MM/DD as categories
+        ? categoryQuestionMatch
+        : null;
+      
+      // Handle household member comparisons with DETERMINISTIC calculation, before category matching claims them
+      const memberComparison = this.compareMemberSpending(member, message);
+      if (memberComparison) {
+        await this.saveMessage('assistant', memberComparison, conversationId);
+        return new Response(JSON.stringify({ response: memberComparison }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-User: "I bought coffee for $5 on July 4th"
-→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 5, "description": "coffee", "category": "food", "type": "expense", "date": "2025-07-04"}}
+      // Handle tag questions with DETERMINISTIC calculation, before month/category matching claims them
+      if (tagQuestion) {
+        const summary = this.store.tagSummaries({ tags: [tagQuestion] })[0];
+        let responseText: string;
 
-MULTI-STEP EXAMPLES:
-User: "I spent $50 on groceries. Am I over budget on food?"
-→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 50, "description": "groceries", "category": "food", "type": "expense"}}
-→ FUNCTION_CALL: {"name": "get_budget_status", "arguments": {}}
+        if (summary) {
+          const byCategory = Object.entries(this.store.categoryTotals({ type: 'expense', tags: [tagQuestion] }, { rollUp: true }))
+            .sort(([, a], [, b]) => b - a)
+            .map(([cat, amt]) => `${cat} ($${amt.toFixed(2)})`)
+            .join(', ');
+          const dates = summary.firstDate === summary.lastDate ? `on ${summary.firstDate}` : `from ${summary.firstDate} to ${summary.lastDate}`;
+          responseText = `Transactions tagged "${tagQuestion}" (${summary.count}, ${dates}) add up to $${summary.spent.toFixed(2)} of spending.`;
+          if (byCategory) responseText += ` By category: ${byCategory}.`;
+          if (summary.income > 0) {
+            responseText += ` $${summary.income.toFixed(2)} of income carries the same tag, so the net cost is $${(summary.spent - summary.income).toFixed(2)}.`;
+          }
+        } else {
+          responseText = `No transactions are tagged "${tagQuestion}" yet.`;
+        }
 
-User: "Add $100 gas, $50 food, and $200 shopping"
-→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 100, "description": "gas", "category": "transportation", "type": "expense"}}
-→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 50, "description": "food", "category": "food", "type": "expense"}}
-→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 200, "description": "shopping", "category": "shopping", "type": "expense"}}
+        await this.saveMessage('assistant', responseText, conversationId);
+        return new Response(JSON.stringify({ response: responseText }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-User: "Set food budget to $600, entertainment to $250"
-→ FUNCTION_CALL: {"name": "set_budget", "arguments": {"category": "food", "amount": 600}}
-→ FUNCTION_CALL: {"name": "set_budget", "arguments": {"category": "entertainment", "amount": 250}}
+      // Handle month-level questions (e.g., "how much did I spend in October?")
+      if (monthQuestion) {
+        const monthName = (monthQuestion[3] as string).toLowerCase();
+        const monthMap: Record<string, string> = {
+          'january': '01', 'jan': '01',
+          'february': '02', 'feb': '02',
+          'march': '03', 'mar': '03',
+          'april': '04', 'apr': '04',
+          'may': '05',
+          'june': '06', 'jun': '06',
+          'july': '07', 'jul': '07',
+          'august': '08', 'aug': '08',
+          'september': '09', 'sep': '09', 'sept': '09',
+          'october': '10', 'oct': '10',
+          'november': '11', 'nov': '11',
+          'december': '12', 'dec': '12'
+        };
 
-For INFORMATIONAL questions (no action needed), respond normally with text.
+        const monthNum = monthMap[monthName];
+        const year = message.match(/\d{4}/) ? message.match(/\d{4}/)![0] : '2025';
+        const monthKey = `${year}-${monthNum}`;
 
-${ragContext.knowledgeEntries && ragContext.knowledgeEntries.length > 0 ? `
-RELEVANT FINANCIAL KNOWLEDGE BASE:
-━━━━━━━━━━━━━━━━━━━━
-${ragContext.knowledgeEntries.map((entry, idx) =>
-  `${idx + 1}. ${entry.category.toUpperCase()}:\n${entry.content}\n`
-).join('\n')}
-━━━━━━━━━━━━━━━━━━━━
+        // Filter transactions for this month
+        const monthTransactions = this.store.listTransactions({ type: 'expense', month: monthKey });
 
-Use the above knowledge base articles to provide expert financial advice when relevant.
-` : ''}
+        const totalSpent = monthTransactions.reduce((sum, t) => sum + t.amount, 0);
+        const monthNameFormatted = monthName.charAt(0).toUpperCase() + monthName.slice(1);
 
-${ragContext.similarTransactions && ragContext.similarTransactions.length > 0 ? `
-SIMILAR PAST TRANSACTIONS (semantically relevant to user's query):
-━━━━━━━━━━━━━━━━━━━━
-${ragContext.similarTransactions.map(txn =>
-  `• ${txn.date}: ${txn.description} - $${txn.amount.toFixed(2)} (${txn.category})${txn.relevanceScore ? ` [relevance: ${(txn.relevanceScore * 100).toFixed(0)}%]` : ''}`
-).join('\n')}
-━━━━━━━━━━━━━━━━━━━━
+        if (monthTransactions.length > 0) {
+          const categoryBreakdown: Record<string, number> = {};
+          monthTransactions.forEach(t => {
+            categoryLines(t).forEach(line => { categoryBreakdown[line.category] = (categoryBreakdown[line.category] || 0) + line.amount; });
+          });
 
-These transactions were found using semantic search based on the user's question. Use them to provide context-aware, personalized responses.
-` : ''}
+          const topCategories = Object.entries(categoryBreakdown)
+            .sort(([,a], [,b]) => b - a)
+            .slice(0, 3)
+            .map(([cat, amt]) => `${cat} ($${amt.toFixed(2)})`)
+            .join(', ');
 
-USER'S FINANCIAL DATA:
-━━━━━━━━━━━━━━━━━━━━
-Current Balance: $${balance.toFixed(2)}
-Total Income: $${totalIncome.toFixed(2)}
-Total Expenses: $${totalExpenses.toFixed(2)}
-Total Transactions: ${transactions.length}
+          const responseText = `In ${monthNameFormatted} ${year}, you spent $${totalSpent.toFixed(2)} across ${monthTransactions.length} transaction${monthTransactions.length > 1 ? 's' : ''}. Top categories: ${topCategories}.`;
 
-BUDGETS:
-${budgetData || 'No budgets set'}
+          await this.saveMessage('assistant', responseText, conversationId);
+          return new Response(JSON.stringify({ response: responseText }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } else {
+          const responseText = `You didn't record any spending in ${monthNameFormatted} ${year}.`;
+          await this.saveMessage('assistant', responseText, conversationId);
+          return new Response(JSON.stringify({ response: responseText }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
 
-SPENDING BY CATEGORY (all-time):
-${categoryData || 'No expenses recorded yet'}
+      // Handle specific date questions (e.g., "how much did I spend on October 7th 2025?")
+      if (specificDateQuestion) {
+        const dateStr = specificDateQuestion[3]; // Extract the date string
+        const parsedDate = this.extractDateFromMessage(message);
 
-MONTHLY SPENDING BREAKDOWN (2025):
-${monthlyData}
+        // Filter transactions for this specific date
+        const dateKey = parsedDate.toISOString().split('T')[0]; // YYYY-MM-DD format
+        const dateTransactions = this.store.listTransactions({ type: 'expense', from: dateKey, to: dateKey });
 
-DAILY SPENDING BREAKDOWN (recent months):
-${dailySpendingData}
+        if (dateTransactions.length > 0) {
+          const totalSpent = dateTransactions.reduce((sum, t) => sum + t.amount, 0);
+          const categoryBreakdown: Record<string, number> = {};
 
-━━━━━━━━━━━━━━━━━━━━
+          dateTransactions.forEach(t => {
+            categoryLines(t).forEach(line => { categoryBreakdown[line.category] = (categoryBreakdown[line.category] || 0) + line.amount; });
+          });
 
-Now answer the user's question using ONLY the data above OR call a function to perform an action. Be precise and cite specific numbers.`;
+          const topCategory = Object.entries(categoryBreakdown)
+            .sort(([,a], [,b]) => b - a)[0];
 
-      try {
-        // Build messages array with conversation history
-        const messages: any[] = [
-          { role: 'system', content: systemPrompt }
-        ];
+          const responseText = `On ${parsedDate.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}, you spent $${totalSpent.toFixed(2)} across ${dateTransactions.length} transaction${dateTransactions.length > 1 ? 's' : ''}. ${topCategory ? `Most of it went to ${topCategory[0]} ($${topCategory[1].toFixed(2)}).` : ''}`;
 
-        // Add recent conversation messages for context
-        for (const msg of recentMessages) {
-          messages.push({
-            role: msg.role,
-            content: msg.content
+          await this.saveMessage('assistant', responseText, conversationId);
+          return new Response(JSON.stringify({ response: responseText }), {
+            headers: { 'Content-Type': 'application/json' }
           });
-        }
-
-        // Add current user message
-        messages.push({ role: 'user', content: message });
+        } else {
+          const responseText = `You didn't record any spending on ${parsedDate.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}. Your total spending across all dates is $${financialContext.totalExpenses.toFixed(2)}.`;
 
-        // Add timeout to prevent infinite waiting
-        const response = await Promise.race([
-          this.env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
-            messages: messages,
-            max_tokens: 512 // Reduced since we're providing pre-calculated data
-          }),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('AI request timed out after 30 seconds')), 30000)
-          )
-        ]) as any;
+          await this.saveMessage('assistant', responseText, conversationId);
+          return new Response(JSON.stringify({ response: responseText }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
 
-        const aiResponse = response as any;
-        let responseText = aiResponse?.response || '';
+      // Handle day-specific questions with DETERMINISTIC calculation
+      if (dayQuestion) {
+        const isLeast = /least|lowest/.test(message.toLowerCase());
+        const monthMatch = message.match(/(?:in|of)\s+(january|february|march|april|may|june|july|august|september|october|november|december)/i);
+        const dailySpending = this.calculateDailySpending(this.store.listTransactions({ type: 'expense' }), monthMatch ? monthMatch[1] : null);
+        
+        if (dailySpending.found) {
+          const day = isLeast ? dailySpending.lowestDay : dailySpending.highestDay;
+          const superlative = isLeast ? 'lowest' : 'highest';
+          const responseText = `${day.date} was your ${superlative} spending day${monthMatch ? ` in ${monthMatch[1]}` : ''} with $${day.amount.toFixed(2)} spent across ${day.transactionCount} transaction${day.transactionCount > 1 ? 's' : ''}. ${day.topCategory ? `Most of it went to ${day.topCategory.category} ($${day.topCategory.amount.toFixed(2)}).` : ''}`;
 
-        if (!responseText) {
-          responseText = `I have access to your financial data: Balance is $${balance.toFixed(2)}, with $${totalExpenses.toFixed(2)} in total expenses across ${transactions.length} transactions. What would you like to know?`;
-        }
+          // Save assistant response
+          await this.saveMessage('assistant', responseText, conversationId);
 
-        // Check if AI wants to call function(s) - MULTI-STEP SUPPORT
-        // Extract ALL FUNCTION_CALL patterns from the response
-        const functionCallPattern = /FUNCTION_CALL:\s*(\{[^}]*\{[^}]*\}[^}]*\}|\{[^}]*\})/gi;
-        const functionCallMatches: RegExpMatchArray[] = Array.from(responseText.matchAll(functionCallPattern)) as RegExpMatchArray[];
+          return new Response(JSON.stringify({
+            response: responseText
+          }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } else {
+          const responseText = `I couldn't find daily spending data${monthMatch ? ` for ${monthMatch[1]}` : ''}. Your transactions show total spending of $${financialContext.totalExpenses.toFixed(2)}.`;
 
-        if (functionCallMatches.length > 0) {
-          try {
-            const functionCalls: FunctionCall[] = [];
+          // Save assistant response
+          await this.saveMessage('assistant', responseText, conversationId);
 
-            // Parse all function calls
-            for (const match of functionCallMatches) {
-              let jsonStr = match[1];
+          return new Response(JSON.stringify({
+            response: responseText
+          }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+      
+      // Handle monthly spending questions with DETERMINISTIC calculation
+      if (monthQuestion) {
+        const monthName = (monthQuestion[3] as string).toLowerCase();
+        const monthlySpending = this.calculateMonthlySpending(this.store.listTransactions({ type: 'expense' }), monthName);
 
-              // Find the complete JSON object by counting braces
-              let braceCount = 0;
-              let endIndex = 0;
-              for (let i = 0; i < jsonStr.length; i++) {
-                if (jsonStr[i] === '{') braceCount++;
-                if (jsonStr[i] === '}') braceCount--;
-                if (braceCount === 0) {
-                  endIndex = i + 1;
-                  break;
-                }
-              }
+        if (monthlySpending.found) {
+          const responseText = `In ${monthlySpending.monthName}, you spent $${monthlySpending.amount.toFixed(2)} across ${monthlySpending.transactionCount} transactions. ${monthlySpending.topCategory ? `Your highest spending was in ${monthlySpending.topCategory.category} ($${monthlySpending.topCategory.amount.toFixed(2)}).` : ''}`;
+          await this.saveMessage('assistant', responseText, conversationId);
+          return new Response(JSON.stringify({
+            response: responseText
+          }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } else {
+          const responseText = `I don't have spending data for ${monthName}. Your available data shows spending in the current month ($${financialContext.totalExpenses.toFixed(2)}).`;
+          await this.saveMessage('assistant', responseText, conversationId);
+          return new Response(JSON.stringify({
+            response: responseText
+          }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
 
-              if (endIndex > 0) {
-                jsonStr = jsonStr.substring(0, endIndex);
-              }
+      // Handle budget proximity questions with DETERMINISTIC calculation
+      if (budgetProximityQuestion) {
+        const budgets = this.store.getBudgets();
 
-              const parsedCall = JSON.parse(jsonStr);
+        if (Object.keys(budgets).length === 0) {
+          const responseText = `You haven't set any budgets yet. Use the budget manager to set monthly spending limits for different categories.`;
+          await this.saveMessage('assistant', responseText, conversationId);
+          return new Response(JSON.stringify({ response: responseText }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
 
-              // Convert arguments to string if it's an object
-              const functionCall: FunctionCall = {
-                name: parsedCall.name,
-                arguments: typeof parsedCall.arguments === 'string'
-                  ? parsedCall.arguments
-                  : JSON.stringify(parsedCall.arguments)
-              };
+        // Calculate current month spending by category
+        const now = new Date();
+        const currentMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+        const monthlySpending = this.categorySpending({ type: 'expense', month: currentMonth });
 
-              functionCalls.push(functionCall);
-            }
+        // Calculate budget usage percentages
+        const budgetStatus = Object.entries(budgets).map(([category, budgetAmount]) => {
+          const spent = monthlySpending[category] || 0;
+          const percentage = (spent / budgetAmount) * 100;
+          return { category, budgetAmount, spent, percentage };
+        }).sort((a, b) => b.percentage - a.percentage);
 
-            console.log(`[Multi-Step] AI wants to execute ${functionCalls.length} function(s):`);
-            functionCalls.forEach((fc, i) => {
-              console.log(`  ${i + 1}. ${fc.name}`);
-            });
+        const closest = budgetStatus[0];
 
-            // Execute all functions in sequence
-            const functionResults: FunctionResult[] = [];
+        if (closest.percentage >= 100) {
+          const overBudget = budgetStatus.filter(b => b.percentage >= 100);
+          const responseText = `You're over budget in ${overBudget.length} categor${overBudget.length > 1 ? 'ies' : 'y'}: ${overBudget.map(b => `${b.category} (${b.percentage.toFixed(0)}% used, $${b.spent.toFixed(2)}/$${b.budgetAmount.toFixed(2)})`).join(', ')}.`;
+          await this.saveMessage('assistant', responseText, conversationId);
+          return new Response(JSON.stringify({ response: responseText }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } else {
+          const responseText = `You're closest to your ${closest.category} budget at ${closest.percentage.toFixed(1)}% used ($${closest.spent.toFixed(2)} of $${closest.budgetAmount.toFixed(2)}). ${budgetStatus.filter(b => b.percentage >= 80).length > 1 ? `Also watch: ${budgetStatus.filter(b => b.percentage >= 80 && b.category !== closest.category).map(b => `${b.category} (${b.percentage.toFixed(0)}%)`).join(', ')}.` : ''}`;
+          await this.saveMessage('assistant', responseText, conversationId);
+          return new Response(JSON.stringify({ response: responseText }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+
+      // Handle largest/highest budget questions with DETERMINISTIC calculation
+      if (largestBudgetQuestion) {
+        const budgets = this.store.getBudgets();
+
+        if (Object.keys(budgets).length === 0) {
+          const responseText = `You haven't set any budgets yet. Use the budget manager to set monthly spending limits for different categories.`;
+          await this.saveMessage('assistant', responseText, conversationId);
+          return new Response(JSON.stringify({ response: responseText }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        // Find the largest budget
+        let largestCategory = '';
+        let largestAmount = 0;
+
+        Object.entries(budgets).forEach(([category, amount]) => {
+          if (amount > largestAmount) {
+            largestAmount = amount;
+            largestCategory = category;
+          }
+        });
+
+        const responseText = `Your largest budget is ${largestCategory} at $${largestAmount.toFixed(2)}/month.`;
+        await this.saveMessage('assistant', responseText, conversationId);
+        return new Response(JSON.stringify({ response: responseText }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // Handle balance questions with DETERMINISTIC calculation
+      if (balanceQuestion) {
+        const accountLines = balances.accounts.length > 1
+          ? ` (${balances.accounts.map(a => `${a.name}: $${a.balance.toFixed(2)}`).join(', ')})`
+          : '';
+        const responseText = `Your current balance is $${financialContext.balance.toFixed(2)}${accountLines}. You have $${financialContext.totalIncome.toFixed(2)} in total income and $${financialContext.totalExpenses.toFixed(2)} in expenses across ${financialContext.transactionCount} transactions.`;
+        await this.saveMessage('assistant', responseText, conversationId);
+        return new Response(JSON.stringify({
+          response: responseText
+        }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // Handle category questions with DETERMINISTIC calculation
+      if (categoryQuestion) {
+        const category = categoryQuestion[2].toLowerCase();
+        const categoryAmount = categorySpending[category] || 0;
+
+        if (categoryAmount > 0) {
+          const percentage = ((categoryAmount / financialContext.totalExpenses) * 100).toFixed(1);
+          const responseText = `You've spent $${categoryAmount.toFixed(2)} on ${category}, which is ${percentage}% of your total expenses ($${financialContext.totalExpenses.toFixed(2)}).`;
+          await this.saveMessage('assistant', responseText, conversationId);
+          return new Response(JSON.stringify({
+            response: responseText
+          }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } else {
+          const responseText = `You haven't recorded any spending in the ${category} category yet. Your current spending categories are: ${Object.keys(financialContext.categoryBreakdown).join(', ')}.`;
+          await this.saveMessage('assistant', responseText, conversationId);
+          return new Response(JSON.stringify({
+            response: responseText
+          }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+
+      // LEGACY TRANSACTION PARSER DISABLED - Function calling now handles all actions
+      // The old parseTransactionIntent was conflicting with function calling
+      // Now we rely entirely on the LLM with function definitions to handle actions
+
+      // ========== PURE LLM APPROACH ==========
+      // Let the AI figure out what the user is asking and compute the answer
+
+      // Prepare detailed financial data for the LLM
+      const transactions = this.store.listTransactions();
+      const monthlyData = this.calculateMonthlyBreakdownForAllMonths(transactions);
+      const dailySpendingData = this.calculateDailySpendingSummary(transactions); // Pre-calculate daily spending
+      const categoryData = describeCategoryBreakdown(
+        categoryBreakdown,
+        subcategoryTotals(this.store.categoryTotals({ type: 'expense' }), this.store.listCategories(true))
+      );
+
+      // Load budgets
+      const budgets = this.store.getBudgets();
+      const budgetData = Object.entries(budgets)
+        .map(([cat, amt]) => `${cat}: $${amt.toFixed(2)}/month`)
+        .join(', ');
+
+      // ========== RAG ENHANCEMENT ==========
+      // Retrieve relevant context from knowledge base and transaction history
+      let ragContext;
+      try {
+        const vectorDB = this.vectorDB();
+        ragContext = await retrieveContext(
+          message,
+          transactions,
+          this.env.AI,
+          vectorDB
+        );
+      } catch (ragError) {
+        console.log('RAG retrieval skipped:', ragError);
+        ragContext = { knowledgeEntries: [], similarTransactions: [] };
+      }
+
+      const financialSummary = {
+        balance,
+        income: totalIncome,
+        expenses: totalExpenses,
+        categoryBreakdown
+      };
+
+      // Build enhanced prompt with RAG context (for informational queries)
+      const ragEnhancedPrompt = buildRAGPrompt(message, ragContext, financialSummary);
+
+      // Get conversation history as proper message objects (last 5 messages for context)
+      const conversationHistory = await this.loadConversation(conversationId);
+      const recentMessages = conversationHistory.slice(-5);
+
+      // Get available functions for function calling
+      const functions = this.getAvailableFunctions();
+      const functionDescriptions = functions.map(f =>
+        `- ${f.name}: ${f.description}`
+      ).join('\n');
+
+      // Build a comprehensive system prompt with ALL financial data, conversation history, AND function calling
+      const systemPrompt = `You are an intelligent financial assistant with complete access to the user's financial data AND the ability to take actions.
+
+CRITICAL RULES:
+1. NEVER make up numbers or guess - use ONLY the data provided below
+2. NEVER do math calculations yourself - all totals are pre-calculated for you
+3. Be specific with numbers - always include dollar amounts and transaction counts
+4. If you don't have data for a specific period, say so clearly
+5. Keep responses concise and scannable - use bullet points and short paragraphs
+6. DO NOT repeat information from previous messages
+7. Answer ONLY what the user is currently asking
+8. Use conversation history ONLY for context, not to repeat responses
+9. Users can add transactions for ANY DATE (past, present, or future) - there are NO date restrictions
+10. The transaction data below is just what's been recorded so far, not a limit on what can be added
+11. IMPORTANT: Pay attention to [Action Summary] system messages - they contain details of actions you performed
+12. When asked what you did, refer to the [Action Summary] messages in conversation history
+13. CRITICAL: NEVER quote, display, or mention "[Action Summary]" text in your responses - it's internal context only. Just provide the answer naturally without referencing the summary.
+14. CRITICAL: NEVER list individual transaction details like "$60 housing, $92 housing..." - ALWAYS use summaries and totals instead.
+
+AVAILABLE ACTIONS - Call these functions when the user wants to DO something:
+${functionDescriptions}
+
+MULTI-STEP ACTIONS:
+You can call MULTIPLE functions in sequence for complex requests. Each function call should be on its own line.
+
+WHEN TO USE FUNCTION CALLS:
+- User wants to SET/UPDATE/CHANGE a budget → use set_budget
+- User wants to ADD/RECORD an expense or income → use add_transaction
+- User MOVED money between their own accounts or PAID a credit card/loan → use add_transaction with type "transfer", account (from) and to_account (to). Transfers are NOT spending or income
+- ONE purchase covers several categories (e.g. "$150 at Costco, $100 groceries and $50 household") → use ONE add_transaction with splits, not several transactions
+- User mentions a trip, event or project (e.g. "for the wedding", "reimbursable") → add it as a tag; questions about a tag → use get_spending_summary with tag
+- User wants to DELETE/REMOVE a transaction → use delete_transaction (if several match, ask which one - never guess)
+- User wants to UNDO a deletion or RESTORE a transaction → use restore_transaction
+- User wants to EDIT/CHANGE/CORRECT an existing transaction → use update_transaction (only pass the fields that change)
+- User wants to CHECK budget status → use get_budget_status
+- User wants to ANALYZE spending → use get_spending_summary
+
+DATE PARSING FOR add_transaction:
+CRITICAL: When user specifies a date in natural language, you MUST extract and convert it to YYYY-MM-DD format.
+- "June 19th" → "2025-06-19"
+- "July 4th" → "2025-07-04"
+- "yesterday" → calculate yesterday's date
+- "last week" → calculate appropriate date
+- "on 10/7/2025" → "2025-10-07"
+- If NO date is mentioned, omit the date parameter (defaults to today${today ? `, ${today}` : ''})
+- Always use the CURRENT YEAR (2025) unless user specifies otherwise
+- When asked what you did, remember and state the EXACT date you used in the function call
+
+WHEN TO PROVIDE ADVICE (DO NOT use function calls):
+- User asks for recommendations: "Should I reduce spending?", "Where should I cut back?", "How can I save money?"
+- User asks for tips: "What are some ways to...", "Give me advice on..."
+- User asks for analysis: "Why is my spending high?", "What's causing..."
+
+BUDGET RULE ANALYSIS (20/30/50 budget):
+When user asks "Am I following the 20/30/50 budget?" or similar:
+→ Categorize spending into THREE categories only:
+   • NEEDS (20%): Housing, Transportation, Food, Healthcare, Utilities
+   • WANTS (30%): Entertainment, Shopping, Dining out, Subscriptions
+   • SAVINGS (50%): Everything else / Net income - (Needs + Wants)
+→ Calculate percentages of TOTAL INCOME (not total expenses)
+→ Format response ONLY as a clean table/summary, NO transaction details
+→ Example good format:
+   "Based on your spending breakdown:
+   
+   📊 Your Budget Allocation:
+   • Needs: 35% ($2,100) - Target: 20%
+   • Wants: 28% ($1,680) - Target: 30%
+   • Savings: 37% ($2,220) - Target: 50%
+   
+   You're exceeding the needs category but still meeting your savings goal."
+→ NEVER list individual transactions or amounts like "$60 housing, $92 housing..."
+
+ADVICE RESPONSE FORMAT:
+→ Keep it SHORT (3-5 sentences MAX or 3-4 bullet points)
+→ Focus on top 2-3 categories with highest spending
+→ Use line breaks between suggestions for readability
+→ Include specific dollar amounts from their data
+→ Make each suggestion actionable and concise
+→ DO NOT suggest the user call functions - they can't call functions, only you can
+→ Example good format:
+   "Based on your spending, here are my top recommendations:
+
+   • Food ($500): Your highest category. Try meal planning to reduce dining out.
+   • Transportation ($200): Consider carpooling or public transit.
+   • Entertainment ($150): Look for free alternatives like parks or libraries."
+
+FORMAT for function calls (MUST match exactly):
+FUNCTION_CALL: {"name": "function_name", "arguments": {"param": "value"}}
+
+SINGLE-STEP EXAMPLES:
+User: "Set my food budget to $500"
+→ FUNCTION_CALL: {"name": "set_budget", "arguments": {"category": "food", "amount": 500}}
+
+User: "I spent $50 on groceries"
+→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 50, "description": "groceries", "category": "food", "type": "expense"}}
+
+User: "Add a $50 food expense on June 19th"
+→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 50, "description": "food", "category": "food", "type": "expense", "date": "2025-06-19"}}
+
+User: "I bought coffee for $5 on July 4th"
+→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 5, "description": "coffee", "category": "food", "type": "expense", "date": "2025-07-04"}}
+
+User: "Spent $150 at Costco: $100 groceries and $50 household stuff"
+→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 150, "description": "Costco", "type": "expense", "splits": [{"amount": 100, "category": "food", "note": "groceries"}, {"amount": 50, "category": "shopping", "note": "household"}]}}
+
+User: "Dinner in Lisbon was $85, part of the Lisbon trip"
+→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 85, "description": "Dinner in Lisbon", "category": "food", "type": "expense", "tags": ["lisbon-trip"]}}
+
+User: "Moved $500 to savings"
+→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 500, "description": "Transfer to savings", "type": "transfer", "account": "Checking", "to_account": "Savings"}}
+
+User: "Change yesterday's lunch to $18" (today is 2026-03-10)
+→ FUNCTION_CALL: {"name": "update_transaction", "arguments": {"match_description": "lunch", "match_date": "2026-03-09", "amount": 18}}
+
+User: "Delete the gas transaction from March 3rd"
+→ FUNCTION_CALL: {"name": "delete_transaction", "arguments": {"description": "gas", "date": "2026-03-03"}}
+
+MULTI-STEP EXAMPLES:
+User: "I spent $50 on groceries. Am I over budget on food?"
+→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 50, "description": "groceries", "category": "food", "type": "expense"}}
+→ FUNCTION_CALL: {"name": "get_budget_status", "arguments": {}}
+
+User: "Add $100 gas, $50 food, and $200 shopping"
+→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 100, "description": "gas", "category": "transportation", "type": "expense"}}
+→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 50, "description": "food", "category": "food", "type": "expense"}}
+→ FUNCTION_CALL: {"name": "add_transaction", "arguments": {"amount": 200, "description": "shopping", "category": "shopping", "type": "expense"}}
+
+User: "Set food budget to $600, entertainment to $250"
+→ FUNCTION_CALL: {"name": "set_budget", "arguments": {"category": "food", "amount": 600}}
+→ FUNCTION_CALL: {"name": "set_budget", "arguments": {"category": "entertainment", "amount": 250}}
+
+For INFORMATIONAL questions (no action needed), respond normally with text.
+
+${ragContext.knowledgeEntries && ragContext.knowledgeEntries.length > 0 ? `
+RELEVANT FINANCIAL KNOWLEDGE BASE:
+━━━━━━━━━━━━━━━━━━━━
+${ragContext.knowledgeEntries.map((entry, idx) =>
+  `${idx + 1}. ${entry.category.toUpperCase()}:\n${entry.content}\n`
+).join('\n')}
+━━━━━━━━━━━━━━━━━━━━
+
+Use the above knowledge base articles to provide expert financial advice when relevant.
+` : ''}
+
+${ragContext.similarTransactions && ragContext.similarTransactions.length > 0 ? `
+SIMILAR PAST TRANSACTIONS (semantically relevant to user's query):
+━━━━━━━━━━━━━━━━━━━━
+${ragContext.similarTransactions.map(txn =>
+  `• ${txn.date}: ${txn.description} - $${txn.amount.toFixed(2)} (${txn.category})${txn.relevanceScore ? ` [relevance: ${(txn.relevanceScore * 100).toFixed(0)}%]` : ''}`
+).join('\n')}
+━━━━━━━━━━━━━━━━━━━━
+
+These transactions were found using semantic search based on the user's question. Use them to provide context-aware, personalized responses.
+` : ''}
+
+USER'S FINANCIAL DATA:
+━━━━━━━━━━━━━━━━━━━━
+${member.members.length > 0 ? `Shared household ledger. You are talking with ${member.members.find(m => m.userId === member.userId)?.email ?? 'a member'}; members: ${member.members.map(m => `${memberName(m)} (${m.role})`).join(', ')}. For questions comparing members ("me vs. my partner"), call get_spending_summary with by_member.
+` : ''}Current Balance: $${balance.toFixed(2)}
+Accounts: ${balances.accounts.map(a => `${a.name} (${a.type}) $${a.balance.toFixed(2)}`).join(', ')}
+Total Income: $${totalIncome.toFixed(2)}
+Total Expenses: $${totalExpenses.toFixed(2)}
+Total Transactions: ${transactions.length}
+
+BUDGETS:
+${budgetData || 'No budgets set'}
+
+SPENDING BY CATEGORY (all-time):
+${categoryData || 'No expenses recorded yet'}
+
+MONTHLY SPENDING BREAKDOWN (2025):
+${monthlyData}
+
+DAILY SPENDING BREAKDOWN (recent months):
+${dailySpendingData}
+
+━━━━━━━━━━━━━━━━━━━━
+
+Now answer the user's question using ONLY the data above OR call a function to perform an action. Be precise and cite specific numbers.`;
+
+      try {
+        // Build messages array with conversation history
+        const messages: any[] = [
+          { role: 'system', content: systemPrompt }
+        ];
+
+        // Add recent conversation messages for context
+        for (const msg of recentMessages) {
+          messages.push({
+            role: msg.role,
+            content: msg.content
+          });
+        }
+
+        // Add current user message
+        messages.push({ role: 'user', content: message });
+
+        // Add timeout to prevent infinite waiting
+        const response = await Promise.race([
+          this.env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
+            messages: messages,
+            max_tokens: 512 // Reduced since we're providing pre-calculated data
+          }),
+          new Promise((_, reject) => 
+            setTimeout(() => reject(new Error('AI request timed out after 30 seconds')), 30000)
+          )
+        ]) as any;
+
+        const aiResponse = response as any;
+        let responseText = aiResponse?.response || '';
+
+        if (!responseText) {
+          responseText = `I have access to your financial data: Balance is $${balance.toFixed(2)}, with $${totalExpenses.toFixed(2)} in total expenses across ${transactions.length} transactions. What would you like to know?`;
+        }
+
+        // Check if AI wants to call function(s) - MULTI-STEP SUPPORT
+        // Extract ALL FUNCTION_CALL patterns from the response (the JSON itself is found by brace counting below,
+        // since arguments can nest arrays of objects, e.g. split lines)
+        const functionCallPattern = /FUNCTION_CALL:\s*\{/gi;
+        const functionCallMatches: RegExpMatchArray[] = Array.from(responseText.matchAll(functionCallPattern)) as RegExpMatchArray[];
+
+        if (functionCallMatches.length > 0) {
+          try {
+            const functionCalls: FunctionCall[] = [];
+
+            // Parse all function calls
+            for (const match of functionCallMatches) {
+              let jsonStr = responseText.slice(match.index! + match[0].length - 1);
+
+              // Find the complete JSON object by counting braces
+              let braceCount = 0;
+              let endIndex = 0;
+              for (let i = 0; i < jsonStr.length; i++) {
+                if (jsonStr[i] === '{') braceCount++;
+                if (jsonStr[i] === '}') braceCount--;
+                if (braceCount === 0) {
+                  endIndex = i + 1;
+                  break;
+                }
+              }
+
+              if (endIndex > 0) {
+                jsonStr = jsonStr.substring(0, endIndex);
+              }
+
+              const parsedCall = JSON.parse(jsonStr);
+
+              // Convert arguments to string if it's an object
+              const functionCall: FunctionCall = {
+                name: parsedCall.name,
+                arguments: typeof parsedCall.arguments === 'string'
+                  ? parsedCall.arguments
+                  : JSON.stringify(parsedCall.arguments)
+              };
+
+              functionCalls.push(functionCall);
+            }
+
+            console.log(`[Multi-Step] AI wants to execute ${functionCalls.length} function(s):`);
+            functionCalls.forEach((fc, i) => {
+              console.log(`  ${i + 1}. ${fc.name}`);
+            });
+
+            // The model sometimes repeats a call verbatim; keying each add_transaction on this
+            // reply and its arguments makes a repeat return the first result instead of adding again
+            const replyId = crypto.randomUUID();
+            for (const fc of functionCalls) {
+              if (fc.name !== 'add_transaction') continue;
+              let args: any;
+              try { args = JSON.parse(fc.arguments); } catch { continue; }
+              if (!args || typeof args !== 'object' || args.idempotency_key !== undefined) continue;
+              fc.arguments = JSON.stringify({ ...args, idempotency_key: `${replyId}:${await requestFingerprint(args)}` });
+            }
+
+            // Execute all functions in sequence
+            const functionResults: FunctionResult[] = [];
             for (let i = 0; i < functionCalls.length; i++) {
               const fc = functionCalls[i];
-              console.log(`[Multi-Step] Executing step ${i + 1}/${functionCalls.length}: ${fc.name}`);
+              console.log(`[Multi-Step] Executing step ${i + 1}/${functionCalls.length}: ${fc.name}`);
+
+              const result = await this.executeFunction(fc, `ai:${conversationId}`, member, today);
+              functionResults.push(result);
+
+              console.log(`[Multi-Step] Step ${i + 1} result:`, result.success ? '✅ Success' : '❌ Failed', `-`, result.message);
+            }
+
+            // Build summary of all results with calculated totals
+            // Transfers move money between accounts, so they are not part of the spending totals
+            const addedTransactions = functionResults
+              .filter((r, i) => functionCalls[i].name === 'add_transaction' && r.success)
+              .map(r => r.data)
+              .filter((t, i, all) => t.type !== 'transfer' && all.findIndex(other => other.id === t.id) === i);
+
+            let calculatedSummary = '';
+            if (addedTransactions.length > 0) {
+              // Group by category and calculate totals
+              const byCategory: Record<string, number> = {};
+              let grandTotal = 0;
+
+              addedTransactions.forEach((t: any) => {
+                categoryLines(t).forEach(line => { byCategory[line.category] = (byCategory[line.category] || 0) + line.amount; });
+                grandTotal += t.amount;
+              });
+
+              calculatedSummary = `\n\nCALCULATED TOTALS (use these exact numbers):
+- Total transactions added: ${addedTransactions.length}
+- Grand total spent: $${grandTotal.toFixed(2)}
+- By category: ${Object.entries(byCategory).map(([cat, amt]) => `${cat} $${amt.toFixed(2)}`).join(', ')}`;
+            }
+
+            const resultsSummary = functionResults.map((result, i) => {
+              const fc = functionCalls[i];
+              return `${i + 1}. ${fc.name}: ${result.success ? 'Success' : 'Failed'} - ${result.message}`;
+            }).join('\n');
+
+            // ========== RECALCULATE BALANCE AFTER TRANSACTIONS ==========
+            // The balance at the start of this function is now stale
+            // Recalculate with the newly added transactions
+            const updatedTotals = this.store.totalsByType();
+            const updatedTotalIncome = updatedTotals.income || 0;
+            const updatedTotalExpenses = updatedTotals.expense || 0;
+            const updatedBalance = this.store.getBalances().total;
+
+            // Add updated financial context to the summary
+            const updatedFinancialContext = `\n\nUPDATED FINANCIAL STATUS (use these exact numbers):
+- Current Balance: $${updatedBalance.toFixed(2)}
+- Total Income: $${updatedTotalIncome.toFixed(2)}
+- Total Expenses: $${updatedTotalExpenses.toFixed(2)}
+- Total Transactions: ${this.store.countTransactions()}`;
+
+            // Get final natural language response from AI
+            const finalResponse = await this.env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
+              messages: [
+                {
+                  role: 'system',
+                  content: `You are a financial assistant. Provide a brief confirmation of what was done.
+
+CRITICAL RULES:
+1. ONLY confirm what the user asked you to do - don't volunteer extra information
+2. If they asked to log expenses, just confirm the transactions were added with the total
+3. If they asked about balance, ONLY tell them the balance
+4. DO NOT include balance, income, or expense info unless directly asked
+5. Use ONLY the exact numbers provided - NEVER calculate yourself
+6. Keep response under 50 words
+7. Be concise and focused`
+                },
+                { role: 'user', content: message },
+                {
+                  role: 'user',
+                  content: `Executed ${functionCalls.length} function(s):\n${resultsSummary}${calculatedSummary}${updatedFinancialContext}\n\nProvide a brief confirmation of what was done. Answer ONLY what was asked - do not volunteer balance or financial status unless specifically requested.`
+                }
+              ],
+              max_tokens: 150
+            });
+
+            responseText = finalResponse?.response || functionResults.map(r => r.message).join(' ');
+
+            // Save detailed function execution context for AI memory
+            const executionDetails = functionCalls.map((fc, i) => {
+              const result = functionResults[i];
+              let detail = `Executed ${fc.name}`;
+
+              // Add specific details based on function type
+              if (fc.name === 'add_transaction' && result.data) {
+                detail += ` - Added $${result.data.amount} ${result.data.type} for "${result.data.description}" on ${result.data.date} in ${result.data.category} category`;
+              } else if (fc.name === 'set_budget' && result.data) {
+                detail += ` - Set ${result.data.category} budget to $${result.data.amount}/month`;
+              } else if (result.message) {
+                detail += ` - ${result.message}`;
+              }
+
+              return detail;
+            }).join('. ');
+
+            // Save a system message with execution details for context
+            await this.saveMessage('system', `[Action Summary] ${executionDetails}`, conversationId);
+
+            // Save assistant response
+            await this.saveMessage('assistant', responseText, conversationId);
+
+            // Determine if any action was taken (for dashboard refresh)
+            const actionTaken = functionResults.some(r => r.action);
+
+            // Return with multi-step info
+            return new Response(JSON.stringify({
+              response: responseText,
+              action: actionTaken ? 'multi_step_completed' : undefined,
+              functionsCalled: functionCalls.map(fc => fc.name),
+              functionResults: functionResults,
+              stepsExecuted: functionCalls.length
+            }), {
+              headers: { 'Content-Type': 'application/json' }
+            });
+
+          } catch (parseError) {
+            console.error('[Multi-Step] Parse error:', parseError);
+            // If function parsing fails, just return the original response
+          }
+        }
+
+        // Save assistant response to conversation history
+        await this.saveMessage('assistant', responseText, conversationId);
+
+        return new Response(JSON.stringify({
+          response: responseText
+        }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      } catch (aiError) {
+        console.error('AI Error:', aiError);
+        const errorResponse = `I have access to your financial data but encountered an issue. Your current balance is $${balance.toFixed(2)} with $${totalExpenses.toFixed(2)} in expenses. Please try rephrasing your question.`;
+        await this.saveMessage('assistant', errorResponse, conversationId);
+        return new Response(JSON.stringify({
+          response: errorResponse
+        }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    } catch (error) {
+      console.error('getAIAdvice error:', error);
+      const fallbackResponse = 'I can help you manage your finances! Try asking about budgeting, saving, or investment strategies.';
+      try {
+        // Try to get conversationId from request if available
+        const body = await request.clone().json() as { conversationId?: string };
+        await this.saveMessage('assistant', fallbackResponse, this.conversationKey(memberContext(request), body.conversationId || 'default'));
+      } catch {
+        // If we can't parse the request, just continue
+      }
+      return new Response(JSON.stringify({
+        response: fallbackResponse
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+
+  // Helper: Calculate monthly breakdown for all months
+  private calculateMonthlyBreakdownForAllMonths(transactions: Transaction[]): string {
+    const byMonth: { [key: string]: { expenses: number; income: number; count: number } } = {};
+    
+    transactions.forEach(t => {
+      const monthKey = t.date ? t.date.slice(0, 7) : 'Unknown'; // YYYY-MM
+      if (!byMonth[monthKey]) byMonth[monthKey] = { expenses: 0, income: 0, count: 0 };
+      byMonth[monthKey].count++;
+      if (t.type === 'expense') byMonth[monthKey].expenses += t.amount;
+      if (t.type === 'income') byMonth[monthKey].income += t.amount;
+    });
+
+    const formatted = Object.entries(byMonth)
+      .sort(([a], [b]) => b.localeCompare(a))
+      .slice(0, 12)
+      .map(([month, data]) => {
+        const monthStr = this.formatMonthKey(month);
+        return `${monthStr}: $${data.expenses.toFixed(2)} spent, $${data.income.toFixed(2)} earned (${data.count} transactions)`;
+      })
+      .join('\n');
+
+    return formatted || 'No monthly data available';
+  }
+
+  // Helper: Current month as YYYY-MM
+  private currentYearMonth(): string {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+  }
+
+  // Helper: Format YYYY-MM to readable month name
+  private formatMonthKey(monthKey: string): string {
+    if (monthKey === 'Unknown') return 'Unknown';
+    const [year, month] = monthKey.split('-');
+    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+    return `${monthNames[parseInt(month) - 1]} ${year}`;
+  }
+
+  // Helper: Pre-calculate daily spending to help AI answer daily spending questions
+  private calculateDailySpendingSummary(transactions: Transaction[]): string {
+    const dailySpending: { [key: string]: { total: number; count: number; categories: { [key: string]: number } } } = {};
+    
+    // Group expenses by date
+    transactions
+      .filter(t => t.type === 'expense' && t.date)
+      .forEach(t => {
+        if (!dailySpending[t.date]) {
+          dailySpending[t.date] = { total: 0, count: 0, categories: {} };
+        }
+        dailySpending[t.date].total += t.amount;
+        dailySpending[t.date].count++;
+        categoryLines(t).forEach(line => {
+          dailySpending[t.date].categories[line.category] = (dailySpending[t.date].categories[line.category] || 0) + line.amount;
+        });
+      });
+
+    // Format for LLM (sorted by date, most recent first, limit to last 90 days)
+    const formatted = Object.entries(dailySpending)
+      .sort(([a], [b]) => b.localeCompare(a))
+      .slice(0, 90)
+      .map(([date, data]) => {
+        const topCategory = Object.entries(data.categories)
+          .sort(([,a], [,b]) => b - a)[0];
+        return `${date}: $${data.total.toFixed(2)} spent (${data.count} transactions, top: ${topCategory[0]} $${topCategory[1].toFixed(2)})`;
+      })
+      .join('\n');
+
+    return formatted || 'No daily spending data available';
+  }
+
+  private calculateMonthlySpending(transactions: Transaction[], monthName: string) {
+    const monthMap: { [key: string]: number } = {
+      'january': 0, 'jan': 0,
+      'february': 1, 'feb': 1,
+      'march': 2, 'mar': 2,
+      'april': 3, 'apr': 3,
+      'may': 4,
+      'june': 5, 'jun': 5,
+      'july': 6, 'jul': 6,
+      'august': 7, 'aug': 7,
+      'september': 8, 'sep': 8, 'sept': 8,
+      'october': 9, 'oct': 9,
+      'november': 10, 'nov': 10,
+      'december': 11, 'dec': 11
+    };
+
+    const targetMonth = monthMap[monthName];
+    if (targetMonth === undefined) {
+      return { found: false, monthName, amount: 0, transactionCount: 0 };
+    }
+
+    // Default to current year for month queries
+    const currentYear = new Date().getFullYear();
+
+    const monthTransactions = transactions.filter(t => {
+      if (t.type !== 'expense') return false;
+      // Use date string to avoid timezone issues
+      if (!t.date) return false;
+      const dateParts = t.date.split('-');
+      const txYear = parseInt(dateParts[0]);
+      const txMonth = parseInt(dateParts[1]) - 1; // Convert to 0-indexed
+      // Match month and year (default to current year)
+      return txMonth === targetMonth && txYear === currentYear;
+    });
+
+    if (monthTransactions.length === 0) {
+      // Check if we have sample data for this month
+      const sampleAmounts: { [key: number]: number } = {
+        3: 180, // April
+        4: 220, // May  
+        5: 320, // June
+        6: 280, // July
+        7: 350  // August
+      };
+      
+      if (sampleAmounts[targetMonth]) {
+        const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 
+                           'July', 'August', 'September', 'October', 'November', 'December'];
+        return { 
+          found: true, 
+          monthName: monthNames[targetMonth], 
+          amount: sampleAmounts[targetMonth], 
+          transactionCount: 5, // Estimated
+          isSample: true 
+        };
+      }
+      
+      return { found: false, monthName, amount: 0, transactionCount: 0 };
+    }
+
+    const totalAmount = monthTransactions.reduce((sum, t) => sum + t.amount, 0);
+    const categoryBreakdown: { [key: string]: number } = {};
+    
+    monthTransactions.forEach(t => {
+      categoryLines(t).forEach(line => { categoryBreakdown[line.category] = (categoryBreakdown[line.category] || 0) + line.amount; });
+    });
+
+    const topCategory = Object.entries(categoryBreakdown)
+      .sort(([,a], [,b]) => b - a)[0];
+
+    const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 
+                       'July', 'August', 'September', 'October', 'November', 'December'];
+
+    return {
+      found: true,
+      monthName: monthNames[targetMonth],
+      amount: totalAmount,
+      transactionCount: monthTransactions.length,
+      topCategory: topCategory ? { category: topCategory[0], amount: topCategory[1] } : null,
+      isSample: false
+    };
+  }
+
+  private calculateDailySpending(transactions: Transaction[], monthName: string | null) {
+    let filteredTransactions = transactions.filter(t => t.type === 'expense');
+    
+    console.log(`[Daily Spending] Total expense transactions: ${filteredTransactions.length}`);
+    
+    // If a month is specified, filter by that month
+    if (monthName) {
+      const monthMap: { [key: string]: number } = {
+        'january': 0, 'jan': 0, 'february': 1, 'feb': 1, 'march': 2, 'mar': 2,
+        'april': 3, 'apr': 3, 'may': 4, 'june': 5, 'jun': 5,
+        'july': 6, 'jul': 6, 'august': 7, 'aug': 7, 'september': 8, 'sep': 8, 'sept': 8,
+        'october': 9, 'oct': 9, 'november': 10, 'nov': 10, 'december': 11, 'dec': 11
+      };
+      const targetMonth = monthMap[monthName.toLowerCase()];
+      const currentYear = new Date().getFullYear();
+      console.log(`[Daily Spending] Filtering for month: ${monthName} (index: ${targetMonth}, year: ${currentYear})`);
+      if (targetMonth !== undefined) {
+        filteredTransactions = filteredTransactions.filter(t => {
+          // Use date string to avoid timezone issues
+          if (!t.date) return false;
+          const dateParts = t.date.split('-');
+          const txYear = parseInt(dateParts[0]);
+          const txMonth = parseInt(dateParts[1]) - 1; // Convert to 0-indexed
+          return txMonth === targetMonth && txYear === currentYear;
+        });
+        console.log(`[Daily Spending] After month filter: ${filteredTransactions.length} transactions`);
+      }
+    }
+
+    if (filteredTransactions.length === 0) {
+      return { found: false };
+    }
+
+    // Group transactions by day
+    const dailyTotals: { [key: string]: { amount: number; transactions: Transaction[] } } = {};
+    
+    filteredTransactions.forEach(t => {
+      const date = t.date || new Date(t.timestamp).toISOString().split('T')[0];
+      if (!dailyTotals[date]) {
+        dailyTotals[date] = { amount: 0, transactions: [] };
+      }
+      dailyTotals[date].amount += t.amount;
+      dailyTotals[date].transactions.push(t);
+    });
+    
+    console.log(`[Daily Spending] Grouped into ${Object.keys(dailyTotals).length} days`);
+    Object.entries(dailyTotals).forEach(([date, data]) => {
+      console.log(`  ${date}: $${data.amount.toFixed(2)} (${data.transactions.length} txns) - ${data.transactions.map(t => `${t.description} ($${t.amount})`).join(', ')}`);
+    });
+
+    // Find the day with highest and lowest spending
+    let highestDay: any = null;
+    let lowestDay: any = null;
+    let highestAmount = 0;
+    let lowestAmount = Infinity;
+
+    Object.entries(dailyTotals).forEach(([date, data]) => {
+        // Calculate category breakdown for this day
+        const categoryBreakdown: { [key: string]: number } = {};
+        data.transactions.forEach(t => {
+          categoryLines(t).forEach(line => { categoryBreakdown[line.category] = (categoryBreakdown[line.category] || 0) + line.amount; });
+        });
+        
+        const topCategory = Object.entries(categoryBreakdown)
+          .sort(([,a], [,b]) => b - a)[0];
+
+        // Format the date nicely
+        const dateObj = new Date(date + 'T00:00:00Z');
+        const formattedDate = dateObj.toLocaleDateString('en-US', { 
+          weekday: 'long', 
+          year: 'numeric', 
+          month: 'long', 
+          day: 'numeric',
+          timeZone: 'UTC'
+        });
+
+      const dayInfo = {
+          date: formattedDate,
+          amount: data.amount,
+          transactionCount: data.transactions.length,
+          topCategory: topCategory ? { category: topCategory[0], amount: topCategory[1] } : null
+        };
+
+      // Check for highest
+      if (data.amount > highestAmount) {
+        highestAmount = data.amount;
+        highestDay = dayInfo;
+      }
+
+      // Check for lowest
+      if (data.amount < lowestAmount) {
+        lowestAmount = data.amount;
+        lowestDay = dayInfo;
+      }
+    });
+    
+    console.log(`[Daily Spending] Highest: ${highestDay?.date} ($${highestDay?.amount.toFixed(2)})`);
+    console.log(`[Daily Spending] Lowest: ${lowestDay?.date} ($${lowestDay?.amount.toFixed(2)})`);
+
+    return {
+      found: true,
+      highestDay,
+      lowestDay
+    };
+  }
+
+  private extractDateFromMessage(message: string): Date {
+    const now = new Date();
+    const lowerMessage = message.toLowerCase();
+
+    // Month mapping
+    const monthMap: { [key: string]: number } = {
+      'january': 0, 'jan': 0, 'february': 1, 'feb': 1, 'march': 2, 'mar': 2,
+      'april': 3, 'apr': 3, 'may': 4, 'june': 5, 'jun': 5,
+      'july': 6, 'jul': 6, 'august': 7, 'aug': 7, 'september': 8, 'sep': 8, 'sept': 8,
+      'october': 9, 'oct': 9, 'november': 10, 'nov': 10, 'december': 11, 'dec': 11
+    };
+
+    // Try to match "Month Day" or "Month Dayth" patterns (e.g., "October 20", "October 20th")
+    const monthDayMatch = lowerMessage.match(/(january|jan|february|feb|march|mar|april|apr|may|june|jun|july|jul|august|aug|september|sep|sept|october|oct|november|nov|december|dec)\s+(\d{1,2})/);
+    if (monthDayMatch) {
+      const month = monthMap[monthDayMatch[1]];
+      const day = parseInt(monthDayMatch[2]);
+      const year = now.getFullYear();
+      return new Date(year, month, day, 12, 0, 0);
+    }
+
+    // Try to match ISO date format (YYYY-MM-DD)
+    const isoMatch = message.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (isoMatch) {
+      const year = parseInt(isoMatch[1]);
+      const month = parseInt(isoMatch[2]) - 1;
+      const day = parseInt(isoMatch[3]);
+      return new Date(year, month, day, 12, 0, 0);
+    }
+
+    // Try to match MM/DD or MM/DD/YYYY format
+    const slashMatch = message.match(/(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?/);
+    if (slashMatch) {
+      const month = parseInt(slashMatch[1]) - 1;
+      const day = parseInt(slashMatch[2]);
+      const year = slashMatch[3] ? (slashMatch[3].length === 2 ? 2000 + parseInt(slashMatch[3]) : parseInt(slashMatch[3])) : now.getFullYear();
+      return new Date(year, month, day, 12, 0, 0);
+    }
+
+    // Default to today
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate(), 12, 0, 0);
+  }
+
+  private async parseTransactionIntent(message: string): Promise<{
+    isTransaction: boolean;
+    type?: 'expense' | 'income';
+    amount?: number;
+    description?: string;
+    category?: string;
+    date?: string;
+  } | null> {
+    try {
+      const today = new Date().toISOString().slice(0, 10);
+      const prompt = `Analyze this message and determine if the user wants to add a financial transaction (expense or income).
+
+Message: "${message}"
+
+IMPORTANT: If the message is asking a QUESTION (starts with "how much", "what", "when", "where", etc.), respond with {"isTransaction": false}
+
+Examples of QUESTIONS (NOT transactions):
+- "How much did I spend in October?" → {"isTransaction": false}
+- "What's my balance?" → {"isTransaction": false}
+- "How much did I spend on food?" → {"isTransaction": false}
+
+Examples of TRANSACTIONS:
+- "Add $50 grocery expense" → {"isTransaction": true, ...}
+- "I spent $25 on gas" → {"isTransaction": true, ...}
+- "Record $100 income" → {"isTransaction": true, ...}
+
+If this is a transaction request, respond with ONLY a JSON object (no extra text):
+{
+  "isTransaction": true,
+  "type": "expense" or "income",
+  "amount": number (just the number, e.g., 50 not "$50"),
+  "description": "brief description of transaction",
+  "category": ${this.store.listCategories().map(c => `"${c.id}"`).join(' or ')},
+  "date": "YYYY-MM-DD"
+}
+
+If NOT a transaction request, respond with:
+{"isTransaction": false}
+
+Rules:
+- Questions about spending are NOT transactions
+- Extract the amount (e.g., "50 dollar" → 50, "$25" → 25)
+- Create a short description (e.g., "food expense" → "Food purchase", "grocery" → "Groceries")
+- Choose appropriate category based on context
+- Parse dates like "October 10th" → "2025-10-10", "tomorrow" → next day, or use today: ${today}
+- Type is "expense" unless clearly income/salary/earning
+
+Respond with ONLY the JSON object, no other text.`;
+
+      const result = await this.env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
+        messages: [
+          { role: 'system', content: 'You are a financial transaction parser. Return only valid JSON.' },
+          { role: 'user', content: prompt }
+        ],
+        max_tokens: 256
+      }) as any;
+
+      if (result?.response) {
+        // Clean response
+        let jsonStr = result.response.trim();
+        jsonStr = jsonStr.replace(/```json\s*/g, '').replace(/```\s*/g, '');
+        
+        // Extract JSON object
+        const jsonMatch = jsonStr.match(/\{[\s\S]*?\}/);
+        if (jsonMatch) {
+          const parsed = JSON.parse(jsonMatch[0]);
+          
+          if (parsed.isTransaction === false) {
+            return null;
+          }
+          
+          // Validate and sanitize
+          if (parsed.isTransaction && parsed.amount && parsed.type) {
+            return {
+              isTransaction: true,
+              type: parsed.type === 'income' ? 'income' : 'expense',
+              amount: parseFloat(parsed.amount),
+              description: (parsed.description || 'Transaction').toString().trim(),
+              category: this.validateCategory(parsed.category, parsed.description || message),
+              date: this.validateDate(parsed.date) || today
+            };
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Transaction intent parsing error:', error);
+    }
+    
+    return null;
+  }
+
+  /**
+   * Keep a model-supplied category if it is active, otherwise fall back to keyword matching
+   */
+  private validateCategory(category: string, description: string): string {
+    const cat = (category || '').toLowerCase().trim();
+    return this.store.getCategory(cat)?.archived === false ? cat : this.categorizeExpense(description);
+  }
+
+  private validateDate(dateStr: string): string | null {
+    if (!dateStr) return null;
+    try {
+      const date = new Date(dateStr);
+      if (isNaN(date.getTime())) return null;
+      return date.toISOString().slice(0, 10);
+    } catch {
+      return null;
+    }
+  }
+
+  private categorizeExpense(description: string): string {
+    return categorizeByKeywords(description, this.store.listCategories().filter(c => c.kind === 'expense'));
+  }
+
+  private getDefaultResponse(message: string): string {
+    const msg = message.toLowerCase();
+    if (msg.includes('budget')) {
+      return 'I can help you with budgeting! Try the 50/30/20 rule: 50% for needs, 30% for wants, 20% for savings. What specific budgeting area would you like help with?';
+    }
+    if (msg.includes('save') || msg.includes('saving')) {
+      return 'Great question about saving! Start by tracking your expenses, then look for areas to cut back. Even saving $50/month adds up to $600/year!';
+    }
+    if (msg.includes('invest')) {
+      return 'For investing, consider starting with low-cost index funds, diversify your portfolio, and think long-term. What\'s your investment timeline?';
+    }
+    if (msg.includes('expense') || msg.includes('add')) {
+      return 'To add an expense, use this format: "Add $50 grocery expense" or "Add $25 gas expense". I\'ll track it for you!';
+    }
+    return 'I can help you manage your finances! Try asking about budgeting, saving, investment strategies, or add expenses like "Add $50 grocery expense".';
+  }
+
+  async addTransaction(request: Request): Promise<Response> {
+    try {
+      const body = await request.json() as Record<string, unknown>;
+
+      // A retried request with the same Idempotency-Key gets the first response back
+      const idempotencyKey = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+      if (idempotencyKey !== null && !isValidIdempotencyKey(idempotencyKey)) {
+        const errors: FieldError[] = [{ field: IDEMPOTENCY_KEY_HEADER, message: `must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} printable characters` }];
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid transaction: ${formatFieldErrors(errors)}`,
+          errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      const idempotency = idempotencyKey !== null
+        ? { key: `api:${idempotencyKey}`, fingerprint: await requestFingerprint(body) }
+        : null;
+      const previous = idempotency && this.store.getIdempotencyRecord(idempotency.key, Date.now() - IDEMPOTENCY_KEY_TTL_MS);
+      if (previous && previous.fingerprint !== idempotency!.fingerprint) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `${IDEMPOTENCY_KEY_HEADER} ${idempotencyKey} was already used for a different transaction`
+        }), {
+          status: 422,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      if (previous) {
+        return new Response(JSON.stringify(previous.response), {
+          headers: { 'Content-Type': 'application/json', 'Idempotent-Replayed': 'true' }
+        });
+      }
+
+      const today = clientToday(request.headers.get(TIMEZONE_HEADER));
+      const validation = today.valid ? this.validateNewTransaction(body, {}, today.value) : today;
+      if (!validation.valid) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid transaction: ${formatFieldErrors(validation.errors)}`,
+          errors: validation.errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // A receipt scanned for this transaction is kept as its proof of purchase
+      const receipt = body.attachmentId !== undefined ? this.pendingAttachment(body.attachmentId) : null;
+      if (body.attachmentId !== undefined && !receipt) {
+        const errors: FieldError[] = [{ field: 'attachmentId', message: 'does not match a scanned receipt awaiting a transaction' }];
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid transaction: ${formatFieldErrors(errors)}`,
+          errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // Create new transaction (dated today on the client's calendar unless the body gives a date)
+      const transaction = this.newTransaction(validation.value, memberContext(request).userId);
+      if (receipt) transaction.attachmentIds = [receipt.id];
+      const duplicate = this.possibleDuplicate(transaction);
+
+      const result = {
+        success: true,
+        transaction,
+        ...(duplicate ? { possibleDuplicateOf: duplicate.id } : {}),
+        message: `Successfully added ${transaction.type} of $${transaction.amount} for ${transaction.description}`
+          + (duplicate ? `. Possible duplicate of "${duplicate.description}" on ${duplicate.date}` : '')
+      };
+
+      const refs: AuditRef[] = [{ entity: 'transaction', id: transaction.id }];
+      if (receipt) refs.push({ entity: 'attachment', id: receipt.id });
+      await this.audited(this.userActor(request), refs, () => this.state.storage.transactionSync(() => {
+        this.store.insertTransaction(transaction);
+        if (receipt) this.store.saveAttachment({ ...receipt, transactionId: transaction.id });
+        if (idempotency) this.recordIdempotentResult(idempotency, result);
+      }));
+
+      // ========== RAG ENHANCEMENT ==========
+      // Index transaction for semantic search
+      try {
+        const vectorDB = this.vectorDB();
+        await indexTransaction(transaction, this.env.AI, vectorDB);
+      } catch (indexError) {
+        console.log('Transaction indexing skipped:', indexError);
+        // Don't fail the whole operation if indexing fails
+      }
+
+      return new Response(JSON.stringify(result), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error adding transaction:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to add transaction: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  async updateTransaction(request: Request, id: string): Promise<Response> {
+    try {
+      const validation = validateTransactionPatch(await request.json(), this.transactionValidationOptions());
+      if (!validation.valid) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid update: ${formatFieldErrors(validation.errors)}`,
+          errors: validation.errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const existing = this.store.getTransaction(id);
+      if (!existing) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Transaction ${id} not found`
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const crossFieldErrors = this.crossFieldErrors(applyTransactionPatch(existing, validation.value));
+      if (crossFieldErrors.length > 0) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid update: ${formatFieldErrors(crossFieldErrors)}`,
+          errors: crossFieldErrors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const transaction = await this.applyTransactionUpdate(existing, validation.value, this.userActor(request));
+
+      return new Response(JSON.stringify({
+        success: true,
+        transaction,
+        message: `Updated ${transaction.description}`
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error updating transaction:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to update transaction: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  /**
+   * GET /api/transactions - filtered, sorted, cursor-paginated transaction list
+   */
+  async listTransactions(request: Request): Promise<Response> {
+    const query = parseTransactionQuery(new URL(request.url).searchParams);
+    if (!query.valid) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Invalid query: ${formatFieldErrors(query.errors)}`,
+        errors: query.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // A merchant filter matches every spelling of a registered merchant; unknown names fall back to a description prefix
+    const { filter } = query.value;
+    const merchant = filter.merchant ? this.store.findMerchant(filter.merchant) : null;
+    if (merchant) {
+      delete filter.merchant;
+      filter.merchantId = merchant.id;
+    }
+
+    const page = this.store.queryTransactions(query.value);
+
+    return new Response(JSON.stringify({
+      success: true,
+      ...page
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  async deleteTransaction(request: Request, id: string): Promise<Response> {
+    const existing = this.store.getTransaction(id);
+    if (!existing) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Transaction ${id} not found`
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const transaction = await this.moveToTrash(existing, this.userActor(request));
+
+    return new Response(JSON.stringify({
+      success: true,
+      transaction,
+      message: `Moved ${transaction.description} to trash`
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  async getTrash(): Promise<Response> {
+    return new Response(JSON.stringify({
+      success: true,
+      transactions: this.store.listTrash(),
+      retentionDays: this.trashRetentionDays()
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  async restoreTransaction(request: Request, id: string): Promise<Response> {
+    const transaction = await this.restoreFromTrash(id, this.userActor(request));
+    if (!transaction) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Transaction ${id} is not in the trash`
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      transaction,
+      message: `Restored ${transaction.description}`
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  async getSummary(request: Request): Promise<Response> {
+    try {
+      // Calculate totals
+      const totals = this.store.totalsByType();
+      const totalIncome = totals.income || 0;
+      const totalExpenses = totals.expense || 0;
+      
+      // Opening balances plus activity, across every account
+      const balances = this.store.getBalances();
+      const balance = balances.total;
+
+      // Calculate current month's expenses using date strings (not timestamps)
+      const now = new Date();
+      const currentMonth = now.getMonth();
+      const currentYear = now.getFullYear();
+      const currentYearMonth = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}`;
+
+      // Use date strings (YYYY-MM-DD) to avoid timezone issues
+      const monthlyTotals = this.store.totalsByType({ month: currentYearMonth });
+      const monthlyExpenses = monthlyTotals.expense || 0;
+      const monthlyIncome = monthlyTotals.income || 0;
+
+      // Category breakdown by top-level category, with each parent's subcategories alongside
+      const categoryBreakdown = this.store.categoryTotals({ type: 'expense' }, { rollUp: true });
+      const subcategoryBreakdown = subcategoryTotals(this.store.categoryTotals({ type: 'expense' }), this.store.listCategories(true));
+
+      // Household ledgers also break spending down by the member who recorded it
+      const member = memberContext(request);
+      const monthlyByMember = new Map(this.memberBreakdown(member, { month: currentYearMonth }).map(m => [m.memberId, m.expenses]));
+      const memberBreakdown = this.memberBreakdown(member).map(m => ({
+        memberId: m.memberId,
+        name: m.name,
+        isYou: m.memberId !== null && m.memberId === member.userId,
+        totalExpenses: Number(m.expenses.toFixed(2)),
+        totalIncome: Number(m.income.toFixed(2)),
+        monthlyExpenses: Number((monthlyByMember.get(m.memberId) ?? 0).toFixed(2)),
+        transactionCount: m.count,
+        categoryBreakdown: m.memberId !== null ? this.store.categoryTotals({ type: 'expense', createdBy: m.memberId }, { rollUp: true }) : {}
+      }));
+      
+      // Aggregates only - individual transactions come from GET /api/transactions
+      return new Response(JSON.stringify({
+        balance: Number(balance.toFixed(2)),
+        totalIncome: Number(totalIncome.toFixed(2)),
+        totalExpenses: Number(totalExpenses.toFixed(2)),
+        monthlyExpenses: Number(monthlyExpenses.toFixed(2)),
+        monthlyIncome: Number(monthlyIncome.toFixed(2)),
+        categoryBreakdown,
+        subcategoryBreakdown,
+        accounts: balances.accounts,
+        transactionCount: this.store.countTransactions(),
+        ...(member.members.length > 0 ? { memberBreakdown } : {})
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error getting summary:', error);
+      return new Response(JSON.stringify({
+        balance: 0,
+        totalIncome: 0,
+        totalExpenses: 0,
+        monthlyExpenses: 0,
+        monthlyIncome: 0,
+        categoryBreakdown: {},
+        subcategoryBreakdown: {},
+        accounts: [],
+        transactionCount: 0
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  async getAccounts(): Promise<Response> {
+    const balances = this.store.getBalances();
+    return new Response(JSON.stringify({
+      success: true,
+      accounts: balances.accounts,
+      total: balances.total
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  /**
+   * Create an account, or replace one when `id` names an existing account
+   */
+  async saveAccount(request: Request): Promise<Response> {
+    try {
+      const body = await request.json() as Record<string, unknown>;
+      const validation = validateAccountInput(body);
+      if (!validation.valid) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid account: ${formatFieldErrors(validation.errors)}`,
+          errors: validation.errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const existing = typeof body.id === 'string' ? this.store.getAccount(body.id) : null;
+      const account: Account = {
+        id: existing ? existing.id : accountIdFromName(validation.value.name),
+        name: validation.value.name,
+        type: validation.value.type,
+        openingBalance: validation.value.openingBalance,
+        openingDate: validation.value.openingDate || existing?.openingDate || new Date().toISOString().slice(0, 10),
+        createdAt: existing ? existing.createdAt : Date.now(),
+        ...(existing?.externalRef ? { externalRef: existing.externalRef } : {})
+      };
+
+      if (!existing && this.store.getAccount(account.id)) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `An account named "${account.name}" already exists`
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      await this.audited(this.userActor(request), [{ entity: 'account', id: account.id }], () => this.store.saveAccount(account));
+
+      return new Response(JSON.stringify({
+        success: true,
+        account,
+        message: `${existing ? 'Updated' : 'Created'} account ${account.name}`
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error saving account:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to save account: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  /**
+   * GET /api/accounts/:id/reconciliation - each balance an imported statement reported,
+   * latest first, against what the account's transactions add up to at the end of that day
+   */
+  async getReconciliation(id: string): Promise<Response> {
+    const account = this.store.getBalances().accounts.find(a => a.id === id);
+    if (!account) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Account ${id} not found`
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const statements = this.store.listStatementBalances(id).map(({ balance, accountId, ...statement }) => {
+      const computedBalance = this.store.getBalances(statement.asOf).accounts.find(a => a.id === id)!.balance;
+      const difference = Math.round((balance - computedBalance) * 100) / 100;
+      return { ...statement, statementBalance: balance, computedBalance, difference, reconciled: difference === 0 };
+    });
+    const latest = statements[0];
+    return new Response(JSON.stringify({
+      success: true,
+      account,
+      statements,
+      message: !latest
+        ? `No statement balances have been imported for ${account.name}`
+        : latest.reconciled
+          ? `${account.name} matches its ${latest.asOf} statement balance of $${latest.statementBalance.toFixed(2)}`
+          : `${account.name} is off by $${latest.difference.toFixed(2)} from its ${latest.asOf} statement balance of $${latest.statementBalance.toFixed(2)}`
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // ========== CATEGORIES ==========
+
+  async getCategories(request: Request): Promise<Response> {
+    const includeArchived = new URL(request.url).searchParams.get('includeArchived') === 'true';
+    return new Response(JSON.stringify({
+      success: true,
+      categories: this.store.listCategories(includeArchived)
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  async createCategory(request: Request): Promise<Response> {
+    try {
+      const validation = validateCategoryInput(await request.json());
+      if (!validation.valid) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid category: ${formatFieldErrors(validation.errors)}`,
+          errors: validation.errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const category = { ...validation.value, id: categoryIdFromName(validation.value.name!), createdAt: Date.now() } as Category;
+      const parentError = this.categoryParentError(category, category.id);
+      if (parentError) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid category: ${formatFieldErrors([parentError])}`,
+          errors: [parentError]
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      if (!category.id || category.id === TRANSFER_CATEGORY || this.store.getCategory(category.id)) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `A category named "${category.name}" already exists`
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      await this.audited(this.userActor(request), [{ entity: 'category', id: category.id }], () => this.store.saveCategory(category));
+
+      return new Response(JSON.stringify({
+        success: true,
+        category,
+        message: `Created category ${category.name}`
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error creating category:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to create category: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  /**
+   * Edit a category. A new name also changes its id, which is rewritten on every
+   * transaction and budget that used the old one.
+   */
+  async updateCategory(request: Request, id: string): Promise<Response> {
+    try {
+      const existing = this.store.getCategory(id);
+      if (!existing) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `No category found with id ${id}`
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const validation = validateCategoryInput(await request.json(), true);
+      if (!validation.valid) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid category: ${formatFieldErrors(validation.errors)}`,
+          errors: validation.errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const updated: Category = {
+        ...existing,
+        ...validation.value,
+        id: validation.value.name ? categoryIdFromName(validation.value.name) : existing.id
+      };
+      const renamed = updated.id !== existing.id;
+
+      const parentError = this.categoryParentError(updated, existing.id);
+      if (parentError) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid category: ${formatFieldErrors([parentError])}`,
+          errors: [parentError]
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (existing.id === FALLBACK_CATEGORY_ID && (renamed || updated.archived)) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `The ${existing.name} category cannot be renamed or archived`
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      if (renamed && (!updated.id || updated.id === TRANSFER_CATEGORY || this.store.getCategory(updated.id))) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `A category named "${updated.name}" already exists; merge into it instead`
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (renamed) {
+        await this.audited(this.userActor(request), [
+          ...this.categoryRefs(existing.id),
+          { entity: 'category', id: updated.id },
+          { entity: 'budget', id: updated.id },
+          ...this.personalBudgetRefs(existing.id, updated.id)
+        ], () => this.store.renameCategory(existing.id, updated));
+        await this.reindexCategory(updated.id);
+      } else {
+        await this.audited(this.userActor(request), [{ entity: 'category', id: updated.id }], () => this.store.saveCategory(updated));
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        category: updated,
+        message: renamed ? `Renamed ${existing.name} to ${updated.name}` : `Updated category ${updated.name}`
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error updating category:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to update category: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  /**
+   * Fold a category into another (`{ into }`), moving its transactions and budget
+   */
+  async mergeCategory(request: Request, id: string): Promise<Response> {
+    try {
+      const body = await request.json() as { into?: string };
+      const source = this.store.getCategory(id);
+      const target = this.store.getCategory(String(body?.into ?? ''));
+      if (!source || !target) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `No category found with id ${!source ? id : body?.into}`
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      if (source.id === target.id || source.id === FALLBACK_CATEGORY_ID) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: source.id === target.id ? 'A category cannot be merged into itself' : `The ${source.name} category cannot be merged away`
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const moved = await this.audited(this.userActor(request), [
+        ...this.categoryRefs(source.id),
+        { entity: 'category', id: target.id },
+        { entity: 'budget', id: target.id },
+        ...this.personalBudgetRefs(source.id, target.id)
+      ], () => this.store.mergeCategory(source.id, target.id));
+      await this.reindexCategory(target.id);
+
+      return new Response(JSON.stringify({
+        success: true,
+        category: target,
+        moved,
+        message: `Merged ${source.name} into ${target.name} (${moved} transaction${moved === 1 ? '' : 's'} moved)`
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error merging category:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to merge category: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  /**
+   * Spending per category for budget checks and questions at either level:
+   * subcategories keep their own amounts and each parent also counts its subcategories
+   */
+  private categorySpending(filter: TransactionFilter): Record<string, number> {
+    return { ...this.store.categoryTotals(filter), ...this.store.categoryTotals(filter, { rollUp: true }) };
+  }
+
+  /**
+   * Hierarchy rules: the parent must be another top-level category of the same kind,
+   * and a category that already has subcategories cannot become one itself
+   */
+  private categoryParentError(category: Category, currentId: string): FieldError | null {
+    if (!category.parentId) return null;
+    const parent = this.store.getCategory(category.parentId);
+    if (!parent || parent.id === currentId) return { field: 'parentId', message: 'does not match another category' };
+    if (parent.parentId) return { field: 'parentId', message: 'must be a top-level category' };
+    if (parent.kind !== category.kind) return { field: 'parentId', message: `must be an ${category.kind} category` };
+    if (this.store.listSubcategories(currentId).length > 0) {
+      return { field: 'parentId', message: 'cannot be set on a category that has subcategories' };
+    }
+    return null;
+  }
+
+  /**
+   * Refresh the RAG index for a category's transactions after their category changed
+   */
+  private async reindexCategory(categoryId: string): Promise<void> {
+    try {
+      const vectorDB = this.vectorDB();
+      for (const transaction of this.store.listTransactions({ category: categoryId })) {
+        await indexTransaction(transaction, this.env.AI, vectorDB);
+      }
+    } catch (indexError) {
+      console.log('Category re-indexing skipped:', indexError);
+    }
+  }
+
+  // ========== TAGS ==========
+
+  async getTags(): Promise<Response> {
+    return new Response(JSON.stringify({
+      success: true,
+      tags: this.store.listTags()
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  async createTag(request: Request): Promise<Response> {
+    try {
+      const body = await request.json() as { name?: unknown };
+      const name = normalizeTag(body?.name);
+      if (!name) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: 'Invalid tag: name must contain only letters, digits, "-" and "_"',
+          errors: [{ field: 'name', message: 'must contain only letters, digits, "-" and "_"' }]
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      if (this.store.getTag(name)) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `A tag named "${name}" already exists`
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      await this.audited(this.userActor(request), [{ entity: 'tag', id: name }], () => this.store.saveTag(name));
+
+      return new Response(JSON.stringify({
+        success: true,
+        tag: this.store.getTag(name),
+        message: `Created tag ${name}`
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error creating tag:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to create tag: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  /**
+   * Rename a tag (`{ name }`) on every transaction. Renaming onto an existing tag merges them.
+   */
+  async updateTag(request: Request, name: string): Promise<Response> {
+    try {
+      const existing = this.store.getTag(name);
+      if (!existing) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `No tag found named ${name}`
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const body = await request.json() as { name?: unknown };
+      const newName = normalizeTag(body?.name);
+      if (!newName) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: 'Invalid tag: name must contain only letters, digits, "-" and "_"',
+          errors: [{ field: 'name', message: 'must contain only letters, digits, "-" and "_"' }]
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const merged = newName !== existing.name && this.store.getTag(newName) !== null;
+      const retagged = newName === existing.name ? 0 : await this.audited(this.userActor(request), [
+        ...this.tagRefs(existing.name),
+        { entity: 'tag', id: newName }
+      ], () => this.store.renameTag(existing.name, newName));
+
+      return new Response(JSON.stringify({
+        success: true,
+        tag: this.store.getTag(newName),
+        merged,
+        retagged,
+        message: merged
+          ? `Merged ${existing.name} into ${newName} (${retagged} transaction${retagged === 1 ? '' : 's'} retagged)`
+          : `Renamed ${existing.name} to ${newName}`
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error updating tag:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to update tag: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  /**
+   * Remove a tag from every transaction; the transactions themselves are untouched
+   */
+  async deleteTag(request: Request, name: string): Promise<Response> {
+    if (!this.store.getTag(name)) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `No tag found named ${name}`
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const untagged = await this.audited(this.userActor(request), this.tagRefs(name), () => this.store.deleteTag(name));
+
+    return new Response(JSON.stringify({
+      success: true,
+      untagged,
+      message: `Deleted tag ${name} (removed from ${untagged} transaction${untagged === 1 ? '' : 's'})`
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  /**
+   * Spending per tag, with a per-category breakdown for each. Accepts the same
+   * filters as GET /api/transactions (e.g. `month`, `from`, `to`, `tag`).
+   */
+  async getTagReport(request: Request): Promise<Response> {
+    const parsed = parseTransactionQuery(new URL(request.url).searchParams);
+    if (!parsed.valid) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Invalid query: ${formatFieldErrors(parsed.errors)}`,
+        errors: parsed.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { filter } = parsed.value;
+    const report = this.store.tagSummaries(filter).map(summary => ({
+      ...summary,
+      byCategory: this.store.categoryTotals(
+        { ...filter, type: 'expense', tags: [...(filter.tags || []), summary.tag] },
+        { rollUp: true }
+      )
+    }));
+
+    return new Response(JSON.stringify({
+      success: true,
+      report
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // ========== MERCHANTS ==========
+
+  /**
+   * Merchants with spending stats (total, visits, average ticket, days between visits).
+   * Accepts the same filters as GET /api/transactions (e.g. `month`, `from`, `to`).
+   */
+  async getMerchants(request: Request): Promise<Response> {
+    const parsed = parseTransactionQuery(new URL(request.url).searchParams);
+    if (!parsed.valid) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Invalid query: ${formatFieldErrors(parsed.errors)}`,
+        errors: parsed.errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const stats = new Map(this.store.merchantStats(parsed.value.filter).map(s => [s.merchantId, s]));
+    return new Response(JSON.stringify({
+      success: true,
+      merchants: this.store.listMerchants().map(merchant => ({ ...merchant, stats: stats.get(merchant.id) ?? null }))
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
 
-              const result = await this.executeFunction(fc);
-              functionResults.push(result);
+  async createMerchant(request: Request): Promise<Response> {
+    try {
+      const validation = validateMerchantInput(await request.json());
+      if (!validation.valid) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid merchant: ${formatFieldErrors(validation.errors)}`,
+          errors: validation.errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-              console.log(`[Multi-Step] Step ${i + 1} result:`, result.success ? '✅ Success' : '❌ Failed', `-`, result.message);
-            }
+      const id = merchantIdFromKey(merchantKey(validation.value.name!));
+      if (this.store.getMerchant(id)) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `A merchant named "${validation.value.name}" already exists`
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-            // Build summary of all results with calculated totals
-            const addedTransactions = functionResults
-              .filter((r, i) => functionCalls[i].name === 'add_transaction' && r.success)
-              .map(r => r.data);
+      const merchant = { ...validation.value, id, createdAt: Date.now() } as Merchant;
+      await this.audited(this.userActor(request), [{ entity: 'merchant', id }], () => this.store.saveMerchant(merchant));
 
-            let calculatedSummary = '';
-            if (addedTransactions.length > 0) {
-              // Group by category and calculate totals
-              const byCategory: Record<string, number> = {};
-              let grandTotal = 0;
+      return new Response(JSON.stringify({
+        success: true,
+        merchant,
+        message: `Created merchant ${merchant.name}`
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error creating merchant:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to create merchant: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
 
-              addedTransactions.forEach((t: any) => {
-                byCategory[t.category] = (byCategory[t.category] || 0) + t.amount;
-                grandTotal += t.amount;
-              });
+  /**
+   * Rename a merchant or replace its alias rules. The id stays the same, so transactions
+   * keep pointing at it; new aliases apply to transactions added from now on.
+   */
+  async updateMerchant(request: Request, id: string): Promise<Response> {
+    try {
+      const existing = this.store.getMerchant(id);
+      if (!existing) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `No merchant found with id ${id}`
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-              calculatedSummary = `\n\nCALCULATED TOTALS (use these exact numbers):
-- Total transactions added: ${addedTransactions.length}
-- Grand total spent: $${grandTotal.toFixed(2)}
-- By category: ${Object.entries(byCategory).map(([cat, amt]) => `${cat} $${amt.toFixed(2)}`).join(', ')}`;
-            }
+      const validation = validateMerchantInput(await request.json(), true);
+      if (!validation.valid) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid merchant: ${formatFieldErrors(validation.errors)}`,
+          errors: validation.errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-            const resultsSummary = functionResults.map((result, i) => {
-              const fc = functionCalls[i];
-              return `${i + 1}. ${fc.name}: ${result.success ? 'Success' : 'Failed'} - ${result.message}`;
-            }).join('\n');
+      const merchant: Merchant = { ...existing, ...validation.value };
+      await this.audited(this.userActor(request), [{ entity: 'merchant', id: merchant.id }], () => this.store.saveMerchant(merchant));
 
-            // ========== RECALCULATE BALANCE AFTER TRANSACTIONS ==========
-            // The balance at the start of this function is now stale
-            // Recalculate with the newly added transactions
-            const updatedTransactions = await this.state.storage.get('transactions') as any[] || [];
-            const updatedTotalIncome = updatedTransactions
-              .filter(t => t.type === 'income')
-              .reduce((sum, t) => sum + t.amount, 0);
-            const updatedTotalExpenses = updatedTransactions
-              .filter(t => t.type === 'expense')
-              .reduce((sum, t) => sum + t.amount, 0);
-            const updatedBalance = updatedTotalIncome - updatedTotalExpenses;
+      return new Response(JSON.stringify({
+        success: true,
+        merchant,
+        message: `Updated merchant ${merchant.name}`
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error updating merchant:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to update merchant: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
 
-            // Add updated financial context to the summary
-            const updatedFinancialContext = `\n\nUPDATED FINANCIAL STATUS (use these exact numbers):
-- Current Balance: $${updatedBalance.toFixed(2)}
-- Total Income: $${updatedTotalIncome.toFixed(2)}
-- Total Expenses: $${updatedTotalExpenses.toFixed(2)}
-- Total Transactions: ${updatedTransactions.length}`;
+  /**
+   * Fold a merchant into another (`{ into }`), moving its transactions and alias rules
+   */
+  async mergeMerchant(request: Request, id: string): Promise<Response> {
+    try {
+      const body = await request.json() as { into?: string };
+      const source = this.store.getMerchant(id);
+      const target = this.store.getMerchant(String(body?.into ?? ''));
+      if (!source || !target) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `No merchant found with id ${!source ? id : body?.into}`
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      if (source.id === target.id) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: 'A merchant cannot be merged into itself'
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-            // Get final natural language response from AI
-            const finalResponse = await this.env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
-              messages: [
-                {
-                  role: 'system',
-                  content: `You are a financial assistant. Provide a brief confirmation of what was done.
+      const moved = await this.audited(this.userActor(request), [
+        { entity: 'merchant', id: source.id },
+        ...this.store.transactionIdsUsing({ merchantId: source.id }).map(id => ({ entity: 'transaction' as const, id })),
+        { entity: 'merchant', id: target.id }
+      ], () => this.store.mergeMerchant(source.id, target.id));
 
-CRITICAL RULES:
-1. ONLY confirm what the user asked you to do - don't volunteer extra information
-2. If they asked to log expenses, just confirm the transactions were added with the total
-3. If they asked about balance, ONLY tell them the balance
-4. DO NOT include balance, income, or expense info unless directly asked
-5. Use ONLY the exact numbers provided - NEVER calculate yourself
-6. Keep response under 50 words
-7. Be concise and focused`
-                },
-                { role: 'user', content: message },
-                {
-                  role: 'user',
-                  content: `Executed ${functionCalls.length} function(s):\n${resultsSummary}${calculatedSummary}${updatedFinancialContext}\n\nProvide a brief confirmation of what was done. Answer ONLY what was asked - do not volunteer balance or financial status unless specifically requested.`
-                }
-              ],
-              max_tokens: 150
-            });
+      return new Response(JSON.stringify({
+        success: true,
+        merchant: this.store.getMerchant(target.id),
+        moved,
+        message: `Merged ${source.name} into ${target.name} (${moved} transaction${moved === 1 ? '' : 's'} moved)`
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error merging merchant:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to merge merchant: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
 
-            responseText = finalResponse?.response || functionResults.map(r => r.message).join(' ');
+  // ========== IMPORTS ==========
 
-            // Save detailed function execution context for AI memory
-            const executionDetails = functionCalls.map((fc, i) => {
-              const result = functionResults[i];
-              let detail = `Executed ${fc.name}`;
+  /**
+   * The category for an imported row: the one the file names (by id, or by name among
+   * active ones) if it exists, else a keyword match among categories of the row's kind
+   */
+  private importCategory(row: ParsedRow, categories: Category[]): string {
+    const active = categories.filter(c => !c.archived);
+    const named = row.category?.trim().toLowerCase();
+    const match = named ? categories.find(c => c.id === named) ?? active.find(c => c.name.toLowerCase() === named) : undefined;
+    if (match) return match.id;
+
+    const ofKind = active.filter(c => c.kind === (row.type === 'income' ? 'income' : 'expense'));
+    const guess = categorizeByKeywords(row.description ?? '', ofKind);
+    return row.type === 'income' && guess === FALLBACK_CATEGORY_ID ? ofKind[0]?.id ?? guess : guess;
+  }
 
-              // Add specific details based on function type
-              if (fc.name === 'add_transaction' && result.data) {
-                detail += ` - Added $${result.data.amount} ${result.data.type} for "${result.data.description}" on ${result.data.date} in ${result.data.category} category`;
-              } else if (fc.name === 'set_budget' && result.data) {
-                detail += ` - Set ${result.data.category} budget to $${result.data.amount}/month`;
-              } else if (result.message) {
-                detail += ` - ${result.message}`;
-              }
+  /**
+   * Validate a statement's parsed rows into an import preview and keep it for committing.
+   * Rows imported before (same external id, even in the trash) and rows that look like
+   * an existing transaction are flagged rather than dropped. Rows naming their own
+   * account go there; the rest go to `accountId`.
+   */
+  private async previewImport(
+    format: ImportFormat,
+    parsed: ParsedRow[],
+    accountId: string,
+    details: Record<string, unknown>,
+    statement: StatementAccount & Pick<PendingImport, 'newAccounts' | 'newCategories'> = {}
+  ): Promise<PendingImport> {
+    const creating = {
+      accounts: [...(statement.newAccount ? [statement.newAccount] : []), ...(statement.newAccounts ?? [])],
+      categories: statement.newCategories ?? []
+    };
+    const categories = [...this.store.listCategories(), ...creating.categories];
+    const externalIds = await rowExternalIds(parsed, accountId);
+    const imported = this.store.findByExternalIds(externalIds);
+    // External ids claimed by earlier valid rows: a bank repeating a line adds it once
+    const seen = new Set<string>();
+
+    const rows = parsed.map((row, i): ImportRow => {
+      const externalId = externalIds[i];
+      if (row.errors.length > 0) return { line: row.line, status: 'invalid', externalId, errors: row.errors };
+
+      const transfer = row.type === 'transfer';
+      const validation = this.validateNewTransaction({
+        amount: row.amount,
+        description: row.description,
+        type: row.type,
+        date: row.date,
+        accountId: row.account ?? accountId,
+        category: transfer ? TRANSFER_CATEGORY : this.importCategory(row, categories),
+        ...(row.toAccount ? { toAccountId: row.toAccount } : {}),
+        ...(row.splits ? { splits: row.splits } : {}),
+        ...(row.tags ? { tags: row.tags } : {}),
+        ...(row.merchant && !transfer ? { merchant: row.merchant } : {})
+      }, creating);
+      if (!validation.valid) return { line: row.line, status: 'invalid', externalId, errors: validation.errors };
+
+      const transaction = validation.value;
+      const repeated = seen.has(externalId);
+      seen.add(externalId);
+      const bankDetails = row.bankDetails ? { bankDetails: row.bankDetails } : {};
+      // A ledger exported from here names each transaction's id
+      const previous = imported.get(externalId) ?? (row.sourceId && this.store.getTransaction(row.sourceId) ? row.sourceId : undefined);
+      if (previous || repeated) {
+        return { line: row.line, status: 'imported', externalId, transaction, ...(previous ? { duplicateOf: previous } : {}), ...bankDetails, errors: [] };
+      }
+      const duplicate = this.possibleDuplicate(createTransaction(transaction));
+      return {
+        line: row.line,
+        status: duplicate ? 'duplicate' : 'new',
+        externalId,
+        transaction,
+        ...(duplicate ? { duplicateOf: duplicate.id } : {}),
+        ...bankDetails,
+        errors: []
+      };
+    });
 
-              return detail;
-            }).join('. ');
+    const pending: PendingImport = { id: crypto.randomUUID(), format, accountId, createdAt: Date.now(), details, rows, ...statement };
+    this.store.savePendingImport(pending, pending.createdAt - IMPORT_TTL_MS);
+    return pending;
+  }
 
-            // Save a system message with execution details for context
-            await this.saveMessage('system', `[Action Summary] ${executionDetails}`, conversationId);
+  /**
+   * Where a committed import goes, and the account to save first if any: the account the
+   * preview proposed (unless an import since has created one for the same bank account),
+   * or the preview's account, linked to the bank's id for it if not linked yet
+   */
+  private importTarget(pending: PendingImport): { accountId: string; save: Account | null } {
+    const { newAccount, accountRef } = pending;
+    const ref = newAccount?.externalRef ?? accountRef;
+    const linked = ref ? this.store.getAccountByExternalRef(ref) : null;
+    if (newAccount) {
+      if (linked) return { accountId: linked.id, save: null };
+      const account = { ...newAccount, id: this.unusedAccountId(newAccount.id), createdAt: Date.now() };
+      return { accountId: account.id, save: account };
+    }
+    const account = this.store.getAccount(pending.accountId);
+    if (account && accountRef && !account.externalRef && !linked) {
+      return { accountId: account.id, save: { ...account, externalRef: accountRef } };
+    }
+    return { accountId: pending.accountId, save: null };
+  }
 
-            // Save assistant response
-            await this.saveMessage('assistant', responseText, conversationId);
+  /**
+   * `base`, or `base-2`, `base-3`... when an account already has that id
+   */
+  private unusedAccountId(base: string): string {
+    let id = base;
+    for (let n = 2; this.store.getAccount(id); n++) id = `${base}-${n}`;
+    return id;
+  }
 
-            // Determine if any action was taken (for dashboard refresh)
-            const actionTaken = functionResults.some(r => r.action);
+  private importNotFound(id: string): Response {
+    return new Response(JSON.stringify({
+      success: false,
+      message: `Import ${id} not found; previews are kept for ${IMPORT_TTL_MS / (60 * 60 * 1000)} hours and removed once committed`
+    }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
 
-            // Return with multi-step info
-            return new Response(JSON.stringify({
-              response: responseText,
-              action: actionTaken ? 'multi_step_completed' : undefined,
-              functionsCalled: functionCalls.map(fc => fc.name),
-              functionResults: functionResults,
-              stepsExecuted: functionCalls.length
-            }), {
-              headers: { 'Content-Type': 'application/json' }
-            });
+  private importPreview(pending: PendingImport) {
+    return { ...pending, expiresAt: pending.createdAt + IMPORT_TTL_MS, summary: summarizeImport(pending.rows) };
+  }
 
-          } catch (parseError) {
-            console.error('[Multi-Step] Parse error:', parseError);
-            // If function parsing fails, just return the original response
-          }
+  /**
+   * The account an import goes to, by id or name (checking by default), or null when there is no such account
+   */
+  private importAccount(reference: string | undefined): string | null {
+    const accountId = reference === undefined ? DEFAULT_ACCOUNT_ID : this.resolveAccountId(reference);
+    return this.store.getAccount(accountId) ? accountId : null;
+  }
+
+  /**
+   * POST /api/import/csv - read a bank CSV export into an import preview; nothing is added
+   * until it is committed. Delimiter, date order, decimal separator and columns are
+   * detected unless given. `mapping` may name a saved mapping; without one, a saved
+   * mapping whose columns are all in the header is used. `saveMappingAs` saves the one used.
+   */
+  async importCsv(request: Request): Promise<Response> {
+    try {
+      const validation = validateCsvImportInput(await request.json());
+      if (!validation.valid) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid import: ${formatFieldErrors(validation.errors)}`,
+          errors: validation.errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      const { csv, options, mappingName, saveMappingAs } = validation.value;
+
+      const accountId = this.importAccount(validation.value.accountId);
+      const saved = mappingName ? this.store.getImportMapping(mappingName) : null;
+      const errors: FieldError[] = [];
+      if (!accountId) errors.push({ field: 'accountId', message: 'does not match any account' });
+      if (mappingName && !saved) errors.push({ field: 'mapping', message: `no saved mapping is named "${mappingName}"` });
+
+      let result: CsvParseResult | null = null;
+      if (errors.length === 0) {
+        const { name, createdAt, ...savedOptions } = saved ?? {};
+        result = parseCsvStatement(csv, { ...savedOptions, ...options }, saved ? [] : this.store.listImportMappings());
+        errors.push(...result.errors);
+      }
+      if (errors.length > 0 || !result?.detected) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Could not import the CSV: ${formatFieldErrors(errors)}`,
+          errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { detected } = result;
+      if (saveMappingAs) {
+        this.store.saveImportMapping({
+          name: saveMappingAs,
+          mapping: detected.mapping,
+          delimiter: detected.delimiter,
+          dateOrder: detected.dateOrder,
+          decimal: detected.decimal,
+          invertAmounts: detected.invertAmounts,
+          createdAt: Date.now()
+        });
+      }
+
+      const pending = await this.previewImport('csv', result.rows, accountId!, { ...detected });
+      const summary = summarizeImport(pending.rows);
+      return new Response(JSON.stringify({
+        success: true,
+        import: this.importPreview(pending),
+        message: `Read ${summary.total} rows: ${summary.new} new, ${summary.duplicate} possible duplicates, `
+          + `${summary.imported} already imported, ${summary.invalid} invalid. Commit with POST /api/import/${pending.id}/commit`
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error importing CSV:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to import CSV: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  /**
+   * The account to create for a statement from a bank account not seen before. It opens
+   * on the statement's first day with the balance that makes it end at the balance the
+   * statement reports.
+   */
+  private proposedAccount(
+    details: { externalRef: string; name: string; type: Account['type'] },
+    rows: readonly ParsedRow[],
+    start?: string,
+    closing?: { amount: number; asOf: string }
+  ): Account {
+    const dates = rows.flatMap(row => (row.date ? [row.date] : []));
+    const openingDate = [start, ...dates].filter((d): d is string => !!d).sort()[0] ?? new Date().toISOString().slice(0, 10);
+    const movement = closing
+      ? rows.reduce((sum, row) => (row.amount !== undefined && row.date && row.date <= closing.asOf
+        ? sum + (row.type === 'income' ? row.amount : -row.amount)
+        : sum), 0)
+      : 0;
+    return {
+      id: this.unusedAccountId(accountIdFromName(details.name)),
+      name: details.name,
+      type: details.type,
+      openingBalance: closing ? Math.round((closing.amount - movement) * 100) / 100 : 0,
+      openingDate,
+      createdAt: Date.now(),
+      externalRef: details.externalRef
+    };
+  }
+
+  /**
+   * Preview one statement from a format that identifies its account: into `accountId` if
+   * given, else the account an earlier import linked to the bank's account, else a new
+   * account created on commit. The closing balance is recorded on commit.
+   */
+  private async previewStatement(
+    format: ImportFormat,
+    rows: ParsedRow[],
+    accountId: string | null,
+    account: { externalRef: string; name: string; type: Account['type'] },
+    statement: { start?: string; closing?: ReportedBalance; available?: ReportedBalance; currency?: string },
+    details: Record<string, unknown>
+  ): Promise<PendingImport> {
+    const linked = accountId ? null : this.store.getAccountByExternalRef(account.externalRef);
+    const newAccount = accountId || linked ? undefined : this.proposedAccount(account, rows, statement.start, statement.closing);
+    const { closing, available, currency } = statement;
+    return this.previewImport(format, rows, accountId ?? linked?.id ?? newAccount!.id, details, {
+      accountRef: account.externalRef,
+      ...(newAccount ? { newAccount } : {}),
+      ...(closing ? {
+        balance: {
+          asOf: closing.asOf,
+          balance: closing.amount,
+          ...(available && available.amount !== closing.amount ? { available: available.amount } : {}),
+          ...(currency ? { currency } : {}),
+          source: format
         }
+      } : {})
+    });
+  }
+
+  /**
+   * POST /api/import/ofx - read an OFX or QFX download ({ ofx, accountId? }) into one
+   * import preview per statement in it. A statement goes to the account given, else the
+   * account an earlier import linked to the bank's account, else a new account created
+   * on commit. Its LEDGERBAL is recorded on commit for GET /api/accounts/:id/reconciliation.
+   */
+  async importOfx(request: Request): Promise<Response> {
+    try {
+      const validation = validateFileImportInput(await request.json(), 'ofx');
+      if (!validation.valid) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid import: ${formatFieldErrors(validation.errors)}`,
+          errors: validation.errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const result = parseOfx(validation.value.text);
+      const reference = validation.value.accountId;
+      const accountId = reference === undefined ? null : this.importAccount(reference);
+      const errors: FieldError[] = [...result.errors];
+      if (reference !== undefined && !accountId) errors.push({ field: 'accountId', message: 'does not match any account' });
+      if (reference !== undefined && result.statements.length > 1) {
+        errors.push({ field: 'accountId', message: `cannot be given for a file with ${result.statements.length} statements; each goes to its own account` });
+      }
+      if (errors.length > 0) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Could not import the OFX file: ${formatFieldErrors(errors)}`,
+          errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-        // Save assistant response to conversation history
-        await this.saveMessage('assistant', responseText, conversationId);
+      const imports = [];
+      for (const { rows, ...statement } of result.statements) {
+        const pending = await this.previewStatement('ofx', rows, accountId, ofxAccountDetails(statement.account, result.institution), {
+          ...(statement.start ? { start: statement.start } : {}),
+          ...(statement.ledgerBalance ? { closing: statement.ledgerBalance } : {}),
+          ...(statement.availableBalance ? { available: statement.availableBalance } : {}),
+          ...(statement.currency ? { currency: statement.currency } : {})
+        }, {
+          ...(result.institution ? { institution: result.institution } : {}),
+          ...statement
+        });
+        imports.push(this.importPreview(pending));
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        imports,
+        message: imports.map(({ id, summary, newAccount, accountId: target }) => `${summary.total} transactions for ${newAccount ? `a new account, ${newAccount.name}` : target}`
+          + ` (${summary.new} new, ${summary.duplicate} possible duplicates, ${summary.imported} already imported, ${summary.invalid} invalid);`
+          + ` commit with POST /api/import/${id}/commit`).join('. ')
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error importing OFX:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to import OFX: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
 
+  /**
+   * POST /api/import/camt053 and /api/import/mt940 - read a European bank statement file
+   * ({ camt053 } or { mt940 }, with accountId?) into one import preview per account in it,
+   * as POST /api/import/ofx does. The currency is the statement's; rows keep the value
+   * date, counterparty, remittance information and references as `bankDetails`.
+   */
+  async importBankStatement(request: Request, format: 'camt053' | 'mt940'): Promise<Response> {
+    const label = format === 'camt053' ? 'camt.053' : 'MT940';
+    try {
+      const validation = validateFileImportInput(await request.json(), format);
+      if (!validation.valid) {
         return new Response(JSON.stringify({
-          response: responseText
+          success: false,
+          message: `Invalid import: ${formatFieldErrors(validation.errors)}`,
+          errors: validation.errors
         }), {
+          status: 400,
           headers: { 'Content-Type': 'application/json' }
         });
-      } catch (aiError) {
-        console.error('AI Error:', aiError);
-        const errorResponse = `I have access to your financial data but encountered an issue. Your current balance is $${balance.toFixed(2)} with $${totalExpenses.toFixed(2)} in expenses. Please try rephrasing your question.`;
-        await this.saveMessage('assistant', errorResponse, conversationId);
+      }
+
+      const result = format === 'camt053' ? parseCamt053(validation.value.text) : parseMt940(validation.value.text);
+      const reference = validation.value.accountId;
+      const accountId = reference === undefined ? null : this.importAccount(reference);
+      const errors: FieldError[] = [...result.errors];
+      if (reference !== undefined && !accountId) errors.push({ field: 'accountId', message: 'does not match any account' });
+      if (reference !== undefined && result.statements.length > 1) {
+        errors.push({ field: 'accountId', message: `cannot be given for a file with statements for ${result.statements.length} accounts; each goes to its own account` });
+      }
+      if (errors.length > 0) {
         return new Response(JSON.stringify({
-          response: errorResponse
+          success: false,
+          message: `Could not import the ${label} file: ${formatFieldErrors(errors)}`,
+          errors
         }), {
+          status: 400,
           headers: { 'Content-Type': 'application/json' }
         });
       }
-    } catch (error) {
-      console.error('getAIAdvice error:', error);
-      const fallbackResponse = 'I can help you manage your finances! Try asking about budgeting, saving, or investment strategies.';
-      try {
-        // Try to get conversationId from request if available
-        const body = await request.clone().json() as { conversationId?: string };
-        await this.saveMessage('assistant', fallbackResponse, body.conversationId || 'default');
-      } catch {
-        // If we can't parse the request, just continue
+
+      const imports = [];
+      for (const { rows, ...statement } of result.statements) {
+        const pending = await this.previewStatement(format, rows, accountId, bankAccountDetails(statement), {
+          ...(statement.start ? { start: statement.start } : {}),
+          ...(statement.closingBalance ? { closing: statement.closingBalance } : {}),
+          ...(statement.availableBalance ? { available: statement.availableBalance } : {}),
+          ...(statement.currency ? { currency: statement.currency } : {})
+        }, statement);
+        imports.push(this.importPreview(pending));
       }
+
       return new Response(JSON.stringify({
-        response: fallbackResponse
+        success: true,
+        imports,
+        message: imports.map(({ id, summary, newAccount, accountId: target, details }) => `${summary.total} transactions`
+          + `${details.currency ? ` in ${details.currency}` : ''} for ${newAccount ? `a new account, ${newAccount.name}` : target}`
+          + ` (${summary.new} new, ${summary.duplicate} possible duplicates, ${summary.imported} already imported, ${summary.invalid} invalid);`
+          + ` commit with POST /api/import/${id}/commit`).join('. ')
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error(`Error importing ${label}:`, error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to import ${label}: ${error}`
       }), {
+        status: 400,
         headers: { 'Content-Type': 'application/json' }
       });
     }
   }
 
+  /**
+   * Match the accounts and categories a QIF file or ledger names to ones here (by the id
+   * it was exported with, then by name) and propose the rest for creating on commit. The
+   * rows come back naming them by id.
+   */
+  private resolveDeclared(parsed: LedgerParseResult): { rows: ParsedRow[]; newAccounts: Account[]; newCategories: Category[] } {
+    const firstDates = new Map<string, string>();
+    for (const row of parsed.rows) {
+      for (const key of [row.account, row.toAccount]) {
+        const first = key ? firstDates.get(key) : undefined;
+        if (key && row.date && (!first || row.date < first)) firstDates.set(key, row.date);
+      }
+    }
 
-  // Helper: Calculate monthly breakdown for all months
-  private calculateMonthlyBreakdownForAllMonths(transactions: any[]): string {
-    const byMonth: { [key: string]: { expenses: number; income: number; count: number } } = {};
-    
-    transactions.forEach(t => {
-      const monthKey = t.date ? t.date.slice(0, 7) : 'Unknown'; // YYYY-MM
-      if (!byMonth[monthKey]) byMonth[monthKey] = { expenses: 0, income: 0, count: 0 };
-      byMonth[monthKey].count++;
-      if (t.type === 'expense') byMonth[monthKey].expenses += t.amount;
-      if (t.type === 'income') byMonth[monthKey].income += t.amount;
-    });
-
-    const formatted = Object.entries(byMonth)
-      .sort(([a], [b]) => b.localeCompare(a))
-      .slice(0, 12)
-      .map(([month, data]) => {
-        const monthStr = this.formatMonthKey(month);
-        return `${monthStr}: $${data.expenses.toFixed(2)} spent, $${data.income.toFixed(2)} earned (${data.count} transactions)`;
-      })
-      .join('\n');
-
-    return formatted || 'No monthly data available';
-  }
-
-  // Helper: Format YYYY-MM to readable month name
-  private formatMonthKey(monthKey: string): string {
-    if (monthKey === 'Unknown') return 'Unknown';
-    const [year, month] = monthKey.split('-');
-    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    return `${monthNames[parseInt(month) - 1]} ${year}`;
-  }
-
-  // Helper: Pre-calculate daily spending to help AI answer daily spending questions
-  private calculateDailySpendingSummary(transactions: any[]): string {
-    const dailySpending: { [key: string]: { total: number; count: number; categories: { [key: string]: number } } } = {};
-    
-    // Group expenses by date
-    transactions
-      .filter(t => t.type === 'expense' && t.date)
-      .forEach(t => {
-        if (!dailySpending[t.date]) {
-          dailySpending[t.date] = { total: 0, count: 0, categories: {} };
-        }
-        dailySpending[t.date].total += t.amount;
-        dailySpending[t.date].count++;
-        dailySpending[t.date].categories[t.category] = (dailySpending[t.date].categories[t.category] || 0) + t.amount;
+    const existingAccounts = this.store.listAccounts();
+    const newAccounts: Account[] = [];
+    const accountIds = new Map<string, string>();
+    const accountTaken = (id: string) => !!this.store.getAccount(id) || newAccounts.some(a => a.id === id);
+    for (const declared of parsed.accounts) {
+      const match = existingAccounts.find(a => a.id === declared.id)
+        ?? existingAccounts.find(a => a.name.toLowerCase() === declared.name.toLowerCase());
+      if (match) {
+        accountIds.set(declared.key, match.id);
+        continue;
+      }
+      const base = declared.id && !accountTaken(declared.id) ? declared.id : accountIdFromName(declared.name);
+      let id = base;
+      for (let n = 2; accountTaken(id); n++) id = `${base}-${n}`;
+      newAccounts.push({
+        id,
+        name: declared.name,
+        type: declared.type,
+        openingBalance: declared.openingBalance ?? 0,
+        openingDate: declared.openingDate ?? firstDates.get(declared.key) ?? new Date().toISOString().slice(0, 10),
+        createdAt: Date.now()
       });
-
-    // Format for LLM (sorted by date, most recent first, limit to last 90 days)
-    const formatted = Object.entries(dailySpending)
-      .sort(([a], [b]) => b.localeCompare(a))
-      .slice(0, 90)
-      .map(([date, data]) => {
-        const topCategory = Object.entries(data.categories)
-          .sort(([,a], [,b]) => b - a)[0];
-        return `${date}: $${data.total.toFixed(2)} spent (${data.count} transactions, top: ${topCategory[0]} $${topCategory[1].toFixed(2)})`;
-      })
-      .join('\n');
-
-    return formatted || 'No daily spending data available';
-  }
-
-  private calculateMonthlySpending(transactions: any[], monthName: string) {
-    const monthMap: { [key: string]: number } = {
-      'january': 0, 'jan': 0,
-      'february': 1, 'feb': 1,
-      'march': 2, 'mar': 2,
-      'april': 3, 'apr': 3,
-      'may': 4,
-      'june': 5, 'jun': 5,
-      'july': 6, 'jul': 6,
-      'august': 7, 'aug': 7,
-      'september': 8, 'sep': 8, 'sept': 8,
-      'october': 9, 'oct': 9,
-      'november': 10, 'nov': 10,
-      'december': 11, 'dec': 11
-    };
-
-    const targetMonth = monthMap[monthName];
-    if (targetMonth === undefined) {
-      return { found: false, monthName, amount: 0, transactionCount: 0 };
+      accountIds.set(declared.key, id);
     }
 
-    // Default to current year for month queries
-    const currentYear = new Date().getFullYear();
-
-    const monthTransactions = transactions.filter(t => {
-      if (t.type !== 'expense') return false;
-      // Use date string to avoid timezone issues
-      if (!t.date) return false;
-      const dateParts = t.date.split('-');
-      const txYear = parseInt(dateParts[0]);
-      const txMonth = parseInt(dateParts[1]) - 1; // Convert to 0-indexed
-      // Match month and year (default to current year)
-      return txMonth === targetMonth && txYear === currentYear;
-    });
-
-    if (monthTransactions.length === 0) {
-      // Check if we have sample data for this month
-      const sampleAmounts: { [key: number]: number } = {
-        3: 180, // April
-        4: 220, // May  
-        5: 320, // June
-        6: 280, // July
-        7: 350  // August
-      };
-      
-      if (sampleAmounts[targetMonth]) {
-        const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 
-                           'July', 'August', 'September', 'October', 'November', 'December'];
-        return { 
-          found: true, 
-          monthName: monthNames[targetMonth], 
-          amount: sampleAmounts[targetMonth], 
-          transactionCount: 5, // Estimated
-          isSample: true 
-        };
+    // Parents come first, so a subcategory's parent is resolved by the time it is reached
+    const existingCategories = this.store.listCategories(true);
+    const newCategories: Category[] = [];
+    const categoryIds = new Map<string, string>();
+    for (const declared of parsed.categories) {
+      const known = [...existingCategories, ...newCategories];
+      const id = categoryIdFromName(declared.name);
+      const match = known.find(c => c.id === declared.id)
+        ?? known.find(c => c.name.toLowerCase() === declared.name.toLowerCase())
+        ?? known.find(c => c.id === id);
+      if (match) {
+        categoryIds.set(declared.key, match.id);
+        continue;
       }
-      
-      return { found: false, monthName, amount: 0, transactionCount: 0 };
+      const validation = validateCategoryInput({ name: declared.name, kind: declared.kind, ...declared.details });
+      if (!validation.valid || !id || id === TRANSFER_CATEGORY) continue;
+      const parent = declared.parent ? known.find(c => c.id === categoryIds.get(declared.parent!)) : undefined;
+      newCategories.push({
+        ...validation.value,
+        id,
+        parentId: parent && !parent.parentId && parent.kind === declared.kind ? parent.id : null,
+        createdAt: Date.now()
+      } as Category);
+      categoryIds.set(declared.key, id);
     }
 
-    const totalAmount = monthTransactions.reduce((sum, t) => sum + t.amount, 0);
-    const categoryBreakdown: { [key: string]: number } = {};
-    
-    monthTransactions.forEach(t => {
-      categoryBreakdown[t.category] = (categoryBreakdown[t.category] || 0) + t.amount;
-    });
-
-    const topCategory = Object.entries(categoryBreakdown)
-      .sort(([,a], [,b]) => b - a)[0];
-
-    const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 
-                       'July', 'August', 'September', 'October', 'November', 'December'];
-
-    return {
-      found: true,
-      monthName: monthNames[targetMonth],
-      amount: totalAmount,
-      transactionCount: monthTransactions.length,
-      topCategory: topCategory ? { category: topCategory[0], amount: topCategory[1] } : null,
-      isSample: false
-    };
+    // A category that could not be matched or created is left for keyword matching
+    const rows = parsed.rows.map(({ account, toAccount, category, splits, ...row }): ParsedRow => ({
+      ...row,
+      ...(account ? { account: accountIds.get(account) ?? account } : {}),
+      ...(toAccount ? { toAccount: accountIds.get(toAccount) ?? toAccount } : {}),
+      ...(category && categoryIds.has(category) ? { category: categoryIds.get(category) } : {}),
+      ...(splits ? { splits: splits.map(split => ({ ...split, category: categoryIds.get(split.category) ?? FALLBACK_CATEGORY_ID })) } : {})
+    }));
+    return { rows, newAccounts, newCategories };
   }
 
-  private calculateDailySpending(transactions: any[], monthName: string | null) {
-    let filteredTransactions = transactions.filter(t => t.type === 'expense');
-    
-    console.log(`[Daily Spending] Total expense transactions: ${filteredTransactions.length}`);
-    
-    // If a month is specified, filter by that month
-    if (monthName) {
-      const monthMap: { [key: string]: number } = {
-        'january': 0, 'jan': 0, 'february': 1, 'feb': 1, 'march': 2, 'mar': 2,
-        'april': 3, 'apr': 3, 'may': 4, 'june': 5, 'jun': 5,
-        'july': 6, 'jul': 6, 'august': 7, 'aug': 7, 'september': 8, 'sep': 8, 'sept': 8,
-        'october': 9, 'oct': 9, 'november': 10, 'nov': 10, 'december': 11, 'dec': 11
-      };
-      const targetMonth = monthMap[monthName.toLowerCase()];
-      const currentYear = new Date().getFullYear();
-      console.log(`[Daily Spending] Filtering for month: ${monthName} (index: ${targetMonth}, year: ${currentYear})`);
-      if (targetMonth !== undefined) {
-        filteredTransactions = filteredTransactions.filter(t => {
-          // Use date string to avoid timezone issues
-          if (!t.date) return false;
-          const dateParts = t.date.split('-');
-          const txYear = parseInt(dateParts[0]);
-          const txMonth = parseInt(dateParts[1]) - 1; // Convert to 0-indexed
-          return txMonth === targetMonth && txYear === currentYear;
+  /**
+   * POST /api/import/qif, /api/import/beancount and /api/import/hledger - read a QIF file
+   * or a plain-text ledger ({ qif | beancount | hledger, accountId?, dateOrder? }) into an
+   * import preview. Rows go to the accounts the file names, matched to these by id or
+   * name; accounts and categories not here yet are created on commit. QIF rows from a
+   * register without an account name go to `accountId` (checking by default); `dateOrder`
+   * says how to read QIF dates when they could be either.
+   */
+  async importLedger(request: Request, format: 'qif' | LedgerFormat): Promise<Response> {
+    try {
+      const body = await request.json() as Record<string, unknown>;
+      const validation = validateFileImportInput(body, format);
+      const dateOrder = format === 'qif' ? body?.dateOrder : undefined;
+      const errors: FieldError[] = validation.valid ? [] : validation.errors;
+      if (dateOrder !== undefined && !DATE_ORDERS.includes(dateOrder as DateOrder)) {
+        errors.push({ field: 'dateOrder', message: `must be one of: ${DATE_ORDERS.join(', ')}` });
+      }
+      if (!validation.valid || errors.length > 0) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid import: ${formatFieldErrors(errors)}`,
+          errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
         });
-        console.log(`[Daily Spending] After month filter: ${filteredTransactions.length} transactions`);
       }
-    }
 
-    if (filteredTransactions.length === 0) {
-      return { found: false };
+      const accountId = this.importAccount(validation.value.accountId);
+      const parsed = format === 'qif'
+        ? parseQif(validation.value.text, dateOrder ? { dateOrder: dateOrder as DateOrder } : {})
+        : parseLedger(validation.value.text, format);
+      errors.push(...parsed.errors);
+      if (!accountId) errors.push({ field: 'accountId', message: 'does not match any account' });
+      if (errors.length > 0) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Could not import the ${format === 'qif' ? 'QIF file' : `${format} journal`}: ${formatFieldErrors(errors)}`,
+          errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { rows, newAccounts, newCategories } = this.resolveDeclared(parsed);
+      const pending = await this.previewImport(format, rows, accountId!, {
+        accounts: parsed.accounts.length,
+        categories: parsed.categories.length,
+        ...(parsed.currencies.length > 0 ? { currencies: parsed.currencies } : {})
+      }, {
+        ...(newAccounts.length > 0 ? { newAccounts } : {}),
+        ...(newCategories.length > 0 ? { newCategories } : {})
+      });
+      const summary = summarizeImport(pending.rows);
+      const creating = [
+        ...(newAccounts.length > 0 ? [`${newAccounts.length} new account${newAccounts.length === 1 ? '' : 's'} (${newAccounts.map(a => a.name).join(', ')})`] : []),
+        ...(newCategories.length > 0 ? [`${newCategories.length} new categor${newCategories.length === 1 ? 'y' : 'ies'}`] : [])
+      ];
+      return new Response(JSON.stringify({
+        success: true,
+        import: this.importPreview(pending),
+        message: `Read ${summary.total} transactions: ${summary.new} new, ${summary.duplicate} possible duplicates, `
+          + `${summary.imported} already imported, ${summary.invalid} invalid. `
+          + (creating.length > 0 ? `Committing also creates ${creating.join(' and ')}. ` : '')
+          + `Commit with POST /api/import/${pending.id}/commit`
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error(`Error importing ${format}:`, error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to import ${format}: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
     }
+  }
 
-    // Group transactions by day
-    const dailyTotals: { [key: string]: { amount: number; transactions: any[] } } = {};
-    
-    filteredTransactions.forEach(t => {
-      const date = t.date || new Date(t.timestamp).toISOString().split('T')[0];
-      if (!dailyTotals[date]) {
-        dailyTotals[date] = { amount: 0, transactions: [] };
+  /**
+   * GET /api/export/beancount and /api/export/hledger - the whole ledger as a journal
+   * those tools read (and POST /api/import/:format reads back), amounts in `currency`
+   * (USD by default)
+   */
+  async exportLedger(request: Request, format: LedgerFormat): Promise<Response> {
+    const currency = (new URL(request.url).searchParams.get('currency') || 'USD').trim().toUpperCase();
+    if (!/^[A-Z][A-Z0-9'._-]{0,22}[A-Z0-9]$/.test(currency)) {
+      const errors: FieldError[] = [{ field: 'currency', message: 'must be a commodity code like USD or EUR' }];
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Invalid export: ${formatFieldErrors(errors)}`,
+        errors
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const exportedOn = new Date().toISOString().slice(0, 10);
+    const journal = writeLedger(format, {
+      accounts: this.store.listAccounts(),
+      categories: this.store.listCategories(true),
+      transactions: this.store.listTransactions(),
+      merchantNames: Object.fromEntries(this.store.listMerchants().map(m => [m.id, m.name])),
+      currency,
+      exportedOn
+    });
+    return new Response(journal, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': `attachment; filename="finance-${exportedOn}.${format === 'beancount' ? 'beancount' : 'journal'}"`
       }
-      dailyTotals[date].amount += t.amount;
-      dailyTotals[date].transactions.push(t);
     });
-    
-    console.log(`[Daily Spending] Grouped into ${Object.keys(dailyTotals).length} days`);
-    Object.entries(dailyTotals).forEach(([date, data]) => {
-      console.log(`  ${date}: $${data.amount.toFixed(2)} (${data.transactions.length} txns) - ${data.transactions.map(t => `${t.description} ($${t.amount})`).join(', ')}`);
+  }
+
+  /**
+   * GET /api/import/:id - an uncommitted import preview
+   */
+  async getImport(id: string): Promise<Response> {
+    const pending = this.store.getPendingImport(id, Date.now() - IMPORT_TTL_MS);
+    if (!pending) return this.importNotFound(id);
+    return new Response(JSON.stringify({ success: true, import: this.importPreview(pending) }), {
+      headers: { 'Content-Type': 'application/json' }
     });
+  }
 
-    // Find the day with highest and lowest spending
-    let highestDay: any = null;
-    let lowestDay: any = null;
-    let highestAmount = 0;
-    let lowestAmount = Infinity;
+  /**
+   * DELETE /api/import/:id - discard a preview without adding anything
+   */
+  async discardImport(id: string): Promise<Response> {
+    if (!this.store.deletePendingImport(id)) return this.importNotFound(id);
+    return new Response(JSON.stringify({ success: true, message: 'Import discarded' }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
 
-    Object.entries(dailyTotals).forEach(([date, data]) => {
-        // Calculate category breakdown for this day
-        const categoryBreakdown: { [key: string]: number } = {};
-        data.transactions.forEach(t => {
-          categoryBreakdown[t.category] = (categoryBreakdown[t.category] || 0) + t.amount;
-        });
-        
-        const topCategory = Object.entries(categoryBreakdown)
-          .sort(([,a], [,b]) => b - a)[0];
+  /**
+   * POST /api/import/:id/commit - add a preview's rows: every new row by default, likely
+   * duplicates too with `includeDuplicates`, or exactly the `lines` listed. Rows are checked
+   * again as POST /api/add-transaction checks one (accounts and categories may have changed
+   * since the preview) and added as one audited batch.
+   */
+  async commitImport(request: Request, id: string): Promise<Response> {
+    try {
+      const pending = this.store.getPendingImport(id, Date.now() - IMPORT_TTL_MS);
+      if (!pending) return this.importNotFound(id);
 
-        // Format the date nicely
-        const dateObj = new Date(date + 'T00:00:00Z');
-        const formattedDate = dateObj.toLocaleDateString('en-US', { 
-          weekday: 'long', 
-          year: 'numeric', 
-          month: 'long', 
-          day: 'numeric',
-          timeZone: 'UTC'
+      const text = await request.text();
+      const selection = validateImportCommit(text.trim() ? JSON.parse(text) : {});
+      if (!selection.valid) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid commit: ${formatFieldErrors(selection.errors)}`,
+          errors: selection.errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
         });
+      }
 
-      const dayInfo = {
-          date: formattedDate,
-          amount: data.amount,
-          transactionCount: data.transactions.length,
-          topCategory: topCategory ? { category: topCategory[0], amount: topCategory[1] } : null
-        };
-
-      // Check for highest
-      if (data.amount > highestAmount) {
-        highestAmount = data.amount;
-        highestDay = dayInfo;
+      const chosen = rowsToCommit(pending.rows, selection.value);
+      const imported = this.store.findByExternalIds(chosen.map(row => row.externalId));
+      const { accountId, save } = this.importTarget(pending);
+      // Accounts and categories the file named, unless created since the preview
+      const accounts = (pending.newAccounts ?? []).filter(a => !this.store.getAccount(a.id));
+      const categories = (pending.newCategories ?? []).filter(c => !this.store.getCategory(c.id));
+      const { userId } = memberContext(request);
+      const transactions: Transaction[] = [];
+      const skipped: { line: number; reason: string }[] = [];
+      for (const row of chosen) {
+        if (imported.has(row.externalId)) {
+          skipped.push({ line: row.line, reason: 'already imported' });
+          continue;
+        }
+        const validation = this.validateNewTransaction({
+          ...row.transaction,
+          ...(row.transaction!.accountId === pending.accountId ? { accountId } : {})
+        }, { accounts: [...(save ? [save] : []), ...accounts], categories });
+        if (!validation.valid) {
+          skipped.push({ line: row.line, reason: formatFieldErrors(validation.errors) });
+          continue;
+        }
+        transactions.push({
+          ...this.newTransaction(validation.value, userId),
+          externalId: row.externalId,
+          ...(row.bankDetails ? { bankDetails: row.bankDetails } : {})
+        });
       }
 
-      // Check for lowest
-      if (data.amount < lowestAmount) {
-        lowestAmount = data.amount;
-        lowestDay = dayInfo;
+      const refs: AuditRef[] = [
+        ...(save ? [{ entity: 'account' as const, id: save.id }] : []),
+        ...accounts.map(a => ({ entity: 'account' as const, id: a.id })),
+        ...categories.map(c => ({ entity: 'category' as const, id: c.id })),
+        ...transactions.map(t => ({ entity: 'transaction' as const, id: t.id }))
+      ];
+      await this.audited('import', refs, () => this.state.storage.transactionSync(() => {
+        if (save) this.store.saveAccount(save);
+        for (const account of accounts) this.store.saveAccount(account);
+        for (const category of categories) this.store.saveCategory(category);
+        for (const transaction of transactions) this.store.insertTransaction(transaction);
+        if (pending.balance) this.store.saveStatementBalance({ ...pending.balance, accountId, recordedAt: Date.now() });
+        this.store.deletePendingImport(id);
+      }));
+
+      // Index for semantic search, as a single addition is
+      try {
+        await indexTransactions(transactions, this.env.AI, this.vectorDB());
+      } catch (indexError) {
+        console.log('Transaction indexing skipped:', indexError);
       }
-    });
-    
-    console.log(`[Daily Spending] Highest: ${highestDay?.date} ($${highestDay?.amount.toFixed(2)})`);
-    console.log(`[Daily Spending] Lowest: ${lowestDay?.date} ($${lowestDay?.amount.toFixed(2)})`);
 
-    return {
-      found: true,
-      highestDay,
-      lowestDay
-    };
+      return new Response(JSON.stringify({
+        success: true,
+        accountId,
+        imported: transactions.length,
+        transactionIds: transactions.map(t => t.id),
+        ...(accounts.length > 0 ? { accountsCreated: accounts.map(a => a.id) } : {}),
+        ...(categories.length > 0 ? { categoriesCreated: categories.map(c => c.id) } : {}),
+        skipped,
+        message: `Imported ${transactions.length} transaction${transactions.length === 1 ? '' : 's'}`
+          + (skipped.length > 0 ? `, skipped ${skipped.length}` : '')
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error committing import:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to commit import: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
   }
 
-  private extractDateFromMessage(message: string): Date {
-    const now = new Date();
-    const lowerMessage = message.toLowerCase();
+  /**
+   * GET /api/import/mappings - saved CSV column mappings
+   */
+  async getImportMappings(): Promise<Response> {
+    return new Response(JSON.stringify({ success: true, mappings: this.store.listImportMappings() }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
 
-    // Month mapping
-    const monthMap: { [key: string]: number } = {
-      'january': 0, 'jan': 0, 'february': 1, 'feb': 1, 'march': 2, 'mar': 2,
-      'april': 3, 'apr': 3, 'may': 4, 'june': 5, 'jun': 5,
-      'july': 6, 'jul': 6, 'august': 7, 'aug': 7, 'september': 8, 'sep': 8, 'sept': 8,
-      'october': 9, 'oct': 9, 'november': 10, 'nov': 10, 'december': 11, 'dec': 11
-    };
+  /**
+   * POST /api/import/mappings - save a CSV column mapping (`{ name, mapping, ...options }`),
+   * replacing any with the same name
+   */
+  async saveImportMapping(request: Request): Promise<Response> {
+    try {
+      const validation = validateSavedMappingInput(await request.json());
+      if (!validation.valid) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid mapping: ${formatFieldErrors(validation.errors)}`,
+          errors: validation.errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-    // Try to match "Month Day" or "Month Dayth" patterns (e.g., "October 20", "October 20th")
-    const monthDayMatch = lowerMessage.match(/(january|jan|february|feb|march|mar|april|apr|may|june|jun|july|jul|august|aug|september|sep|sept|october|oct|november|nov|december|dec)\s+(\d{1,2})/);
-    if (monthDayMatch) {
-      const month = monthMap[monthDayMatch[1]];
-      const day = parseInt(monthDayMatch[2]);
-      const year = now.getFullYear();
-      return new Date(year, month, day, 12, 0, 0);
+      const mapping: SavedCsvMapping = { ...validation.value, createdAt: Date.now() };
+      this.store.saveImportMapping(mapping);
+      return new Response(JSON.stringify({ success: true, mapping, message: `Saved mapping ${mapping.name}` }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error saving import mapping:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to save mapping: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
     }
+  }
 
-    // Try to match ISO date format (YYYY-MM-DD)
-    const isoMatch = message.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
-    if (isoMatch) {
-      const year = parseInt(isoMatch[1]);
-      const month = parseInt(isoMatch[2]) - 1;
-      const day = parseInt(isoMatch[3]);
-      return new Date(year, month, day, 12, 0, 0);
+  async deleteImportMapping(name: string): Promise<Response> {
+    if (!this.store.deleteImportMapping(name)) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `No saved mapping is named ${name}`
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
     }
+    return new Response(JSON.stringify({ success: true, message: `Deleted mapping ${name}` }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
 
-    // Try to match MM/DD or MM/DD/YYYY format
-    const slashMatch = message.match(/(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?/);
-    if (slashMatch) {
-      const month = parseInt(slashMatch[1]) - 1;
-      const day = parseInt(slashMatch[2]);
-      const year = slashMatch[3] ? (slashMatch[3].length === 2 ? 2000 + parseInt(slashMatch[3]) : parseInt(slashMatch[3])) : now.getFullYear();
-      return new Date(year, month, day, 12, 0, 0);
+  // ========== ATTACHMENTS ==========
+
+  /**
+   * Store an uploaded file (and its thumbnail) and record it, linked to a transaction
+   * or pending (null) until the transaction it was scanned for is added
+   */
+  private async saveUpload(upload: AttachmentUpload, transactionId: string | null, source: AttachmentSource, actor: AuditActor): Promise<Attachment> {
+    const attachment: Attachment = {
+      id: crypto.randomUUID(),
+      transactionId,
+      filename: upload.filename,
+      contentType: upload.original.contentType,
+      size: upload.original.data.length,
+      hasThumbnail: upload.thumbnail !== undefined,
+      source,
+      createdAt: Date.now()
+    };
+
+    // Files first, so metadata never points at bytes that were not written
+    await this.attachments.put(attachmentKey(attachment.id), upload.original);
+    if (upload.thumbnail) await this.attachments.put(attachmentKey(attachment.id, 'thumbnail'), upload.thumbnail);
+    await this.audited(actor, [{ entity: 'attachment', id: attachment.id }], () => this.store.saveAttachment(attachment));
+    return attachment;
+  }
+
+  /**
+   * Delete attachments' metadata and stored files
+   */
+  private async removeAttachments(attachments: Attachment[]): Promise<void> {
+    this.store.deleteAttachments(attachments.map(a => a.id));
+    await this.attachments.delete(attachments.flatMap(a => [attachmentKey(a.id), attachmentKey(a.id, 'thumbnail')]));
+  }
+
+  /**
+   * A scanned receipt not yet linked to a transaction, or null
+   */
+  private pendingAttachment(id: unknown): Attachment | null {
+    const attachment = typeof id === 'string' ? this.store.getAttachment(id) : null;
+    return attachment && attachment.transactionId === null ? attachment : null;
+  }
+
+  /**
+   * GET /api/transactions/:id/attachments - metadata of a transaction's files
+   */
+  async getTransactionAttachments(transactionId: string): Promise<Response> {
+    if (!this.store.getTransaction(transactionId)) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Transaction ${transactionId} not found`
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
     }
 
-    // Default to today
-    return new Date(now.getFullYear(), now.getMonth(), now.getDate(), 12, 0, 0);
+    return new Response(JSON.stringify({
+      success: true,
+      attachments: this.store.listAttachments([transactionId])
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
   }
 
-  private async parseTransactionIntent(message: string): Promise<{
-    isTransaction: boolean;
-    type?: 'expense' | 'income';
-    amount?: number;
-    description?: string;
-    category?: string;
-    date?: string;
-  } | null> {
+  /**
+   * POST /api/transactions/:id/attachments - attach a receipt or PDF (`{ file, filename, thumbnail? }`
+   * as data URLs) or link a previously scanned receipt (`{ attachmentId }`)
+   */
+  async addAttachment(request: Request, transactionId: string): Promise<Response> {
     try {
-      const today = new Date().toISOString().slice(0, 10);
-      const prompt = `Analyze this message and determine if the user wants to add a financial transaction (expense or income).
+      const body = await request.json() as { file?: unknown; filename?: unknown; thumbnail?: unknown; attachmentId?: unknown };
 
-Message: "${message}"
+      if (!this.store.getTransaction(transactionId)) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Transaction ${transactionId} not found`
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-IMPORTANT: If the message is asking a QUESTION (starts with "how much", "what", "when", "where", etc.), respond with {"isTransaction": false}
+      if (this.store.listAttachments([transactionId]).length >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `A transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments`
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-Examples of QUESTIONS (NOT transactions):
-- "How much did I spend in October?" → {"isTransaction": false}
-- "What's my balance?" → {"isTransaction": false}
-- "How much did I spend on food?" → {"isTransaction": false}
+      let attachment: Attachment;
+      if (body?.attachmentId !== undefined) {
+        const pending = this.pendingAttachment(body.attachmentId);
+        if (!pending) {
+          return new Response(JSON.stringify({
+            success: false,
+            message: 'attachmentId does not match a scanned receipt awaiting a transaction'
+          }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+        attachment = { ...pending, transactionId };
+        await this.audited(this.userActor(request), [{ entity: 'attachment', id: attachment.id }], () => this.store.saveAttachment(attachment));
+      } else {
+        const upload = parseAttachmentUpload(body?.file, body?.filename, body?.thumbnail);
+        if (!upload.valid) {
+          return new Response(JSON.stringify({
+            success: false,
+            message: `Invalid attachment: ${upload.message}`
+          }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+        attachment = await this.saveUpload(upload.value, transactionId, 'upload', this.userActor(request));
+      }
 
-Examples of TRANSACTIONS:
-- "Add $50 grocery expense" → {"isTransaction": true, ...}
-- "I spent $25 on gas" → {"isTransaction": true, ...}
-- "Record $100 income" → {"isTransaction": true, ...}
+      return new Response(JSON.stringify({
+        success: true,
+        attachment,
+        message: `Attached ${attachment.filename}`
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error adding attachment:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Failed to add attachment: ${error}`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
 
-If this is a transaction request, respond with ONLY a JSON object (no extra text):
-{
-  "isTransaction": true,
-  "type": "expense" or "income",
-  "amount": number (just the number, e.g., 50 not "$50"),
-  "description": "brief description of transaction",
-  "category": "food" or "transportation" or "housing" or "entertainment" or "shopping" or "healthcare" or "other",
-  "date": "YYYY-MM-DD"
-}
+  /**
+   * GET /api/attachments/:id - the stored file, or its thumbnail with `?variant=thumbnail`
+   */
+  async getAttachmentFile(request: Request, id: string): Promise<Response> {
+    const variant = new URL(request.url).searchParams.get('variant') === 'thumbnail' ? 'thumbnail' : 'original';
+    const attachment = this.store.getAttachment(id);
+    const file = attachment && (variant === 'original' || attachment.hasThumbnail)
+      ? await this.attachments.get(attachmentKey(id, variant))
+      : null;
+    if (!attachment || !file) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: variant === 'thumbnail' && attachment ? `Attachment ${id} has no thumbnail` : `Attachment ${id} not found`
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
-If NOT a transaction request, respond with:
-{"isTransaction": false}
+    return new Response(file.data, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': String(file.data.length),
+        'Content-Disposition': `inline; filename="${attachment.filename}"`,
+        'X-Content-Type-Options': 'nosniff',
+        // Attachment bytes never change once stored
+        'Cache-Control': 'private, max-age=31536000, immutable'
+      }
+    });
+  }
 
-Rules:
-- Questions about spending are NOT transactions
-- Extract the amount (e.g., "50 dollar" → 50, "$25" → 25)
-- Create a short description (e.g., "food expense" → "Food purchase", "grocery" → "Groceries")
-- Choose appropriate category based on context
-- Parse dates like "October 10th" → "2025-10-10", "tomorrow" → next day, or use today: ${today}
-- Type is "expense" unless clearly income/salary/earning
+  /**
+   * DELETE /api/attachments/:id - remove a file and its thumbnail permanently
+   */
+  async deleteAttachment(request: Request, id: string): Promise<Response> {
+    const attachment = this.store.getAttachment(id);
+    if (!attachment) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `Attachment ${id} not found`
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
-Respond with ONLY the JSON object, no other text.`;
+    await this.audited(this.userActor(request), [{ entity: 'attachment', id }], () => this.removeAttachments([attachment]));
 
-      const result = await this.env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
-        messages: [
-          { role: 'system', content: 'You are a financial transaction parser. Return only valid JSON.' },
-          { role: 'user', content: prompt }
-        ],
-        max_tokens: 256
-      }) as any;
+    return new Response(JSON.stringify({
+      success: true,
+      attachment,
+      message: `Deleted ${attachment.filename}`
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
 
-      if (result?.response) {
-        // Clean response
-        let jsonStr = result.response.trim();
-        jsonStr = jsonStr.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-        
-        // Extract JSON object
-        const jsonMatch = jsonStr.match(/\{[\s\S]*?\}/);
-        if (jsonMatch) {
-          const parsed = JSON.parse(jsonMatch[0]);
-          
-          if (parsed.isTransaction === false) {
-            return null;
-          }
-          
-          // Validate and sanitize
-          if (parsed.isTransaction && parsed.amount && parsed.type) {
-            return {
-              isTransaction: true,
-              type: parsed.type === 'income' ? 'income' : 'expense',
-              amount: parseFloat(parsed.amount),
-              description: (parsed.description || 'Transaction').toString().trim(),
-              category: this.validateCategory(parsed.category),
-              date: this.validateDate(parsed.date) || today
-            };
-          }
-        }
+  // ========== AUDIT LOG ==========
+
+  /**
+   * Current state of an audited entity, or null when it does not exist
+   */
+  private async snapshot(ref: AuditRef): Promise<unknown> {
+    switch (ref.entity) {
+      case 'transaction': {
+        const transaction = this.store.getTransaction(ref.id) ?? this.store.getTrashedTransaction(ref.id);
+        if (!transaction) return null;
+        // Attachments are audited as entities of their own
+        const { attachmentIds, ...snapshot } = transaction;
+        return snapshot;
       }
-    } catch (error) {
-      console.error('Transaction intent parsing error:', error);
+      case 'budget': {
+        const amount = this.store.getBudgets()[ref.id];
+        return amount === undefined ? null : { category: ref.id, amount };
+      }
+      case 'personalBudget': {
+        const [memberId, category] = splitPersonalBudgetId(ref.id);
+        const amount = this.store.getPersonalBudgets(memberId)[category];
+        return amount === undefined ? null : { memberId, category, amount };
+      }
+      case 'goal':
+        return this.store.getGoal(ref.id);
+      case 'netWorth':
+        return (await this.state.storage.get(NET_WORTH_KEY)) ?? null;
+      case 'account':
+        return this.store.getAccount(ref.id);
+      case 'category':
+        return this.store.getCategory(ref.id);
+      case 'tag': {
+        const tag = this.store.getTag(ref.id);
+        return tag ? { name: tag.name, createdAt: tag.createdAt } : null;
+      }
+      case 'merchant':
+        return this.store.getMerchant(ref.id);
+      case 'attachment':
+        return this.store.getAttachment(ref.id);
     }
-    
-    return null;
   }
 
-  private validateCategory(category: string): string {
-    const validCategories = ['food', 'transportation', 'housing', 'entertainment', 'shopping', 'healthcare', 'other'];
-    const cat = (category || '').toLowerCase().trim();
-    return validCategories.includes(cat) ? cat : 'other';
+  /**
+   * Who a REST request's changes are recorded as: on a household's ledger, which member
+   */
+  private userActor(request: Request): AuditActor {
+    const memberId = householdMember(memberContext(request));
+    return memberId ? `user:${memberId}` : 'user';
   }
 
-  private validateDate(dateStr: string): string | null {
-    if (!dateStr) return null;
-    try {
-      const date = new Date(dateStr);
-      if (isNaN(date.getTime())) return null;
-      return date.toISOString().slice(0, 10);
-    } catch {
-      return null;
-    }
+  /**
+   * Run a change and append an audit entry for every referenced entity it altered.
+   * Entries written by one change share a batchId.
+   */
+  private async audited<T>(actor: AuditActor, refs: AuditRef[], change: () => T | Promise<T>, revertOf?: number): Promise<T> {
+    const unique = refs.filter((ref, i) => refs.findIndex(r => r.entity === ref.entity && r.id === ref.id) === i);
+    const before = await Promise.all(unique.map(ref => this.snapshot(ref)));
+    const result = await change();
+    const after = await Promise.all(unique.map(ref => this.snapshot(ref)));
+
+    const changed = unique
+      .map((ref, i) => ({ ref, before: before[i], after: after[i] }))
+      .filter(c => !sameSnapshot(c.before, c.after));
+    const batchId = changed.length > 1 ? crypto.randomUUID() : undefined;
+    const timestamp = Date.now();
+    this.store.appendAudit(changed.map(({ ref, before, after }) => ({
+      timestamp,
+      actor,
+      entity: ref.entity,
+      entityId: ref.id,
+      action: auditAction(before, after),
+      before,
+      after,
+      ...(batchId ? { batchId } : {}),
+      ...(revertOf !== undefined ? { revertOf } : {})
+    })));
+    return result;
   }
 
-  private categorizeExpense(description: string): string {
-    const desc = description.toLowerCase();
-    if (desc.includes('food') || desc.includes('grocery') || desc.includes('restaurant') || desc.includes('lunch') || desc.includes('dinner')) return 'food';
-    if (desc.includes('gas') || desc.includes('transport') || desc.includes('uber') || desc.includes('taxi') || desc.includes('bus')) return 'transportation';
-    if (desc.includes('rent') || desc.includes('mortgage') || desc.includes('utilities') || desc.includes('electric') || desc.includes('water')) return 'housing';
-    if (desc.includes('movie') || desc.includes('entertainment') || desc.includes('game') || desc.includes('concert')) return 'entertainment';
-    if (desc.includes('clothes') || desc.includes('clothing') || desc.includes('shopping')) return 'shopping';
-    if (desc.includes('health') || desc.includes('medical') || desc.includes('doctor') || desc.includes('pharmacy')) return 'healthcare';
-    return 'other';
+  /**
+   * Everything renaming or merging a category rewrites: the category, its budget,
+   * its subcategories and every transaction (or split line) filed under it
+   */
+  private categoryRefs(id: string): AuditRef[] {
+    return [
+      { entity: 'category', id },
+      { entity: 'budget', id },
+      ...this.personalBudgetRefs(id),
+      ...this.store.listSubcategories(id).map(c => ({ entity: 'category' as const, id: c.id })),
+      ...this.store.transactionIdsUsing({ category: id }).map(t => ({ entity: 'transaction' as const, id: t }))
+    ];
   }
 
-  private getDefaultResponse(message: string): string {
-    const msg = message.toLowerCase();
-    if (msg.includes('budget')) {
-      return 'I can help you with budgeting! Try the 50/30/20 rule: 50% for needs, 30% for wants, 20% for savings. What specific budgeting area would you like help with?';
-    }
-    if (msg.includes('save') || msg.includes('saving')) {
-      return 'Great question about saving! Start by tracking your expenses, then look for areas to cut back. Even saving $50/month adds up to $600/year!';
-    }
-    if (msg.includes('invest')) {
-      return 'For investing, consider starting with low-cost index funds, diversify your portfolio, and think long-term. What\'s your investment timeline?';
-    }
-    if (msg.includes('expense') || msg.includes('add')) {
-      return 'To add an expense, use this format: "Add $50 grocery expense" or "Add $25 gas expense". I\'ll track it for you!';
-    }
-    return 'I can help you manage your finances! Try asking about budgeting, saving, investment strategies, or add expenses like "Add $50 grocery expense".';
+  /**
+   * Members' personal budgets for a category, identified under the category id `as`
+   * (a renamed or merged category's budgets end up under the new id)
+   */
+  private personalBudgetRefs(category: string, as: string = category): AuditRef[] {
+    return this.store.personalBudgetMembers(category).map(member => ({ entity: 'personalBudget' as const, id: personalBudgetId(member, as) }));
   }
 
-  async addTransaction(request: Request): Promise<Response> {
-    try {
-      const body = await request.json() as { amount: number; description: string; category: string; type: 'income' | 'expense'; date?: string };
-      
-      // Parse date string to avoid timezone issues
-      // Adding T12:00:00 ensures we stay on the intended date regardless of timezone
-      let dateStr: string;
-      let timestamp: number;
-      
-      if (body.date) {
-        dateStr = body.date; // Already in YYYY-MM-DD format from date input
-        timestamp = new Date(`${dateStr}T12:00:00`).getTime();
-      } else {
-        const now = new Date();
-        dateStr = now.toISOString().split('T')[0];
-        timestamp = new Date(`${dateStr}T12:00:00`).getTime();
+  /**
+   * A tag and every transaction carrying it
+   */
+  private tagRefs(name: string): AuditRef[] {
+    return [
+      { entity: 'tag', id: name },
+      ...this.store.transactionIdsUsing({ tag: name }).map(id => ({ entity: 'transaction' as const, id }))
+    ];
+  }
+
+  /**
+   * Why an entity cannot be put back into the snapshotted state, or null if it can
+   */
+  private async revertConflict(ref: AuditRef, target: any): Promise<string | null> {
+    if (target === null) {
+      const usedBy = ref.entity === 'account' ? this.store.transactionIdsUsing({ accountId: ref.id }).length
+        : ref.entity === 'category' ? this.store.transactionIdsUsing({ category: ref.id }).length
+        : ref.entity === 'tag' ? this.store.transactionIdsUsing({ tag: ref.id }).length
+        : ref.entity === 'merchant' ? this.store.transactionIdsUsing({ merchantId: ref.id }).length
+        : 0;
+      if (usedBy > 0) return `${ref.entity} ${ref.id} is used by ${usedBy} transaction${usedBy === 1 ? '' : 's'}`;
+      if (ref.entity === 'category' && this.store.listSubcategories(ref.id).length > 0) {
+        return `category ${ref.id} has subcategories`;
       }
-      
-      // Create new transaction
-      const transaction = {
-        id: crypto.randomUUID(),
-        amount: body.amount,
-        description: body.description,
-        category: body.category,
-        type: body.type,
-        date: dateStr,
-        timestamp: timestamp
-      };
-      
-      // Use simple key-value storage for now (more reliable)
-      const existingTransactions = await this.state.storage.get('transactions') as any[] || [];
-      existingTransactions.push(transaction);
-      await this.state.storage.put('transactions', existingTransactions);
+    } else if (ref.entity === 'attachment' && !(await this.attachments.get(attachmentKey(ref.id)))) {
+      return `the file of attachment ${ref.id} is no longer stored`;
+    } else if (ref.entity === 'transaction' && !this.store.getAccount(target.accountId)) {
+      return `account ${target.accountId} no longer exists`;
+    }
+    return null;
+  }
 
-      // ========== RAG ENHANCEMENT ==========
-      // Index transaction for semantic search
-      try {
-        const vectorDB = createVectorDB(this.env);
-        await indexTransaction(transaction, this.env.AI, vectorDB);
-      } catch (indexError) {
-        console.log('Transaction indexing skipped:', indexError);
-        // Don't fail the whole operation if indexing fails
+  /**
+   * Put an entity back into a snapshotted state (null removes it)
+   */
+  private async writeSnapshot(ref: AuditRef, value: any): Promise<void> {
+    switch (ref.entity) {
+      case 'transaction':
+        this.store.writeTransactionState(ref.id, value);
+        try {
+          const vectorDB = this.vectorDB();
+          if (value && value.deletedAt === undefined) await indexTransaction(value, this.env.AI, vectorDB);
+          else await unindexTransaction(ref.id, vectorDB);
+        } catch (indexError) {
+          console.log('Transaction re-indexing skipped:', indexError);
+        }
+        return;
+      case 'budget':
+        if (value) this.store.setBudget(ref.id, value.amount);
+        else this.store.deleteBudget(ref.id);
+        return;
+      case 'personalBudget': {
+        const [memberId, category] = splitPersonalBudgetId(ref.id);
+        if (value) this.store.setPersonalBudget(memberId, category, value.amount);
+        else this.store.deletePersonalBudget(memberId, category);
+        return;
+      }
+      case 'goal':
+        if (value) this.store.saveGoal(value);
+        else this.store.deleteGoal(ref.id);
+        return;
+      case 'netWorth':
+        if (value) await this.state.storage.put(NET_WORTH_KEY, value);
+        else await this.state.storage.delete(NET_WORTH_KEY);
+        return;
+      case 'account':
+        if (value) this.store.saveAccount(value);
+        else this.store.deleteAccount(ref.id);
+        return;
+      case 'category':
+        if (value) this.store.saveCategory(value);
+        else this.store.deleteCategory(ref.id);
+        return;
+      case 'tag':
+        if (value) this.store.saveTag(value.name, value.createdAt);
+        else this.store.deleteTag(ref.id);
+        return;
+      case 'merchant':
+        if (value) this.store.saveMerchant(value);
+        else this.store.deleteMerchant(ref.id);
+        return;
+      case 'attachment': {
+        const current = this.store.getAttachment(ref.id);
+        if (value) this.store.saveAttachment(value);
+        else if (current) await this.removeAttachments([current]);
+        return;
       }
+    }
+  }
 
-      return new Response(JSON.stringify({
-        success: true,
-        transaction,
-        message: `Successfully added ${body.type} of $${body.amount} for ${body.description}`
-      }), {
-        headers: { 'Content-Type': 'application/json' }
-      });
-    } catch (error) {
-      console.error('Error adding transaction:', error);
+  /**
+   * GET /api/audit - audit entries, newest first, filtered by entity, actor, action, batch or date.
+   * On a household's ledger, other members' personal budgets and goals are left out.
+   */
+  async getAudit(request: Request): Promise<Response> {
+    const query = parseAuditQuery(new URL(request.url).searchParams);
+    if (!query.valid) {
       return new Response(JSON.stringify({
         success: false,
-        message: `Failed to add transaction: ${error}`
+        message: `Invalid query: ${formatFieldErrors(query.errors)}`,
+        errors: query.errors
       }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' }
       });
     }
+
+    const memberId = householdMember(memberContext(request));
+    return new Response(JSON.stringify({
+      success: true,
+      ...this.store.listAudit({ ...query.value, ...(memberId ? { memberId } : {}) })
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
   }
 
-  async getSummary(request: Request): Promise<Response> {
+  /**
+   * POST /api/audit/:id/revert - put the entry's entity back into its `before` state.
+   * Refused when the entity has changed since, unless `{ force: true }`.
+   */
+  async revertAuditEntry(request: Request, id: number): Promise<Response> {
     try {
-      // Get all transactions from key-value storage
-      const transactions = await this.state.storage.get('transactions') as any[] || [];
-      
-      // Calculate totals
-      const totalIncome = transactions
-        .filter(t => t.type === 'income')
-        .reduce((sum, t) => sum + t.amount, 0);
-      
-      const totalExpenses = transactions
-        .filter(t => t.type === 'expense')
-        .reduce((sum, t) => sum + t.amount, 0);
-      
-      // Realistic checking account: start with a base balance + net of all transactions
-      const STARTING_BALANCE = 4250.00;
-      const balance = STARTING_BALANCE + (totalIncome - totalExpenses);
-
-      // Calculate current month's expenses using date strings (not timestamps)
-      const now = new Date();
-      const currentMonth = now.getMonth();
-      const currentYear = now.getFullYear();
-      const currentYearMonth = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}`;
+      const body = await request.json().catch(() => ({})) as { force?: unknown };
+      const found = Number.isInteger(id) ? this.store.getAuditEntry(id) : null;
+      const memberId = householdMember(memberContext(request));
+      const entry = found && !(memberId && isOthersPersonalEntry(found, memberId)) ? found : null;
+      if (!entry) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Audit entry ${id} not found`
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-      const monthlyExpenses = transactions
-        .filter(t => {
-          if (t.type !== 'expense') return false;
-          // Use date string (YYYY-MM-DD) to avoid timezone issues
-          return t.date && t.date.startsWith(currentYearMonth);
-        })
-        .reduce((sum, t) => sum + t.amount, 0);
-
-      const monthlyIncome = transactions
-        .filter(t => {
-          if (t.type !== 'income') return false;
-          // Use date string (YYYY-MM-DD) to avoid timezone issues
-          return t.date && t.date.startsWith(currentYearMonth);
-        })
-        .reduce((sum, t) => sum + t.amount, 0);
-
-      // Category breakdown
-      const categoryBreakdown: Record<string, number> = {};
-      transactions
-        .filter(t => t.type === 'expense')
-        .forEach(t => {
-          categoryBreakdown[t.category] = (categoryBreakdown[t.category] || 0) + t.amount;
+      const ref: AuditRef = { entity: entry.entity, id: entry.entityId };
+      const current = await this.snapshot(ref);
+      const conflict = entry.redacted
+        ? `${entry.entity} ${entry.entityId} was purged, and entry ${entry.id} no longer holds its data`
+        : entry.revertedBy !== undefined
+        ? `entry ${entry.id} was already reverted by entry ${entry.revertedBy}`
+        : sameSnapshot(current, entry.before)
+          ? `${entry.entity} ${entry.entityId} is already in its earlier state`
+          : !sameSnapshot(current, entry.after) && body?.force !== true
+            ? `${entry.entity} ${entry.entityId} has changed since entry ${entry.id}; revert the later entries first or pass force`
+            : await this.revertConflict(ref, entry.before);
+      if (conflict) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Cannot revert: ${conflict}`,
+          current
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
         });
-      
-      // Sort transactions by timestamp (newest first) and return ALL transactions
-      // Frontend needs all transactions to filter by month
-      const sortedTransactions = transactions
-        .sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
-      
+      }
+
+      await this.audited(this.userActor(request), [ref], () => this.writeSnapshot(ref, entry.before), entry.id);
+      const revert = this.store.listAudit({ entity: entry.entity, entityId: entry.entityId, limit: 1 }).entries[0];
+
       return new Response(JSON.stringify({
-        balance: Number(balance.toFixed(2)),
-        totalIncome: Number(totalIncome.toFixed(2)),
-        totalExpenses: Number(totalExpenses.toFixed(2)),
-        monthlyExpenses: Number(monthlyExpenses.toFixed(2)),
-        monthlyIncome: Number(monthlyIncome.toFixed(2)),
-        categoryBreakdown,
-        transactions: sortedTransactions
+        success: true,
+        entry: revert,
+        message: `Reverted ${entry.action} of ${entry.entity} ${entry.entityId}`
       }), {
         headers: { 'Content-Type': 'application/json' }
       });
     } catch (error) {
-      console.error('Error getting summary:', error);
+      console.error('Error reverting audit entry:', error);
       return new Response(JSON.stringify({
-        balance: 0,
-        totalIncome: 0,
-        totalExpenses: 0,
-        monthlyExpenses: 0,
-        monthlyIncome: 0,
-        categoryBreakdown: {},
-        transactions: []
+        success: false,
+        message: `Failed to revert audit entry: ${error}`
       }), {
+        status: 400,
         headers: { 'Content-Type': 'application/json' }
       });
     }
@@ -1864,16 +5037,37 @@ Respond with ONLY the JSON object, no other text.`;
 
   async setBudget(request: Request): Promise<Response> {
     try {
-      const body = await request.json() as { category: string; amount: number };
-      
-      // Get existing budgets
-      const existingBudgets = await this.state.storage.get('budgets') as Record<string, number> || {};
+      const validation = validateBudgetInput(await request.json(), this.store.listCategories());
+      if (!validation.valid) {
+        return new Response(JSON.stringify({
+          success: false,
+          message: `Invalid budget: ${formatFieldErrors(validation.errors)}`,
+          errors: validation.errors
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      const body = validation.value;
+
+      // A personal budget belongs to the member setting it and covers only what they record
+      const { userId } = memberContext(request);
+      if (body.personal && userId) {
+        const id = personalBudgetId(userId, body.category);
+        await this.audited(this.userActor(request), [{ entity: 'personalBudget', id }], () => this.store.setPersonalBudget(userId, body.category, body.amount));
+        return new Response(JSON.stringify({
+          success: true,
+          message: `Personal budget for ${body.category} set to $${body.amount.toFixed(2)}`,
+          budgets: this.store.getBudgets(),
+          personalBudgets: this.store.getPersonalBudgets(userId)
+        }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
       
       // Update the budget for the category
-      existingBudgets[body.category] = body.amount;
-      
-      // Save back to storage
-      await this.state.storage.put('budgets', existingBudgets);
+      await this.audited(this.userActor(request), [{ entity: 'budget', id: body.category }], () => this.store.setBudget(body.category, body.amount));
+      const existingBudgets = this.store.getBudgets();
       
       return new Response(JSON.stringify({
         success: true,
@@ -1896,25 +5090,22 @@ Respond with ONLY the JSON object, no other text.`;
   async getBudgets(request: Request): Promise<Response> {
     try {
       // Get budgets from storage, with default values
-      const budgets = await this.state.storage.get('budgets') as Record<string, number> || {};
+      const budgets = this.store.getBudgets();
       
-      // Set default budgets if none exist
-      const defaultBudgets = {
-        food: 500,
-        transportation: 300,
-        housing: 1000,
-        entertainment: 200,
-        shopping: 300,
-        healthcare: 400,
-        other: 200
-      };
+      // Categories without a budget of their own fall back to their default budget
+      const defaultBudgets: Record<string, number> = {};
+      for (const category of this.store.listCategories()) {
+        if (category.defaultBudget !== null) defaultBudgets[category.id] = category.defaultBudget;
+      }
       
       // Merge with defaults
       const finalBudgets = { ...defaultBudgets, ...budgets };
+      const { userId } = memberContext(request);
       
       return new Response(JSON.stringify({
         success: true,
-        budgets: finalBudgets
+        budgets: finalBudgets,
+        personalBudgets: userId ? this.store.getPersonalBudgets(userId) : {}
       }), {
         headers: { 'Content-Type': 'application/json' }
       });
@@ -1935,7 +5126,7 @@ Respond with ONLY the JSON object, no other text.`;
       const url = new URL(request.url);
       const conversationId = url.searchParams.get('conversationId') || 'default';
 
-      const allMessages = await this.loadConversation(conversationId);
+      const allMessages = await this.loadConversation(this.conversationKey(memberContext(request), conversationId));
 
       // Filter out system messages (they're for AI context only, not for display)
       const messages = allMessages.filter(msg => msg.role !== 'system');
@@ -1966,7 +5157,7 @@ Respond with ONLY the JSON object, no other text.`;
       const body = await request.json() as { conversationId?: string };
       const conversationId = body?.conversationId || 'default';
 
-      await this.clearConversation(conversationId);
+      await this.clearConversation(this.conversationKey(memberContext(request), conversationId));
 
       return new Response(JSON.stringify({
         success: true,
@@ -1989,19 +5180,38 @@ Respond with ONLY the JSON object, no other text.`;
   // ===== LLM Receipt Scanner =====
   async scanReceiptLLM(request: Request): Promise<Response> {
     try {
-      const body = await request.json() as { image: string; filename?: string };
+      const body = await request.json() as { image: string; filename?: string; thumbnail?: string };
       if (!body?.image) {
         return new Response(JSON.stringify({ success: false, error: 'Missing image' }), { status: 400 });
       }
 
       // Create receipt scanner instance
-      const scanner = new ReceiptScanner(this.env.AI, this.state.storage);
+      const scanner = new ReceiptScanner(this.env.AI, this.state.storage, this.store.listCategories().filter(c => c.kind === 'expense'));
 
       // Scan the receipt
       const result = await scanner.scanReceipt(body.image);
 
+      // Point the printed store name ("COSTCO WHOLESALE #123") at a merchant the user already has
+      const merchant = result.merchant ? this.store.findMerchant(result.merchant) : null;
+
+      // Keep the image until the transaction is added with this attachmentId; unclaimed ones expire
+      let receipt: Attachment | null = null;
+      const upload = parseAttachmentUpload(body.image, body.filename, body.thumbnail);
+      if (upload.valid) {
+        try {
+          receipt = await this.saveUpload(upload.value, null, 'scan', this.userActor(request));
+          await this.scheduleCleanup();
+        } catch (storageError) {
+          console.log('Receipt image not kept:', storageError);
+        }
+      }
+
       // Return the result
-      return new Response(JSON.stringify(result), {
+      return new Response(JSON.stringify({
+        ...result,
+        ...(merchant ? { merchantId: merchant.id, merchantName: merchant.name } : {}),
+        ...(receipt ? { attachmentId: receipt.id } : {})
+      }), {
         status: result.success ? 200 : 200, // Always return 200 for graceful frontend handling
         headers: { 'Content-Type': 'application/json' }
       });
@@ -2029,7 +5239,7 @@ Respond with ONLY the JSON object, no other text.`;
    */
   async initializeKnowledgeBase(): Promise<Response> {
     try {
-      const vectorDB = createVectorDB(this.env);
+      const vectorDB = this.vectorDB();
       const dbName = getVectorDBName(this.env);
 
       await initializeKnowledgeBase(this.env.AI, vectorDB);
@@ -2057,41 +5267,25 @@ Respond with ONLY the JSON object, no other text.`;
    */
   async getAIInsights(request: Request): Promise<Response> {
     try {
-      // Get all transactions
-      const transactions = await this.state.storage.get('transactions') as any[] || [];
-
       // Get budgets
-      const budgets = await this.state.storage.get('budgets') as Record<string, number> || {};
+      const budgets = this.store.getBudgets();
 
       // Calculate current month data
-      const now = new Date();
-      const currentMonth = now.getMonth();
-      const currentYear = now.getFullYear();
-
-      const monthlyTransactions = transactions.filter(t => {
-        const date = new Date(t.date);
-        return date.getMonth() === currentMonth && date.getFullYear() === currentYear;
-      });
-
-      const monthlyIncome = monthlyTransactions
-        .filter(t => t.type === 'income')
-        .reduce((sum, t) => sum + t.amount, 0);
-
-      const monthlyExpenses = monthlyTransactions
-        .filter(t => t.type === 'expense')
-        .reduce((sum, t) => sum + t.amount, 0);
-
-      // Calculate category spending
-      const categorySpending: Record<string, number> = {};
-      monthlyTransactions
-        .filter(t => t.type === 'expense')
-        .forEach(t => {
-          categorySpending[t.category] = (categorySpending[t.category] || 0) + t.amount;
-        });
-
-      // Calculate budget performance
+      const currentYearMonth = this.currentYearMonth();
+      const monthlyTotals = this.store.totalsByType({ month: currentYearMonth });
+      const monthlyIncome = monthlyTotals.income || 0;
+      const monthlyExpenses = monthlyTotals.expense || 0;
+
+      // Calculate category spending, rolled up to top-level categories
+      const categorySpending = this.store.categoryTotals({ type: 'expense', month: currentYearMonth }, { rollUp: true });
+      const subcategorySpending = subcategoryTotals(
+        this.store.categoryTotals({ type: 'expense', month: currentYearMonth }),
+        this.store.listCategories(true)
+      );
+
+      // Calculate budget performance (budgets may sit on a parent or a subcategory)
       const budgetPerformance: Array<{category: string, spent: number, budget: number, percentage: number}> = [];
-      Object.entries(categorySpending).forEach(([category, spent]) => {
+      Object.entries(this.categorySpending({ type: 'expense', month: currentYearMonth })).forEach(([category, spent]) => {
         const budget = budgets[category] || 0;
         if (budget > 0) {
           budgetPerformance.push({
@@ -2106,6 +5300,10 @@ Respond with ONLY the JSON object, no other text.`;
       // Sort by percentage over budget
       budgetPerformance.sort((a, b) => b.percentage - a.percentage);
 
+      // Household ledgers: who recorded this month's spending
+      const member = memberContext(request);
+      const memberSpending = this.memberBreakdown(member, { month: currentYearMonth });
+
       // Build prompt for LLM
       const prompt = `You are a financial advisor analyzing someone's monthly finances. Provide 3-4 specific, actionable insights based on this data:
 
@@ -2118,7 +5316,11 @@ MONTHLY SUMMARY:
 SPENDING BY CATEGORY:
 ${Object.entries(categorySpending)
   .sort((a, b) => b[1] - a[1])
-  .map(([cat, amount]) => `- ${cat}: $${amount.toFixed(2)} (${((amount/monthlyExpenses)*100).toFixed(1)}%)`)
+  .map(([cat, amount]) => `- ${cat}: $${amount.toFixed(2)} (${((amount/monthlyExpenses)*100).toFixed(1)}%)` +
+    Object.entries(subcategorySpending[cat] || {})
+      .sort((a, b) => b[1] - a[1])
+      .map(([sub, subAmount]) => `\n  - ${sub}: $${subAmount.toFixed(2)}`)
+      .join(''))
   .join('\n')}
 
 BUDGET PERFORMANCE:
@@ -2126,7 +5328,10 @@ ${budgetPerformance.length > 0
   ? budgetPerformance.map(p => `- ${p.category}: $${p.spent.toFixed(2)} / $${p.budget.toFixed(2)} (${p.percentage.toFixed(1)}%)`)
     .join('\n')
   : 'No budgets set'}
-
+${memberSpending.length > 0 ? `
+SPENDING BY HOUSEHOLD MEMBER:
+${memberSpending.map(m => `- ${m.name}: $${m.expenses.toFixed(2)} across ${m.count} transaction(s)`).join('\n')}
+` : ''}
 Provide insights in this EXACT format (each insight on a new line, starting with an emoji):
 - Use emojis: 💰 for savings, 📊 for spending patterns, 🚨 for warnings, ✅ for achievements, 💡 for tips
 - Keep each insight to 1-2 sentences max
@@ -2168,7 +5373,10 @@ Generate 3-4 insights now:`;
 
       return new Response(JSON.stringify({
         success: true,
-        insights: insights
+        insights: insights,
+        ...(member.members.length > 0 ? {
+          memberBreakdown: memberSpending.map(m => ({ memberId: m.memberId, name: m.name, expenses: Number(m.expenses.toFixed(2)), count: m.count }))
+        } : {})
       }), {
         headers: { 'Content-Type': 'application/json' }
       });
@@ -2177,19 +5385,9 @@ Generate 3-4 insights now:`;
       console.error('AI insights error:', error);
 
       // Return fallback insights on error
-      const transactions = await this.state.storage.get('transactions') as any[] || [];
-      const now = new Date();
-      const monthlyTransactions = transactions.filter(t => {
-        const date = new Date(t.date);
-        return date.getMonth() === now.getMonth() && date.getFullYear() === now.getFullYear();
-      });
-
-      const monthlyIncome = monthlyTransactions
-        .filter(t => t.type === 'income')
-        .reduce((sum, t) => sum + t.amount, 0);
-      const monthlyExpenses = monthlyTransactions
-        .filter(t => t.type === 'expense')
-        .reduce((sum, t) => sum + t.amount, 0);
+      const monthlyTotals = this.store.totalsByType({ month: this.currentYearMonth() });
+      const monthlyIncome = monthlyTotals.income || 0;
+      const monthlyExpenses = monthlyTotals.expense || 0;
 
       return new Response(JSON.stringify({
         success: true,
@@ -2202,24 +5400,37 @@ Generate 3-4 insights now:`;
 
   // ========== GOALS ==========
 
-  async getGoals(): Promise<Response> {
-    const goals = await this.state.storage.get('goals') as any[] || [];
+  /**
+   * Shared goals plus the asker's personal ones; other members' personal goals stay hidden
+   */
+  private visibleGoals(userId: string | null): Goal[] {
+    return this.store.listGoals().filter(goal => !goal.memberId || goal.memberId === userId);
+  }
+
+  async getGoals(request: Request): Promise<Response> {
+    const goals = this.visibleGoals(memberContext(request).userId);
     return new Response(JSON.stringify({ success: true, goals }), {
       headers: { 'Content-Type': 'application/json' }
     });
   }
 
+  /**
+   * Create a goal (`personal: true` makes it the asker's own) or update one by id
+   */
   async saveGoal(request: Request): Promise<Response> {
-    const body = await request.json() as any;
-    const goals = await this.state.storage.get('goals') as any[] || [];
+    const { personal, memberId, ...body } = await request.json() as any;
+    const { userId } = memberContext(request);
     if (body.id) {
-      // update existing
-      const idx = goals.findIndex((g: any) => g.id === body.id);
-      if (idx !== -1) goals[idx] = { ...goals[idx], ...body };
+      // update existing; whose goal it is never changes
+      if (this.visibleGoals(userId).some(goal => goal.id === body.id)) {
+        await this.audited(this.userActor(request), [{ entity: 'goal', id: body.id }], () => this.store.saveGoal(body));
+      }
     } else {
-      goals.push({ ...body, id: crypto.randomUUID(), createdAt: Date.now() });
+      const id = crypto.randomUUID();
+      const owner = personal && userId ? { memberId: userId } : {};
+      await this.audited(this.userActor(request), [{ entity: 'goal', id }], () => this.store.saveGoal({ ...body, ...owner, id, createdAt: Date.now() }));
     }
-    await this.state.storage.put('goals', goals);
+    const goals = this.visibleGoals(userId);
     return new Response(JSON.stringify({ success: true, goals }), {
       headers: { 'Content-Type': 'application/json' }
     });
@@ -2227,9 +5438,11 @@ Generate 3-4 insights now:`;
 
   async deleteGoal(request: Request): Promise<Response> {
     const body = await request.json() as any;
-    let goals = await this.state.storage.get('goals') as any[] || [];
-    goals = goals.filter((g: any) => g.id !== body.id);
-    await this.state.storage.put('goals', goals);
+    const { userId } = memberContext(request);
+    if (this.visibleGoals(userId).some(goal => goal.id === String(body.id))) {
+      await this.audited(this.userActor(request), [{ entity: 'goal', id: String(body.id) }], () => this.store.deleteGoal(body.id));
+    }
+    const goals = this.visibleGoals(userId);
     return new Response(JSON.stringify({ success: true, goals }), {
       headers: { 'Content-Type': 'application/json' }
     });
@@ -2238,15 +5451,15 @@ Generate 3-4 insights now:`;
   // ========== NET WORTH ==========
 
   async getNetWorth(): Promise<Response> {
-    const netWorth = await this.state.storage.get('netWorth') as any || { assets: [], liabilities: [] };
+    const netWorth = await this.state.storage.get<NetWorth>(NET_WORTH_KEY) ?? { assets: [], liabilities: [] };
     return new Response(JSON.stringify({ success: true, ...netWorth }), {
       headers: { 'Content-Type': 'application/json' }
     });
   }
 
   async saveNetWorth(request: Request): Promise<Response> {
-    const body = await request.json() as any;
-    await this.state.storage.put('netWorth', body);
+    const netWorth = normalizeNetWorth(await request.json());
+    await this.audited(this.userActor(request), [{ entity: 'netWorth', id: NET_WORTH_KEY }], () => this.state.storage.put(NET_WORTH_KEY, netWorth));
     return new Response(JSON.stringify({ success: true }), {
       headers: { 'Content-Type': 'application/json' }
     });
@@ -2255,8 +5468,8 @@ Generate 3-4 insights now:`;
   // ========== ALERT HISTORY ==========
 
   async getAlerts(): Promise<Response> {
-    const transactions = await this.state.storage.get('transactions') as any[] || [];
-    const budgets = await this.state.storage.get('budgets') as any || {};
+    const budgets = this.store.getBudgets();
+    const parents = new Map(this.store.listCategories(true).map(c => [c.id, c.parentId]));
     const now = new Date();
     const alerts: any[] = [];
 
@@ -2265,15 +5478,11 @@ Generate 3-4 insights now:`;
       const month = new Date(now.getFullYear(), now.getMonth() - i, 1);
       const ym = `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, '0')}`;
       const monthLabel = month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-      const categoryTotals: Record<string, number> = {};
-
-      transactions.forEach((t: any) => {
-        if (t.type === 'expense' && t.date && t.date.startsWith(ym)) {
-          categoryTotals[t.category] = (categoryTotals[t.category] || 0) + t.amount;
-        }
-      });
+      const categoryTotals = this.categorySpending({ type: 'expense', month: ym });
 
       Object.entries(categoryTotals).forEach(([cat, spent]) => {
+        // Subcategories only raise alerts against a budget of their own; otherwise their parent covers them
+        if (parents.get(cat) && budgets[cat] === undefined) return;
         const limit = budgets[cat] || 500;
         const pct = (spent / limit) * 100;
         if (pct >= 100) {
@@ -2361,7 +5570,7 @@ Generate 3-4 insights now:`;
       });
     }
 
-    const categories = ['food', 'transportation', 'housing', 'entertainment', 'shopping', 'healthcare', 'income', 'other'];
+    const categories = this.store.listCategories().map(c => c.id);
 
     try {
       const response = await this.env.AI.run('@cf/meta/llama-3.3-70b-instruct', {
@@ -2379,14 +5588,14 @@ Generate 3-4 insights now:`;
         temperature: 0.1
       });
 
-      const raw = (response.response || '').trim().toLowerCase().replace(/[^a-z]/g, '');
-      const matched = categories.find(c => raw.includes(c)) || 'other';
+      const raw = (response.response || '').trim().toLowerCase().replace(/[^a-z0-9-]/g, '');
+      const matched = categories.find(c => raw === c) || categories.find(c => raw.includes(c)) || this.categorizeExpense(description);
 
       return new Response(JSON.stringify({ category: matched }), {
         headers: { 'Content-Type': 'application/json' }
       });
     } catch (err) {
-      return new Response(JSON.stringify({ category: 'other' }), {
+      return new Response(JSON.stringify({ category: this.categorizeExpense(description) }), {
         headers: { 'Content-Type': 'application/json' }
       });
     }
@@ -2395,70 +5604,36 @@ Generate 3-4 insights now:`;
   // ========== AI ANOMALY DETECTION ==========
 
   async getAnomalies(): Promise<Response> {
-    const transactions = await this.state.storage.get('transactions') as any[] || [];
-    const now = new Date();
-    const ym = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-
-    // Build historical averages per category (excluding current month)
-    const historicalTotals: Record<string, number[]> = {};
-    const monthsSeen: Record<string, Set<string>> = {};
-
-    transactions.forEach((t: any) => {
-      if (t.type !== 'expense' || !t.date || t.date.startsWith(ym)) return;
-      const monthKey = t.date.substring(0, 7);
-      if (!historicalTotals[t.category]) { historicalTotals[t.category] = []; monthsSeen[t.category] = new Set(); }
-      monthsSeen[t.category].add(monthKey);
-    });
-
-    // Sum per category per month
-    const catMonthTotals: Record<string, Record<string, number>> = {};
-    transactions.forEach((t: any) => {
-      if (t.type !== 'expense' || !t.date || t.date.startsWith(ym)) return;
-      const monthKey = t.date.substring(0, 7);
-      if (!catMonthTotals[t.category]) catMonthTotals[t.category] = {};
-      catMonthTotals[t.category][monthKey] = (catMonthTotals[t.category][monthKey] || 0) + t.amount;
-    });
-
-    // Average monthly spend per category
-    const avgMonthly: Record<string, number> = {};
-    Object.entries(catMonthTotals).forEach(([cat, months]) => {
-      const vals = Object.values(months);
-      avgMonthly[cat] = vals.reduce((s, v) => s + v, 0) / vals.length;
-    });
+    const ym = this.currentYearMonth();
 
-    // Also compute average single-transaction amount per category historically
-    const catTxAmounts: Record<string, number[]> = {};
-    transactions.forEach((t: any) => {
-      if (t.type !== 'expense' || !t.date || t.date.startsWith(ym)) return;
-      if (!catTxAmounts[t.category]) catTxAmounts[t.category] = [];
-      catTxAmounts[t.category].push(t.amount);
-    });
-    const avgTx: Record<string, number> = {};
-    Object.entries(catTxAmounts).forEach(([cat, amounts]) => {
-      avgTx[cat] = amounts.reduce((s, v) => s + v, 0) / amounts.length;
-    });
+    // Average single-transaction amount per top-level category before the current month
+    // (YYYY-MM-00 sorts just before the first day of the month)
+    const avgTx = this.store.categoryAverages({ type: 'expense', to: `${ym}-00` }, { rollUp: true });
+    const parents = new Map(this.store.listCategories(true).map(c => [c.id, c.parentId]));
 
     // Find anomalies in current month
-    const currentMonthTx = transactions.filter((t: any) => t.type === 'expense' && t.date && t.date.startsWith(ym));
+    const currentMonthTx = this.store.listTransactions({ type: 'expense', month: ym });
     const anomalies: any[] = [];
 
-    currentMonthTx.forEach((t: any) => {
-      const avg = avgTx[t.category];
+    // Split transactions are checked line by line against each line's category
+    currentMonthTx.forEach(t => categoryLines(t).forEach(line => {
+      const group = parents.get(line.category) || line.category;
+      const avg = avgTx[group];
       if (!avg) return;
-      const ratio = t.amount / avg;
+      const ratio = line.amount / avg;
       if (ratio >= 2.5) {
         anomalies.push({
           id: t.id,
           description: t.description,
-          category: t.category,
-          amount: t.amount,
+          category: line.category,
+          amount: line.amount,
           avgAmount: avg,
           ratio: ratio,
           date: t.date,
-          message: `"${t.description}" ($${t.amount.toFixed(2)}) is ${ratio.toFixed(1)}x your usual ${t.category} spend (avg $${avg.toFixed(0)})`
+          message: `"${t.description}" ($${line.amount.toFixed(2)}${t.splits ? ` of $${t.amount.toFixed(2)}` : ''}) is ${ratio.toFixed(1)}x your usual ${group} spend (avg $${avg.toFixed(0)})`
         });
       }
-    });
+    }));
 
     anomalies.sort((a, b) => b.ratio - a.ratio);
     return new Response(JSON.stringify({ success: true, anomalies }), {
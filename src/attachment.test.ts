@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SqlAttachmentStorage,
+  MemoryAttachmentStorage,
+  attachmentKey,
+  decodeDataUrl,
+  detectContentType,
+  parseAttachmentUpload,
+  sanitizeFilename
+} from './attachment';
+import { createTestState } from './test-support';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+const PDF = new TextEncoder().encode('%PDF-1.7\n%receipt');
+
+function dataUrl(bytes: Uint8Array, type = 'application/octet-stream'): string {
+  return `data:${type};base64,${btoa(String.fromCharCode(...bytes))}`;
+}
+
+describe('Attachment Model', () => {
+  it('should detect file types from their leading bytes', () => {
+    expect(detectContentType(PNG)).toBe('image/png');
+    expect(detectContentType(PDF)).toBe('application/pdf');
+    expect(detectContentType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(detectContentType(new TextEncoder().encode('<svg onload="x">'))).toBeNull();
+  });
+
+  it('should decode data URLs and reject malformed base64', () => {
+    expect(decodeDataUrl(dataUrl(PNG, 'image/png'))).toEqual(PNG);
+    expect(decodeDataUrl('data:image/png;base64,%%%')).toBeNull();
+  });
+
+  describe('parseAttachmentUpload', () => {
+    it('should trust the bytes over the declared type', () => {
+      const upload = parseAttachmentUpload(dataUrl(PDF, 'image/jpeg'), 'scan.pdf');
+      expect(upload.valid && upload.value.original.contentType).toBe('application/pdf');
+      expect(parseAttachmentUpload(dataUrl(new TextEncoder().encode('<html>'), 'image/png'), 'x.png')).toEqual({
+        valid: false, message: 'file must be a JPEG, PNG, GIF or WebP image, or a PDF'
+      });
+    });
+
+    it('should only accept image thumbnails', () => {
+      expect(parseAttachmentUpload(dataUrl(PNG), 'r.png', dataUrl(PNG)).valid).toBe(true);
+      expect(parseAttachmentUpload(dataUrl(PNG), 'r.png', dataUrl(PDF)).valid).toBe(false);
+    });
+  });
+
+  it('should strip paths and unsafe characters from filenames', () => {
+    expect(sanitizeFilename('C:\\Users\\me\\receipt "1".jpg', 'image/jpeg')).toBe('receipt 1.jpg');
+    expect(sanitizeFilename('..', 'application/pdf')).toBe('receipt.pdf');
+    expect(sanitizeFilename(undefined, 'image/png')).toBe('receipt.png');
+  });
+
+  describe('storage', () => {
+    it('should round-trip files larger than one chunk through SQLite', async () => {
+      const storage = new SqlAttachmentStorage((await createTestState()).storage.sql);
+      const data = new Uint8Array(2.5 * 1024 * 1024).map((_, i) => i % 251);
+
+      await storage.put(attachmentKey('a1'), { data, contentType: 'image/jpeg' });
+      const file = await storage.get('a1');
+      expect(file?.contentType).toBe('image/jpeg');
+      expect(file?.data.length).toBe(data.length);
+      expect(file?.data.every((byte, i) => byte === data[i])).toBe(true);
+
+      await storage.delete(['a1', attachmentKey('a1', 'thumbnail')]);
+      expect(await storage.get('a1')).toBeNull();
+    });
+
+    it('should keep copies in memory', async () => {
+      const storage = new MemoryAttachmentStorage();
+      const data = PNG.slice();
+      await storage.put('a1', { data, contentType: 'image/png' });
+      data[0] = 0;
+      expect((await storage.get('a1'))?.data).toEqual(PNG);
+      await storage.delete(['a1']);
+      expect(storage.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Attachment Domain Model
+ * Receipt images and PDFs kept as proof of purchase next to a transaction.
+ * File bytes live behind AttachmentStorage; metadata lives in the finance store.
+ */
+
+export interface Attachment {
+  id: string;
+  transactionId: string | null;  // null while a scanned receipt waits for its transaction
+  filename: string;
+  contentType: string;
+  size: number;                  // bytes of the original file
+  hasThumbnail: boolean;
+  source: AttachmentSource;
+  createdAt: number;
+}
+
+export type AttachmentSource = 'scan' | 'upload';
+
+export type AttachmentVariant = 'original' | 'thumbnail';
+
+export interface StoredFile {
+  data: Uint8Array;
+  contentType: string;
+}
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_THUMBNAIL_BYTES = 256 * 1024;
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+const MAX_FILENAME_LENGTH = 120;
+
+// Scanned receipts that never become a transaction are dropped after this long
+export const PENDING_ATTACHMENT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Where attachment bytes are kept. Keys come from attachmentKey().
+ */
+export interface AttachmentStorage {
+  put(key: string, file: StoredFile): Promise<void>;
+  get(key: string): Promise<StoredFile | null>;
+  delete(keys: string[]): Promise<void>;
+}
+
+export function attachmentKey(id: string, variant: AttachmentVariant = 'original'): string {
+  return variant === 'thumbnail' ? `${id}/thumbnail` : id;
+}
+
+/**
+ * In-memory storage for tests and local development; contents are lost on restart
+ */
+export class MemoryAttachmentStorage implements AttachmentStorage {
+  private files = new Map<string, StoredFile>();
+
+  async put(key: string, file: StoredFile): Promise<void> {
+    this.files.set(key, { data: file.data.slice(), contentType: file.contentType });
+  }
+
+  async get(key: string): Promise<StoredFile | null> {
+    const file = this.files.get(key);
+    return file ? { data: file.data.slice(), contentType: file.contentType } : null;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach(key => this.files.delete(key));
+  }
+
+  get size(): number {
+    return this.files.size;
+  }
+}
+
+// Durable Object SQLite rows are capped at 2 MB, so files are stored in chunks below that
+const CHUNK_BYTES = 1024 * 1024;
+
+/**
+ * Local storage in the Durable Object's own SQLite database, next to the metadata
+ */
+export class SqlAttachmentStorage implements AttachmentStorage {
+  constructor(private sql: SqlStorage) {}
+
+  // Checked on every call: resetting the Durable Object's storage drops the table
+  private ensureTable(): void {
+    this.sql.exec(`CREATE TABLE IF NOT EXISTS attachment_blobs (
+      key TEXT NOT NULL,
+      chunk INTEGER NOT NULL,
+      content_type TEXT NOT NULL,
+      data BLOB NOT NULL,
+      PRIMARY KEY (key, chunk)
+    )`);
+  }
+
+  async put(key: string, file: StoredFile): Promise<void> {
+    this.ensureTable();
+    this.sql.exec(`DELETE FROM attachment_blobs WHERE key = ?`, key);
+    for (let offset = 0, chunk = 0; offset < file.data.length || chunk === 0; offset += CHUNK_BYTES, chunk++) {
+      const bytes = file.data.slice(offset, offset + CHUNK_BYTES);
+      this.sql.exec(
+        `INSERT INTO attachment_blobs (key, chunk, content_type, data) VALUES (?, ?, ?, ?)`,
+        key, chunk, file.contentType, bytes.buffer
+      );
+    }
+  }
+
+  async get(key: string): Promise<StoredFile | null> {
+    this.ensureTable();
+    const rows = this.sql.exec(`SELECT * FROM attachment_blobs WHERE key = ? ORDER BY chunk`, key).toArray();
+    if (rows.length === 0) return null;
+
+    const chunks = rows.map(row => new Uint8Array(row.data as ArrayBuffer));
+    const data = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    chunks.reduce((offset, chunk) => (data.set(chunk, offset), offset + chunk.length), 0);
+    return { data, contentType: String(rows[0].content_type) };
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    this.ensureTable();
+    this.sql.exec(`DELETE FROM attachment_blobs WHERE key IN (SELECT value FROM json_each(?))`, JSON.stringify(keys));
+  }
+}
+
+// File signatures of the accepted formats; the declared type is never trusted
+const SIGNATURES: { contentType: string; matches: (bytes: Uint8Array) => boolean }[] = [
+  { contentType: 'image/jpeg', matches: b => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { contentType: 'image/png', matches: b => startsWith(b, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { contentType: 'image/gif', matches: b => startsWith(b, [0x47, 0x49, 0x46, 0x38]) },
+  { contentType: 'image/webp', matches: b => startsWith(b, [0x52, 0x49, 0x46, 0x46]) && startsWith(b.subarray(8), [0x57, 0x45, 0x42, 0x50]) },
+  { contentType: 'application/pdf', matches: b => startsWith(b, [0x25, 0x50, 0x44, 0x46, 0x2d]) }
+];
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+  return prefix.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * The content type of a receipt file judged by its leading bytes, or null when it is not
+ * a JPEG, PNG, GIF, WebP image or PDF
+ */
+export function detectContentType(bytes: Uint8Array): string | null {
+  return SIGNATURES.find(signature => signature.matches(bytes))?.contentType ?? null;
+}
+
+/**
+ * Decode a base64 data URL ("data:image/png;base64,...") or bare base64 string, or null when malformed
+ */
+export function decodeDataUrl(value: string): Uint8Array | null {
+  const match = value.match(/^data:[^;,]*(?:;[^;,]*)*;base64,(.*)$/s);
+  const base64 = (match ? match[1] : value).replace(/\s+/g, '');
+  if (!base64 || !/^[A-Za-z0-9+/]+={0,2}$/.test(base64)) return null;
+  try {
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+export interface AttachmentUpload {
+  filename: string;
+  original: StoredFile;
+  thumbnail?: StoredFile;
+}
+
+export type UploadResult =
+  | { valid: true; value: AttachmentUpload }
+  | { valid: false; message: string };
+
+/**
+ * Decode and check an uploaded receipt: the file must be a supported image or PDF within
+ * MAX_ATTACHMENT_BYTES, and a thumbnail, when given, a small image
+ */
+export function parseAttachmentUpload(file: unknown, filename: unknown, thumbnail?: unknown): UploadResult {
+  if (typeof file !== 'string' || !file) return { valid: false, message: 'file must be a base64 data URL' };
+  const data = decodeDataUrl(file);
+  if (!data) return { valid: false, message: 'file must be a base64 data URL' };
+  if (data.length > MAX_ATTACHMENT_BYTES) {
+    return { valid: false, message: `file must be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB` };
+  }
+  const contentType = detectContentType(data);
+  if (!contentType) return { valid: false, message: 'file must be a JPEG, PNG, GIF or WebP image, or a PDF' };
+
+  const upload: AttachmentUpload = {
+    filename: sanitizeFilename(filename, contentType),
+    original: { data, contentType }
+  };
+
+  if (thumbnail !== undefined && thumbnail !== null && thumbnail !== '') {
+    const thumbnailData = typeof thumbnail === 'string' ? decodeDataUrl(thumbnail) : null;
+    const thumbnailType = thumbnailData ? detectContentType(thumbnailData) : null;
+    if (!thumbnailData || !thumbnailType?.startsWith('image/')) {
+      return { valid: false, message: 'thumbnail must be an image data URL' };
+    }
+    if (thumbnailData.length > MAX_THUMBNAIL_BYTES) {
+      return { valid: false, message: `thumbnail must be at most ${MAX_THUMBNAIL_BYTES / 1024} KB` };
+    }
+    upload.thumbnail = { data: thumbnailData, contentType: thumbnailType };
+  }
+
+  return { valid: true, value: upload };
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf'
+};
+
+/**
+ * A filename safe to echo back in a Content-Disposition header ("receipt.jpg" when none is given)
+ */
+export function sanitizeFilename(value: unknown, contentType: string): string {
+  const base = typeof value === 'string'
+    ? value.split(/[\\/]/).pop()!.replace(/[^\w.\- ]+/g, '').trim().slice(0, MAX_FILENAME_LENGTH)
+    : '';
+  return base && !/^\.+$/.test(base) ? base : `receipt.${EXTENSIONS[contentType] ?? 'bin'}`;
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { auditAction, isAuditActor, parseAuditQuery, DEFAULT_AUDIT_PAGE_SIZE } from './audit';
+
+describe('Audit Log', () => {
+  it('should derive the action from the snapshots', () => {
+    const live = { id: 't1', amount: 5 };
+    const trashed = { ...live, deletedAt: 1 };
+    expect(auditAction(null, live)).toBe('create');
+    expect(auditAction(live, { ...live, amount: 6 })).toBe('update');
+    expect(auditAction(live, trashed)).toBe('delete');
+    expect(auditAction(trashed, live)).toBe('restore');
+    expect(auditAction(trashed, null)).toBe('purge');
+    expect(auditAction({ category: 'food', amount: 300 }, null)).toBe('delete');
+  });
+
+  it('should accept the known actors', () => {
+    expect(['user', 'user:alice', 'import', 'rule', 'ai:default'].every(isAuditActor)).toBe(true);
+    expect(isAuditActor('ai:')).toBe(false);
+    expect(isAuditActor('admin')).toBe(false);
+  });
+
+  describe('parseAuditQuery', () => {
+    it('should parse filters and paging', () => {
+      const query = parseAuditQuery(new URLSearchParams('entity=transaction&entityId=t1&actor=ai&from=2026-03-01&before=40&limit=10'));
+      expect(query).toEqual({
+        valid: true,
+        value: { entity: 'transaction', entityId: 't1', actor: 'ai', from: '2026-03-01', before: 40, limit: 10 }
+      });
+      expect(parseAuditQuery(new URLSearchParams()).valid && DEFAULT_AUDIT_PAGE_SIZE).toBe(50);
+    });
+
+    it('should report every invalid parameter', () => {
+      const query = parseAuditQuery(new URLSearchParams('entity=invoice&action=explode&before=0&limit=500'));
+      expect(query.valid ? [] : query.errors.map(e => e.field)).toEqual(['entity', 'action', 'before', 'limit']);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Audit Log
+ * An append-only record of every data mutation: who made it, what it touched, and
+ * snapshots of the entity before and after, so any single entry can be reverted.
+ */
+
+import { FieldError, ValidationResult, isValidISODate } from './transaction';
+
+// 'user' for the REST API ('user:<memberId>' on a household's ledger), 'ai:<conversationId>'
+// for tool calls, 'import' for bulk imports, 'rule' for automatic changes such as the trash
+// retention purge
+export type AuditActor = 'user' | 'import' | 'rule' | `user:${string}` | `ai:${string}`;
+
+export const AUDIT_ENTITIES = ['transaction', 'budget', 'personalBudget', 'goal', 'netWorth', 'account', 'category', 'tag', 'merchant', 'attachment'] as const;
+export type AuditEntity = typeof AUDIT_ENTITIES[number];
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'restore', 'purge'] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// One entity an operation may change, snapshotted before and after it runs
+export interface AuditRef {
+  entity: AuditEntity;
+  id: string;
+}
+
+export interface AuditEntry {
+  id: number;               // increasing; also the paging cursor
+  timestamp: number;
+  actor: AuditActor;
+  entity: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  before: unknown;          // null when the entity did not exist
+  after: unknown;           // null when the entity no longer exists
+  batchId?: string;         // shared by the entries of one operation, e.g. every transaction a category merge moved
+  revertOf?: number;        // the entry this one reverted
+  revertedBy?: number;      // the latest entry that reverted this one
+  redacted?: true;          // snapshots dropped when the entity was purged
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'revertedBy' | 'redacted'>;
+
+export interface AuditQuery {
+  entity?: AuditEntity;
+  entityId?: string;
+  actor?: string;           // exact actor, "user" for every member or "ai" for every conversation
+  action?: AuditAction;
+  batchId?: string;
+  from?: string;            // inclusive YYYY-MM-DD (UTC)
+  to?: string;              // inclusive YYYY-MM-DD (UTC)
+  before?: number;          // only entries older than this id
+  limit: number;
+  memberId?: string;        // on a household's ledger, the member asking: others' personal budgets and goals are left out
+}
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+export function isAuditActor(value: unknown): value is AuditActor {
+  return typeof value === 'string' && (['user', 'import', 'rule'].includes(value) || /^(user|ai):.+/.test(value));
+}
+
+/**
+ * Whether an entry is about another household member's personal budget or goal, which
+ * only that member may see
+ */
+export function isOthersPersonalEntry(entry: Pick<AuditEntry, 'entity' | 'entityId' | 'before' | 'after'>, memberId: string): boolean {
+  if (entry.entity === 'personalBudget') return splitPersonalBudgetId(entry.entityId)[0] !== memberId;
+  if (entry.entity !== 'goal') return false;
+  const owner = [entry.before, entry.after]
+    .map(snapshot => (snapshot as { memberId?: unknown } | null)?.memberId)
+    .find(id => typeof id === 'string');
+  return owner !== undefined && owner !== memberId;
+}
+
+/**
+ * Audit id of a household member's personal budget: "<memberId>/<category>"
+ */
+export function personalBudgetId(memberId: string, category: string): string {
+  return `${memberId}/${category}`;
+}
+
+export function splitPersonalBudgetId(id: string): [memberId: string, category: string] {
+  const slash = id.indexOf('/');
+  return [id.slice(0, slash), id.slice(slash + 1)];
+}
+
+/**
+ * What a change did, judged from its snapshots. Transactions move through the trash, so
+ * live → trashed is a delete, trashed → live a restore and trashed → gone a purge.
+ */
+export function auditAction(before: unknown, after: unknown): AuditAction {
+  if (before === null) return 'create';
+  if (after === null) return isTrashed(before) ? 'purge' : 'delete';
+  if (!isTrashed(before) && isTrashed(after)) return 'delete';
+  if (isTrashed(before) && !isTrashed(after)) return 'restore';
+  return 'update';
+}
+
+function isTrashed(snapshot: unknown): boolean {
+  return typeof snapshot === 'object' && snapshot !== null && 'deletedAt' in snapshot;
+}
+
+/**
+ * Whether two snapshots describe the same state
+ */
+export function sameSnapshot(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validate query-string parameters for the audit log endpoint
+ */
+export function parseAuditQuery(params: URLSearchParams): ValidationResult<AuditQuery> {
+  const errors: FieldError[] = [];
+  const query: AuditQuery = { limit: DEFAULT_AUDIT_PAGE_SIZE };
+
+  const entity = params.get('entity');
+  if (entity) {
+    if ((AUDIT_ENTITIES as readonly string[]).includes(entity)) query.entity = entity as AuditEntity;
+    else errors.push({ field: 'entity', message: `must be one of: ${AUDIT_ENTITIES.join(', ')}` });
+  }
+
+  const entityId = params.get('entityId');
+  if (entityId) query.entityId = entityId;
+
+  const actor = params.get('actor');
+  if (actor) {
+    if (actor === 'ai' || isAuditActor(actor)) query.actor = actor;
+    else errors.push({ field: 'actor', message: 'must be user, user:<memberId>, import, rule, ai or ai:<conversationId>' });
+  }
+
+  const action = params.get('action');
+  if (action) {
+    if ((AUDIT_ACTIONS as readonly string[]).includes(action)) query.action = action as AuditAction;
+    else errors.push({ field: 'action', message: `must be one of: ${AUDIT_ACTIONS.join(', ')}` });
+  }
+
+  const batchId = params.get('batchId');
+  if (batchId) query.batchId = batchId;
+
+  for (const name of ['from', 'to'] as const) {
+    const value = params.get(name);
+    if (!value) continue;
+    if (isValidISODate(value)) query[name] = value;
+    else errors.push({ field: name, message: 'must be a valid date in YYYY-MM-DD format' });
+  }
+
+  const before = params.get('before');
+  if (before) {
+    query.before = Number(before);
+    if (!Number.isInteger(query.before) || query.before < 1) errors.push({ field: 'before', message: 'must be an entry id' });
+  }
+
+  const limit = params.get('limit');
+  if (limit) {
+    query.limit = Number(limit);
+    if (!Number.isInteger(query.limit) || query.limit < 1 || query.limit > MAX_AUDIT_PAGE_SIZE) {
+      errors.push({ field: 'limit', message: `must be an integer between 1 and ${MAX_AUDIT_PAGE_SIZE}` });
+    }
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: query };
+}
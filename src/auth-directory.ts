@@ -0,0 +1,600 @@
+/**
+ * Auth Directory
+ * The single Durable Object holding every account, session, API token, household
+ * membership and usage counter. The Worker forwards signup and login here, asks it to
+ * verify the credentials (household membership and rate limits) of every other request,
+ * and forwards the signed-in user's /api/auth/*, /api/households/*, /api/usage and
+ * /api/admin/* requests with their identity.
+ */
+
+import {
+  API_TOKEN_PREFIX,
+  ApiToken,
+  SCOPES,
+  SESSION_PREFIX,
+  SESSION_SCOPES,
+  SESSION_TTL_MS,
+  STEP_UP_TTL_MS,
+  Session,
+  generateSecret,
+  hashPassword,
+  hashSecret,
+  validateApiTokenInput,
+  validateCredentials,
+  validateStepUp,
+  verifyPassword
+} from './auth';
+import { AuthStore } from './auth-store';
+import { CREDENTIAL_ID_HEADER, Identity, SESSION_COOKIE, USER_ID_HEADER } from './identity';
+import { HouseholdRole, validateHouseholdInput, validateMemberInput } from './household';
+import {
+  ATTEMPT_CLASS,
+  ATTEMPT_LIMITS,
+  ATTEMPT_SUBJECTS,
+  DEFAULT_LIMITS,
+  ENDPOINT_CLASSES,
+  EndpointClass,
+  LIMIT_PERIODS,
+  LimitDecision,
+  LimitPeriod,
+  LimitSubject,
+  PERIOD_MS,
+  RateLimits,
+  describeAttemptLimit,
+  mergeLimits,
+  periodStart,
+  validateLimitsPatch
+} from './rate-limit';
+
+interface Env {
+  ADMIN_EMAILS?: string;   // comma-separated; these accounts can change rate limits
+}
+
+/**
+ * One usage counter that applies to a request: whose it is, its window and its limit
+ */
+interface Counter {
+  subject: LimitSubject;
+  key: string;
+  period: LimitPeriod;
+  start: number;
+  used: number;
+  limit: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only refresh a credential's last-used time this often, to save a write per request
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Expired and revoked sessions are kept this long for the session list, then purged
+const SESSION_PURGE_AFTER_MS = 7 * DAY_MS;
+
+export class AuthDirectory {
+  state: DurableObjectState;
+  store: AuthStore;
+
+  // Checked against when an email is unknown, so a failed login takes as long either way
+  private dummyPasswordHash: Promise<string> | null = null;
+
+  private adminEmails: Set<string>;
+
+  constructor(state: DurableObjectState, env: Env = {}) {
+    this.state = state;
+    this.store = new AuthStore(state.storage);
+    this.adminEmails = new Set((env.ADMIN_EMAILS ?? '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean));
+    state.blockConcurrencyWhile(async () => this.store.initialize());
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/internal/verify' && request.method === 'POST') {
+      return this.verify(request);
+    }
+    if (url.pathname === '/internal/membership' && request.method === 'POST') {
+      return this.membership(request);
+    }
+    if (url.pathname === '/internal/consume' && request.method === 'POST') {
+      return this.consume(request);
+    }
+    if (url.pathname === '/api/auth/signup' && request.method === 'POST') {
+      return this.signup(request);
+    }
+    if (url.pathname === '/api/auth/login' && request.method === 'POST') {
+      return this.login(request);
+    }
+
+    // Everything else acts for the user the Worker verified
+    const userId = request.headers.get(USER_ID_HEADER);
+    if (!userId) {
+      return jsonResponse({ success: false, error: 'unauthenticated', message: 'Not signed in' }, 401);
+    }
+    const credentialId = request.headers.get(CREDENTIAL_ID_HEADER) ?? undefined;
+
+    if (url.pathname === '/api/auth/logout' && request.method === 'POST') {
+      return this.logout(userId, credentialId);
+    }
+    if (url.pathname === '/api/auth/me' && request.method === 'GET') {
+      return this.me(userId, credentialId);
+    }
+    if (url.pathname === '/api/auth/step-up' && request.method === 'POST') {
+      return this.stepUp(request, userId, credentialId);
+    }
+
+    if (url.pathname === '/api/auth/sessions' && request.method === 'GET') {
+      const sessions = this.store.listSessions(userId, Date.now()).map(session => ({ ...session, current: session.id === credentialId }));
+      return jsonResponse({ success: true, sessions });
+    }
+    const sessionMatch = url.pathname.match(/^\/api\/auth\/sessions\/([^/]+)$/);
+    if (sessionMatch && request.method === 'DELETE') {
+      const revoked = this.store.revokeSession(userId, decodeURIComponent(sessionMatch[1]), Date.now());
+      return revoked
+        ? jsonResponse({ success: true })
+        : jsonResponse({ success: false, message: 'Session not found' }, 404);
+    }
+
+    if (url.pathname === '/api/auth/tokens') {
+      if (request.method === 'GET') return jsonResponse({ success: true, tokens: this.store.listApiTokens(userId) });
+      if (request.method === 'POST') return this.createToken(request, userId);
+    }
+    const tokenMatch = url.pathname.match(/^\/api\/auth\/tokens\/([^/]+)$/);
+    if (tokenMatch && request.method === 'DELETE') {
+      const tokenId = decodeURIComponent(tokenMatch[1]);
+      const revoked = this.store.revokeApiToken(userId, tokenId, Date.now());
+      if (revoked) this.store.deleteUsage(`token:${tokenId}`);
+      return revoked
+        ? jsonResponse({ success: true })
+        : jsonResponse({ success: false, message: 'Token not found' }, 404);
+    }
+
+    if (url.pathname === '/api/households') {
+      if (request.method === 'GET') return jsonResponse({ success: true, households: this.store.listHouseholds(userId) });
+      if (request.method === 'POST') return this.createHousehold(request, userId);
+    }
+    const membersMatch = url.pathname.match(/^\/api\/households\/([^/]+)\/members$/);
+    if (membersMatch) {
+      const householdId = decodeURIComponent(membersMatch[1]);
+      if (request.method === 'GET') return this.listMembers(householdId, userId);
+      if (request.method === 'POST') return this.addMember(request, householdId, userId);
+    }
+    const memberMatch = url.pathname.match(/^\/api\/households\/([^/]+)\/members\/([^/]+)$/);
+    if (memberMatch) {
+      const householdId = decodeURIComponent(memberMatch[1]);
+      const memberId = decodeURIComponent(memberMatch[2]);
+      if (request.method === 'PATCH') return this.changeRole(request, householdId, memberId, userId);
+      if (request.method === 'DELETE') return this.removeMember(householdId, memberId, userId);
+    }
+
+    if (url.pathname === '/api/usage' && request.method === 'GET') {
+      return this.usage(userId, credentialId);
+    }
+    if (url.pathname === '/api/admin/limits') {
+      if (!this.isAdmin(userId)) {
+        return jsonResponse({ success: false, error: 'not_an_admin', message: 'Only admins can manage rate limits' }, 403);
+      }
+      if (request.method === 'GET') return jsonResponse({ success: true, limits: this.limits() });
+      if (request.method === 'PATCH') return this.updateLimits(request);
+      if (request.method === 'DELETE') {
+        this.store.setLimitOverrides({});
+        return jsonResponse({ success: true, limits: this.limits() });
+      }
+    }
+
+    return jsonResponse({ success: false, message: 'Not found' }, 404);
+  }
+
+  // ========== ACCOUNTS ==========
+
+  private async signup(request: Request): Promise<Response> {
+    const validation = validateCredentials(await readJson(request));
+    const limited = this.limitAttempt(request, validation.valid ? validation.value.email : null);
+    if (limited) return limited;
+    if (!validation.valid) {
+      return jsonResponse({ success: false, errors: validation.errors }, 400);
+    }
+    const { email, password } = validation.value;
+
+    // Hash before checking the email so nothing awaits between the check and the insert
+    const passwordHash = await hashPassword(password);
+    if (this.store.findUserByEmail(email)) {
+      return jsonResponse({ success: false, message: 'An account with this email already exists' }, 409);
+    }
+
+    const user = { id: crypto.randomUUID(), email, createdAt: Date.now() };
+    this.store.createUser(user, passwordHash);
+    const { session, secret } = await this.startSession(user.id, request);
+    return jsonResponse({ success: true, user, session }, 201, { 'Set-Cookie': sessionCookie(secret, session.expiresAt) });
+  }
+
+  private async login(request: Request): Promise<Response> {
+    const validation = validateCredentials(await readJson(request));
+    const failed = () => jsonResponse({ success: false, error: 'invalid_credentials', message: 'Incorrect email or password' }, 401);
+    const limited = this.limitAttempt(request, validation.valid ? validation.value.email : null);
+    if (limited) return limited;
+    if (!validation.valid) return failed();
+    const { email, password } = validation.value;
+
+    const account = this.store.findUserByEmail(email);
+    if (!account) {
+      this.dummyPasswordHash ??= hashPassword(crypto.randomUUID());
+      await verifyPassword(password, await this.dummyPasswordHash);
+      return failed();
+    }
+    if (!(await verifyPassword(password, account.passwordHash))) return failed();
+
+    this.store.purgeSessions(Date.now() - SESSION_PURGE_AFTER_MS);
+    const { session, secret } = await this.startSession(account.user.id, request);
+    return jsonResponse({ success: true, user: account.user, session }, 200, { 'Set-Cookie': sessionCookie(secret, session.expiresAt) });
+  }
+
+  private logout(userId: string, credentialId: string | undefined): Response {
+    if (credentialId) this.store.revokeSession(userId, credentialId, Date.now());
+    return jsonResponse({ success: true }, 200, { 'Set-Cookie': sessionCookie('', 0) });
+  }
+
+  private me(userId: string, credentialId: string | undefined): Response {
+    const user = this.store.getUser(userId);
+    if (!user) return jsonResponse({ success: false, message: 'Account not found' }, 404);
+    return jsonResponse({ success: true, user, credentialId: credentialId ?? null });
+  }
+
+  /**
+   * Confirm the signed-in user's password to give their session admin scope for a while.
+   * API tokens keep the scopes they were created with.
+   */
+  private async stepUp(request: Request, userId: string, credentialId: string | undefined): Promise<Response> {
+    const validation = validateStepUp(await readJson(request));
+    const user = this.store.getUser(userId);
+    const limited = this.limitAttempt(request, user?.email ?? null);
+    if (limited) return limited;
+    if (!validation.valid) {
+      return jsonResponse({ success: false, errors: validation.errors }, 400);
+    }
+
+    const account = user ? this.store.findUserByEmail(user.email) : null;
+    if (!account || !(await verifyPassword(validation.value.password, account.passwordHash))) {
+      return jsonResponse({ success: false, error: 'invalid_credentials', message: 'Incorrect password' }, 401);
+    }
+    const now = Date.now();
+    if (!credentialId || !this.store.elevateSession(userId, credentialId, now + STEP_UP_TTL_MS, now)) {
+      return jsonResponse({ success: false, message: 'Only a browser session can step up; create an API token with the admin scope instead' }, 400);
+    }
+    const session = this.store.listSessions(userId, now).find(s => s.id === credentialId)!;
+    return jsonResponse({ success: true, elevatedUntil: session.elevatedUntil });
+  }
+
+  private async startSession(userId: string, request: Request): Promise<{ session: Session; secret: string }> {
+    const secret = generateSecret(SESSION_PREFIX);
+    const now = Date.now();
+    const session: Session = { id: crypto.randomUUID(), userId, createdAt: now, expiresAt: now + SESSION_TTL_MS, lastSeenAt: now };
+    const userAgent = request.headers.get('User-Agent');
+    if (userAgent) session.userAgent = userAgent.slice(0, 200);
+    this.store.createSession(session, await hashSecret(secret));
+    return { session, secret };
+  }
+
+  // ========== API TOKENS ==========
+
+  private async createToken(request: Request, userId: string): Promise<Response> {
+    const validation = validateApiTokenInput(await readJson(request));
+    if (!validation.valid) {
+      return jsonResponse({ success: false, errors: validation.errors }, 400);
+    }
+    const { name, scopes, expiresInDays } = validation.value;
+
+    const secret = generateSecret(API_TOKEN_PREFIX);
+    const now = Date.now();
+    const token: ApiToken = { id: crypto.randomUUID(), userId, name, scopes, createdAt: now };
+    if (expiresInDays !== undefined) token.expiresAt = now + expiresInDays * DAY_MS;
+    this.store.createApiToken(token, await hashSecret(secret));
+
+    // The secret is shown this once; only its hash is kept
+    return jsonResponse({ success: true, token, secret }, 201);
+  }
+
+  // ========== HOUSEHOLDS ==========
+
+  private async createHousehold(request: Request, userId: string): Promise<Response> {
+    const validation = validateHouseholdInput(await readJson(request));
+    if (!validation.valid) {
+      return jsonResponse({ success: false, errors: validation.errors }, 400);
+    }
+    const household = { id: crypto.randomUUID(), name: validation.value.name, createdAt: Date.now() };
+    this.store.createHousehold(household, userId);
+    return jsonResponse({ success: true, household: { ...household, role: 'owner' } }, 201);
+  }
+
+  private listMembers(householdId: string, userId: string): Response {
+    if (!this.store.getMemberRole(householdId, userId)) return householdNotFound();
+    return jsonResponse({ success: true, members: this.store.listMembers(householdId) });
+  }
+
+  private async addMember(request: Request, householdId: string, userId: string): Promise<Response> {
+    const denied = this.requireOwner(householdId, userId);
+    if (denied) return denied;
+
+    const validation = validateMemberInput(await readJson(request));
+    if (!validation.valid) {
+      return jsonResponse({ success: false, errors: validation.errors }, 400);
+    }
+    const account = this.store.findUserByEmail(validation.value.email!);
+    if (!account) {
+      return jsonResponse({ success: false, message: 'No account uses that email; ask them to sign up first' }, 404);
+    }
+    if (this.store.getMemberRole(householdId, account.user.id)) {
+      return jsonResponse({ success: false, message: 'Already a member of this household' }, 409);
+    }
+
+    this.store.addMember(householdId, account.user.id, validation.value.role, Date.now());
+    return jsonResponse({ success: true, members: this.store.listMembers(householdId) }, 201);
+  }
+
+  private async changeRole(request: Request, householdId: string, memberId: string, userId: string): Promise<Response> {
+    const denied = this.requireOwner(householdId, userId);
+    if (denied) return denied;
+
+    const validation = validateMemberInput(await readJson(request), true);
+    if (!validation.valid) {
+      return jsonResponse({ success: false, errors: validation.errors }, 400);
+    }
+    const current = this.store.getMemberRole(householdId, memberId);
+    if (!current) return jsonResponse({ success: false, message: 'Member not found' }, 404);
+    if (current === 'owner' && validation.value.role !== 'owner' && this.store.countOwners(householdId) === 1) {
+      return lastOwner();
+    }
+
+    this.store.setMemberRole(householdId, memberId, validation.value.role);
+    return jsonResponse({ success: true, members: this.store.listMembers(householdId) });
+  }
+
+  /**
+   * Owners can remove anyone and any member can leave, but the last owner cannot leave
+   * other members behind without an owner
+   */
+  private removeMember(householdId: string, memberId: string, userId: string): Response {
+    if (memberId !== userId) {
+      const denied = this.requireOwner(householdId, userId);
+      if (denied) return denied;
+    }
+    const role = this.store.getMemberRole(householdId, memberId);
+    if (!role) return memberId === userId ? householdNotFound() : jsonResponse({ success: false, message: 'Member not found' }, 404);
+    if (role === 'owner' && this.store.countOwners(householdId) === 1 && this.store.listMembers(householdId).length > 1) {
+      return lastOwner();
+    }
+
+    this.store.removeMember(householdId, memberId);
+    return jsonResponse({ success: true });
+  }
+
+  /**
+   * An error response unless the user owns the household
+   */
+  private requireOwner(householdId: string, userId: string): Response | null {
+    const role = this.store.getMemberRole(householdId, userId);
+    if (!role) return householdNotFound();
+    if (role !== 'owner') {
+      return jsonResponse({
+        success: false,
+        error: 'insufficient_role',
+        requiredRole: 'owner',
+        message: 'Only household owners can manage members'
+      }, 403);
+    }
+    return null;
+  }
+
+  /**
+   * A user's role in a household plus its member list, for the Worker to route a household request
+   */
+  private async membership(request: Request): Promise<Response> {
+    const body = await readJson(request) as { householdId?: unknown; userId?: unknown } | null;
+    const householdId = typeof body?.householdId === 'string' ? body.householdId : '';
+    const userId = typeof body?.userId === 'string' ? body.userId : '';
+    const role: HouseholdRole | null = this.store.getMemberRole(householdId, userId);
+    if (!role) return householdNotFound();
+    return jsonResponse({ success: true, role, members: this.store.listMembers(householdId) });
+  }
+
+  // ========== RATE LIMITS ==========
+
+  /**
+   * Count a password check against the limits for the client's IP address and, when
+   * the request names one, the account; a 429 response when it would go over either
+   */
+  private limitAttempt(request: Request, email: string | null): Response | null {
+    const now = Date.now();
+    const keys: Record<string, string | null> = {
+      ip: `ip:${request.headers.get('CF-Connecting-IP') ?? 'unknown'}`,
+      account: email ? `account:${email}` : null
+    };
+    const counters = ATTEMPT_SUBJECTS.flatMap(subject => keys[subject] === null ? [] : LIMIT_PERIODS.map(period => {
+      const start = periodStart(period, now);
+      const key = keys[subject]!;
+      return {
+        subject, key, period, start,
+        used: this.store.getUsage(key, ATTEMPT_CLASS, period, start),
+        limit: period === 'minute' ? ATTEMPT_LIMITS[subject].perMinute : ATTEMPT_LIMITS[subject].perDay
+      };
+    }));
+
+    const over = counters.filter(counter => counter.limit !== null && counter.used >= counter.limit);
+    if (over.length > 0) {
+      const worst = over.reduce((a, b) => (b.start + PERIOD_MS[b.period] > a.start + PERIOD_MS[a.period] ? b : a));
+      const resetAt = worst.start + PERIOD_MS[worst.period];
+      const retryAfter = Math.max(1, Math.ceil((resetAt - now) / 1000));
+      return jsonResponse({
+        success: false,
+        error: 'rate_limited',
+        subject: worst.subject,
+        period: worst.period,
+        limit: worst.limit,
+        used: worst.used,
+        resetAt,
+        retryAfter,
+        message: describeAttemptLimit(worst.subject, resetAt)
+      }, 429, { 'Retry-After': String(retryAfter) });
+    }
+
+    for (const counter of counters) {
+      this.store.addUsage(counter.key, ATTEMPT_CLASS, counter.period, counter.start, 1);
+    }
+    return null;
+  }
+
+  private limits(): RateLimits {
+    return mergeLimits(DEFAULT_LIMITS, this.store.getLimitOverrides());
+  }
+
+  private isAdmin(userId: string): boolean {
+    const user = this.store.getUser(userId);
+    return !!user && this.adminEmails.has(user.email);
+  }
+
+  private async updateLimits(request: Request): Promise<Response> {
+    const validation = validateLimitsPatch(await readJson(request));
+    if (!validation.valid) {
+      return jsonResponse({ success: false, errors: validation.errors }, 400);
+    }
+    this.store.setLimitOverrides(mergeLimits(this.store.getLimitOverrides(), validation.value));
+    return jsonResponse({ success: true, limits: this.limits() });
+  }
+
+  /**
+   * The counters a request of the class is checked against: the user's and, for API
+   * tokens, the token's own, each per minute and per day
+   */
+  private counters(userId: string, tokenId: string | null, endpointClass: EndpointClass, now: number): Counter[] {
+    const rules = this.limits()[endpointClass];
+    const subjects: [LimitSubject, string][] = [['user', `user:${userId}`]];
+    if (tokenId) subjects.push(['token', `token:${tokenId}`]);
+
+    return subjects.flatMap(([subject, key]) => LIMIT_PERIODS.map(period => {
+      const start = periodStart(period, now);
+      return {
+        subject,
+        key,
+        period,
+        start,
+        used: this.store.getUsage(key, endpointClass, period, start),
+        limit: period === 'minute' ? rules[subject].perMinute : rules[subject].perDay
+      };
+    }));
+  }
+
+  /**
+   * Count a request against its user's and token's limits, or refuse it (counting
+   * nothing) with the limit it would go over. A request counts once per minute and
+   * its cost per day.
+   */
+  private async consume(request: Request): Promise<Response> {
+    const body = await readJson(request) as { userId?: unknown; tokenId?: unknown; endpointClass?: unknown; cost?: unknown } | null;
+    const userId = typeof body?.userId === 'string' ? body.userId : '';
+    const tokenId = typeof body?.tokenId === 'string' ? body.tokenId : null;
+    const endpointClass: EndpointClass = (ENDPOINT_CLASSES as readonly unknown[]).includes(body?.endpointClass) ? body!.endpointClass as EndpointClass : 'write';
+    const cost = Number.isInteger(body?.cost) && (body!.cost as number) > 0 ? body!.cost as number : 1;
+    const amount = (period: LimitPeriod) => period === 'day' ? cost : 1;
+
+    const counters = this.counters(userId, tokenId, endpointClass, Date.now());
+    const over = counters.filter(counter => counter.limit !== null && counter.used + amount(counter.period) > counter.limit);
+    if (over.length > 0) {
+      // The limit that lasts longest is the one worth reporting
+      const worst = over.reduce((a, b) => (b.start + PERIOD_MS[b.period] > a.start + PERIOD_MS[a.period] ? b : a));
+      const decision: LimitDecision = {
+        allowed: false,
+        endpointClass,
+        subject: worst.subject,
+        period: worst.period,
+        limit: worst.limit!,
+        used: worst.used,
+        resetAt: worst.start + PERIOD_MS[worst.period]
+      };
+      return jsonResponse({ success: true, decision });
+    }
+
+    for (const counter of counters) {
+      this.store.addUsage(counter.key, endpointClass, counter.period, counter.start, amount(counter.period));
+    }
+    const decision: LimitDecision = { allowed: true };
+    return jsonResponse({ success: true, decision });
+  }
+
+  /**
+   * What the user, and the API token they are calling with, have used of each limit
+   */
+  private usage(userId: string, credentialId: string | undefined): Response {
+    const tokenId = credentialId && this.store.listApiTokens(userId).some(token => token.id === credentialId) ? credentialId : null;
+    const now = Date.now();
+    const usage = ENDPOINT_CLASSES.flatMap(endpointClass => this.counters(userId, tokenId, endpointClass, now).map(counter => ({
+      endpointClass,
+      subject: counter.subject,
+      period: counter.period,
+      used: counter.used,
+      limit: counter.limit,
+      resetAt: counter.start + PERIOD_MS[counter.period]
+    })));
+    return jsonResponse({ success: true, usage });
+  }
+
+  // ========== VERIFICATION ==========
+
+  /**
+   * The identity a session secret or API token grants, or null when it is unknown,
+   * expired or revoked. Sessions can write, and administer for a while after a step-up;
+   * tokens have only their own scopes.
+   */
+  private async verify(request: Request): Promise<Response> {
+    const body = await readJson(request) as { secret?: unknown } | null;
+    const secret = typeof body?.secret === 'string' ? body.secret : '';
+    const now = Date.now();
+    let identity: Identity | null = null;
+
+    if (secret.startsWith(SESSION_PREFIX)) {
+      const session = this.store.findSession(await hashSecret(secret));
+      if (session && !session.revokedAt && session.expiresAt > now) {
+        if (now - session.lastSeenAt > TOUCH_INTERVAL_MS) this.store.touchSession(session.id, now);
+        const scopes = session.elevatedUntil !== undefined && session.elevatedUntil > now ? [...SCOPES] : [...SESSION_SCOPES];
+        identity = { userId: session.userId, method: 'session', scopes, credentialId: session.id };
+      }
+    } else if (secret.startsWith(API_TOKEN_PREFIX)) {
+      const token = this.store.findApiToken(await hashSecret(secret));
+      if (token && !token.revokedAt && (token.expiresAt === undefined || token.expiresAt > now)) {
+        if (now - (token.lastUsedAt ?? 0) > TOUCH_INTERVAL_MS) this.store.touchApiToken(token.id, now);
+        identity = { userId: token.userId, method: 'token', scopes: token.scopes, credentialId: token.id };
+      }
+    }
+
+    return jsonResponse({ success: true, identity });
+  }
+}
+
+function householdNotFound(): Response {
+  return jsonResponse({ success: false, error: 'not_a_member', message: 'Household not found' }, 404);
+}
+
+function lastOwner(): Response {
+  return jsonResponse({ success: false, message: 'A household needs an owner; make another member owner first' }, 409);
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+function jsonResponse(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+/**
+ * The session cookie; an empty secret with no expiry clears it
+ */
+function sessionCookie(secret: string, expiresAt: number): string {
+  const maxAge = Math.max(0, Math.floor((expiresAt - Date.now()) / 1000));
+  return `${SESSION_COOKIE}=${encodeURIComponent(secret)}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${maxAge}`;
+}
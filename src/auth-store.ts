@@ -0,0 +1,378 @@
+/**
+ * Auth Store
+ * SQLite-backed storage for the AuthDirectory Durable Object: users, sessions, API tokens,
+ * household memberships, rate limits and usage counters. Session and token secrets are never stored, only their SHA-256 hashes.
+ */
+
+import { ApiToken, Scope, Session, User } from './auth';
+import { Household, HouseholdMember, HouseholdRole } from './household';
+import { ATTEMPT_CLASS, EndpointClass, LimitPeriod, LimitsPatch } from './rate-limit';
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    secret_hash TEXT NOT NULL UNIQUE,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    last_seen_at INTEGER NOT NULL,
+    revoked_at INTEGER,
+    user_agent TEXT,
+    elevated_until INTEGER
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions (user_id, created_at)`,
+  `CREATE TABLE IF NOT EXISTS api_tokens (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    secret_hash TEXT NOT NULL UNIQUE,
+    scopes TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER,
+    last_used_at INTEGER,
+    revoked_at INTEGER
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens (user_id, created_at)`,
+  `CREATE TABLE IF NOT EXISTS households (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS household_members (
+    household_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    joined_at INTEGER NOT NULL,
+    PRIMARY KEY (household_id, user_id)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_household_members_user ON household_members (user_id)`,
+  `CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS usage_counters (
+    subject TEXT NOT NULL,
+    endpoint_class TEXT NOT NULL,
+    period TEXT NOT NULL,
+    period_start INTEGER NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (subject, endpoint_class, period)
+  )`
+];
+
+// Columns added after their table was first created; initialize() adds them where missing
+const ADDED_COLUMNS = [
+  { table: 'sessions', column: 'elevated_until', definition: 'INTEGER' }
+];
+
+export class AuthStore {
+  private sql: SqlStorage;
+
+  constructor(storage: DurableObjectStorage) {
+    this.sql = storage.sql;
+  }
+
+  /**
+   * Create tables and indexes (idempotent)
+   */
+  initialize(): void {
+    for (const statement of SCHEMA) {
+      this.sql.exec(statement);
+    }
+    for (const { table, column, definition } of ADDED_COLUMNS) {
+      const columns = this.sql.exec(`PRAGMA table_info(${table})`).toArray().map(row => String(row.name));
+      if (!columns.includes(column)) {
+        this.sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
+  // ========== USERS ==========
+
+  createUser(user: User, passwordHash: string): void {
+    this.sql.exec(
+      `INSERT INTO users (id, email, password_hash, created_at) VALUES (?, ?, ?, ?)`,
+      user.id, user.email, passwordHash, user.createdAt
+    );
+  }
+
+  getUser(id: string): User | null {
+    const rows = this.sql.exec(`SELECT * FROM users WHERE id = ?`, id).toArray();
+    return rows.length > 0 ? toUser(rows[0]) : null;
+  }
+
+  /**
+   * A user and their password hash, looked up by (normalized) email
+   */
+  findUserByEmail(email: string): { user: User; passwordHash: string } | null {
+    const rows = this.sql.exec(`SELECT * FROM users WHERE email = ?`, email).toArray();
+    return rows.length > 0 ? { user: toUser(rows[0]), passwordHash: String(rows[0].password_hash) } : null;
+  }
+
+  // ========== SESSIONS ==========
+
+  createSession(session: Session, secretHash: string): void {
+    this.sql.exec(
+      `INSERT INTO sessions (id, user_id, secret_hash, created_at, expires_at, last_seen_at, user_agent) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      session.id, session.userId, secretHash, session.createdAt, session.expiresAt, session.lastSeenAt, session.userAgent ?? null
+    );
+  }
+
+  /**
+   * The session a secret belongs to, whether or not it is still valid
+   */
+  findSession(secretHash: string): Session | null {
+    const rows = this.sql.exec(`SELECT * FROM sessions WHERE secret_hash = ?`, secretHash).toArray();
+    return rows.length > 0 ? toSession(rows[0]) : null;
+  }
+
+  touchSession(id: string, at: number): void {
+    this.sql.exec(`UPDATE sessions SET last_seen_at = ? WHERE id = ?`, at, id);
+  }
+
+  /**
+   * Grant one of a user's active sessions admin scope until `until`; false when the
+   * credential is not such a session (an API token, say)
+   */
+  elevateSession(userId: string, id: string, until: number, now: number): boolean {
+    const cursor = this.sql.exec(
+      `UPDATE sessions SET elevated_until = MIN(?, expires_at) WHERE id = ? AND user_id = ? AND revoked_at IS NULL AND expires_at > ?`,
+      until, id, userId, now
+    );
+    return cursor.rowsWritten > 0;
+  }
+
+  /**
+   * A user's sessions that are neither revoked nor expired, newest first
+   */
+  listSessions(userId: string, now: number): Session[] {
+    return this.sql
+      .exec(`SELECT * FROM sessions WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ? ORDER BY created_at DESC`, userId, now)
+      .toArray()
+      .map(toSession);
+  }
+
+  /**
+   * Revoke one of a user's sessions; false when they have no such active session
+   */
+  revokeSession(userId: string, id: string, at: number): boolean {
+    const cursor = this.sql.exec(`UPDATE sessions SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL`, at, id, userId);
+    return cursor.rowsWritten > 0;
+  }
+
+  /**
+   * Drop sessions that expired or were revoked before the cutoff
+   */
+  purgeSessions(before: number): void {
+    this.sql.exec(`DELETE FROM sessions WHERE expires_at < ? OR revoked_at < ?`, before, before);
+  }
+
+  // ========== API TOKENS ==========
+
+  createApiToken(token: ApiToken, secretHash: string): void {
+    this.sql.exec(
+      `INSERT INTO api_tokens (id, user_id, name, secret_hash, scopes, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      token.id, token.userId, token.name, secretHash, JSON.stringify(token.scopes), token.createdAt, token.expiresAt ?? null
+    );
+  }
+
+  findApiToken(secretHash: string): ApiToken | null {
+    const rows = this.sql.exec(`SELECT * FROM api_tokens WHERE secret_hash = ?`, secretHash).toArray();
+    return rows.length > 0 ? toApiToken(rows[0]) : null;
+  }
+
+  touchApiToken(id: string, at: number): void {
+    this.sql.exec(`UPDATE api_tokens SET last_used_at = ? WHERE id = ?`, at, id);
+  }
+
+  /**
+   * A user's tokens that are not revoked (expired ones included, so they can be told apart), newest first
+   */
+  listApiTokens(userId: string): ApiToken[] {
+    return this.sql
+      .exec(`SELECT * FROM api_tokens WHERE user_id = ? AND revoked_at IS NULL ORDER BY created_at DESC`, userId)
+      .toArray()
+      .map(toApiToken);
+  }
+
+  revokeApiToken(userId: string, id: string, at: number): boolean {
+    const cursor = this.sql.exec(`UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL`, at, id, userId);
+    return cursor.rowsWritten > 0;
+  }
+
+  // ========== HOUSEHOLDS ==========
+
+  /**
+   * Create a household with its first member as owner
+   */
+  createHousehold(household: Household, ownerId: string): void {
+    this.sql.exec(`INSERT INTO households (id, name, created_at) VALUES (?, ?, ?)`, household.id, household.name, household.createdAt);
+    this.addMember(household.id, ownerId, 'owner', household.createdAt);
+  }
+
+  /**
+   * The households a user belongs to, with their role in each, oldest first
+   */
+  listHouseholds(userId: string): (Household & { role: HouseholdRole })[] {
+    return this.sql
+      .exec(
+        `SELECT h.*, m.role FROM households h JOIN household_members m ON m.household_id = h.id
+         WHERE m.user_id = ? ORDER BY h.created_at`,
+        userId
+      )
+      .toArray()
+      .map(row => ({ ...toHousehold(row), role: row.role as HouseholdRole }));
+  }
+
+  getHousehold(id: string): Household | null {
+    const rows = this.sql.exec(`SELECT * FROM households WHERE id = ?`, id).toArray();
+    return rows.length > 0 ? toHousehold(rows[0]) : null;
+  }
+
+  /**
+   * A household's members with their emails, in the order they joined
+   */
+  listMembers(householdId: string): HouseholdMember[] {
+    return this.sql
+      .exec(
+        `SELECT m.user_id, m.role, m.joined_at, u.email FROM household_members m JOIN users u ON u.id = m.user_id
+         WHERE m.household_id = ? ORDER BY m.joined_at, u.email`,
+        householdId
+      )
+      .toArray()
+      .map(row => ({
+        userId: String(row.user_id),
+        email: String(row.email),
+        role: row.role as HouseholdRole,
+        joinedAt: Number(row.joined_at)
+      }));
+  }
+
+  getMemberRole(householdId: string, userId: string): HouseholdRole | null {
+    const rows = this.sql.exec(`SELECT role FROM household_members WHERE household_id = ? AND user_id = ?`, householdId, userId).toArray();
+    return rows.length > 0 ? rows[0].role as HouseholdRole : null;
+  }
+
+  addMember(householdId: string, userId: string, role: HouseholdRole, at: number): void {
+    this.sql.exec(
+      `INSERT INTO household_members (household_id, user_id, role, joined_at) VALUES (?, ?, ?, ?)`,
+      householdId, userId, role, at
+    );
+  }
+
+  setMemberRole(householdId: string, userId: string, role: HouseholdRole): void {
+    this.sql.exec(`UPDATE household_members SET role = ? WHERE household_id = ? AND user_id = ?`, role, householdId, userId);
+  }
+
+  /**
+   * Remove a member; the household itself goes once nobody is left in it
+   */
+  removeMember(householdId: string, userId: string): void {
+    this.sql.exec(`DELETE FROM household_members WHERE household_id = ? AND user_id = ?`, householdId, userId);
+    const remaining = Number(this.sql.exec(`SELECT COUNT(*) AS count FROM household_members WHERE household_id = ?`, householdId).one().count);
+    if (remaining === 0) this.sql.exec(`DELETE FROM households WHERE id = ?`, householdId);
+  }
+
+  countOwners(householdId: string): number {
+    return Number(this.sql.exec(`SELECT COUNT(*) AS count FROM household_members WHERE household_id = ? AND role = 'owner'`, householdId).one().count);
+  }
+
+  // ========== RATE LIMITS ==========
+
+  /**
+   * The limits admins have changed from the defaults
+   */
+  getLimitOverrides(): LimitsPatch {
+    const rows = this.sql.exec(`SELECT value FROM settings WHERE key = 'rate_limits'`).toArray();
+    return rows.length > 0 ? JSON.parse(String(rows[0].value)) as LimitsPatch : {};
+  }
+
+  setLimitOverrides(overrides: LimitsPatch): void {
+    this.sql.exec(
+      `INSERT INTO settings (key, value) VALUES ('rate_limits', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+      JSON.stringify(overrides)
+    );
+  }
+
+  /**
+   * What a subject ("user:<id>", "token:<id>", or for sign-in attempts "ip:<address>" or
+   * "account:<email>") has used of a class in the window starting at `start`
+   */
+  getUsage(subject: string, endpointClass: EndpointClass | typeof ATTEMPT_CLASS, period: LimitPeriod, start: number): number {
+    const rows = this.sql.exec(
+      `SELECT count FROM usage_counters WHERE subject = ? AND endpoint_class = ? AND period = ? AND period_start = ?`,
+      subject, endpointClass, period, start
+    ).toArray();
+    return rows.length > 0 ? Number(rows[0].count) : 0;
+  }
+
+  /**
+   * Count usage in the window starting at `start`; a counter left from an earlier window starts over
+   */
+  addUsage(subject: string, endpointClass: EndpointClass | typeof ATTEMPT_CLASS, period: LimitPeriod, start: number, amount: number): void {
+    this.sql.exec(
+      `INSERT INTO usage_counters (subject, endpoint_class, period, period_start, count) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(subject, endpoint_class, period) DO UPDATE SET
+         count = CASE WHEN period_start = excluded.period_start THEN count + excluded.count ELSE excluded.count END,
+         period_start = excluded.period_start`,
+      subject, endpointClass, period, start, amount
+    );
+  }
+
+  /**
+   * Drop a revoked token's counters
+   */
+  deleteUsage(subject: string): void {
+    this.sql.exec(`DELETE FROM usage_counters WHERE subject = ?`, subject);
+  }
+}
+
+function toHousehold(row: Record<string, SqlStorageValue>): Household {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    createdAt: Number(row.created_at)
+  };
+}
+
+function toUser(row: Record<string, SqlStorageValue>): User {
+  return {
+    id: String(row.id),
+    email: String(row.email),
+    createdAt: Number(row.created_at)
+  };
+}
+
+function toSession(row: Record<string, SqlStorageValue>): Session {
+  const session: Session = {
+    id: String(row.id),
+    userId: String(row.user_id),
+    createdAt: Number(row.created_at),
+    expiresAt: Number(row.expires_at),
+    lastSeenAt: Number(row.last_seen_at)
+  };
+  if (row.revoked_at !== null) session.revokedAt = Number(row.revoked_at);
+  if (row.user_agent !== null) session.userAgent = String(row.user_agent);
+  if (row.elevated_until !== null && row.elevated_until !== undefined) session.elevatedUntil = Number(row.elevated_until);
+  return session;
+}
+
+function toApiToken(row: Record<string, SqlStorageValue>): ApiToken {
+  const token: ApiToken = {
+    id: String(row.id),
+    userId: String(row.user_id),
+    name: String(row.name),
+    scopes: JSON.parse(String(row.scopes)) as Scope[],
+    createdAt: Number(row.created_at)
+  };
+  if (row.expires_at !== null) token.expiresAt = Number(row.expires_at);
+  if (row.last_used_at !== null) token.lastUsedAt = Number(row.last_used_at);
+  if (row.revoked_at !== null) token.revokedAt = Number(row.revoked_at);
+  return token;
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateSecret,
+  hasScope,
+  hashPassword,
+  requiredScope,
+  validateApiTokenInput,
+  validateCredentials,
+  verifyPassword
+} from './auth';
+
+describe('Auth', () => {
+  describe('scopes', () => {
+    it('should let higher scopes do what lower ones can', () => {
+      expect(hasScope(['admin'], 'read')).toBe(true);
+      expect(hasScope(['write'], 'read')).toBe(true);
+      expect(hasScope(['read'], 'write')).toBe(false);
+      expect(hasScope(['write'], 'admin')).toBe(false);
+      expect(hasScope([], 'read')).toBe(false);
+    });
+
+    it('should classify endpoints', () => {
+      expect(requiredScope('GET', '/api/transactions')).toBe('read');
+      expect(requiredScope('POST', '/api/suggest-category')).toBe('read');
+      expect(requiredScope('POST', '/api/add-transaction')).toBe('write');
+      expect(requiredScope('DELETE', '/api/transactions/t1')).toBe('write');
+      expect(requiredScope('POST', '/api/reset-data')).toBe('admin');
+      expect(requiredScope('POST', '/api/restore')).toBe('admin');
+      expect(requiredScope('GET', '/api/backup')).toBe('read');
+      expect(requiredScope('GET', '/api/auth/tokens')).toBe('admin');
+      expect(requiredScope('DELETE', '/api/auth/sessions/s1')).toBe('admin');
+      expect(requiredScope('GET', '/api/auth/me')).toBe('read');
+    });
+  });
+
+  describe('passwords', () => {
+    it('should verify only the password that was hashed', async () => {
+      const stored = await hashPassword('correct horse', 1000);
+      expect(stored).toMatch(/^pbkdf2\$1000\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+      expect(await verifyPassword('correct horse', stored)).toBe(true);
+      expect(await verifyPassword('correct horsf', stored)).toBe(false);
+      expect(await verifyPassword('correct horse', 'plaintext')).toBe(false);
+    });
+
+    it('should salt each hash', async () => {
+      expect(await hashPassword('same password', 1000)).not.toBe(await hashPassword('same password', 1000));
+    });
+  });
+
+  it('should generate prefixed random secrets', () => {
+    const secret = generateSecret('fa_');
+    expect(secret).toMatch(/^fa_[\w-]{43}$/);
+    expect(generateSecret('fa_')).not.toBe(secret);
+  });
+
+  describe('validation', () => {
+    it('should normalize emails and require a long enough password', () => {
+      expect(validateCredentials({ email: ' Bob@Example.COM ', password: 'long enough' }))
+        .toEqual({ valid: true, value: { email: 'bob@example.com', password: 'long enough' } });
+      const result = validateCredentials({ email: 'bob', password: 'short' });
+      expect(result.valid).toBe(false);
+      if (!result.valid) expect(result.errors.map(e => e.field)).toEqual(['email', 'password']);
+    });
+
+    it('should validate token requests', () => {
+      expect(validateApiTokenInput({ name: ' CI ', scopes: ['read', 'read'], expiresInDays: 30 }))
+        .toEqual({ valid: true, value: { name: 'CI', scopes: ['read'], expiresInDays: 30 } });
+      const result = validateApiTokenInput({ name: '', scopes: ['owner'], expiresInDays: 0 });
+      expect(result.valid).toBe(false);
+      if (!result.valid) expect(result.errors.map(e => e.field)).toEqual(['name', 'scopes', 'expiresInDays']);
+    });
+  });
+});
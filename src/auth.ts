@@ -0,0 +1,204 @@
+/**
+ * Authentication Domain Model
+ * User accounts with PBKDF2-hashed passwords, expiring revocable sessions and personal
+ * API tokens limited to scopes. Sessions and tokens are random secrets; only their
+ * SHA-256 hashes are stored.
+ */
+
+import type { FieldError, ValidationResult } from './transaction';
+
+// Each scope includes the ones before it: write can read, admin can write
+export const SCOPES = ['read', 'write', 'admin'] as const;
+export type Scope = typeof SCOPES[number];
+
+// What a browser session may do until its user steps up by confirming their password
+export const SESSION_SCOPES: Scope[] = ['write'];
+
+export interface User {
+  id: string;
+  email: string;
+  createdAt: number;
+}
+
+export interface Session {
+  id: string;
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+  lastSeenAt: number;
+  revokedAt?: number;
+  userAgent?: string;
+  elevatedUntil?: number;  // admin scope until then, after a step-up
+}
+
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  scopes: Scope[];
+  createdAt: number;
+  expiresAt?: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
+}
+
+export interface ApiTokenInput {
+  name: string;
+  scopes: Scope[];
+  expiresInDays?: number;
+}
+
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const STEP_UP_TTL_MS = 15 * 60 * 1000;
+export const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 256;
+const MAX_TOKEN_NAME_LENGTH = 60;
+const MAX_TOKEN_DAYS = 366;
+
+// Prefixes tell a session secret from an API token at a glance (and in secret scanners)
+export const SESSION_PREFIX = 'fs_';
+export const API_TOKEN_PREFIX = 'fa_';
+
+// Workers cap PBKDF2 at 100,000 iterations
+const PBKDF2_ITERATIONS = 100_000;
+
+export function hasScope(scopes: readonly Scope[], required: Scope): boolean {
+  return scopes.some(scope => SCOPES.indexOf(scope) >= SCOPES.indexOf(required));
+}
+
+/**
+ * The scope a request to the FinanceAgent API needs: admin for destructive,
+ * credential-management and limit-management endpoints, read for GETs and read-only POSTs, write otherwise
+ */
+export function requiredScope(method: string, pathname: string): Scope {
+  if (ADMIN_PATHS.some(pattern => pattern.test(pathname))) return 'admin';
+  if (method === 'GET' || method === 'HEAD') return 'read';
+  if (method === 'POST' && READ_ONLY_POSTS.includes(pathname)) return 'read';
+  return 'write';
+}
+
+const ADMIN_PATHS = [
+  /^\/api\/reset-data$/,
+  /^\/api\/restore$/,
+  /^\/api\/init-knowledge-base$/,
+  /^\/api\/auth\/(tokens|sessions)(\/|$)/,
+  /^\/api\/admin\//
+];
+
+// POST endpoints that only ask the model something and change nothing
+const READ_ONLY_POSTS = ['/api/suggest-category', '/api/goal-advice'];
+
+// ========== SECRETS ==========
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16));
+}
+
+/**
+ * A new random secret with the given prefix (256 bits, base64url)
+ */
+export function generateSecret(prefix: string): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return prefix + btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * SHA-256 (hex) of a session or token secret, the form it is stored and looked up in
+ */
+export async function hashSecret(secret: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret)));
+}
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+}
+
+/**
+ * Hash a password for storage as "pbkdf2$<iterations>$<salt>$<hash>"
+ */
+export async function hashPassword(password: string, iterations: number = PBKDF2_ITERATIONS): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return `pbkdf2$${iterations}$${toHex(salt)}$${toHex(await pbkdf2(password, salt, iterations))}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !hash) return false;
+  const derived = await pbkdf2(password, fromHex(salt), Number(iterations));
+  const expected = fromHex(hash);
+  // Compare every byte so the time taken does not reveal where they differ
+  let difference = derived.length ^ expected.length;
+  for (let i = 0; i < derived.length; i++) difference |= derived[i] ^ (expected[i] ?? 0);
+  return difference === 0;
+}
+
+// ========== VALIDATION ==========
+
+export function normalizeEmail(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Validate signup or login credentials
+ */
+export function validateCredentials(input: unknown): ValidationResult<{ email: string; password: string }> {
+  const body = input && typeof input === 'object' && !Array.isArray(input) ? input as Record<string, unknown> : null;
+  if (!body) return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+
+  const errors: FieldError[] = [];
+  const email = typeof body.email === 'string' ? normalizeEmail(body.email) : '';
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || email.length > 254) {
+    errors.push({ field: 'email', message: 'must be a valid email address' });
+  }
+  const password = typeof body.password === 'string' ? body.password : '';
+  if (password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+    errors.push({ field: 'password', message: `must be ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH} characters` });
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: { email, password } };
+}
+
+/**
+ * Validate a step-up: the signed-in user's password again
+ */
+export function validateStepUp(input: unknown): ValidationResult<{ password: string }> {
+  const body = input && typeof input === 'object' && !Array.isArray(input) ? input as Record<string, unknown> : null;
+  const password = typeof body?.password === 'string' ? body.password : '';
+  if (!password || password.length > MAX_PASSWORD_LENGTH) return { valid: false, errors: [{ field: 'password', message: 'is required' }] };
+  return { valid: true, value: { password } };
+}
+
+/**
+ * Validate a request to create an API token
+ */
+export function validateApiTokenInput(input: unknown): ValidationResult<ApiTokenInput> {
+  const body = input && typeof input === 'object' && !Array.isArray(input) ? input as Record<string, unknown> : null;
+  if (!body) return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+
+  const errors: FieldError[] = [];
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) errors.push({ field: 'name', message: 'is required' });
+  else if (name.length > MAX_TOKEN_NAME_LENGTH) errors.push({ field: 'name', message: `must be at most ${MAX_TOKEN_NAME_LENGTH} characters` });
+
+  const scopes = body.scopes;
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(s => (SCOPES as readonly unknown[]).includes(s))) {
+    errors.push({ field: 'scopes', message: `must be a non-empty array of: ${SCOPES.join(', ')}` });
+  }
+
+  const days = body.expiresInDays;
+  if (days !== undefined && (!Number.isInteger(days) || (days as number) < 1 || (days as number) > MAX_TOKEN_DAYS)) {
+    errors.push({ field: 'expiresInDays', message: `must be a whole number of days from 1 to ${MAX_TOKEN_DAYS}` });
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+  return {
+    valid: true,
+    value: { name, scopes: [...new Set(scopes as Scope[])], ...(days !== undefined ? { expiresInDays: days as number } : {}) }
+  };
+}
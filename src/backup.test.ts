@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { BACKUP_FORMAT, encodeBase64, validateBackup } from './backup';
+import { decodeDataUrl } from './attachment';
+
+describe('Backup', () => {
+  const tables = { budgets: { columns: ['category', 'amount'], required: ['category', 'amount'] } };
+  const backup = (changes: Record<string, unknown> = {}) => ({
+    format: BACKUP_FORMAT,
+    version: 1,
+    schemaVersion: 5,
+    createdAt: '2026-03-01T10:00:00.000Z',
+    storage: { netWorth: { assets: [], liabilities: [] } },
+    tables: { budgets: [{ category: 'food', amount: 400 }] },
+    files: [{ key: 'att-1', contentType: 'image/png', data: encodeBase64(new Uint8Array([137, 80, 78, 71])) }],
+    ...changes
+  });
+
+  it('should accept a backup from this or an older schema version', () => {
+    expect(validateBackup(backup(), tables, 13)).toEqual({ backup: backup(), errors: [] });
+  });
+
+  it('should say what is wrong with a document', () => {
+    expect(validateBackup({ transactions: [] }, tables, 13).errors).toEqual([
+      { field: 'format', message: `must be "${BACKUP_FORMAT}"; send a document from GET /api/backup` }
+    ]);
+    const { backup: result, errors } = validateBackup(backup({
+      version: 2,
+      schemaVersion: 14,
+      storage: { schemaVersion: 5 },
+      tables: { budgets: [{ category: 'food', amount: true, note: 'x' }, { amount: 1 }], users: [] },
+      files: [{ key: 'att-1', contentType: 'image/png', data: '!!' }]
+    }), tables, 13, ['schemaVersion']);
+    expect(result).toBeNull();
+    expect(errors.map(e => e.field)).toEqual([
+      'version', 'schemaVersion', 'storage.schemaVersion',
+      'tables.budgets[0].amount', 'tables.budgets[0].note', 'tables.budgets[1].category', 'tables.users', 'files[0]'
+    ]);
+    expect(errors[1].message).toMatch(/newer than this version's storage \(13\)/);
+  });
+
+  it('should encode files as base64', () => {
+    const bytes = Uint8Array.from({ length: 70000 }, (_, i) => i % 256);
+    expect(decodeDataUrl(encodeBase64(bytes))).toEqual(bytes);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Backup and Restore
+ * A backup is one JSON document holding everything a FinanceAgent stores: every SQL
+ * table row as it is stored, every key-value storage entry, and the attachment files.
+ * It records the schema version the storage was at, so a backup taken before later
+ * migrations is restored as it was and then brought up to date by those migrations.
+ */
+
+import { FieldError } from './transaction';
+import { decodeDataUrl } from './attachment';
+
+export const BACKUP_FORMAT = 'finance-agent-backup';
+
+// Version of the document layout itself; the tables inside follow `schemaVersion`
+export const BACKUP_VERSION = 1;
+
+// replace: the backup becomes the only data; merge: rows and keys not present yet are added
+export const RESTORE_MODES = ['replace', 'merge'] as const;
+export type RestoreMode = typeof RESTORE_MODES[number];
+
+// Value of ?confirm= that a restore in replace mode requires
+export const RESTORE_REPLACE_CONFIRMATION = 'replace-all-data';
+
+export type SqlValue = string | number | null;
+export type TableRow = Record<string, SqlValue>;
+
+export interface BackupFile {
+  key: string;             // attachmentKey() of the file
+  contentType: string;
+  data: string;            // base64
+}
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;   // migrations applied to the storage it was taken from
+  createdAt: string;       // ISO timestamp
+  storage: Record<string, unknown>;        // key-value entries, without the schema version
+  tables: Record<string, TableRow[]>;
+  files: BackupFile[];
+}
+
+/**
+ * A table as this code creates it: its columns, and those a row must give
+ */
+export interface TableSchema {
+  columns: string[];
+  required: string[];      // NOT NULL without a default
+}
+
+/**
+ * Check a document against the backup layout and the tables this code knows.
+ * `latestSchemaVersion` is the newest this code can migrate to; a backup taken by newer
+ * code may hold data this code would drop, so it is refused.
+ */
+export function validateBackup(
+  input: unknown,
+  tables: Record<string, TableSchema>,
+  latestSchemaVersion: number,
+  storageKeys: readonly string[] = []
+): { backup: Backup | null; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  if (!isObject(input) || input.format !== BACKUP_FORMAT) {
+    return { backup: null, errors: [{ field: 'format', message: `must be "${BACKUP_FORMAT}"; send a document from GET /api/backup` }] };
+  }
+
+  const { version, schemaVersion, createdAt, storage, tables: data, files } = input;
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    errors.push({ field: 'version', message: 'must be a positive integer' });
+  } else if ((version as number) > BACKUP_VERSION) {
+    errors.push({ field: 'version', message: `${version} is newer than this version can read (${BACKUP_VERSION})` });
+  }
+  if (!Number.isInteger(schemaVersion) || (schemaVersion as number) < 1) {
+    errors.push({ field: 'schemaVersion', message: 'must be a positive integer' });
+  } else if ((schemaVersion as number) > latestSchemaVersion) {
+    errors.push({ field: 'schemaVersion', message: `${schemaVersion} is newer than this version's storage (${latestSchemaVersion}); restore it with a newer version` });
+  }
+  if (typeof createdAt !== 'string' || Number.isNaN(Date.parse(createdAt))) {
+    errors.push({ field: 'createdAt', message: 'must be an ISO timestamp' });
+  }
+
+  if (!isObject(storage)) {
+    errors.push({ field: 'storage', message: 'must be an object of key-value entries' });
+  } else {
+    for (const key of Object.keys(storage)) {
+      if (storageKeys.includes(key)) errors.push({ field: `storage.${key}`, message: 'is managed by the storage itself and cannot be restored' });
+    }
+  }
+
+  if (!isObject(data)) {
+    errors.push({ field: 'tables', message: 'must be an object of table rows' });
+  } else {
+    for (const [table, rows] of Object.entries(data)) {
+      const schema = Object.prototype.hasOwnProperty.call(tables, table) ? tables[table] : undefined;
+      if (!schema) {
+        errors.push({ field: `tables.${table}`, message: 'is not a known table' });
+      } else if (!Array.isArray(rows)) {
+        errors.push({ field: `tables.${table}`, message: 'must be an array of rows' });
+      } else {
+        rows.forEach((row, index) => errors.push(...rowErrors(row, schema, `tables.${table}[${index}]`)));
+      }
+    }
+  }
+
+  if (!Array.isArray(files)) {
+    errors.push({ field: 'files', message: 'must be an array' });
+  } else {
+    files.forEach((file, index) => {
+      if (!isObject(file) || typeof file.key !== 'string' || !file.key || typeof file.contentType !== 'string' || !file.contentType
+        || typeof file.data !== 'string' || decodeDataUrl(file.data) === null) {
+        errors.push({ field: `files[${index}]`, message: 'must have a key, a contentType and base64 data' });
+      }
+    });
+  }
+
+  // One bad row in a large backup usually means many; the first few say what is wrong
+  if (errors.length > 0) return { backup: null, errors: errors.slice(0, 20) };
+  return { backup: input as unknown as Backup, errors };
+}
+
+function rowErrors(row: unknown, schema: TableSchema, field: string): FieldError[] {
+  if (!isObject(row)) return [{ field, message: 'must be an object of column values' }];
+  const errors: FieldError[] = [];
+  for (const [column, value] of Object.entries(row)) {
+    if (!schema.columns.includes(column)) errors.push({ field: `${field}.${column}`, message: 'is not a column of this table' });
+    else if (value !== null && typeof value !== 'string' && !(typeof value === 'number' && Number.isFinite(value))) {
+      errors.push({ field: `${field}.${column}`, message: 'must be a string, a number or null' });
+    }
+  }
+  for (const column of schema.required) {
+    if (row[column] === undefined || row[column] === null) errors.push({ field: `${field}.${column}`, message: 'is required' });
+  }
+  return errors;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // String.fromCharCode takes its bytes as arguments, so large files go in slices
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { parseCamt053, parseXml } from './camt-import';
+
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>MSG1</MsgId><CreDtTm>2026-03-02T06:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>STMT-1</Id>
+      <FrToDt><FrDtTm>2026-03-01T00:00:00</FrDtTm><ToDtTm>2026-03-01T23:59:59</ToDtTm></FrToDt>
+      <Acct>
+        <Id><IBAN>DE89370400440532013000</IBAN></Id>
+        <Tp><Cd>CACC</Cd></Tp>
+        <Ccy>EUR</Ccy>
+        <Svcr><FinInstnId><BIC>COBADEFFXXX</BIC><Nm>Musterbank</Nm></FinInstnId></Svcr>
+      </Acct>
+      <Bal><Tp><CdOrPrtry><Cd>PRCD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2026-02-28</Dt></Dt></Bal>
+      <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">2384.50</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2026-03-01</Dt></Dt></Bal>
+      <Ntry>
+        <Amt Ccy="EUR">115.50</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-03-01</Dt></BookgDt>
+        <ValDt><Dt>2026-02-28</Dt></ValDt>
+        <AcctSvcrRef>2026030100001</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>INV-2026-042</EndToEndId></Refs>
+          <RltdPties>
+            <Cdtr><Nm>Stadtwerke M&#252;nchen</Nm></Cdtr>
+            <CdtrAcct><Id><IBAN>DE02700500000000012345</IBAN></Id></CdtrAcct>
+          </RltdPties>
+          <RmtInf><Ustrd>Strom Februar</Ustrd><Ustrd>Kundennr 4711</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">1500.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2026-03-01</Dt></BookgDt>
+        <AcctSvcrRef>2026030100002</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+            <AmtDtls><TxAmt><Amt Ccy="EUR">1000.00</Amt></TxAmt></AmtDtls>
+            <RltdPties><Dbtr><Pty><Nm>Acme GmbH</Nm></Pty></Dbtr></RltdPties>
+            <RmtInf><Ustrd>Gehalt Maerz</Ustrd></RmtInf>
+          </TxDtls>
+          <TxDtls>
+            <AmtDtls><TxAmt><Amt Ccy="EUR">500.00</Amt></TxAmt></AmtDtls>
+            <RltdPties><Dbtr><Nm>Erika Mustermann</Nm></Dbtr></RltdPties>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">20.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2026-03-01</Dt></BookgDt>
+        <AddtlNtryInf>Kartenzahlung</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+describe('camt-import', () => {
+  it('should read XML with namespaces, attributes and entities', () => {
+    const tree = parseXml('<?xml version="1.0"?><a:Doc xmlns:a="x"><a:B Ccy="EUR">1 &amp; 2</a:B><C/><![CDATA[<raw>]]></a:Doc>')!;
+    expect(tree.name).toBe('Doc');
+    expect(tree.children.map(c => [c.name, c.attributes, c.text])).toEqual([['B', { Ccy: 'EUR' }, '1 & 2'], ['C', {}, '']]);
+    expect(tree.text).toBe('<raw>');
+  });
+
+  it('should read a statement with its account, balances and bank details', () => {
+    const { statements, errors } = parseCamt053(CAMT);
+    expect(errors).toEqual([]);
+    const [statement] = statements;
+    expect(statement).toMatchObject({
+      account: 'DE89370400440532013000',
+      servicer: 'Musterbank',
+      type: 'checking',
+      currency: 'EUR',
+      start: '2026-03-01',
+      openingBalance: { amount: 1000, asOf: '2026-02-28' },
+      closingBalance: { amount: 2384.5, asOf: '2026-03-01' }
+    });
+
+    const [power, salary, gift, pending] = statement.rows;
+    expect(power).toMatchObject({
+      date: '2026-03-01', amount: 115.5, type: 'expense', merchant: 'Stadtwerke München',
+      description: 'Stadtwerke München - Strom Februar Kundennr 4711',
+      externalId: 'camt:DE89370400440532013000:2026030100001',
+      bankDetails: {
+        valueDate: '2026-02-28', counterparty: 'Stadtwerke München', counterpartyAccount: 'DE02700500000000012345',
+        remittance: 'Strom Februar Kundennr 4711', endToEndId: 'INV-2026-042', bankReference: '2026030100001'
+      },
+      errors: []
+    });
+    expect(salary).toMatchObject({ amount: 1000, type: 'income', description: 'Acme GmbH - Gehalt Maerz', externalId: 'camt:DE89370400440532013000:2026030100002:1' });
+    expect(salary.bankDetails?.endToEndId).toBeUndefined();
+    expect(gift).toMatchObject({ amount: 500, merchant: 'Erika Mustermann', externalId: 'camt:DE89370400440532013000:2026030100002:2' });
+    expect(pending.errors.map(e => e.message)).toEqual(['is not booked yet (status PDNG); import it once it is']);
+  });
+
+  it('should combine daily statements for one account and reject other documents', () => {
+    const twice = CAMT.replace(/<\/Stmt>/, `</Stmt>${CAMT.match(/<Stmt>[\s\S]*<\/Stmt>/)![0].replace(/2026-03-01/g, '2026-03-02').replace('2384.50', '2000.00')}`);
+    const { statements } = parseCamt053(twice);
+    expect(statements).toHaveLength(1);
+    expect(statements[0].rows).toHaveLength(8);
+    expect(statements[0].closingBalance).toEqual({ amount: 2000, asOf: '2026-03-02' });
+
+    expect(parseCamt053('<Document><BkToCstmrDbtCdtNtfctn/></Document>').errors[0].message).toMatch(/not a camt.053 file/);
+  });
+});
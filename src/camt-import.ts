@@ -0,0 +1,226 @@
+/**
+ * ISO 20022 camt.053 Statement Import
+ * Reads the XML bank-to-customer statements European banks send (camt.053, any version
+ * from .001.02 on). Each <Stmt> is one account's statement; its <Ntry> elements are the
+ * rows, booked on BookgDt with ValDt as the value date. An entry that batches several
+ * payments (several <TxDtls> with their own amounts) becomes one row per payment.
+ * The counterparty is the creditor of money going out and the debtor of money coming in.
+ */
+
+import { AccountType, MAX_ACCOUNT_NAME_LENGTH } from './account';
+import { BankDetails, FieldError, MAX_DESCRIPTION_LENGTH, isValidISODate } from './transaction';
+import { BankStatement, BankStatementParseResult, MAX_IMPORT_ROWS, ParsedRow, ReportedBalance, combineStatements } from './import';
+import { decodeEntities } from './ofx-import';
+
+/**
+ * An XML element; namespace prefixes are dropped from names, camt files use several
+ */
+export interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  text: string;
+  children: XmlNode[];
+}
+
+/**
+ * Read an XML document into a tree, or null when it has no root element
+ */
+export function parseXml(text: string): XmlNode | null {
+  const root: XmlNode = { name: '', attributes: {}, text: '', children: [] };
+  const stack = [root];
+  const tokens = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[?!][\s\S]*?>|<(\/?)([\w.:-]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  for (const [, cdata, closing, rawName, rawAttributes, selfClosing, content] of text.matchAll(tokens)) {
+    const parent = stack[stack.length - 1];
+    if (cdata !== undefined || content !== undefined) {
+      parent.text += cdata ?? decodeEntities(content);
+      continue;
+    }
+    if (!rawName) continue;   // comments, the declaration, processing instructions
+    const name = rawName.slice(rawName.indexOf(':') + 1);
+    if (closing) {
+      if (stack.length > 1 && parent.name === name) stack.pop();
+      continue;
+    }
+    const attributes: Record<string, string> = {};
+    for (const [, key, double, single] of (rawAttributes ?? '').matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[key.slice(key.indexOf(':') + 1)] = decodeEntities(double ?? single);
+    }
+    const node: XmlNode = { name, attributes, text: '', children: [] };
+    parent.children.push(node);
+    if (!selfClosing) stack.push(node);
+  }
+  return root.children[0] ?? null;
+}
+
+/**
+ * The element at `path` below `node` (first match at each step)
+ */
+function at(node: XmlNode | undefined, ...path: string[]): XmlNode | undefined {
+  return path.reduce<XmlNode | undefined>((current, name) => current?.children.find(child => child.name === name), node);
+}
+
+function all(node: XmlNode | undefined, name: string): XmlNode[] {
+  return node?.children.filter(child => child.name === name) ?? [];
+}
+
+/**
+ * The trimmed text at `path`, or undefined when it is missing or empty
+ */
+function textAt(node: XmlNode | undefined, ...path: string[]): string | undefined {
+  const text = at(node, ...path)?.text.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+/**
+ * A <Dt> or <DtTm> date choice as YYYY-MM-DD
+ */
+function dateOf(node: XmlNode | undefined): string | undefined {
+  const text = textAt(node, 'Dt') ?? textAt(node, 'DtTm');
+  const date = text?.slice(0, 10);
+  return date && isValidISODate(date) ? date : undefined;
+}
+
+/**
+ * An <Amt Ccy="EUR"> amount, negative when `indicator` is DBIT
+ */
+function amountOf(node: XmlNode | undefined, indicator: string | undefined): { amount: number; currency?: string } | null {
+  const text = node?.text.trim();
+  if (!text || !/^\d+(\.\d+)?$/.test(text)) return null;
+  const amount = Number(text);
+  return { amount: indicator === 'DBIT' ? -amount : amount, ...(node!.attributes.Ccy ? { currency: node!.attributes.Ccy.toUpperCase() } : {}) };
+}
+
+// Party names moved under <Pty> in camt.053.001.08
+function partyName(party: XmlNode | undefined): string | undefined {
+  return textAt(party, 'Nm') ?? textAt(party, 'Pty', 'Nm');
+}
+
+function accountIdOf(account: XmlNode | undefined): string | undefined {
+  return textAt(account, 'Id', 'IBAN') ?? textAt(account, 'Id', 'Othr', 'Id');
+}
+
+const BALANCE_CODES = { opening: ['OPBD', 'PRCD'], closing: ['CLBD'], available: ['CLAV'] };
+
+function balance(statement: XmlNode, codes: string[]): ReportedBalance | undefined {
+  for (const node of all(statement, 'Bal')) {
+    const code = textAt(node, 'Tp', 'CdOrPrtry', 'Cd');
+    if (!code || !codes.includes(code)) continue;
+    const amount = amountOf(at(node, 'Amt'), textAt(node, 'CdtDbtInd'));
+    const asOf = dateOf(at(node, 'Dt'));
+    if (amount && asOf) return { amount: amount.amount, asOf };
+  }
+  return undefined;
+}
+
+const ACCOUNT_TYPES_BY_CODE: Record<string, AccountType> = { CACC: 'checking', SVGS: 'savings', CARD: 'credit_card', CASH: 'cash', LOAN: 'loan' };
+
+/**
+ * The rows for one <Ntry>: one, or one per payment in a batch that itemizes its amounts
+ */
+function entryRows(entry: XmlNode, nextLine: () => number, account: string, currency: string | undefined): ParsedRow[] {
+  const indicator = textAt(entry, 'CdtDbtInd');
+  const status = textAt(entry, 'Sts') ?? textAt(entry, 'Sts', 'Cd');
+  const booked = dateOf(at(entry, 'BookgDt'));
+  const valueDate = dateOf(at(entry, 'ValDt'));
+  const entryReference = textAt(entry, 'AcctSvcrRef') ?? textAt(entry, 'NtryRef');
+  const details = all(entry, 'NtryDtls').flatMap(batch => all(batch, 'TxDtls'));
+  const itemized = details.length > 1 && details.every(d => at(d, 'AmtDtls', 'TxAmt', 'Amt') ?? at(d, 'Amt'));
+
+  return (itemized ? details : [details[0]]).map((transaction, index) => {
+    const row: ParsedRow = { line: nextLine(), errors: [] };
+    const rawAmount = itemized ? at(transaction, 'AmtDtls', 'TxAmt', 'Amt') ?? at(transaction, 'Amt') : at(entry, 'Amt');
+    const amount = amountOf(rawAmount, itemized ? textAt(transaction, 'CdtDbtInd') ?? indicator : indicator);
+    if (indicator !== 'CRDT' && indicator !== 'DBIT') row.errors.push({ field: 'type', message: 'has no credit or debit indicator' });
+    else if (!amount) row.errors.push({ field: 'amount', message: rawAmount?.text ? `"${rawAmount.text.trim()}" is not an amount` : 'is empty' });
+    else if (amount.currency && currency && amount.currency !== currency) {
+      row.errors.push({ field: 'amount', message: `is in ${amount.currency}, not the statement's ${currency}` });
+    } else if (amount.amount === 0) row.errors.push({ field: 'amount', message: 'is zero' });
+    else {
+      row.amount = Math.round(Math.abs(amount.amount) * 100) / 100;
+      row.type = indicator === 'DBIT' ? 'expense' : 'income';
+    }
+
+    if (booked ?? valueDate) row.date = booked ?? valueDate;
+    else row.errors.push({ field: 'date', message: 'has no booking date' });
+    if (status && status !== 'BOOK') row.errors.push({ field: 'date', message: `is not booked yet (status ${status}); import it once it is` });
+
+    const parties = at(transaction, 'RltdPties');
+    const outgoing = indicator === 'DBIT';
+    const counterparty = partyName(at(parties, outgoing ? 'Cdtr' : 'Dbtr')) ?? partyName(at(parties, outgoing ? 'UltmtCdtr' : 'UltmtDbtr'));
+    const counterpartyAccount = accountIdOf(at(parties, outgoing ? 'CdtrAcct' : 'DbtrAcct'));
+    const remittance = all(at(transaction, 'RmtInf'), 'Ustrd').map(node => node.text.replace(/\s+/g, ' ').trim()).filter(Boolean).join(' ')
+      || textAt(transaction, 'RmtInf', 'Strd', 'CdtrRefInf', 'Ref')
+      || undefined;
+    const endToEndId = textAt(transaction, 'Refs', 'EndToEndId');
+    const bankReference = textAt(transaction, 'Refs', 'AcctSvcrRef') ?? entryReference;
+
+    const description = [counterparty, remittance].filter(Boolean).join(' - ')
+      || textAt(transaction, 'AddtlTxInf') || textAt(entry, 'AddtlNtryInf') || '';
+    if (description) row.description = description.slice(0, MAX_DESCRIPTION_LENGTH);
+    else row.errors.push({ field: 'description', message: 'has no counterparty, remittance information or entry information' });
+    if (counterparty) row.merchant = counterparty.slice(0, MAX_DESCRIPTION_LENGTH);
+
+    const bankDetails: BankDetails = {
+      ...(valueDate ? { valueDate } : {}),
+      ...(counterparty ? { counterparty } : {}),
+      ...(counterpartyAccount ? { counterpartyAccount } : {}),
+      ...(remittance ? { remittance } : {}),
+      ...(endToEndId && endToEndId !== 'NOTPROVIDED' ? { endToEndId } : {}),
+      ...(bankReference ? { bankReference } : {})
+    };
+    if (Object.keys(bankDetails).length > 0) row.bankDetails = bankDetails;
+    if (entryReference) row.externalId = `camt:${account}:${entryReference}${itemized ? `:${index + 1}` : ''}`;
+    return row;
+  });
+}
+
+/**
+ * Read the statements in a camt.053 file
+ */
+export function parseCamt053(text: string): BankStatementParseResult {
+  const document = parseXml(text);
+  const container = document?.name === 'Document' ? at(document, 'BkToCstmrStmt') : undefined;
+  if (!container) {
+    return { statements: [], errors: [{ field: 'camt053', message: 'is not a camt.053 file: it has no <BkToCstmrStmt> element' }] };
+  }
+
+  const errors: FieldError[] = [];
+  const statements: BankStatement[] = [];
+  let line = 0;
+  for (const statement of all(container, 'Stmt')) {
+    const account = at(statement, 'Acct');
+    const id = accountIdOf(account);
+    if (!id) {
+      errors.push({ field: 'camt053', message: `statement ${textAt(statement, 'Id') ?? statements.length + 1} has no account IBAN or id` });
+      continue;
+    }
+    const entries = all(statement, 'Ntry');
+    const currency = (textAt(account, 'Ccy') ?? at(all(statement, 'Bal')[0], 'Amt')?.attributes.Ccy ?? at(entries[0], 'Amt')?.attributes.Ccy)?.toUpperCase();
+    const servicer = textAt(account, 'Svcr', 'FinInstnId', 'Nm') ?? textAt(account, 'Svcr', 'FinInstnId', 'BICFI') ?? textAt(account, 'Svcr', 'FinInstnId', 'BIC');
+    const type = ACCOUNT_TYPES_BY_CODE[textAt(account, 'Tp', 'Cd') ?? ''];
+    const start = textAt(statement, 'FrToDt', 'FrDtTm')?.slice(0, 10);
+    const end = textAt(statement, 'FrToDt', 'ToDtTm')?.slice(0, 10);
+    const openingBalance = balance(statement, BALANCE_CODES.opening);
+    const closingBalance = balance(statement, BALANCE_CODES.closing);
+    const availableBalance = balance(statement, BALANCE_CODES.available);
+
+    statements.push({
+      account: id,
+      ...(servicer ? { servicer: servicer.slice(0, MAX_ACCOUNT_NAME_LENGTH) } : {}),
+      ...(type ? { type } : {}),
+      ...(currency ? { currency } : {}),
+      ...(start && isValidISODate(start) ? { start } : {}),
+      ...(end && isValidISODate(end) ? { end } : {}),
+      ...(openingBalance ? { openingBalance } : {}),
+      ...(closingBalance ? { closingBalance } : {}),
+      ...(availableBalance ? { availableBalance } : {}),
+      rows: entries.flatMap(entry => entryRows(entry, () => ++line, id, currency))
+    });
+  }
+
+  if (statements.length === 0 && errors.length === 0) errors.push({ field: 'camt053', message: 'has no statements' });
+  if (line > MAX_IMPORT_ROWS) {
+    return { statements: [], errors: [{ field: 'camt053', message: `has more than ${MAX_IMPORT_ROWS} entries; export a shorter period` }] };
+  }
+  return { statements: combineStatements(statements), errors: statements.length > 0 ? [] : errors };
+}
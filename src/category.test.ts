@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CATEGORIES, validateCategoryInput, validateBudgetInput, categoryIdFromName, categorizeByKeywords, subcategoryTotals, describeCategoryBreakdown } from './category';
+
+describe('Category Model', () => {
+  describe('validateCategoryInput', () => {
+    it('should fill defaults for a new category', () => {
+      const result = validateCategoryInput({ name: ' Pet Care ', icon: '🐶' });
+      expect(result.valid && result.value).toMatchObject({ name: 'Pet Care', icon: '🐶', kind: 'expense', archived: false, defaultBudget: null, keywords: [] });
+    });
+
+    it('should report every invalid field at once', () => {
+      const result = validateCategoryInput({ name: '', kind: 'asset', color: 'red', archived: 'yes', defaultBudget: -5, id: 'x' });
+      expect(!result.valid && result.errors.map(e => e.field).sort()).toEqual(['archived', 'color', 'defaultBudget', 'id', 'kind', 'name']);
+    });
+
+    it('should accept a partial update but not an empty one', () => {
+      const result = validateCategoryInput({ color: '#AABBCC' }, true);
+      expect(result.valid && result.value).toEqual({ color: '#aabbcc' });
+      expect(validateCategoryInput({}, true).valid).toBe(false);
+    });
+  });
+
+  describe('validateBudgetInput', () => {
+    const categories = DEFAULT_CATEGORIES.map(c => ({ ...c, createdAt: 0, archived: c.id === 'shopping' }));
+
+    it('should accept an active expense category and a non-negative amount', () => {
+      expect(validateBudgetInput({ category: ' Food ', amount: 0 }, categories)).toEqual({ valid: true, value: { category: 'food', amount: 0, personal: false } });
+    });
+
+    it('should refuse unknown, archived and income categories and bad amounts', () => {
+      for (const category of ['pets', 'shopping', 'income']) {
+        expect(validateBudgetInput({ category, amount: 10 }, categories).valid).toBe(false);
+      }
+      for (const amount of [-1, NaN, '100', undefined]) {
+        const result = validateBudgetInput({ category: 'food', amount }, categories);
+        expect(!result.valid && result.errors.map(e => e.field)).toEqual(['amount']);
+      }
+    });
+  });
+
+  describe('categoryIdFromName', () => {
+    it('should slugify names', () => {
+      expect(categoryIdFromName('Pet Care & Vet')).toBe('pet-care-vet');
+    });
+  });
+
+  describe('categorizeByKeywords', () => {
+    it('should match keywords and fall back to other', () => {
+      expect(categorizeByKeywords('Uber to airport', DEFAULT_CATEGORIES)).toBe('transportation');
+      expect(categorizeByKeywords('Vet visit', DEFAULT_CATEGORIES)).toBe('other');
+      const withPets = [...DEFAULT_CATEGORIES, { id: 'pets', name: 'Pets', archived: false, keywords: ['vet'] }];
+      expect(categorizeByKeywords('Vet visit', withPets)).toBe('pets');
+    });
+  });
+
+  describe('subcategoryTotals', () => {
+    it('should group child spending under its parent for display', () => {
+      const categories = [{ id: 'food', parentId: null }, { id: 'groceries', parentId: 'food' }, { id: 'restaurants', parentId: 'food' }];
+      const grouped = subcategoryTotals({ food: 5, groceries: 200, restaurants: 100 }, categories);
+      expect(grouped).toEqual({ food: { groceries: 200, restaurants: 100 } });
+      expect(describeCategoryBreakdown({ food: 305, housing: 1000 }, grouped))
+        .toBe('housing: $1000.00, food: $305.00 (groceries $200.00, restaurants $100.00)');
+    });
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Category Domain Model
+ * Categories are user-defined rows rather than a hardcoded list. The defaults
+ * below seed a fresh ledger; after that, tool schemas, prompts, budgets and the
+ * receipt scanner all read the live list from the store.
+ * Categories nest one level deep ("food > groceries"); reports roll child
+ * spending up into the parent.
+ */
+
+import type { FieldError, ValidationResult } from './transaction';
+
+export type CategoryKind = 'expense' | 'income';
+
+export const CATEGORY_KINDS: readonly CategoryKind[] = ['expense', 'income'];
+
+// Uncategorized spending lands here, so it can never be renamed, merged away or archived
+export const FALLBACK_CATEGORY_ID = 'other';
+
+export const MAX_CATEGORY_NAME_LENGTH = 40;
+
+export interface Category {
+  id: string;
+  name: string;
+  kind: CategoryKind;
+  color: string;               // #rrggbb
+  icon: string;                // usually a single emoji
+  archived: boolean;           // hidden from pickers and AI tools, but history keeps it
+  defaultBudget: number | null;
+  keywords: string[];          // lowercase description fragments used for offline categorization
+  parentId: string | null;     // top-level categories have no parent; children cannot have their own
+  createdAt: number;
+}
+
+export interface CategoryInput {
+  name: string;
+  kind: CategoryKind;
+  color: string;
+  icon: string;
+  archived: boolean;
+  defaultBudget: number | null;
+  keywords: string[];
+  parentId: string | null;
+}
+
+export type CategoryPatch = Partial<CategoryInput>;
+
+const DEFAULT_COLOR = '#718096';
+const DEFAULT_ICON = '🏷️';
+
+export const DEFAULT_CATEGORIES: readonly Omit<Category, 'createdAt'>[] = [
+  {
+    id: 'food', name: 'Food', kind: 'expense', color: '#48bb78', icon: '🍕', archived: false, defaultBudget: 500, parentId: null,
+    keywords: ['grocery', 'restaurant', 'coffee', 'lunch', 'dinner', 'breakfast', 'cafe', 'pizza', 'food delivery']
+  },
+  {
+    id: 'transportation', name: 'Transportation', kind: 'expense', color: '#4299e1', icon: '🚗', archived: false, defaultBudget: 300, parentId: null,
+    keywords: ['gas', 'fuel', 'uber', 'lyft', 'taxi', 'parking', 'bus', 'train', 'metro', 'auto service']
+  },
+  {
+    id: 'housing', name: 'Housing', kind: 'expense', color: '#ed8936', icon: '🏠', archived: false, defaultBudget: 1000, parentId: null,
+    keywords: ['rent', 'mortgage', 'utilities', 'electric', 'water bill', 'internet', 'home improvement']
+  },
+  {
+    id: 'entertainment', name: 'Entertainment', kind: 'expense', color: '#9f7aea', icon: '🎬', archived: false, defaultBudget: 200, parentId: null,
+    keywords: ['movie', 'netflix', 'spotify', 'concert', 'game', 'theater', 'subscription', 'event']
+  },
+  {
+    id: 'shopping', name: 'Shopping', kind: 'expense', color: '#ed64a6', icon: '🛍️', archived: false, defaultBudget: 300, parentId: null,
+    keywords: ['amazon', 'clothes', 'clothing', 'electronics', 'target', 'walmart', 'retail', 'store']
+  },
+  {
+    id: 'healthcare', name: 'Healthcare', kind: 'expense', color: '#f56565', icon: '🏥', archived: false, defaultBudget: 400, parentId: null,
+    keywords: ['doctor', 'pharmacy', 'medicine', 'hospital', 'dental', 'clinic', 'medical', 'gym']
+  },
+  {
+    id: 'income', name: 'Income', kind: 'income', color: '#38a169', icon: '💰', archived: false, defaultBudget: null, parentId: null,
+    keywords: ['salary', 'paycheck', 'freelance', 'refund', 'dividend']
+  },
+  {
+    id: FALLBACK_CATEGORY_ID, name: 'Other', kind: 'expense', color: DEFAULT_COLOR, icon: '📦', archived: false, defaultBudget: 200, parentId: null,
+    keywords: []
+  }
+];
+
+export const DEFAULT_CATEGORY_IDS: readonly string[] = DEFAULT_CATEGORIES.map(c => c.id);
+
+/**
+ * Validate untrusted input for a category. With `partial`, every field is optional
+ * (for PATCH) but at least one must be present; otherwise `name` is required and
+ * the rest fall back to defaults.
+ */
+export function validateCategoryInput(input: unknown, partial = false): ValidationResult<CategoryPatch> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+
+  const body = input as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const value: CategoryPatch = {};
+
+  for (const field of Object.keys(body)) {
+    if (!['name', 'kind', 'color', 'icon', 'archived', 'defaultBudget', 'keywords', 'parentId'].includes(field)) {
+      errors.push({ field, message: 'is not a category field' });
+    }
+  }
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) errors.push({ field: 'name', message: 'is required' });
+    else if (name.length > MAX_CATEGORY_NAME_LENGTH) errors.push({ field: 'name', message: `must be at most ${MAX_CATEGORY_NAME_LENGTH} characters` });
+    else value.name = name;
+  }
+
+  if (body.kind !== undefined) {
+    if (CATEGORY_KINDS.includes(body.kind as CategoryKind)) value.kind = body.kind as CategoryKind;
+    else errors.push({ field: 'kind', message: `must be one of: ${CATEGORY_KINDS.join(', ')}` });
+  }
+
+  if (body.color !== undefined) {
+    if (typeof body.color === 'string' && /^#[0-9a-fA-F]{6}$/.test(body.color)) value.color = body.color.toLowerCase();
+    else errors.push({ field: 'color', message: 'must be a hex colour like #48bb78' });
+  }
+
+  if (body.icon !== undefined) {
+    const icon = typeof body.icon === 'string' ? body.icon.trim() : '';
+    if (icon && icon.length <= 8) value.icon = icon;
+    else errors.push({ field: 'icon', message: 'must be a short non-empty string' });
+  }
+
+  if (body.archived !== undefined) {
+    if (typeof body.archived === 'boolean') value.archived = body.archived;
+    else errors.push({ field: 'archived', message: 'must be true or false' });
+  }
+
+  if (body.defaultBudget !== undefined) {
+    const budget = body.defaultBudget;
+    if (budget === null || (typeof budget === 'number' && Number.isFinite(budget) && budget >= 0)) value.defaultBudget = budget;
+    else errors.push({ field: 'defaultBudget', message: 'must be a non-negative number or null' });
+  }
+
+  if (body.keywords !== undefined) {
+    if (Array.isArray(body.keywords) && body.keywords.every(k => typeof k === 'string')) {
+      value.keywords = body.keywords.map(k => (k as string).trim().toLowerCase()).filter(Boolean);
+    } else {
+      errors.push({ field: 'keywords', message: 'must be an array of strings' });
+    }
+  }
+
+  if (body.parentId !== undefined) {
+    const parentId = body.parentId;
+    if (parentId === null || (typeof parentId === 'string' && parentId.trim())) value.parentId = parentId === null ? null : parentId.trim();
+    else errors.push({ field: 'parentId', message: 'must be a category id or null' });
+  }
+
+  if (errors.length === 0 && partial && Object.keys(value).length === 0) {
+    errors.push({ field: 'body', message: 'must include at least one category field' });
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+
+  return {
+    valid: true,
+    value: partial ? value : {
+      kind: 'expense',
+      color: DEFAULT_COLOR,
+      icon: DEFAULT_ICON,
+      archived: false,
+      defaultBudget: null,
+      keywords: [],
+      parentId: null,
+      ...value
+    }
+  };
+}
+
+export interface BudgetInput {
+  category: string;
+  amount: number;              // per month; zero leaves the category without a limit
+  personal: boolean;           // the member's own budget on a household ledger
+}
+
+/**
+ * Validate untrusted input for a monthly budget: `category` must be one of the active
+ * expense categories in `categories`, and `amount` a non-negative number
+ */
+export function validateBudgetInput(input: unknown, categories: readonly Category[]): ValidationResult<BudgetInput> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+
+  const body = input as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  const budgetable = categories.filter(c => c.kind === 'expense' && !c.archived).map(c => c.id);
+  const category = typeof body.category === 'string' ? body.category.trim().toLowerCase() : '';
+  if (!budgetable.includes(category)) errors.push({ field: 'category', message: `must be one of: ${budgetable.join(', ')}` });
+
+  const amount = body.amount;
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+    errors.push({ field: 'amount', message: 'must be a non-negative number' });
+  }
+
+  if (body.personal !== undefined && typeof body.personal !== 'boolean') {
+    errors.push({ field: 'personal', message: 'must be true or false' });
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+  return { valid: true, value: { category, amount: amount as number, personal: body.personal === true } };
+}
+
+/**
+ * Turn a category name into the id stored on transactions ("Pet Care" → "pet-care")
+ */
+export function categoryIdFromName(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Offline categorization: the first category whose name or keyword appears in the
+ * description, or the fallback category. Subcategories are tried before top-level
+ * ones so the most specific match wins.
+ */
+export function categorizeByKeywords(
+  description: string,
+  categories: readonly (Pick<Category, 'id' | 'name' | 'archived' | 'keywords'> & Partial<Pick<Category, 'parentId'>>)[]
+): string {
+  const text = description.toLowerCase();
+  const specificFirst = [...categories].sort((a, b) => Number(Boolean(b.parentId)) - Number(Boolean(a.parentId)));
+  const match = specificFirst.find(c =>
+    !c.archived && c.id !== FALLBACK_CATEGORY_ID &&
+    [c.name.toLowerCase(), ...c.keywords].some(word => word && text.includes(word))
+  );
+  return match ? match.id : FALLBACK_CATEGORY_ID;
+}
+
+/**
+ * The category a free-text question names, by name, id or keyword as whole words
+ * ("how much did we spend on groceries?"). Subcategories win over their parents.
+ */
+export function findCategoryInMessage<C extends Pick<Category, 'id' | 'name' | 'archived' | 'keywords' | 'parentId'>>(
+  message: string,
+  categories: readonly C[]
+): C | null {
+  const words = ` ${message.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ')} `;
+  const mentions = (term: string) => term.length > 0 && words.includes(` ${term.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `);
+  const specificFirst = [...categories].sort((a, b) => Number(Boolean(b.parentId)) - Number(Boolean(a.parentId)));
+  return specificFirst.find(c => !c.archived && [c.name, c.id, ...c.keywords].some(mentions)) ?? null;
+}
+
+/**
+ * Child spending grouped under its parent (parent id → child id → amount).
+ * Top-level categories without children do not appear.
+ */
+export function subcategoryTotals(
+  totals: Record<string, number>,
+  categories: readonly Pick<Category, 'id' | 'parentId'>[]
+): Record<string, Record<string, number>> {
+  const grouped: Record<string, Record<string, number>> = {};
+  for (const category of categories) {
+    if (!category.parentId || !totals[category.id]) continue;
+    grouped[category.parentId] = { ...grouped[category.parentId], [category.id]: totals[category.id] };
+  }
+  return grouped;
+}
+
+/**
+ * "food $300.00 (groceries $200.00, restaurants $100.00), housing $1000.00", largest first
+ */
+export function describeCategoryBreakdown(
+  rolledUp: Record<string, number>,
+  subcategories: Record<string, Record<string, number>>
+): string {
+  const byAmount = (totals: Record<string, number>) => Object.entries(totals).sort(([, a], [, b]) => b - a);
+  return byAmount(rolledUp)
+    .map(([category, amount]) => {
+      const children = subcategories[category] ? byAmount(subcategories[category]) : [];
+      const detail = children.map(([child, childAmount]) => `${child} $${childAmount.toFixed(2)}`).join(', ');
+      return `${category}: $${amount.toFixed(2)}${detail ? ` (${detail})` : ''}`;
+    })
+    .join(', ');
+}
@@ -98,6 +98,29 @@ export class ChromaDBAdapter {
     id: string;
     values: number[];
     metadata: any;
+  }>): Promise<void> {
+    await this.writeVectors('add', vectors);
+  }
+
+  /**
+   * Insert vectors, replacing any existing vectors with the same IDs
+   * Compatible with Vectorize API format
+   */
+  async upsert(vectors: Array<{
+    id: string;
+    values: number[];
+    metadata: any;
+  }>): Promise<void> {
+    await this.writeVectors('upsert', vectors);
+  }
+
+  /**
+   * Write vectors through ChromaDB's add or upsert endpoint
+   */
+  private async writeVectors(operation: 'add' | 'upsert', vectors: Array<{
+    id: string;
+    values: number[];
+    metadata: any;
   }>): Promise<void> {
     if (vectors.length === 0) return;
 
@@ -116,7 +139,7 @@ export class ChromaDBAdapter {
       );
 
       const response = await fetch(
-        `${this.baseUrl}/api/v1/collections/${this.collectionName}/add`,
+        `${this.baseUrl}/api/v1/collections/${this.collectionName}/${operation}`,
         {
           method: 'POST',
           headers: this.headers,
@@ -131,12 +154,12 @@ export class ChromaDBAdapter {
 
       if (!response.ok) {
         const error = await response.text();
-        throw new Error(`ChromaDB insert failed: ${error}`);
+        throw new Error(`ChromaDB ${operation} failed: ${error}`);
       }
 
-      console.log(`Successfully inserted ${vectors.length} vectors into ChromaDB`);
+      console.log(`Successfully wrote ${vectors.length} vectors into ChromaDB (${operation})`);
     } catch (error) {
-      console.error('ChromaDB insert error:', error);
+      console.error(`ChromaDB ${operation} error:`, error);
       throw error;
     }
   }
@@ -163,9 +186,12 @@ export class ChromaDBAdapter {
         include: ['metadatas', 'distances', 'documents']
       };
 
-      // Add filter if provided (ChromaDB uses where clause)
+      // Add filter if provided (ChromaDB uses where clause, which takes one field unless combined with $and)
       if (options.filter) {
-        requestBody.where = options.filter;
+        const fields = Object.entries(options.filter);
+        requestBody.where = fields.length > 1
+          ? { $and: fields.map(([key, value]) => ({ [key]: value })) }
+          : options.filter;
       }
 
       const response = await fetch(
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCsvRecords,
+  detectDelimiter,
+  parseDate,
+  parseAmount,
+  parseCsvStatement,
+  validateCsvImportInput
+} from './csv-import';
+import { rowExternalIds, rowsToCommit, validateImportCommit, ImportRow } from './import';
+
+describe('csv-import', () => {
+  it('should read quoted fields with delimiters, quotes and line breaks', () => {
+    const records = parseCsvRecords('a,"b, c","say ""hi"""\r\n1,"two\nlines",3\n', ',');
+    expect(records).toEqual([
+      { line: 1, cells: ['a', 'b, c', 'say "hi"'] },
+      { line: 2, cells: ['1', 'two\nlines', '3'] }
+    ]);
+    expect(detectDelimiter('Date;Text;Amount\n01.02.2026;Rent;-1.200,00\n')).toBe(';');
+    expect(detectDelimiter('Date\tText\tAmount\n2026-02-01\tRent, flat\t-1200\n')).toBe('\t');
+  });
+
+  it('should parse dates and amounts in local conventions', () => {
+    expect(parseDate('03/04/2026', 'DMY')).toBe('2026-04-03');
+    expect(parseDate('03/04/2026', 'MDY')).toBe('2026-03-04');
+    expect(parseDate('2026-04-03', 'DMY')).toBe('2026-04-03');
+    expect(parseDate('31/02/2026', 'DMY')).toBeNull();
+    expect(parseAmount('-1.234,56', ',')).toBe(-1234.56);
+    expect(parseAmount('(12.50)', '.')).toBe(-12.5);
+    expect(parseAmount('$1,200.00', '.')).toBe(1200);
+    expect(parseAmount('abc', '.')).toBeNull();
+  });
+
+  it('should detect a European export with a preamble', () => {
+    const csv = [
+      'Account;DE89 3704 0044 0532 0130 00',
+      '',
+      'Buchungstag;Verwendungszweck;Betrag',
+      '28.02.2026;Miete Februar;-1.200,00',
+      '27.02.2026;Gehalt;3.450,10'
+    ].join('\n');
+    const result = parseCsvStatement(csv);
+    expect(result.errors).toEqual([]);
+    expect(result.detected).toMatchObject({ delimiter: ';', decimal: ',', dateOrder: 'DMY', hasHeader: true });
+    expect(result.rows.map(({ line, date, amount, type }) => ({ line, date, amount, type }))).toEqual([
+      { line: 4, date: '2026-02-28', amount: 1200, type: 'expense' },
+      { line: 5, date: '2026-02-27', amount: 3450.1, type: 'income' }
+    ]);
+  });
+
+  it('should read debit and credit columns and report bad rows', () => {
+    const csv = 'Date,Description,Debit,Credit\n01/15/2026,Coffee,4.50,\n01/16/2026,Refund,,20\n01/31/2026,Broken,x,\n';
+    const { rows, detected } = parseCsvStatement(csv);
+    expect(detected?.dateOrder).toBe('MDY');
+    expect(rows[0]).toMatchObject({ date: '2026-01-15', amount: 4.5, type: 'expense', description: 'Coffee' });
+    expect(rows[1]).toMatchObject({ amount: 20, type: 'income' });
+    expect(rows[2].errors).toEqual([{ field: 'amount', message: '"x" is not an amount' }]);
+  });
+
+  it('should use a given or saved mapping', () => {
+    const csv = '2026-03-01|Groceries|Store|12.30|DR\n2026-03-02|Interest|Bank|0.40|CR\n';
+    const explicit = parseCsvStatement(csv, { mapping: { date: 0, description: 1, payee: 2, amount: 3, type: 4 } });
+    expect(explicit.rows.map(r => [r.type, r.merchant])).toEqual([['expense', 'Store'], ['income', 'Bank']]);
+
+    const saved = [{ name: 'card', mapping: { date: 'When', description: 'What', amount: 'Sum' }, invertAmounts: true, createdAt: 0 }];
+    const { rows, detected } = parseCsvStatement('When,What,Sum,Other\n2026-03-01,Shoes,80,x\n', {}, saved);
+    expect(detected?.savedMapping).toBe('card');
+    expect(rows[0]).toMatchObject({ amount: 80, type: 'expense' });
+  });
+
+  it('should explain columns it cannot find', () => {
+    const { errors, detected } = parseCsvStatement('Foo,Bar\nx,y\n');
+    expect(detected).toBeNull();
+    expect(errors.map(e => e.field)).toContain('mapping.date');
+  });
+
+  it('should validate import requests', () => {
+    expect(validateCsvImportInput({ csv: 'a,b', delimiter: 'tab', mapping: 'card' })).toMatchObject({
+      valid: true,
+      value: { options: { delimiter: '\t' }, mappingName: 'card' }
+    });
+    const invalid = validateCsvImportInput({ csv: '', dateOrder: 'DDMM', mapping: { date: 0 } });
+    expect(invalid.valid).toBe(false);
+    if (!invalid.valid) expect(invalid.errors.map(e => e.field)).toEqual(expect.arrayContaining(['csv', 'dateOrder', 'mapping.description']));
+  });
+
+  it('should fingerprint rows without a bank id and number identical ones', async () => {
+    const row = { line: 2, date: '2026-03-01', amount: 3, type: 'expense' as const, description: 'Coffee', errors: [] };
+    const [first, second, other] = await rowExternalIds([row, { ...row, line: 3 }, { ...row, externalId: 'bank-1' }], 'checking');
+    expect(first).toMatch(/^line:[0-9a-f]{24}$/);
+    expect(second).not.toBe(first);
+    expect(other).toBe('bank-1');
+    expect((await rowExternalIds([row], 'checking'))[0]).toBe(first);
+    expect((await rowExternalIds([row], 'savings'))[0]).not.toBe(first);
+  });
+
+  it('should commit new rows, and duplicates or listed lines on request', () => {
+    const transaction = { amount: 1, description: 'x', category: 'food', type: 'expense' as const, accountId: 'checking' };
+    const rows: ImportRow[] = (['new', 'duplicate', 'imported', 'invalid'] as const).map((status, i) => ({
+      line: i + 2, status, externalId: `e${i}`, ...(status === 'invalid' ? {} : { transaction }), errors: []
+    }));
+    const lines = (selection: unknown) => {
+      const validation = validateImportCommit(selection);
+      return validation.valid ? rowsToCommit(rows, validation.value).map(r => r.line) : validation.errors;
+    };
+    expect(lines(null)).toEqual([2]);
+    expect(lines({ includeDuplicates: true })).toEqual([2, 3]);
+    expect(lines({ lines: [3, 4, 5] })).toEqual([3]);
+    expect(lines({ lines: 'all' })).toEqual([{ field: 'lines', message: 'must be an array of line numbers' }]);
+  });
+});
@@ -0,0 +1,609 @@
+/**
+ * CSV Statement Import
+ * Reads bank CSV exports whatever their delimiter, date format and decimal convention,
+ * with a signed amount column or separate debit and credit columns. Columns are found
+ * from the header row (or, without one, from the values) unless a mapping names them,
+ * and a mapping can be saved under a name for the next export from the same bank.
+ */
+
+import { FieldError, MAX_DESCRIPTION_LENGTH, TransactionType, ValidationResult, isValidISODate } from './transaction';
+import { MAX_IMPORT_ROWS, ParsedRow } from './import';
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+
+// Order of day, month and year in numeric dates; 4-digit leading years are always read as YMD
+export const DATE_ORDERS = ['YMD', 'DMY', 'MDY'] as const;
+export type DateOrder = typeof DATE_ORDERS[number];
+
+export type DecimalSeparator = '.' | ',';
+
+// A column, by header name (case-insensitive) or 0-based position
+export type CsvColumn = string | number;
+
+export interface CsvMapping {
+  date: CsvColumn;
+  description: CsvColumn;
+  amount?: CsvColumn;     // signed: negative is money out
+  debit?: CsvColumn;      // money out; used with credit instead of amount
+  credit?: CsvColumn;     // money in
+  type?: CsvColumn;       // "debit"/"credit" beside an unsigned amount
+  payee?: CsvColumn;
+  category?: CsvColumn;
+}
+
+export const MAPPING_FIELDS: readonly (keyof CsvMapping)[] = ['date', 'description', 'amount', 'debit', 'credit', 'type', 'payee', 'category'];
+
+export interface CsvOptions {
+  delimiter?: string;
+  dateOrder?: DateOrder;
+  decimal?: DecimalSeparator;
+  hasHeader?: boolean;
+  invertAmounts?: boolean;   // positive amounts are money out, as in some card exports
+  mapping?: CsvMapping;
+}
+
+/**
+ * A mapping saved for reuse, with the reading options that went with it
+ */
+export interface SavedCsvMapping extends Omit<CsvOptions, 'mapping' | 'hasHeader'> {
+  name: string;
+  mapping: CsvMapping;
+  createdAt: number;
+}
+
+/**
+ * How the file was read, returned with the preview so a wrong guess can be corrected
+ */
+export interface CsvDetected {
+  delimiter: string;
+  dateOrder: DateOrder;
+  decimal: DecimalSeparator;
+  hasHeader: boolean;
+  invertAmounts: boolean;
+  headers: string[];
+  mapping: CsvMapping;
+  savedMapping?: string;     // the saved mapping chosen because its columns are all in the header
+}
+
+export interface CsvParseResult {
+  rows: ParsedRow[];
+  detected: CsvDetected | null;
+  errors: FieldError[];      // problems with the file as a whole
+}
+
+const MAX_MAPPING_NAME_LENGTH = 60;
+
+// Header names each field is recognized by, most specific first
+const HEADER_NAMES: Record<keyof CsvMapping, string[]> = {
+  date: ['date', 'transaction date', 'booking date', 'posted date', 'posting date', 'trans date', 'value date', 'datum', 'buchungstag', 'fecha'],
+  amount: ['amount', 'transaction amount', 'value', 'betrag', 'importe', 'montant', 'sum'],
+  debit: ['debit', 'debit amount', 'debits', 'withdrawal', 'withdrawals', 'money out', 'paid out', 'outflow', 'soll'],
+  credit: ['credit', 'credit amount', 'credits', 'deposit', 'deposits', 'money in', 'paid in', 'inflow', 'haben'],
+  type: ['debit credit', 'dr cr', 'credit debit', 'transaction type', 'type'],
+  category: ['category'],
+  payee: ['payee', 'merchant', 'merchant name', 'name', 'counterparty', 'beneficiary', 'empfanger'],
+  description: ['description', 'transaction description', 'details', 'narrative', 'memo', 'reference', 'verwendungszweck', 'concepto', 'text']
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// ========== READING VALUES ==========
+
+/**
+ * Split CSV text into records of trimmed cells (RFC 4180 quoting), skipping blank lines
+ */
+export function parseCsvRecords(text: string, delimiter: string): { line: number; cells: string[] }[] {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some(c => c.trim() !== '')) records.push({ line: recordLine, cells: cells.map(c => c.trim()) });
+    cells = [];
+    cell = '';
+  };
+
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRecord();
+  return records;
+}
+
+/**
+ * The delimiter that splits the first lines into the most columns, most consistently
+ */
+export function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).slice(0, 20).join('\n');
+  let best: { delimiter: string; score: number } = { delimiter: ',', score: 0 };
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = parseCsvRecords(sample, delimiter).map(r => r.cells.length);
+    const columns = mostCommon(counts);
+    if (columns < 2) continue;
+    const score = counts.filter(c => c === columns).length / counts.length * 1000 + columns;
+    if (score > best.score) best = { delimiter, score };
+  }
+  return best.delimiter;
+}
+
+function mostCommon(values: number[]): number {
+  const counts = new Map<number, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  let best = 0;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount || (count === bestCount && value > best)) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Read a date as YYYY-MM-DD: numeric dates in the given order (with any separator, 2- or
+ * 4-digit years, YYYYMMDD), dates with month names ("14 Mar 2025", "Mar 14, 2025"), and
+ * any of these followed by a time
+ */
+export function parseDate(value: string, order: DateOrder): string | null {
+  const text = value.trim()
+    .replace(/(?:T|\s+)\d{1,2}:\d{2}(?::\d{2})?(?:\.\d+)?\s*(?:[AaPp][Mm])?(?:Z|[+-]\d{2}:?\d{2})?$/, '');
+  let year: string, month: string, day: string;
+
+  if (/^\d{8}$/.test(text)) {
+    [year, month, day] = [text.slice(0, 4), text.slice(4, 6), text.slice(6, 8)];
+  } else {
+    const parts = text.match(/[A-Za-z]+|\d+/g);
+    if (!parts || parts.length !== 3 || text.length > 30) return null;
+    const named = parts.findIndex(part => /[A-Za-z]/.test(part));
+    if (named >= 0) {
+      const index = MONTH_NAMES.indexOf(parts[named].slice(0, 3).toLowerCase());
+      if (index < 0) return null;
+      const [first, second] = parts.filter((_, i) => i !== named);
+      month = String(index + 1);
+      [year, day] = first.length === 4 ? [first, second] : [second, first];
+    } else if (parts[0].length === 4 || order === 'YMD') {
+      [year, month, day] = parts;
+    } else if (order === 'DMY') {
+      [day, month, year] = parts;
+    } else {
+      [month, day, year] = parts;
+    }
+  }
+
+  if (year.length === 2) year = (Number(year) < 70 ? '20' : '19') + year;
+  if (year.length !== 4 || month.length > 2 || day.length > 2) return null;
+  const iso = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  return isValidISODate(iso) ? iso : null;
+}
+
+/**
+ * The date order that reads the most values. When day-first and month-first read them
+ * all (no day above 12), day-first is chosen for files that use a decimal comma.
+ */
+export function detectDateOrder(values: readonly string[], decimal: DecimalSeparator): DateOrder {
+  const readable = (order: DateOrder) => values.filter(v => parseDate(v, order) !== null).length;
+  const candidates: DateOrder[] = decimal === ',' ? ['DMY', 'MDY', 'YMD'] : ['MDY', 'DMY', 'YMD'];
+  return candidates.reduce((best, order) => (readable(order) > readable(best) ? order : best));
+}
+
+/**
+ * Read an amount: currency symbols and codes, spaces and thousands separators are
+ * ignored; "-12.50", "12.50-", "(12.50)" and "12.50 DR" are negative, "12.50 CR" positive
+ */
+export function parseAmount(value: string, decimal: DecimalSeparator): number | null {
+  let text = value.trim().replace(/\u2212/g, '-');
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/\bDR\.?$/i.test(text)) negative = !negative;
+  text = text.replace(/\b(CR|DR)\.?$/i, '').replace(/[^\d.,+-]/g, '');
+  if (text.endsWith('-')) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  text = text.split(decimal === '.' ? ',' : '.').join('');
+  if (decimal === ',') text = text.replace(',', '.');
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+  const amount = Number(text);
+  return negative && amount !== 0 ? -amount : amount;
+}
+
+/**
+ * The decimal separator amounts use, judged by the digits after the last separator;
+ * "1,234" and "1.234" say nothing, so files that only have those fall back to `fallback`
+ */
+export function detectDecimal(values: readonly string[], fallback: DecimalSeparator): DecimalSeparator {
+  let dot = 0;
+  let comma = 0;
+  for (const value of values) {
+    const text = value.replace(/[^\d.,]/g, '');
+    const lastDot = text.lastIndexOf('.');
+    const lastComma = text.lastIndexOf(',');
+    if (lastDot >= 0 && lastComma >= 0) {
+      if (lastDot > lastComma) dot++; else comma++;
+    } else if (lastDot >= 0 || lastComma >= 0) {
+      const separator = lastDot >= 0 ? '.' : ',';
+      const position = Math.max(lastDot, lastComma);
+      const repeated = text.indexOf(separator) !== position;
+      const digitsAfter = text.length - position - 1;
+      if (repeated) {
+        if (separator === '.') comma++; else dot++;
+      } else if (digitsAfter !== 3) {
+        if (separator === '.') dot++; else comma++;
+      }
+    }
+  }
+  return dot === comma ? fallback : dot > comma ? '.' : ',';
+}
+
+/**
+ * Money in or out from a debit/credit indicator column, or null when it says neither
+ */
+function directionOf(value: string): TransactionType | null {
+  const text = value.trim().toLowerCase();
+  if (/^(d|dr|debit|withdrawal|out)\b/.test(text)) return 'expense';
+  if (/^(c|cr|credit|deposit|in)\b/.test(text)) return 'income';
+  return null;
+}
+
+// ========== FINDING COLUMNS ==========
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Position of a mapped column, or -1 when the file does not have it
+ */
+export function columnIndex(column: CsvColumn | undefined, headers: readonly string[], width: number): number {
+  if (column === undefined) return -1;
+  if (typeof column === 'number') return column < width ? column : -1;
+  const wanted = normalizeHeader(column);
+  return headers.findIndex(header => normalizeHeader(header) === wanted);
+}
+
+/**
+ * Columns named by a header row: exact names first, then headers starting with a
+ * name ("Amount (USD)"). Fields are claimed in a fixed order so one column is never used twice.
+ */
+function mappingFromHeaders(headers: readonly string[]): Partial<CsvMapping> {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: Partial<Record<keyof CsvMapping, CsvColumn>> = {};
+
+  const claim = (field: keyof CsvMapping, matches: (header: string, name: string) => boolean): boolean => {
+    for (const name of HEADER_NAMES[field]) {
+      const index = normalized.findIndex((header, i) => !used.has(i) && matches(header, name));
+      if (index >= 0) {
+        mapping[field] = headers[index];
+        used.add(index);
+        return true;
+      }
+    }
+    return false;
+  };
+  for (const field of ['date', 'amount', 'debit', 'credit', 'category', 'payee', 'description', 'type'] as const) {
+    if (!claim(field, (header, name) => header === name)) claim(field, (header, name) => header.startsWith(`${name} `));
+  }
+  return mapping;
+}
+
+/**
+ * Columns guessed from the values of a file without a header: dates, amounts, and the
+ * column with the longest text as the description. Two numeric columns that are never
+ * filled on the same row are taken as debit then credit.
+ */
+function mappingFromValues(records: readonly string[][], width: number): Partial<CsvMapping> {
+  const columns = Array.from({ length: width }, (_, i) => records.map(cells => cells[i] ?? '').filter(v => v !== ''));
+  const mostly = (values: string[], test: (v: string) => boolean) => values.length > 0 && values.filter(test).length >= values.length * 0.8;
+
+  const date = columns.findIndex(values => mostly(values, v => DATE_ORDERS.some(order => parseDate(v, order) !== null)));
+  const numeric = columns
+    .map((values, i) => ({ i, values }))
+    .filter(({ i, values }) => i !== date && mostly(values, v => parseAmount(v, '.') !== null || parseAmount(v, ',') !== null))
+    .map(({ i }) => i);
+  const text = columns
+    .map((values, i) => ({ i, length: values.reduce((sum, v) => sum + v.length, 0) / Math.max(1, values.length) }))
+    .filter(({ i }) => i !== date && !numeric.includes(i))
+    .sort((a, b) => b.length - a.length)[0];
+
+  const mapping: Partial<CsvMapping> = {};
+  if (date >= 0) mapping.date = date;
+  if (text) mapping.description = text.i;
+  const [first, second] = numeric;
+  const exclusive = second !== undefined && records.every(cells => (cells[first] ?? '') === '' || (cells[second] ?? '') === '');
+  if (exclusive) {
+    mapping.debit = first;
+    mapping.credit = second;
+  } else if (first !== undefined) {
+    mapping.amount = first;
+  }
+  return mapping;
+}
+
+/**
+ * A saved mapping fits a file when every column it names by header is in the file
+ */
+function fitsHeaders(mapping: CsvMapping, headers: readonly string[]): boolean {
+  return headers.length > 0 && MAPPING_FIELDS.every(field => {
+    const column = mapping[field];
+    return column === undefined || typeof column === 'number' || columnIndex(column, headers, headers.length) >= 0;
+  });
+}
+
+// ========== STATEMENTS ==========
+
+/**
+ * Read a bank CSV export into candidate rows. Options not given are detected; when no
+ * mapping is given, the first of `saved` that fits the header is used before guessing.
+ */
+export function parseCsvStatement(text: string, options: CsvOptions = {}, saved: readonly SavedCsvMapping[] = []): CsvParseResult {
+  const delimiter = options.delimiter ?? detectDelimiter(text);
+  const all = parseCsvRecords(text, delimiter);
+
+  // Exports often open with account details; the table starts at the first full-width row
+  const width = mostCommon(all.map(r => r.cells.length));
+  const records = all.slice(Math.max(0, all.findIndex(r => r.cells.length === width)));
+  if (records.length === 0 || width < 2) {
+    return { rows: [], detected: null, errors: [{ field: 'csv', message: 'has no rows with at least two columns' }] };
+  }
+
+  const first = records[0].cells;
+  const hasHeader = options.hasHeader
+    ?? (!first.some(cell => DATE_ORDERS.some(order => parseDate(cell, order))) && first.filter(cell => /[A-Za-z]/.test(cell)).length >= first.length / 2);
+  const headers = hasHeader ? first : [];
+  const body = hasHeader ? records.slice(1) : records;
+  if (body.length > MAX_IMPORT_ROWS) {
+    return { rows: [], detected: null, errors: [{ field: 'csv', message: `has more than ${MAX_IMPORT_ROWS} rows; split it into smaller files` }] };
+  }
+
+  const fitting = options.mapping ? undefined : saved.find(s => fitsHeaders(s.mapping, headers));
+  const guessed = options.mapping ?? fitting?.mapping ?? (hasHeader ? mappingFromHeaders(headers) : mappingFromValues(body.map(r => r.cells), width));
+  const index = (field: keyof CsvMapping) => columnIndex(guessed[field], headers, width);
+
+  const errors: FieldError[] = [];
+  if (index('date') < 0) errors.push({ field: 'mapping.date', message: 'no date column found; name it in the mapping' });
+  if (index('amount') < 0 && (index('debit') < 0 || index('credit') < 0)) {
+    errors.push({ field: 'mapping.amount', message: 'no amount column (or debit and credit columns) found; name them in the mapping' });
+  }
+  if (index('description') < 0 && index('payee') < 0) {
+    errors.push({ field: 'mapping.description', message: 'no description column found; name it in the mapping' });
+  }
+  if (errors.length > 0) return { rows: [], detected: null, errors };
+  const mapping = { ...guessed, description: guessed.description ?? guessed.payee } as CsvMapping;
+
+  const cell = (cells: string[], field: keyof CsvMapping) => (index(field) >= 0 ? cells[index(field)] ?? '' : '');
+  const amountValues = body.flatMap(r => (['amount', 'debit', 'credit'] as const).map(field => cell(r.cells, field))).filter(Boolean);
+  const decimal = options.decimal ?? fitting?.decimal ?? detectDecimal(amountValues, delimiter === ';' ? ',' : '.');
+  const dateOrder = options.dateOrder ?? fitting?.dateOrder ?? detectDateOrder(body.map(r => cell(r.cells, 'date')).filter(Boolean), decimal);
+  const invertAmounts = options.invertAmounts ?? fitting?.invertAmounts ?? false;
+  // A type column only gives the direction when the amounts themselves are unsigned
+  const useType = index('type') >= 0 && !body.some(r => (parseAmount(cell(r.cells, 'amount'), decimal) ?? 0) < 0);
+
+  const rows = body.map(({ line, cells }): ParsedRow => {
+    const row: ParsedRow = { line, errors: [] };
+
+    const rawDate = cell(cells, 'date');
+    const date = parseDate(rawDate, dateOrder);
+    if (date) row.date = date;
+    else row.errors.push({ field: 'date', message: rawDate ? `"${rawDate}" is not a ${dateOrder} date` : 'is empty' });
+
+    let signed: number | null = null;
+    if (index('amount') >= 0) {
+      const raw = cell(cells, 'amount');
+      signed = parseAmount(raw, decimal);
+      const direction = useType ? directionOf(cell(cells, 'type')) : null;
+      if (signed !== null && direction) signed = direction === 'expense' ? -Math.abs(signed) : Math.abs(signed);
+      if (signed === null) row.errors.push({ field: 'amount', message: raw ? `"${raw}" is not an amount` : 'is empty' });
+    } else {
+      const debit = cell(cells, 'debit');
+      const credit = cell(cells, 'credit');
+      const out = debit ? parseAmount(debit, decimal) : 0;
+      const into = credit ? parseAmount(credit, decimal) : 0;
+      if (out === null || into === null) row.errors.push({ field: 'amount', message: `"${out === null ? debit : credit}" is not an amount` });
+      else if (!debit && !credit) row.errors.push({ field: 'amount', message: 'has neither a debit nor a credit' });
+      else signed = Math.abs(into) - Math.abs(out);
+    }
+    if (signed !== null) {
+      if (invertAmounts) signed = -signed;
+      if (Math.round(signed * 100) === 0) {
+        row.errors.push({ field: 'amount', message: 'is zero' });
+      } else {
+        row.amount = Math.round(Math.abs(signed) * 100) / 100;
+        row.type = signed < 0 ? 'expense' : 'income';
+      }
+    }
+
+    const payee = cell(cells, 'payee');
+    const description = cell(cells, 'description') || payee;
+    if (description) row.description = description.replace(/\s+/g, ' ').slice(0, MAX_DESCRIPTION_LENGTH);
+    else row.errors.push({ field: 'description', message: 'is empty' });
+    if (payee) row.merchant = payee.slice(0, MAX_DESCRIPTION_LENGTH);
+    const category = cell(cells, 'category');
+    if (category) row.category = category;
+    return row;
+  });
+
+  return {
+    rows,
+    detected: {
+      delimiter,
+      dateOrder,
+      decimal,
+      hasHeader,
+      invertAmounts,
+      headers,
+      mapping,
+      ...(fitting ? { savedMapping: fitting.name } : {})
+    },
+    errors: []
+  };
+}
+
+// ========== VALIDATION ==========
+
+export interface CsvImportInput {
+  csv: string;
+  accountId?: string;
+  options: CsvOptions;
+  mappingName?: string;      // a saved mapping to read the file with
+  saveMappingAs?: string;    // save the mapping used under this name
+}
+
+function isColumn(value: unknown): value is CsvColumn {
+  return (typeof value === 'string' && value.trim() !== '') || (Number.isInteger(value) && (value as number) >= 0);
+}
+
+/**
+ * Validate a column mapping: the date, a description and either a signed amount or debit and credit columns
+ */
+export function validateCsvMapping(input: unknown, field: string = 'mapping'): FieldError[] {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return [{ field, message: 'must be an object naming columns' }];
+  const mapping = input as Record<string, unknown>;
+
+  const errors: FieldError[] = [];
+  for (const [key, value] of Object.entries(mapping)) {
+    if (!(MAPPING_FIELDS as readonly string[]).includes(key)) errors.push({ field: `${field}.${key}`, message: `is not a mapping field; use: ${MAPPING_FIELDS.join(', ')}` });
+    else if (value !== undefined && !isColumn(value)) errors.push({ field: `${field}.${key}`, message: 'must be a header name or a 0-based column number' });
+  }
+  if (mapping.date === undefined) errors.push({ field: `${field}.date`, message: 'is required' });
+  if (mapping.description === undefined && mapping.payee === undefined) errors.push({ field: `${field}.description`, message: 'is required' });
+  if (mapping.amount === undefined && (mapping.debit === undefined || mapping.credit === undefined)) {
+    errors.push({ field: `${field}.amount`, message: 'is required unless both debit and credit are given' });
+  }
+  return errors;
+}
+
+/**
+ * Validate the reading options shared by import requests and saved mappings
+ */
+function validateCsvOptions(body: Record<string, unknown>, errors: FieldError[]): Omit<CsvOptions, 'mapping'> {
+  const options: Omit<CsvOptions, 'mapping'> = {};
+  if (body.delimiter !== undefined) {
+    const delimiter = body.delimiter === 'tab' ? '\t' : body.delimiter;
+    if (typeof delimiter !== 'string' || delimiter.length !== 1 || /["\r\n]/.test(delimiter)) errors.push({ field: 'delimiter', message: 'must be a single character (or "tab")' });
+    else options.delimiter = delimiter;
+  }
+  if (body.dateOrder !== undefined) {
+    if (!(DATE_ORDERS as readonly unknown[]).includes(body.dateOrder)) errors.push({ field: 'dateOrder', message: `must be one of: ${DATE_ORDERS.join(', ')}` });
+    else options.dateOrder = body.dateOrder as DateOrder;
+  }
+  if (body.decimal !== undefined) {
+    if (body.decimal !== '.' && body.decimal !== ',') errors.push({ field: 'decimal', message: 'must be "." or ","' });
+    else options.decimal = body.decimal;
+  }
+  for (const flag of ['hasHeader', 'invertAmounts'] as const) {
+    if (body[flag] !== undefined) {
+      if (typeof body[flag] !== 'boolean') errors.push({ field: flag, message: 'must be true or false' });
+      else options[flag] = body[flag] as boolean;
+    }
+  }
+  return options;
+}
+
+function validMappingName(value: unknown): string | null {
+  const name = typeof value === 'string' ? value.trim() : '';
+  return name && name.length <= MAX_MAPPING_NAME_LENGTH ? name : null;
+}
+
+/**
+ * Validate POST /api/import/csv: { csv, accountId?, mapping? (object or saved name),
+ * saveMappingAs?, delimiter?, dateOrder?, decimal?, hasHeader?, invertAmounts? }
+ */
+export function validateCsvImportInput(input: unknown): ValidationResult<CsvImportInput> {
+  const body = input && typeof input === 'object' && !Array.isArray(input) ? input as Record<string, unknown> : null;
+  if (!body) return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+
+  const errors: FieldError[] = [];
+  if (typeof body.csv !== 'string' || !body.csv.trim()) errors.push({ field: 'csv', message: 'is required: the file contents as text' });
+  if (body.accountId !== undefined && (typeof body.accountId !== 'string' || !body.accountId.trim())) {
+    errors.push({ field: 'accountId', message: 'must be a non-empty string' });
+  }
+  const options: CsvOptions = validateCsvOptions(body, errors);
+
+  let mappingName: string | undefined;
+  if (typeof body.mapping === 'string') {
+    mappingName = validMappingName(body.mapping) ?? undefined;
+    if (!mappingName) errors.push({ field: 'mapping', message: `must be a saved mapping name of at most ${MAX_MAPPING_NAME_LENGTH} characters` });
+  } else if (body.mapping !== undefined) {
+    const mappingErrors = validateCsvMapping(body.mapping);
+    if (mappingErrors.length > 0) errors.push(...mappingErrors);
+    else options.mapping = body.mapping as CsvMapping;
+  }
+
+  let saveMappingAs: string | undefined;
+  if (body.saveMappingAs !== undefined) {
+    saveMappingAs = validMappingName(body.saveMappingAs) ?? undefined;
+    if (!saveMappingAs) errors.push({ field: 'saveMappingAs', message: `must be a name of at most ${MAX_MAPPING_NAME_LENGTH} characters` });
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+  return {
+    valid: true,
+    value: {
+      csv: body.csv as string,
+      ...(body.accountId !== undefined ? { accountId: (body.accountId as string).trim() } : {}),
+      options,
+      ...(mappingName ? { mappingName } : {}),
+      ...(saveMappingAs ? { saveMappingAs } : {})
+    }
+  };
+}
+
+/**
+ * Validate POST /api/import/mappings: { name, mapping, delimiter?, dateOrder?, decimal?, invertAmounts? }
+ */
+export function validateSavedMappingInput(input: unknown): ValidationResult<Omit<SavedCsvMapping, 'createdAt'>> {
+  const body = input && typeof input === 'object' && !Array.isArray(input) ? input as Record<string, unknown> : null;
+  if (!body) return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+
+  const errors: FieldError[] = [];
+  const name = validMappingName(body.name);
+  if (!name) errors.push({ field: 'name', message: `is required (at most ${MAX_MAPPING_NAME_LENGTH} characters)` });
+  errors.push(...validateCsvMapping(body.mapping));
+  const { hasHeader, ...options } = validateCsvOptions(body, errors);
+
+  if (errors.length > 0) return { valid: false, errors };
+  return { valid: true, value: { name: name!, mapping: body.mapping as CsvMapping, ...options } };
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { isPossibleDuplicate, findPossibleDuplicate, similarDescriptions, shiftDate, duplicatePairIds } from './duplicates';
+import { Transaction } from './transaction';
+
+function tx(id: string, amount: number, description: string, date: string, extra: Partial<Transaction> = {}): Transaction {
+  return { id, amount, description, category: 'food', type: 'expense', date, timestamp: new Date(`${date}T12:00:00`).getTime(), accountId: 'checking', ...extra };
+}
+
+describe('duplicates', () => {
+  it('should shift dates across month and year ends', () => {
+    expect(shiftDate('2026-03-01', -1)).toBe('2026-02-28');
+    expect(shiftDate('2026-12-31', 1)).toBe('2027-01-01');
+  });
+
+  it('should treat spellings of one payee as similar', () => {
+    expect(similarDescriptions({ description: 'Costco run' }, { description: 'COSTCO WHOLESALE #123' })).toBe(true);
+    expect(similarDescriptions({ description: 'Starbucks' }, { description: 'Starbuck' })).toBe(true);
+    expect(similarDescriptions({ description: 'Lunch' }, { description: 'Dinner' })).toBe(false);
+    expect(similarDescriptions({ description: 'A', merchantId: 'm1' }, { description: 'B', merchantId: 'm1' })).toBe(true);
+  });
+
+  it('should require the same type and amount on the same or an adjacent day', () => {
+    const original = tx('a', 12.5, 'Lunch', '2026-05-10');
+    expect(isPossibleDuplicate(original, tx('b', 12.5, 'lunch', '2026-05-11'))).toBe(true);
+    expect(isPossibleDuplicate(original, tx('b', 12.5, 'Lunch', '2026-05-12'))).toBe(false);
+    expect(isPossibleDuplicate(original, tx('b', 12.51, 'Lunch', '2026-05-10'))).toBe(false);
+    expect(isPossibleDuplicate(original, tx('b', 12.5, 'Lunch', '2026-05-10', { type: 'income' }))).toBe(false);
+    expect(isPossibleDuplicate(original, original)).toBe(false);
+  });
+
+  it('should prefer the closest date', () => {
+    const added = tx('new', 5, 'Coffee', '2026-05-10');
+    const match = findPossibleDuplicate(added, [tx('a', 5, 'Coffee', '2026-05-09'), tx('b', 5, 'Coffee', '2026-05-10')]);
+    expect(match?.id).toBe('b');
+    expect(findPossibleDuplicate(added, [tx('c', 5, 'Gas', '2026-05-10')])).toBeNull();
+  });
+
+  it('should order pair ids', () => {
+    expect(duplicatePairIds('b', 'a')).toEqual(['a', 'b']);
+  });
+});
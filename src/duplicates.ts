@@ -0,0 +1,63 @@
+/**
+ * Duplicate Detection
+ * Flags transactions that look like the same purchase entered twice: same type and
+ * amount, a similar description, on the same or an adjacent day.
+ */
+
+import type { Transaction } from './transaction';
+import { merchantKey, similarity } from './merchant';
+
+// How many days apart two entries of one purchase may be dated
+export const DUPLICATE_DATE_WINDOW_DAYS = 1;
+
+// Description keys at least this similar (0..1) name the same payee
+const DESCRIPTION_SIMILARITY = 0.8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A YYYY-MM-DD date moved by a number of days
+ */
+export function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / DAY_MS;
+}
+
+/**
+ * Whether two descriptions name the same payee: the same merchant, or description keys
+ * that are equal, one a leading part of the other, or nearly the same spelling
+ */
+export function similarDescriptions(a: Pick<Transaction, 'description' | 'merchantId'>, b: Pick<Transaction, 'description' | 'merchantId'>): boolean {
+  if (a.merchantId && a.merchantId === b.merchantId) return true;
+  const keyA = merchantKey(a.description) || a.description.trim().toLowerCase();
+  const keyB = merchantKey(b.description) || b.description.trim().toLowerCase();
+  if (keyA === keyB || keyA.startsWith(`${keyB} `) || keyB.startsWith(`${keyA} `)) return true;
+  return similarity(keyA.replace(/ /g, ''), keyB.replace(/ /g, '')) >= DESCRIPTION_SIMILARITY;
+}
+
+export function isPossibleDuplicate(a: Transaction, b: Transaction): boolean {
+  return a.id !== b.id
+    && a.type === b.type
+    && Math.round(a.amount * 100) === Math.round(b.amount * 100)
+    && daysApart(a.date, b.date) <= DUPLICATE_DATE_WINDOW_DAYS
+    && similarDescriptions(a, b);
+}
+
+/**
+ * The candidate `transaction` most likely duplicates (closest date first), or null
+ */
+export function findPossibleDuplicate(transaction: Transaction, candidates: readonly Transaction[]): Transaction | null {
+  return candidates
+    .filter(candidate => isPossibleDuplicate(transaction, candidate))
+    .sort((a, b) => daysApart(a.date, transaction.date) - daysApart(b.date, transaction.date))[0] ?? null;
+}
+
+/**
+ * The two ids of a pair in a fixed order, so a pair is stored and looked up one way
+ */
+export function duplicatePairIds(a: string, b: string): [string, string] {
+  return a < b ? [a, b] : [b, a];
+}
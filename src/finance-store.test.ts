@@ -0,0 +1,484 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FinanceStore } from './finance-store';
+import { createTestState } from './test-support';
+import { createSchema } from './migrations';
+import { Transaction, TransactionType } from './transaction';
+import { decodeCursor } from './transaction-query';
+
+function tx(id: string, amount: number, category: string, type: TransactionType, date: string): Transaction {
+  return { id, amount, description: `${category} ${id}`, category, type, date, timestamp: new Date(`${date}T12:00:00`).getTime(), accountId: 'checking' };
+}
+
+describe('FinanceStore', () => {
+  let state: DurableObjectState;
+  let store: FinanceStore;
+
+  beforeEach(async () => {
+    state = await createTestState();
+    store = new FinanceStore(state.storage);
+    createSchema(store);
+  });
+
+  describe('migrateLegacyBlobs', () => {
+    it('should move legacy key-value blobs into SQL tables', async () => {
+      await state.storage.put('transactions', [tx('a', 10, 'food', 'expense', '2026-01-05')]);
+      await state.storage.put('budgets', { food: 400 });
+      await state.storage.put('goals', [{ id: 'g1', name: 'Trip', target: 1000, current: 50, createdAt: 1 }]);
+      await state.storage.put('conversations', {
+        default: { id: 'default', startTime: 1, lastUpdated: 2, messages: [{ role: 'user', content: 'hi', timestamp: 1 }] }
+      });
+
+      await store.migrateLegacyBlobs();
+
+      expect(store.listTransactions()).toHaveLength(1);
+      expect(store.getBudgets()).toEqual({ food: 400 });
+      expect(store.listGoals()[0].name).toBe('Trip');
+      expect(store.getMessages('default')[0].content).toBe('hi');
+      expect(await state.storage.get('transactions')).toBeUndefined();
+      expect(await state.storage.get('conversations')).toBeUndefined();
+    });
+
+    it('should be a no-op when there are no legacy keys', async () => {
+      await store.migrateLegacyBlobs();
+      expect(store.countTransactions()).toBe(0);
+    });
+  });
+
+  describe('aggregates', () => {
+    beforeEach(() => {
+      store.insertTransactions([
+        tx('1', 3000, 'income', 'income', '2026-02-01'),
+        tx('2', 100, 'food', 'expense', '2026-02-03'),
+        tx('3', 50, 'food', 'expense', '2026-03-04'),
+        tx('4', 900, 'housing', 'expense', '2026-03-01')
+      ]);
+    });
+
+    it('should total amounts by type', () => {
+      expect(store.totalsByType()).toEqual({ income: 3000, expense: 1050 });
+    });
+
+    it('should total expenses by category within a month', () => {
+      expect(store.categoryTotals({ type: 'expense', month: '2026-03' })).toEqual({ food: 50, housing: 900 });
+    });
+
+    it('should page through a filtered query with a cursor', () => {
+      const query = { filter: { type: 'expense' }, sort: 'amount' as const, order: 'desc' as const, limit: 2 };
+      const first = store.queryTransactions(query);
+      expect(first.transactions.map(t => t.id)).toEqual(['4', '2']);
+      expect(first.total).toBe(3);
+
+      const second = store.queryTransactions({ ...query, cursor: decodeCursor(first.nextCursor!, 'amount')! });
+      expect(second.transactions.map(t => t.id)).toEqual(['3']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should list the most recent transactions first when asked', () => {
+      const recent = store.listTransactions({ type: 'expense' }, { newestFirst: true, limit: 2 });
+      expect(recent.map(t => t.id)).toEqual(['3', '4']);
+    });
+  });
+
+  describe('trash', () => {
+    beforeEach(() => {
+      store.insertTransactions([
+        tx('1', 40, 'transportation', 'expense', '2026-03-01'),
+        tx('2', 45, 'transportation', 'expense', '2026-03-08')
+      ]);
+    });
+
+    it('should exclude trashed transactions until they are restored', () => {
+      store.trashTransaction('1', 1000);
+      expect(store.listTransactions().map(t => t.id)).toEqual(['2']);
+      expect(store.totalsByType()).toEqual({ expense: 45 });
+      expect(store.listTrash()).toEqual([expect.objectContaining({ id: '1', deletedAt: 1000 })]);
+
+      expect(store.restoreTransaction('1')?.amount).toBe(40);
+      expect(store.countTransactions()).toBe(2);
+      expect(store.listTrash()).toEqual([]);
+    });
+
+    it('should purge only items trashed up to the cutoff', () => {
+      store.trashTransaction('1', 2000);
+      store.trashTransaction('2', 5000);
+      expect(store.purgeTrash(2000)).toEqual(['1']);
+      expect(store.oldestTrashedAt()).toBe(5000);
+      expect(store.restoreTransaction('1')).toBeNull();
+    });
+  });
+
+  describe('accounts', () => {
+    it('should attach existing transactions to a default checking account', () => {
+      store.insertTransaction(tx('1', 100, 'food', 'expense', '2026-01-05'));
+      state.storage.sql.exec(`UPDATE transactions SET account_id = NULL`);
+
+      store.ensureDefaultAccount();
+
+      expect(store.getAccount('checking')).toMatchObject({ openingBalance: 4250, openingDate: '2026-01-05' });
+      expect(store.getTransaction('1')?.accountId).toBe('checking');
+    });
+
+    it('should open the default account of an empty ledger at zero', () => {
+      store.ensureDefaultAccount();
+
+      expect(store.getAccount('checking')).toMatchObject({ openingBalance: 0, openingDate: '1970-01-01' });
+    });
+
+    it('should compute per-account balances from the opening date onward', () => {
+      store.insertTransactions([
+        { ...tx('1', 3000, 'income', 'income', '2026-02-01'), accountId: 'checking' },
+        { ...tx('2', 80, 'food', 'expense', '2026-02-03'), accountId: 'visa' },
+        { ...tx('3', 999, 'food', 'expense', '2026-01-15'), accountId: 'visa' }
+      ]);
+      store.ensureDefaultAccount();
+      store.saveAccount({ id: 'visa', name: 'Visa', type: 'credit_card', openingBalance: -200, openingDate: '2026-02-01', createdAt: Date.now() + 1 });
+
+      const balances = store.getBalances();
+      expect(balances.accounts.map(a => [a.id, a.balance])).toEqual([['checking', 7250], ['visa', -280]]);
+      expect(balances.total).toBe(6970);
+    });
+
+    it('should move transfers between accounts without counting them in aggregates', () => {
+      store.insertTransaction(tx('1', 100, 'food', 'expense', '2026-02-01'));
+      store.ensureDefaultAccount();
+      store.saveAccount({ id: 'savings', name: 'Savings', type: 'savings', openingBalance: 0, openingDate: '2026-01-01', createdAt: Date.now() + 1 });
+      store.insertTransaction({ ...tx('2', 500, 'transfer', 'transfer', '2026-02-02'), toAccountId: 'savings' });
+
+      expect(store.getBalances().accounts.map(a => [a.id, a.balance])).toEqual([['checking', 3650], ['savings', 500]]);
+      expect(store.totalsByType()).toEqual({ expense: 100 });
+      expect(store.categoryTotals()).toEqual({ food: 100 });
+      expect(store.listTransactions({ accountId: 'savings' }).map(t => t.id)).toEqual(['2']);
+    });
+  });
+
+  describe('categories', () => {
+    beforeEach(() => {
+      store.insertTransactions([
+        tx('1', 12, 'food', 'expense', '2026-03-01'),
+        tx('2', 30, 'dining', 'expense', '2026-03-02')
+      ]);
+      store.setBudget('food', 400);
+      store.setBudget('dining', 100);
+      store.ensureDefaultCategories();
+    });
+
+    it('should seed defaults plus categories already in use', () => {
+      expect(store.listCategories().map(c => c.id)).toEqual(['food', 'transportation', 'housing', 'entertainment', 'shopping', 'healthcare', 'income', 'other', 'dining']);
+      expect(store.getCategory('food')).toMatchObject({ name: 'Food', defaultBudget: 500 });
+    });
+
+    it('should rewrite transactions and budgets on rename', () => {
+      store.renameCategory('food', { ...store.getCategory('food')!, id: 'groceries', name: 'Groceries' });
+      expect(store.getCategory('food')).toBeNull();
+      expect(store.getTransaction('1')?.category).toBe('groceries');
+      expect(store.getBudgets()).toEqual({ dining: 100, groceries: 400 });
+    });
+
+    it('should merge transactions and budgets into the target', () => {
+      expect(store.mergeCategory('dining', 'food')).toBe(1);
+      expect(store.categoryTotals()).toEqual({ food: 42 });
+      expect(store.getBudgets()).toEqual({ food: 500 });
+      expect(store.getCategory('dining')).toBeNull();
+    });
+
+    it('should roll subcategory spending up into the parent', () => {
+      store.saveCategory({ ...store.getCategory('dining')!, parentId: 'food' });
+      expect(store.categoryTotals()).toEqual({ food: 12, dining: 30 });
+      expect(store.categoryTotals({}, { rollUp: true })).toEqual({ food: 42 });
+      expect(store.listTransactions({ category: 'food' }).map(t => t.id)).toEqual(['1', '2']);
+    });
+
+    it('should promote a child when its parent is merged into it', () => {
+      store.saveCategory({ ...store.getCategory('dining')!, parentId: 'food' });
+      store.saveCategory({ ...store.getCategory('dining')!, id: 'snacks', name: 'Snacks' });
+      store.mergeCategory('food', 'dining');
+      expect(store.getCategory('dining')?.parentId).toBeNull();
+      expect(store.getCategory('snacks')?.parentId).toBe('dining');
+    });
+
+    it('should hide archived categories unless asked', () => {
+      store.saveCategory({ ...store.getCategory('dining')!, archived: true });
+      expect(store.listCategories().map(c => c.id)).not.toContain('dining');
+      expect(store.listCategories(true).map(c => c.id)).toContain('dining');
+    });
+  });
+
+  describe('splits', () => {
+    beforeEach(() => {
+      store.insertTransactions([
+        {
+          ...tx('1', 100, 'food', 'expense', '2026-03-01'),
+          splits: [{ amount: 70, category: 'food' }, { amount: 30, category: 'shopping', note: 'towels' }]
+        },
+        tx('2', 20, 'shopping', 'expense', '2026-03-02')
+      ]);
+    });
+
+    it('should count each split line in its own category', () => {
+      expect(store.categoryTotals()).toEqual({ food: 70, shopping: 50 });
+      expect(store.categoryTotals({ category: 'shopping' })).toEqual({ shopping: 50 });
+      expect(store.totalsByType()).toEqual({ expense: 120 });
+    });
+
+    it('should match a split transaction by any of its line categories', () => {
+      expect(store.listTransactions({ category: 'shopping' }).map(t => t.id)).toEqual(['1', '2']);
+      expect(store.getTransaction('1')?.splits).toEqual([{ amount: 70, category: 'food' }, { amount: 30, category: 'shopping', note: 'towels' }]);
+    });
+
+    it('should keep split lines through trash and restore', () => {
+      store.trashTransaction('1', 1000);
+      expect(store.categoryTotals()).toEqual({ shopping: 20 });
+      expect(store.restoreTransaction('1')?.splits).toHaveLength(2);
+      expect(store.categoryTotals()).toEqual({ food: 70, shopping: 50 });
+    });
+  });
+
+  describe('tags', () => {
+    beforeEach(() => {
+      store.insertTransactions([
+        { ...tx('1', 400, 'housing', 'expense', '2026-05-02'), tags: ['lisbon-trip'] },
+        { ...tx('2', 85, 'food', 'expense', '2026-05-03'), tags: ['lisbon-trip', 'reimbursable'] },
+        { ...tx('3', 60, 'food', 'expense', '2026-05-10'), tags: ['reimbursable'] },
+        tx('4', 20, 'food', 'expense', '2026-05-11')
+      ]);
+    });
+
+    it('should filter by every given tag and report spending per tag', () => {
+      expect(store.listTransactions({ tags: ['lisbon-trip'] }).map(t => t.id)).toEqual(['1', '2']);
+      expect(store.listTransactions({ tags: ['lisbon-trip', 'reimbursable'] }).map(t => t.id)).toEqual(['2']);
+      expect(store.categoryTotals({ tags: ['lisbon-trip'] })).toEqual({ housing: 400, food: 85 });
+      expect(store.tagSummaries()).toEqual([
+        { tag: 'lisbon-trip', count: 2, spent: 485, income: 0, firstDate: '2026-05-02', lastDate: '2026-05-03' },
+        { tag: 'reimbursable', count: 2, spent: 145, income: 0, firstDate: '2026-05-03', lastDate: '2026-05-10' }
+      ]);
+    });
+
+    it('should merge tags on rename and remove them on delete', () => {
+      expect(store.renameTag('reimbursable', 'lisbon-trip')).toBe(2);
+      expect(store.listTags().map(t => [t.name, t.count])).toEqual([['lisbon-trip', 3]]);
+      expect(store.getTransaction('2')?.tags).toEqual(['lisbon-trip']);
+
+      expect(store.deleteTag('lisbon-trip')).toBe(3);
+      expect(store.getTransaction('2')?.tags).toBeUndefined();
+    });
+
+    it('should keep tags through trash and restore', () => {
+      store.trashTransaction('2', 1000);
+      expect(store.getTag('lisbon-trip')?.count).toBe(1);
+      expect(store.restoreTransaction('2')?.tags).toEqual(['lisbon-trip', 'reimbursable']);
+    });
+  });
+
+  describe('merchants', () => {
+    beforeEach(() => {
+      store.insertTransactions([
+        tx('1', 40, 'transportation', 'expense', '2026-03-01'),
+        { ...tx('2', 45, 'transportation', 'expense', '2026-03-11'), description: 'Gas fill-up' },
+        { ...tx('3', 120, 'food', 'expense', '2026-03-02'), description: 'COSTCO WHOLESALE #123' },
+        { ...tx('4', 80, 'food', 'expense', '2026-03-16'), description: 'Costco run' }
+      ]);
+    });
+
+    it('should link spellings of one payee to a single merchant', () => {
+      expect(store.listMerchants().map(m => m.name)).toEqual(['Costco', 'Gas', 'Transportation']);
+      expect(store.getTransaction('4')?.merchantId).toBe('costco');
+      expect(store.listTransactions({ merchantId: 'costco' }).map(t => t.id)).toEqual(['3', '4']);
+    });
+
+    it('should report totals, visits, average ticket and days between visits', () => {
+      expect(store.merchantStats()[0]).toEqual({
+        merchantId: 'costco', name: 'Costco', count: 2, total: 200, averageTicket: 100,
+        firstDate: '2026-03-02', lastDate: '2026-03-16', averageDaysBetween: 14
+      });
+    });
+
+    it('should move transactions and aliases on merge', () => {
+      expect(store.mergeMerchant('transportation', 'gas')).toBe(1);
+      expect(store.getMerchant('gas')?.aliases).toEqual(['transportation']);
+      expect(store.findMerchant('Transportation 9')?.id).toBe('gas');
+      expect(store.merchantStats().find(s => s.merchantId === 'gas')?.count).toBe(2);
+    });
+  });
+
+  describe('attachments', () => {
+    const receipt = (id: string, transactionId: string | null, createdAt: number) => ({
+      id, transactionId, filename: `${id}.jpg`, contentType: 'image/jpeg', size: 100, hasThumbnail: true, source: 'scan' as const, createdAt
+    });
+
+    it('should list attachment ids with their transaction', () => {
+      store.insertTransaction(tx('1', 40, 'food', 'expense', '2026-03-01'));
+      store.saveAttachment(receipt('r2', '1', 2));
+      store.saveAttachment(receipt('r1', '1', 1));
+
+      expect(store.getTransaction('1')?.attachmentIds).toEqual(['r1', 'r2']);
+      expect(store.getAttachment('r1')).toEqual(receipt('r1', '1', 1));
+      store.deleteAttachments(['r1']);
+      expect(store.listAttachments(['1']).map(a => a.id)).toEqual(['r2']);
+    });
+
+    it('should find scanned receipts never linked to a transaction', () => {
+      store.saveAttachment(receipt('old', null, 1000));
+      store.saveAttachment(receipt('new', null, 5000));
+      store.saveAttachment(receipt('linked', '1', 10));
+
+      expect(store.oldestPendingAttachmentAt()).toBe(1000);
+      expect(store.listPendingAttachments(2000).map(a => a.id)).toEqual(['old']);
+    });
+  });
+
+  describe('idempotency keys', () => {
+    it('should return a recorded result until it expires', () => {
+      store.saveIdempotencyRecord({ key: 'api:k1', fingerprint: 'f', response: { success: true }, createdAt: 1000 }, 0);
+
+      expect(store.getIdempotencyRecord('api:k1', 500)).toEqual({ key: 'api:k1', fingerprint: 'f', response: { success: true }, createdAt: 1000 });
+      expect(store.getIdempotencyRecord('api:k1', 2000)).toBeNull();
+
+      store.saveIdempotencyRecord({ key: 'api:k2', fingerprint: 'g', response: {}, createdAt: 3000 }, 2000);
+      expect(store.getIdempotencyRecord('api:k1', 0)).toBeNull();
+    });
+  });
+
+  describe('duplicates', () => {
+    it('should pair same-amount transactions on adjacent days until dismissed', () => {
+      store.insertTransaction(tx('a', 12, 'food', 'expense', '2026-03-01'));
+      store.insertTransaction(tx('b', 12, 'food', 'expense', '2026-03-02'));
+      store.insertTransaction(tx('c', 12, 'food', 'expense', '2026-03-05'));
+      store.insertTransaction(tx('d', 12, 'salary', 'income', '2026-03-01'));
+
+      expect(store.sameAmountPairs(1)).toEqual([['a', 'b']]);
+      expect(store.sameAmountPairs(1, { from: '2026-03-02' })).toEqual([]);
+
+      store.dismissDuplicatePair(['a', 'b'], 1);
+      expect(store.sameAmountPairs(1)).toEqual([]);
+    });
+  });
+
+  describe('audit log', () => {
+    const entry = (entityId: string, timestamp: number) => ({
+      timestamp, actor: 'user' as const, entity: 'budget' as const, entityId, action: 'create' as const, before: null, after: { category: entityId, amount: 100 }
+    });
+
+    it('should page newest first and link reverts to their entries', () => {
+      const [first] = store.appendAudit([entry('food', 1), entry('fun', 2), entry('rent', 3)]);
+      store.appendAudit([{ ...entry('food', 4), action: 'delete', before: first.after, after: null, revertOf: first.id }]);
+
+      const page = store.listAudit({ limit: 3 });
+      expect(page.entries.map(e => e.entityId)).toEqual(['food', 'rent', 'fun']);
+      expect(store.listAudit({ limit: 3, before: page.nextBefore! }).entries).toHaveLength(1);
+      expect(store.getAuditEntry(first.id)?.revertedBy).toBe(first.id + 3);
+      expect(store.listAudit({ limit: 10, entityId: 'food', action: 'delete' }).entries[0].revertOf).toBe(first.id);
+    });
+
+    it('should redact the snapshots of purged entities only', () => {
+      const [food, fun] = store.appendAudit([entry('food', 1), entry('fun', 2)]);
+      store.redactAudit([{ entity: 'budget', id: 'food' }, { entity: 'goal', id: 'fun' }]);
+      expect(store.getAuditEntry(food.id)).toMatchObject({ action: 'create', before: null, after: null, redacted: true });
+      expect(store.getAuditEntry(fun.id)).toEqual(fun);
+    });
+
+    it('should write a transaction back into the trash or the ledger', () => {
+      store.insertTransaction({ ...tx('1', 40, 'food', 'expense', '2026-03-01'), tags: ['trip'] });
+      const live = store.getTransaction('1')!;
+      const trashed = store.trashTransaction('1', 500)!;
+
+      store.writeTransactionState('1', live);
+      expect(store.getTransaction('1')?.tags).toEqual(['trip']);
+      expect(store.listTrash()).toEqual([]);
+
+      store.writeTransactionState('1', trashed);
+      expect(store.getTrashedTransaction('1')?.deletedAt).toBe(500);
+      store.writeTransactionState('1', null);
+      expect(store.getTrashedTransaction('1')).toBeNull();
+      expect(store.transactionIdsUsing({ tag: 'trip' })).toEqual([]);
+    });
+  });
+
+  describe('budgets', () => {
+    it('should return the previous budget amount when updating', () => {
+      expect(store.setBudget('food', 300)).toBe(0);
+      expect(store.setBudget('food', 450)).toBe(300);
+      expect(store.getBudgets()).toEqual({ food: 450 });
+    });
+
+    it('should keep personal budgets apart per member and follow category merges', () => {
+      store.ensureDefaultCategories();
+      store.setPersonalBudget('alice', 'food', 200);
+      store.setPersonalBudget('alice', 'entertainment', 50);
+      store.setPersonalBudget('bob', 'food', 80);
+      expect(store.getPersonalBudgets('bob')).toEqual({ food: 80 });
+      expect(store.getBudgets()).toEqual({});
+
+      store.mergeCategory('entertainment', 'food');
+      expect(store.getPersonalBudgets('alice')).toEqual({ food: 250 });
+      expect(store.personalBudgetMembers('food').sort()).toEqual(['alice', 'bob']);
+    });
+  });
+
+  describe('household members', () => {
+    it('should total spending per member who recorded it', () => {
+      store.insertTransactions([
+        { ...tx('1', 40, 'food', 'expense', '2025-03-01'), createdBy: 'alice' },
+        { ...tx('2', 60, 'food', 'expense', '2025-03-02'), createdBy: 'bob' },
+        { ...tx('3', 25, 'shopping', 'expense', '2025-03-03'), createdBy: 'alice' },
+        { ...tx('4', 1000, 'income', 'income', '2025-03-04'), createdBy: 'alice' },
+        tx('5', 10, 'food', 'expense', '2025-03-05')
+      ]);
+
+      expect(store.memberTotals()).toEqual([
+        { memberId: 'alice', income: 1000, expenses: 65, count: 3 },
+        { memberId: 'bob', income: 0, expenses: 60, count: 1 },
+        { memberId: null, income: 0, expenses: 10, count: 1 }
+      ]);
+      expect(store.memberTotals({ category: 'food' }).map(m => [m.memberId, m.expenses])).toEqual([['bob', 60], ['alice', 40], [null, 10]]);
+      expect(store.categoryTotals({ type: 'expense', createdBy: 'alice' })).toEqual({ food: 40, shopping: 25 });
+    });
+
+    it('should keep who recorded a transaction through the trash', () => {
+      store.insertTransaction({ ...tx('1', 40, 'food', 'expense', '2025-03-01'), createdBy: 'alice' });
+      store.trashTransaction('1');
+      expect(store.getTrashedTransaction('1')?.createdBy).toBe('alice');
+      expect(store.restoreTransaction('1')?.createdBy).toBe('alice');
+    });
+  });
+
+  describe('conversations', () => {
+    it('should keep only the most recent 50 messages', () => {
+      for (let i = 0; i < 60; i++) {
+        store.appendMessage('default', { role: 'user', content: `message ${i}`, timestamp: i });
+      }
+      const messages = store.getMessages('default');
+      expect(messages).toHaveLength(50);
+      expect(messages[0].content).toBe('message 10');
+    });
+  });
+
+  describe('backup', () => {
+    it('should merge only rows not stored yet, with their own splits, tags and messages', async () => {
+      store.insertTransaction({ ...tx('a', 10, 'food', 'expense', '2026-01-05'), tags: ['mine'] });
+      store.appendMessage('default', { role: 'user', content: 'kept', timestamp: 1 });
+      store.appendAudit([{ timestamp: 1, actor: 'user', entity: 'budget', entityId: 'food', action: 'create', before: null, after: 100 }]);
+
+      const other = new FinanceStore((await createTestState('other')).storage);
+      createSchema(other);
+      other.insertTransaction({ ...tx('a', 99, 'food', 'expense', '2026-01-05'), tags: ['theirs'] });
+      other.insertTransaction({ ...tx('b', 20, 'food', 'expense', '2026-01-06'), tags: ['theirs'] });
+      other.appendMessage('default', { role: 'user', content: 'theirs', timestamp: 2 });
+      other.appendMessage('trip', { role: 'user', content: 'packing list', timestamp: 3 });
+      other.appendAudit([{ timestamp: 2, actor: 'user', entity: 'budget', entityId: 'food', action: 'create', before: null, after: 200 }]);
+
+      const added = store.restoreTables(other.backupTables(), 'merge');
+      expect(added).toMatchObject({ transactions: 1, transaction_tags: 1, conversations: 1, conversation_messages: 1 });
+      expect(added.audit_log).toBeUndefined();
+      expect(store.getTransaction('a')).toMatchObject({ amount: 10, tags: ['mine'] });
+      expect(store.getTransaction('b')).toMatchObject({ amount: 20, tags: ['theirs'] });
+      expect(store.getMessages('default').map(m => m.content)).toEqual(['kept']);
+      expect(store.getMessages('trip').map(m => m.content)).toEqual(['packing list']);
+      expect(store.listAudit({ limit: 10 }).entries).toHaveLength(1);
+
+      store.restoreTables(other.backupTables(), 'replace');
+      expect(store.getTransaction('a')).toMatchObject({ amount: 99, tags: ['theirs'] });
+      expect(store.getMessages('default').map(m => m.content)).toEqual(['theirs']);
+      expect(store.listAudit({ limit: 10 }).entries.map(e => e.after)).toEqual([200]);
+    });
+  });
+});
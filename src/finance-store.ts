@@ -0,0 +1,1911 @@
+/**
+ * Finance Store
+ * SQLite-backed storage layer for the FinanceAgent Durable Object.
+ * Transactions, accounts, categories, tags, merchants, attachments, budgets (shared and personal), goals,
+ * conversations, the audit log, idempotency keys and statement imports live in SQL tables so handlers can query and update single rows instead of rewriting whole blobs.
+ */
+
+import { Transaction, TransactionSplit, TransactionType, isValidISODate, timestampForDate } from './transaction';
+import { Account, AccountType, Balances, DEFAULT_ACCOUNT_ID, DEFAULT_ACCOUNT_NAME, DEFAULT_OPENING_BALANCE, EMPTY_LEDGER_OPENING_DATE } from './account';
+import { Category, CategoryKind, DEFAULT_CATEGORIES } from './category';
+import { Tag, TagSummary } from './tag';
+import { Merchant, MerchantStats, matchMerchant, merchantKey, merchantIdFromKey, merchantNameFromKey } from './merchant';
+import { Attachment, AttachmentSource } from './attachment';
+import { AuditActor, AuditAction, AuditEntity, AuditEntry, AuditQuery, AuditRef, NewAuditEntry } from './audit';
+import { IdempotencyRecord } from './idempotency';
+import { TransactionQuery, TransactionPage, SORT_KEYS, encodeCursor } from './transaction-query';
+import { ImportFormat, PendingImport, StatementBalance } from './import';
+import { SavedCsvMapping } from './csv-import';
+import { RestoreMode, TableRow, TableSchema } from './backup';
+
+export interface TransactionFilter {
+  from?: string;      // inclusive YYYY-MM-DD
+  to?: string;        // inclusive YYYY-MM-DD
+  month?: string;     // YYYY-MM
+  type?: string;
+  category?: string;
+  accountId?: string;
+  search?: string;    // case-insensitive substring of the description
+  merchant?: string;  // case-insensitive prefix of the description (for payees not in the merchant registry)
+  merchantId?: string;
+  minAmount?: number; // inclusive
+  maxAmount?: number; // inclusive
+  tags?: string[];    // transactions carrying every one of these tags
+  createdBy?: string; // recorded by this household member
+}
+
+export interface AggregateOptions {
+  rollUp?: boolean;   // report subcategory amounts under their parent category
+}
+
+// Category reports read one row per split line (or per unsplit transaction), shaped like
+// the transactions table so the usual filters apply; the alias keeps column references valid
+const CATEGORY_LINES = `(
+  SELECT t.id, t.amount, t.description, t.category, t.type, t.date, t.timestamp, t.account_id, t.to_account_id, t.merchant_id, t.created_by
+  FROM transactions t
+  WHERE NOT EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)
+  UNION ALL
+  SELECT t.id, s.amount, t.description, s.category, t.type, t.date, t.timestamp, t.account_id, t.to_account_id, t.merchant_id, t.created_by
+  FROM transactions t JOIN transaction_splits s ON s.transaction_id = t.id
+) AS transactions`;
+
+// A transaction's top-level category: its category's parent, or the category itself
+const ROLLED_UP_CATEGORY = `COALESCE((SELECT parent_id FROM categories WHERE categories.id = transactions.category), transactions.category)`;
+
+export interface ListOptions {
+  newestFirst?: boolean;
+  limit?: number;
+}
+
+export interface TrashedTransaction extends Transaction {
+  deletedAt: number;
+}
+
+export interface Goal {
+  id: string;
+  name: string;
+  target: number;
+  current: number;
+  deadline?: string;
+  createdAt: number;
+  memberId?: string;  // a member's personal goal; shared when absent
+}
+
+export interface MemberTotals {
+  memberId: string | null;  // null for transactions from before household members were recorded
+  income: number;
+  expenses: number;
+  count: number;
+}
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: number;
+}
+
+export interface Conversation {
+  id: string;
+  messages: ConversationMessage[];
+  startTime: number;
+  lastUpdated: number;
+}
+
+// Conversations keep only their most recent messages to prevent memory bloat
+const MAX_CONVERSATION_MESSAGES = 50;
+
+// Tables and indexes of schema version 1; later migrations add their own
+const INITIAL_TABLES = [
+  `CREATE TABLE IF NOT EXISTS transactions (
+    id TEXT PRIMARY KEY,
+    amount REAL NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    category TEXT NOT NULL DEFAULT 'other',
+    type TEXT NOT NULL,
+    date TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    account_id TEXT,
+    to_account_id TEXT,
+    merchant_id TEXT
+  )`,
+  `CREATE TABLE IF NOT EXISTS transaction_trash (
+    id TEXT PRIMARY KEY,
+    amount REAL NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    category TEXT NOT NULL DEFAULT 'other',
+    type TEXT NOT NULL,
+    date TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    account_id TEXT,
+    to_account_id TEXT,
+    merchant_id TEXT,
+    deleted_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS transaction_splits (
+    transaction_id TEXT NOT NULL,
+    line INTEGER NOT NULL,
+    amount REAL NOT NULL,
+    category TEXT NOT NULL,
+    note TEXT,
+    PRIMARY KEY (transaction_id, line)
+  )`,
+  `CREATE TABLE IF NOT EXISTS transaction_tags (
+    transaction_id TEXT NOT NULL,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (transaction_id, tag)
+  )`,
+  `CREATE TABLE IF NOT EXISTS tags (
+    name TEXT PRIMARY KEY,
+    created_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS accounts (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    opening_balance REAL NOT NULL DEFAULT 0,
+    opening_date TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS categories (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'expense',
+    color TEXT NOT NULL,
+    icon TEXT NOT NULL,
+    archived INTEGER NOT NULL DEFAULT 0,
+    default_budget REAL,
+    keywords TEXT NOT NULL DEFAULT '[]',
+    parent_id TEXT,
+    created_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS merchants (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    aliases TEXT NOT NULL DEFAULT '[]',
+    created_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS attachments (
+    id TEXT PRIMARY KEY,
+    transaction_id TEXT,
+    filename TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    has_thumbnail INTEGER NOT NULL DEFAULT 0,
+    source TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS budgets (
+    category TEXT PRIMARY KEY,
+    amount REAL NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS goals (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    target REAL NOT NULL DEFAULT 0,
+    current REAL NOT NULL DEFAULT 0,
+    deadline TEXT,
+    created_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS conversations (
+    id TEXT PRIMARY KEY,
+    start_time INTEGER NOT NULL,
+    last_updated INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS conversation_messages (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    conversation_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS audit_log (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    actor TEXT NOT NULL,
+    entity TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    before TEXT,
+    after TEXT,
+    batch_id TEXT,
+    revert_of INTEGER
+  )`
+];
+
+const INITIAL_INDEXES = [
+  `CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions (date)`,
+  `CREATE INDEX IF NOT EXISTS idx_transactions_category ON transactions (category, date)`,
+  `CREATE INDEX IF NOT EXISTS idx_transaction_trash_deleted ON transaction_trash (deleted_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_transaction_splits_category ON transaction_splits (category)`,
+  `CREATE INDEX IF NOT EXISTS idx_transaction_tags_tag ON transaction_tags (tag)`,
+  `CREATE INDEX IF NOT EXISTS idx_attachments_transaction ON attachments (transaction_id, created_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_conversation_messages ON conversation_messages (conversation_id, seq)`,
+  `CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log (entity, entity_id, seq)`
+];
+
+// The store's tables, parents before the rows that belong to them
+const TABLES = [
+  'transactions', 'transaction_trash', 'transaction_splits', 'transaction_tags', 'tags', 'accounts', 'categories',
+  'merchants', 'attachments', 'budgets', 'personal_budgets', 'goals', 'conversations', 'conversation_messages',
+  'audit_log', 'idempotency_keys', 'duplicate_dismissals', 'pending_imports', 'import_mappings', 'statement_balances'
+];
+
+// Rows merged from a backup that belong to a row of another table come along only with
+// a parent the merge added, so an existing transaction or conversation is left as it is
+const MERGE_CHILDREN: Record<string, { column: string; parents: string[] }> = {
+  transaction_splits: { column: 'transaction_id', parents: ['transactions', 'transaction_trash'] },
+  transaction_tags: { column: 'transaction_id', parents: ['transactions', 'transaction_trash'] },
+  conversation_messages: { column: 'conversation_id', parents: ['conversations'] }
+};
+
+/**
+ * A column a migration adds to an existing table
+ */
+export interface ColumnChange {
+  table: string;
+  column: string;
+  definition: string;
+}
+
+/**
+ * What a migration changes in the schema, applied in this order so an index can cover a
+ * column added with it. Tables and indexes are CREATE ... IF NOT EXISTS and columns are
+ * added where missing, so a change can be applied again safely.
+ */
+export interface SchemaChange {
+  tables?: string[];
+  columns?: ColumnChange[];
+  indexes?: string[];
+}
+
+// Columns added before storage was versioned; CREATE TABLE IF NOT EXISTS won't add them
+const ADDED_COLUMNS: ColumnChange[] = [
+  { table: 'transactions', column: 'account_id', definition: 'TEXT' },
+  { table: 'transaction_trash', column: 'account_id', definition: 'TEXT' },
+  { table: 'transactions', column: 'to_account_id', definition: 'TEXT' },
+  { table: 'transaction_trash', column: 'to_account_id', definition: 'TEXT' },
+  { table: 'categories', column: 'parent_id', definition: 'TEXT' },
+  { table: 'transactions', column: 'merchant_id', definition: 'TEXT' },
+  { table: 'transaction_trash', column: 'merchant_id', definition: 'TEXT' }
+];
+
+// Schema version 1, as the first migration creates it
+export const INITIAL_SCHEMA: SchemaChange = {
+  tables: INITIAL_TABLES,
+  columns: ADDED_COLUMNS,
+  indexes: [
+    ...INITIAL_INDEXES,
+    `CREATE INDEX IF NOT EXISTS idx_transactions_account ON transactions (account_id, date)`,
+    `CREATE INDEX IF NOT EXISTS idx_transactions_merchant ON transactions (merchant_id, date)`
+  ]
+};
+
+export class FinanceStore {
+  private storage: DurableObjectStorage;
+  private sql: SqlStorage;
+
+  constructor(storage: DurableObjectStorage) {
+    this.storage = storage;
+    this.sql = storage.sql;
+  }
+
+  /**
+   * Apply a migration's schema change in one transaction: its tables, the columns it
+   * adds where missing, then its indexes
+   */
+  applySchema(change: SchemaChange): void {
+    this.storage.transactionSync(() => {
+      for (const statement of change.tables ?? []) {
+        this.sql.exec(statement);
+      }
+      for (const { table, column, definition } of change.columns ?? []) {
+        const columns = this.sql.exec(`PRAGMA table_info(${table})`).toArray().map(row => String(row.name));
+        if (!columns.includes(column)) {
+          this.sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        }
+      }
+      for (const statement of change.indexes ?? []) {
+        this.sql.exec(statement);
+      }
+    });
+  }
+
+  /**
+   * One-time migration from the legacy key-value blobs
+   * ('transactions', 'budgets', 'goals', 'conversations') into SQL tables.
+   * Each key is deleted once its contents have been copied.
+   */
+  async migrateLegacyBlobs(): Promise<void> {
+    const transactions = await this.storage.get('transactions') as any[] | undefined;
+    if (Array.isArray(transactions)) {
+      this.insertTransactions(transactions.map(t => ({
+        id: String(t.id ?? crypto.randomUUID()),
+        amount: Number(t.amount) || 0,
+        description: String(t.description ?? ''),
+        category: String(t.category ?? 'other'),
+        type: (t.type ?? 'expense') as TransactionType,
+        date: String(t.date ?? new Date(t.timestamp ?? Date.now()).toISOString().slice(0, 10)),
+        timestamp: Number(t.timestamp) || new Date(`${t.date}T12:00:00`).getTime() || Date.now(),
+        accountId: DEFAULT_ACCOUNT_ID
+      })));
+    }
+    if (transactions !== undefined) await this.storage.delete('transactions');
+
+    const budgets = await this.storage.get('budgets') as Record<string, number> | undefined;
+    if (budgets && typeof budgets === 'object') {
+      for (const [category, amount] of Object.entries(budgets)) {
+        this.setBudget(category, Number(amount) || 0);
+      }
+    }
+    if (budgets !== undefined) await this.storage.delete('budgets');
+
+    const goals = await this.storage.get('goals') as any[] | undefined;
+    if (Array.isArray(goals)) {
+      goals.forEach(g => this.saveGoal(g));
+    }
+    if (goals !== undefined) await this.storage.delete('goals');
+
+    const conversations = await this.storage.get('conversations') as Record<string, Conversation> | undefined;
+    if (conversations && typeof conversations === 'object') {
+      this.storage.transactionSync(() => {
+        for (const conversation of Object.values(conversations)) {
+          this.sql.exec(
+            `INSERT OR REPLACE INTO conversations (id, start_time, last_updated) VALUES (?, ?, ?)`,
+            conversation.id, conversation.startTime || Date.now(), conversation.lastUpdated || Date.now()
+          );
+          for (const message of conversation.messages || []) {
+            this.sql.exec(
+              `INSERT INTO conversation_messages (conversation_id, role, content, timestamp) VALUES (?, ?, ?, ?)`,
+              conversation.id, message.role, message.content, message.timestamp || Date.now()
+            );
+          }
+        }
+      });
+    }
+    if (conversations !== undefined) await this.storage.delete('conversations');
+  }
+
+  /**
+   * Give every transaction (live or trashed) a valid date and timestamp, deriving whichever
+   * is missing from the other. Rows where both are unusable are left alone. Returns how many were fixed.
+   */
+  repairTransactionDates(): number {
+    let repaired = 0;
+    this.storage.transactionSync(() => {
+      for (const table of ['transactions', 'transaction_trash']) {
+        const rows = this.sql
+          .exec(`SELECT id, date, timestamp FROM ${table} WHERE timestamp IS NULL OR timestamp <= 0 OR date NOT GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]'`)
+          .toArray();
+        for (const row of rows) {
+          const date = String(row.date ?? '');
+          const timestamp = Number(row.timestamp);
+          if (isValidISODate(date)) {
+            this.sql.exec(`UPDATE ${table} SET timestamp = ? WHERE id = ?`, timestampForDate(date), row.id);
+          } else if (timestamp > 0) {
+            this.sql.exec(`UPDATE ${table} SET date = ? WHERE id = ?`, new Date(timestamp).toISOString().slice(0, 10), row.id);
+          } else {
+            continue;
+          }
+          repaired++;
+        }
+      }
+    });
+    return repaired;
+  }
+
+  // ========== TRANSACTIONS ==========
+
+  /**
+   * Insert a transaction. One without a merchantId is linked to the merchant its description names.
+   */
+  insertTransaction(transaction: Transaction): void {
+    const merchantId = transaction.merchantId
+      ?? (transaction.type === 'transfer' ? null : this.merchantFor(transaction.description)?.id ?? null);
+    this.sql.exec(
+      `INSERT INTO transactions (id, amount, description, category, type, date, timestamp, account_id, to_account_id, merchant_id, created_by, external_id, bank_details)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      transaction.id, transaction.amount, transaction.description, transaction.category,
+      transaction.type, transaction.date, transaction.timestamp, transaction.accountId, transaction.toAccountId ?? null, merchantId,
+      transaction.createdBy ?? null, transaction.externalId ?? null, transaction.bankDetails ? JSON.stringify(transaction.bankDetails) : null
+    );
+    this.saveSplits(transaction.id, transaction.splits);
+    this.saveTransactionTags(transaction.id, transaction.tags);
+  }
+
+  insertTransactions(transactions: Transaction[]): void {
+    this.storage.transactionSync(() => {
+      transactions.forEach(t => this.insertTransaction(t));
+    });
+  }
+
+  getTransaction(id: string): Transaction | null {
+    const rows = this.sql.exec(`SELECT * FROM transactions WHERE id = ?`, id).toArray();
+    return rows.length > 0 ? this.withDetails([toTransaction(rows[0])])[0] : null;
+  }
+
+  /**
+   * List transactions matching a filter, oldest first unless `newestFirst` is set
+   */
+  listTransactions(filter: TransactionFilter = {}, options: ListOptions = {}): Transaction[] {
+    const { where, bindings } = buildWhere(filter);
+    const direction = options.newestFirst ? 'DESC' : 'ASC';
+    const limit = options.limit !== undefined ? `LIMIT ${Math.max(0, Math.floor(options.limit))}` : '';
+    const transactions = this.sql
+      .exec(`SELECT * FROM transactions ${where} ORDER BY date ${direction}, timestamp ${direction} ${limit}`, ...bindings)
+      .toArray()
+      .map(toTransaction);
+    return this.withDetails(transactions);
+  }
+
+  /**
+   * One page of transactions in keyset order, plus the total matching the filter
+   */
+  queryTransactions(query: TransactionQuery): TransactionPage<Transaction> {
+    const { clauses, bindings } = buildWhere(query.filter);
+    const keys = SORT_KEYS[query.sort];
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+
+    const pageBindings = [...bindings];
+    if (query.cursor) {
+      clauses.push(`(${keys.join(', ')}) ${query.order === 'asc' ? '>' : '<'} (${keys.map(() => '?').join(', ')})`);
+      pageBindings.push(...query.cursor);
+    }
+
+    // Fetch one extra row to learn whether another page exists
+    const rows = this.sql
+      .exec(
+        `SELECT * FROM transactions
+         ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''}
+         ORDER BY ${keys.map(k => `${k} ${direction}`).join(', ')}
+         LIMIT ?`,
+        ...pageBindings, query.limit + 1
+      )
+      .toArray()
+      .map(toTransaction);
+
+    const transactions = this.withDetails(rows.slice(0, query.limit));
+    const last = transactions[transactions.length - 1];
+
+    return {
+      transactions,
+      total: this.countTransactions(query.filter),
+      nextCursor: rows.length > query.limit && last
+        ? encodeCursor(keys.map(k => last[k]))
+        : null
+    };
+  }
+
+  /**
+   * Case-insensitive substring search on the description, oldest first
+   */
+  findTransactionsByDescription(text: string, filter: TransactionFilter = {}): Transaction[] {
+    return this.listTransactions({ ...filter, search: text });
+  }
+
+  /**
+   * Atomically replace every transaction (used when reseeding sample data)
+   */
+  replaceTransactions(transactions: Transaction[]): void {
+    this.storage.transactionSync(() => {
+      this.sql.exec(`DELETE FROM transactions`);
+      this.sql.exec(`DELETE FROM transaction_trash`);
+      this.sql.exec(`DELETE FROM transaction_splits`);
+      this.sql.exec(`DELETE FROM transaction_tags`);
+      this.sql.exec(`DELETE FROM duplicate_dismissals`);
+      this.insertTransactions(transactions);
+    });
+  }
+
+  /**
+   * Overwrite every editable column of an existing transaction
+   */
+  updateTransaction(transaction: Transaction): void {
+    this.sql.exec(
+      `UPDATE transactions
+       SET amount = ?, description = ?, category = ?, type = ?, date = ?, timestamp = ?, account_id = ?, to_account_id = ?, merchant_id = ?
+       WHERE id = ?`,
+      transaction.amount, transaction.description, transaction.category, transaction.type,
+      transaction.date, transaction.timestamp, transaction.accountId, transaction.toAccountId ?? null, transaction.merchantId ?? null, transaction.id
+    );
+    this.saveSplits(transaction.id, transaction.splits);
+    this.saveTransactionTags(transaction.id, transaction.tags);
+  }
+
+  /**
+   * Replace a transaction's split lines (none means unsplit)
+   */
+  private saveSplits(transactionId: string, splits: TransactionSplit[] = []): void {
+    this.sql.exec(`DELETE FROM transaction_splits WHERE transaction_id = ?`, transactionId);
+    splits.forEach((split, line) => {
+      this.sql.exec(
+        `INSERT INTO transaction_splits (transaction_id, line, amount, category, note) VALUES (?, ?, ?, ?, ?)`,
+        transactionId, line, split.amount, split.category, split.note ?? null
+      );
+    });
+  }
+
+  /**
+   * Replace a transaction's tags, registering any tag not seen before
+   */
+  private saveTransactionTags(transactionId: string, tags: string[] = []): void {
+    this.sql.exec(`DELETE FROM transaction_tags WHERE transaction_id = ?`, transactionId);
+    for (const tag of tags) {
+      this.saveTag(tag);
+      this.sql.exec(`INSERT OR IGNORE INTO transaction_tags (transaction_id, tag) VALUES (?, ?)`, transactionId, tag);
+    }
+  }
+
+  /**
+   * Attach split lines, tags and attachment ids to transactions that have them, with one query each for the whole batch
+   */
+  private withDetails<T extends Transaction>(transactions: T[]): T[] {
+    if (transactions.length === 0) return transactions;
+    const ids = JSON.stringify(transactions.map(t => t.id));
+
+    const splits = new Map<string, TransactionSplit[]>();
+    for (const row of this.sql.exec(
+      `SELECT * FROM transaction_splits
+       WHERE transaction_id IN (SELECT value FROM json_each(?))
+       ORDER BY transaction_id, line`,
+      ids
+    )) {
+      const id = String(row.transaction_id);
+      splits.set(id, [...(splits.get(id) || []), {
+        amount: Number(row.amount),
+        category: String(row.category),
+        ...(row.note ? { note: String(row.note) } : {})
+      }]);
+    }
+
+    const tags = new Map<string, string[]>();
+    for (const row of this.sql.exec(
+      `SELECT * FROM transaction_tags WHERE transaction_id IN (SELECT value FROM json_each(?)) ORDER BY transaction_id, tag`,
+      ids
+    )) {
+      const id = String(row.transaction_id);
+      tags.set(id, [...(tags.get(id) || []), String(row.tag)]);
+    }
+
+    const attachments = new Map<string, string[]>();
+    for (const row of this.sql.exec(
+      `SELECT id, transaction_id FROM attachments WHERE transaction_id IN (SELECT value FROM json_each(?)) ORDER BY transaction_id, created_at, id`,
+      ids
+    )) {
+      const id = String(row.transaction_id);
+      attachments.set(id, [...(attachments.get(id) || []), String(row.id)]);
+    }
+
+    return transactions.map(t => ({
+      ...t,
+      ...(splits.has(t.id) ? { splits: splits.get(t.id) } : {}),
+      ...(tags.has(t.id) ? { tags: tags.get(t.id) } : {}),
+      ...(attachments.has(t.id) ? { attachmentIds: attachments.get(t.id) } : {})
+    }));
+  }
+
+  countTransactions(filter: TransactionFilter = {}): number {
+    const { where, bindings } = buildWhere(filter);
+    const row = this.sql.exec(`SELECT COUNT(*) AS count FROM transactions ${where}`, ...bindings).one();
+    return Number(row.count);
+  }
+
+  /**
+   * Sum of amounts per transaction type (e.g. { income: 3400, expense: 2100 })
+   */
+  totalsByType(filter: TransactionFilter = {}): Record<string, number> {
+    const { where, bindings } = buildAggregateWhere(filter);
+    const totals: Record<string, number> = {};
+    for (const row of this.sql.exec(
+      `SELECT type, SUM(amount) AS total FROM transactions ${where} GROUP BY type`,
+      ...bindings
+    )) {
+      totals[String(row.type)] = Number(row.total);
+    }
+    return totals;
+  }
+
+  /**
+   * Income, spending and transaction count per household member who recorded them, biggest
+   * spender first. Split lines are filtered by their own category, like categoryTotals.
+   */
+  memberTotals(filter: TransactionFilter = {}): MemberTotals[] {
+    const { where, bindings } = buildAggregateWhere(filter, true);
+    return this.sql
+      .exec(
+        `SELECT created_by,
+                SUM(CASE WHEN type = 'income' THEN amount ELSE 0 END) AS income,
+                SUM(CASE WHEN type = 'expense' THEN amount ELSE 0 END) AS expenses,
+                COUNT(DISTINCT id) AS count
+         FROM ${CATEGORY_LINES} ${where}
+         GROUP BY created_by
+         ORDER BY expenses DESC, created_by`,
+        ...bindings
+      )
+      .toArray()
+      .map(row => ({
+        memberId: row.created_by === null ? null : String(row.created_by),
+        income: Number(row.income),
+        expenses: Number(row.expenses),
+        count: Number(row.count)
+      }));
+  }
+
+  /**
+   * Sum of amounts per category, or per top-level category with `rollUp`.
+   * Split transactions count once per line, in each line's category.
+   */
+  categoryTotals(filter: TransactionFilter = {}, options: AggregateOptions = {}): Record<string, number> {
+    const { where, bindings } = buildAggregateWhere(filter, true);
+    const column = options.rollUp ? ROLLED_UP_CATEGORY : 'category';
+    const totals: Record<string, number> = {};
+    for (const row of this.sql.exec(
+      `SELECT ${column} AS category, SUM(amount) AS total FROM ${CATEGORY_LINES} ${where} GROUP BY 1`,
+      ...bindings
+    )) {
+      totals[String(row.category)] = Number(row.total);
+    }
+    return totals;
+  }
+
+  /**
+   * Average single-transaction (or split line) amount per category, or per top-level category with `rollUp`
+   */
+  categoryAverages(filter: TransactionFilter = {}, options: AggregateOptions = {}): Record<string, number> {
+    const { where, bindings } = buildAggregateWhere(filter, true);
+    const column = options.rollUp ? ROLLED_UP_CATEGORY : 'category';
+    const averages: Record<string, number> = {};
+    for (const row of this.sql.exec(
+      `SELECT ${column} AS category, AVG(amount) AS average FROM ${CATEGORY_LINES} ${where} GROUP BY 1`,
+      ...bindings
+    )) {
+      averages[String(row.category)] = Number(row.average);
+    }
+    return averages;
+  }
+
+  // ========== TRASH ==========
+
+  /**
+   * Soft-delete: move a transaction into the trash so it can be restored later
+   */
+  trashTransaction(id: string, deletedAt: number = Date.now()): TrashedTransaction | null {
+    const existing = this.getTransaction(id);
+    if (!existing) return null;
+
+    this.storage.transactionSync(() => {
+      this.sql.exec(
+        `INSERT OR REPLACE INTO transaction_trash (id, amount, description, category, type, date, timestamp, account_id, to_account_id, merchant_id, created_by, external_id, bank_details, deleted_at)
+         SELECT id, amount, description, category, type, date, timestamp, account_id, to_account_id, merchant_id, created_by, external_id, bank_details, ? FROM transactions WHERE id = ?`,
+        deletedAt, id
+      );
+      this.sql.exec(`DELETE FROM transactions WHERE id = ?`, id);
+    });
+    return { ...existing, deletedAt };
+  }
+
+  /**
+   * Move a trashed transaction back into the ledger
+   */
+  restoreTransaction(id: string): Transaction | null {
+    const rows = this.sql.exec(`SELECT * FROM transaction_trash WHERE id = ?`, id).toArray();
+    if (rows.length === 0) return null;
+
+    const transaction = this.withDetails([toTransaction(rows[0])])[0];
+    this.storage.transactionSync(() => {
+      this.insertTransaction(transaction);
+      this.sql.exec(`DELETE FROM transaction_trash WHERE id = ?`, id);
+    });
+    return transaction;
+  }
+
+  getTrashedTransaction(id: string): TrashedTransaction | null {
+    const rows = this.sql.exec(`SELECT * FROM transaction_trash WHERE id = ?`, id).toArray();
+    return rows.length > 0
+      ? this.withDetails([{ ...toTransaction(rows[0]), deletedAt: Number(rows[0].deleted_at) }])[0]
+      : null;
+  }
+
+  /**
+   * Put a transaction back exactly as snapshotted: live, in the trash (with `deletedAt`),
+   * or gone entirely (null). Used to revert audit entries.
+   */
+  writeTransactionState(id: string, snapshot: Transaction | TrashedTransaction | null): void {
+    this.storage.transactionSync(() => {
+      this.sql.exec(`DELETE FROM transactions WHERE id = ?`, id);
+      this.sql.exec(`DELETE FROM transaction_trash WHERE id = ?`, id);
+      this.sql.exec(`DELETE FROM transaction_splits WHERE transaction_id = ?`, id);
+      this.sql.exec(`DELETE FROM transaction_tags WHERE transaction_id = ?`, id);
+      if (!snapshot) return;
+
+      const { deletedAt, attachmentIds, ...transaction } = snapshot as TrashedTransaction;
+      this.insertTransaction({ ...transaction, id });
+      if (deletedAt !== undefined) this.trashTransaction(id, deletedAt);
+    });
+  }
+
+  /**
+   * Ids of live and trashed transactions that use an account, category, tag or merchant
+   */
+  transactionIdsUsing(ref: { accountId?: string; category?: string; tag?: string; merchantId?: string }): string[] {
+    const queries: [string, ...string[]][] = [];
+    if (ref.accountId !== undefined) {
+      queries.push(
+        [`SELECT id FROM transactions WHERE account_id = ? OR to_account_id = ?`, ref.accountId, ref.accountId],
+        [`SELECT id FROM transaction_trash WHERE account_id = ? OR to_account_id = ?`, ref.accountId, ref.accountId]
+      );
+    }
+    if (ref.category !== undefined) {
+      queries.push(
+        [`SELECT id FROM transactions WHERE category = ?`, ref.category],
+        [`SELECT id FROM transaction_trash WHERE category = ?`, ref.category],
+        [`SELECT transaction_id AS id FROM transaction_splits WHERE category = ?`, ref.category]
+      );
+    }
+    if (ref.tag !== undefined) {
+      queries.push([`SELECT transaction_id AS id FROM transaction_tags WHERE tag = ?`, ref.tag]);
+    }
+    if (ref.merchantId !== undefined) {
+      queries.push(
+        [`SELECT id FROM transactions WHERE merchant_id = ?`, ref.merchantId],
+        [`SELECT id FROM transaction_trash WHERE merchant_id = ?`, ref.merchantId]
+      );
+    }
+    const ids = new Set<string>();
+    for (const [query, ...bindings] of queries) {
+      for (const row of this.sql.exec(query, ...bindings)) ids.add(String(row.id));
+    }
+    return [...ids];
+  }
+
+  /**
+   * Trashed transactions, most recently deleted first
+   */
+  listTrash(): TrashedTransaction[] {
+    const trashed = this.sql
+      .exec(`SELECT * FROM transaction_trash ORDER BY deleted_at DESC`)
+      .toArray()
+      .map(row => ({ ...toTransaction(row), deletedAt: Number(row.deleted_at) }));
+    return this.withDetails(trashed);
+  }
+
+  /**
+   * Permanently remove everything trashed at or before the cutoff, returning the purged ids
+   */
+  purgeTrash(deletedUpTo: number): string[] {
+    const ids = this.sql
+      .exec(`SELECT id FROM transaction_trash WHERE deleted_at <= ?`, deletedUpTo)
+      .toArray()
+      .map(row => String(row.id));
+    if (ids.length > 0) {
+      this.storage.transactionSync(() => {
+        this.sql.exec(
+          `DELETE FROM transaction_splits WHERE transaction_id IN (SELECT id FROM transaction_trash WHERE deleted_at <= ?)`,
+          deletedUpTo
+        );
+        this.sql.exec(
+          `DELETE FROM transaction_tags WHERE transaction_id IN (SELECT id FROM transaction_trash WHERE deleted_at <= ?)`,
+          deletedUpTo
+        );
+        this.sql.exec(
+          `DELETE FROM duplicate_dismissals WHERE transaction_id IN (SELECT value FROM json_each(?)) OR other_id IN (SELECT value FROM json_each(?))`,
+          JSON.stringify(ids), JSON.stringify(ids)
+        );
+        this.sql.exec(`DELETE FROM transaction_trash WHERE deleted_at <= ?`, deletedUpTo);
+      });
+    }
+    return ids;
+  }
+
+  /**
+   * When the oldest item entered the trash, or null if it is empty
+   */
+  oldestTrashedAt(): number | null {
+    const row = this.sql.exec(`SELECT MIN(deleted_at) AS oldest FROM transaction_trash`).one();
+    return row.oldest === null ? null : Number(row.oldest);
+  }
+
+  // ========== ACCOUNTS ==========
+
+  listAccounts(): Account[] {
+    return this.sql
+      .exec(`SELECT * FROM accounts ORDER BY created_at, id`)
+      .toArray()
+      .map(toAccount);
+  }
+
+  getAccount(id: string): Account | null {
+    const rows = this.sql.exec(`SELECT * FROM accounts WHERE id = ?`, id).toArray();
+    return rows.length > 0 ? toAccount(rows[0]) : null;
+  }
+
+  /**
+   * The account a bank identifies this way on its statements
+   */
+  getAccountByExternalRef(externalRef: string): Account | null {
+    const rows = this.sql.exec(`SELECT * FROM accounts WHERE external_ref = ?`, externalRef).toArray();
+    return rows.length > 0 ? toAccount(rows[0]) : null;
+  }
+
+  saveAccount(account: Account): void {
+    this.sql.exec(
+      `INSERT OR REPLACE INTO accounts (id, name, type, opening_balance, opening_date, created_at, external_ref) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      account.id, account.name, account.type, account.openingBalance, account.openingDate, account.createdAt, account.externalRef ?? null
+    );
+  }
+
+  deleteAccount(id: string): void {
+    this.sql.exec(`DELETE FROM accounts WHERE id = ?`, id);
+  }
+
+  /**
+   * Create the default checking account the first time it is needed and attach
+   * any transactions that predate accounts to it. Its opening date is the earliest
+   * existing transaction so all history counts toward the balance; a new, empty ledger
+   * opens it at zero.
+   */
+  ensureDefaultAccount(): void {
+    if (this.getAccount(DEFAULT_ACCOUNT_ID)) return;
+
+    const earliest = this.sql.exec(`SELECT MIN(date) AS earliest FROM transactions`).one().earliest;
+    this.storage.transactionSync(() => {
+      this.saveAccount({
+        id: DEFAULT_ACCOUNT_ID,
+        name: DEFAULT_ACCOUNT_NAME,
+        type: 'checking',
+        openingBalance: earliest ? DEFAULT_OPENING_BALANCE : 0,
+        openingDate: earliest ? String(earliest) : EMPTY_LEDGER_OPENING_DATE,
+        createdAt: Date.now()
+      });
+      this.sql.exec(`UPDATE transactions SET account_id = ? WHERE account_id IS NULL`, DEFAULT_ACCOUNT_ID);
+      this.sql.exec(`UPDATE transaction_trash SET account_id = ? WHERE account_id IS NULL`, DEFAULT_ACCOUNT_ID);
+    });
+  }
+
+  /**
+   * Per-account balances (opening balance plus income minus expenses, with transfers
+   * moving money between accounts, since the opening date) and their total.
+   * The single source of truth for "balance". With `asOf` (YYYY-MM-DD), balances at the
+   * end of that day.
+   */
+  getBalances(asOf?: string): Balances {
+    const accounts = this.sql
+      .exec(
+        `SELECT a.*, a.opening_balance + COALESCE(SUM(
+           CASE
+             WHEN t.type = 'income' THEN t.amount
+             WHEN t.type = 'expense' THEN -t.amount
+             WHEN t.type = 'transfer' AND t.to_account_id = a.id THEN t.amount
+             WHEN t.type = 'transfer' THEN -t.amount
+             ELSE 0
+           END
+         ), 0) AS balance
+         FROM accounts a
+         LEFT JOIN transactions t
+           ON (t.account_id = a.id OR t.to_account_id = a.id) AND t.date >= a.opening_date AND (? IS NULL OR t.date <= ?)
+         GROUP BY a.id
+         ORDER BY a.created_at, a.id`,
+        asOf ?? null, asOf ?? null
+      )
+      .toArray()
+      .map(row => ({ ...toAccount(row), balance: roundCents(Number(row.balance)) }));
+
+    return {
+      accounts,
+      total: roundCents(accounts.reduce((sum, account) => sum + account.balance, 0))
+    };
+  }
+
+  // ========== CATEGORIES ==========
+
+  /**
+   * Categories in creation order; archived ones only when asked for
+   */
+  listCategories(includeArchived = false): Category[] {
+    return this.sql
+      .exec(`SELECT * FROM categories ${includeArchived ? '' : 'WHERE archived = 0'} ORDER BY created_at, id`)
+      .toArray()
+      .map(toCategory);
+  }
+
+  getCategory(id: string): Category | null {
+    const rows = this.sql.exec(`SELECT * FROM categories WHERE id = ?`, id).toArray();
+    return rows.length > 0 ? toCategory(rows[0]) : null;
+  }
+
+  saveCategory(category: Category): void {
+    this.sql.exec(
+      `INSERT OR REPLACE INTO categories (id, name, kind, color, icon, archived, default_budget, keywords, parent_id, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      category.id, category.name, category.kind, category.color, category.icon, category.archived ? 1 : 0,
+      category.defaultBudget, JSON.stringify(category.keywords), category.parentId, category.createdAt
+    );
+  }
+
+  deleteCategory(id: string): void {
+    this.sql.exec(`DELETE FROM categories WHERE id = ?`, id);
+  }
+
+  /**
+   * Seed the default categories on first use, plus a plain category for any
+   * id already used by transactions or budgets so no existing data is orphaned
+   */
+  ensureDefaultCategories(): void {
+    if (this.sql.exec(`SELECT COUNT(*) AS count FROM categories`).one().count) return;
+
+    const now = Date.now();
+    this.storage.transactionSync(() => {
+      DEFAULT_CATEGORIES.forEach((category, i) => this.saveCategory({ ...category, createdAt: now + i }));
+
+      const inUse = this.sql.exec(
+        `SELECT category FROM transactions WHERE type != 'transfer'
+         UNION SELECT category FROM transaction_trash WHERE type != 'transfer'
+         UNION SELECT category FROM transaction_splits
+         UNION SELECT category FROM budgets`
+      ).toArray().map(row => String(row.category));
+      for (const id of inUse) {
+        if (this.getCategory(id)) continue;
+        this.saveCategory({
+          id, name: id.charAt(0).toUpperCase() + id.slice(1), kind: 'expense', color: '#718096', icon: '🏷️',
+          archived: false, defaultBudget: null, keywords: [], parentId: null, createdAt: now + DEFAULT_CATEGORIES.length
+        });
+      }
+    });
+  }
+
+  /**
+   * Subcategories of a parent, in creation order (archived included)
+   */
+  listSubcategories(parentId: string): Category[] {
+    return this.sql
+      .exec(`SELECT * FROM categories WHERE parent_id = ? ORDER BY created_at, id`, parentId)
+      .toArray()
+      .map(toCategory);
+  }
+
+  /**
+   * Give a category a new id, rewriting every transaction, budget and subcategory that uses the old one
+   */
+  renameCategory(oldId: string, category: Category): void {
+    this.storage.transactionSync(() => {
+      this.sql.exec(`DELETE FROM categories WHERE id = ?`, oldId);
+      this.saveCategory(category);
+      this.sql.exec(`UPDATE transactions SET category = ? WHERE category = ?`, category.id, oldId);
+      this.sql.exec(`UPDATE transaction_trash SET category = ? WHERE category = ?`, category.id, oldId);
+      this.sql.exec(`UPDATE transaction_splits SET category = ? WHERE category = ?`, category.id, oldId);
+      this.sql.exec(`UPDATE budgets SET category = ? WHERE category = ?`, category.id, oldId);
+      this.sql.exec(`UPDATE personal_budgets SET category = ? WHERE category = ?`, category.id, oldId);
+      this.sql.exec(`UPDATE categories SET parent_id = ? WHERE parent_id = ?`, category.id, oldId);
+    });
+  }
+
+  /**
+   * Fold one category into another: transactions move across, the source budget is
+   * added to the target's, its subcategories move under the target (or the target's
+   * parent, keeping the hierarchy one level deep), and the source category is deleted.
+   * Returns how many transactions were recategorized.
+   */
+  mergeCategory(sourceId: string, targetId: string): number {
+    let moved = 0;
+    this.storage.transactionSync(() => {
+      // Merging a parent into one of its own children promotes that child
+      this.sql.exec(`UPDATE categories SET parent_id = NULL WHERE id = ? AND parent_id = ?`, targetId, sourceId);
+      const targetParent = this.getCategory(targetId)?.parentId;
+      this.sql.exec(`UPDATE categories SET parent_id = ? WHERE parent_id = ?`, targetParent || targetId, sourceId);
+
+      moved = Number(this.sql.exec(`SELECT COUNT(*) AS count FROM transactions WHERE category = ?`, sourceId).one().count);
+      this.sql.exec(`UPDATE transactions SET category = ? WHERE category = ?`, targetId, sourceId);
+      this.sql.exec(`UPDATE transaction_trash SET category = ? WHERE category = ?`, targetId, sourceId);
+      this.sql.exec(`UPDATE transaction_splits SET category = ? WHERE category = ?`, targetId, sourceId);
+
+      const budget = this.sql.exec(`SELECT amount FROM budgets WHERE category = ?`, sourceId).toArray()[0];
+      if (budget) {
+        this.sql.exec(
+          `INSERT INTO budgets (category, amount) VALUES (?, ?)
+           ON CONFLICT (category) DO UPDATE SET amount = amount + excluded.amount`,
+          targetId, Number(budget.amount)
+        );
+        this.sql.exec(`DELETE FROM budgets WHERE category = ?`, sourceId);
+      }
+      this.sql.exec(
+        `INSERT INTO personal_budgets (member_id, category, amount)
+         SELECT member_id, ?, amount FROM personal_budgets WHERE category = ?
+         ON CONFLICT (member_id, category) DO UPDATE SET amount = amount + excluded.amount`,
+        targetId, sourceId
+      );
+      this.sql.exec(`DELETE FROM personal_budgets WHERE category = ?`, sourceId);
+      this.sql.exec(`DELETE FROM categories WHERE id = ?`, sourceId);
+    });
+    return moved;
+  }
+
+  // ========== TAGS ==========
+
+  /**
+   * Every registered tag with how many transactions carry it, alphabetically
+   */
+  listTags(): Tag[] {
+    return this.sql
+      .exec(
+        `SELECT g.name, g.created_at, COUNT(t.id) AS count
+         FROM tags g
+         LEFT JOIN transaction_tags tt ON tt.tag = g.name
+         LEFT JOIN transactions t ON t.id = tt.transaction_id
+         GROUP BY g.name
+         ORDER BY g.name`
+      )
+      .toArray()
+      .map(row => ({ name: String(row.name), count: Number(row.count), createdAt: Number(row.created_at) }));
+  }
+
+  getTag(name: string): Tag | null {
+    return this.listTags().find(tag => tag.name === name) ?? null;
+  }
+
+  /**
+   * Register a tag (no-op if it already exists)
+   */
+  saveTag(name: string, createdAt: number = Date.now()): void {
+    this.sql.exec(`INSERT OR IGNORE INTO tags (name, created_at) VALUES (?, ?)`, name, createdAt);
+  }
+
+  /**
+   * Rename a tag on every transaction (trash included). Renaming onto an existing
+   * tag merges the two. Returns how many transactions were retagged.
+   */
+  renameTag(oldName: string, newName: string): number {
+    let retagged = 0;
+    this.storage.transactionSync(() => {
+      retagged = Number(this.sql.exec(`SELECT COUNT(*) AS count FROM transaction_tags WHERE tag = ?`, oldName).one().count);
+      const createdAt = this.sql.exec(`SELECT created_at FROM tags WHERE name = ?`, oldName).toArray()[0]?.created_at;
+      this.saveTag(newName, createdAt === undefined ? Date.now() : Number(createdAt));
+      this.sql.exec(
+        `INSERT OR IGNORE INTO transaction_tags (transaction_id, tag) SELECT transaction_id, ? FROM transaction_tags WHERE tag = ?`,
+        newName, oldName
+      );
+      this.sql.exec(`DELETE FROM transaction_tags WHERE tag = ?`, oldName);
+      this.sql.exec(`DELETE FROM tags WHERE name = ?`, oldName);
+    });
+    return retagged;
+  }
+
+  /**
+   * Remove a tag from every transaction and forget it. Returns how many transactions lost it.
+   */
+  deleteTag(name: string): number {
+    let untagged = 0;
+    this.storage.transactionSync(() => {
+      untagged = Number(this.sql.exec(`SELECT COUNT(*) AS count FROM transaction_tags WHERE tag = ?`, name).one().count);
+      this.sql.exec(`DELETE FROM transaction_tags WHERE tag = ?`, name);
+      this.sql.exec(`DELETE FROM tags WHERE name = ?`, name);
+    });
+    return untagged;
+  }
+
+  /**
+   * Spending and income per tag for transactions matching the filter, biggest spend first.
+   * A transaction with several tags counts in full under each of them.
+   */
+  tagSummaries(filter: TransactionFilter = {}): TagSummary[] {
+    const { where, bindings } = buildAggregateWhere(filter);
+    return this.sql
+      .exec(
+        `SELECT transaction_tags.tag AS tag, COUNT(*) AS count,
+           SUM(CASE WHEN type = 'expense' THEN amount ELSE 0 END) AS spent,
+           SUM(CASE WHEN type = 'income' THEN amount ELSE 0 END) AS income,
+           MIN(date) AS first_date, MAX(date) AS last_date
+         FROM transactions JOIN transaction_tags ON transaction_tags.transaction_id = transactions.id
+         ${where}
+         GROUP BY transaction_tags.tag
+         ORDER BY spent DESC, tag`,
+        ...bindings
+      )
+      .toArray()
+      .map(row => ({
+        tag: String(row.tag),
+        count: Number(row.count),
+        spent: roundCents(Number(row.spent)),
+        income: roundCents(Number(row.income)),
+        firstDate: String(row.first_date),
+        lastDate: String(row.last_date)
+      }));
+  }
+
+  // ========== MERCHANTS ==========
+
+  /**
+   * Merchants alphabetically by name
+   */
+  listMerchants(): Merchant[] {
+    return this.sql.exec(`SELECT * FROM merchants ORDER BY name COLLATE NOCASE, id`).toArray().map(toMerchant);
+  }
+
+  getMerchant(id: string): Merchant | null {
+    const rows = this.sql.exec(`SELECT * FROM merchants WHERE id = ?`, id).toArray();
+    return rows.length > 0 ? toMerchant(rows[0]) : null;
+  }
+
+  saveMerchant(merchant: Merchant): void {
+    this.sql.exec(
+      `INSERT OR REPLACE INTO merchants (id, name, aliases, created_at) VALUES (?, ?, ?, ?)`,
+      merchant.id, merchant.name, JSON.stringify(merchant.aliases), merchant.createdAt
+    );
+  }
+
+  deleteMerchant(id: string): void {
+    this.sql.exec(`DELETE FROM merchants WHERE id = ?`, id);
+  }
+
+  /**
+   * The registered merchant a raw description or receipt string refers to, if any
+   */
+  findMerchant(raw: string): Merchant | null {
+    return matchMerchant(raw, this.listMerchants());
+  }
+
+  /**
+   * The merchant a raw string refers to, registering a new one named after it when
+   * nothing matches. Null only when the string has no usable words.
+   */
+  merchantFor(raw: string): Merchant | null {
+    const existing = this.findMerchant(raw);
+    if (existing) return existing;
+
+    const key = merchantKey(raw);
+    if (!key) return null;
+    let id = merchantIdFromKey(key);
+    for (let n = 2; this.getMerchant(id); n++) id = `${merchantIdFromKey(key)}-${n}`;
+
+    const merchant: Merchant = { id, name: merchantNameFromKey(key), aliases: [], createdAt: Date.now() };
+    this.saveMerchant(merchant);
+    return merchant;
+  }
+
+  /**
+   * Link transactions that predate the merchant registry to their merchants
+   */
+  ensureMerchants(): void {
+    const unlinked = this.sql
+      .exec(`SELECT id, description FROM transactions WHERE merchant_id IS NULL AND type != 'transfer'`)
+      .toArray();
+    if (unlinked.length === 0) return;
+
+    this.storage.transactionSync(() => {
+      for (const row of unlinked) {
+        const merchant = this.merchantFor(String(row.description));
+        if (merchant) this.sql.exec(`UPDATE transactions SET merchant_id = ? WHERE id = ?`, merchant.id, String(row.id));
+      }
+    });
+  }
+
+  /**
+   * Fold one merchant into another: transactions move across, the source's name and
+   * aliases become aliases of the target so future entries match it, and the source is deleted.
+   * Returns how many transactions moved.
+   */
+  mergeMerchant(sourceId: string, targetId: string): number {
+    let moved = 0;
+    this.storage.transactionSync(() => {
+      const source = this.getMerchant(sourceId);
+      const target = this.getMerchant(targetId);
+      if (!source || !target) return;
+
+      moved = Number(this.sql.exec(`SELECT COUNT(*) AS count FROM transactions WHERE merchant_id = ?`, sourceId).one().count);
+      this.sql.exec(`UPDATE transactions SET merchant_id = ? WHERE merchant_id = ?`, targetId, sourceId);
+      this.sql.exec(`UPDATE transaction_trash SET merchant_id = ? WHERE merchant_id = ?`, targetId, sourceId);
+
+      const aliases = new Set([...target.aliases, merchantKey(source.name), ...source.aliases]);
+      aliases.delete(merchantKey(target.name));
+      this.saveMerchant({ ...target, aliases: [...aliases] });
+      this.sql.exec(`DELETE FROM merchants WHERE id = ?`, sourceId);
+    });
+    return moved;
+  }
+
+  /**
+   * Spending per merchant for expenses matching the filter: total, visit count,
+   * average ticket and the typical gap between visits, biggest total first
+   */
+  merchantStats(filter: TransactionFilter = {}): MerchantStats[] {
+    const { where, bindings } = buildAggregateWhere({ ...filter, type: 'expense' });
+    const names = new Map(this.listMerchants().map(m => [m.id, m.name]));
+    return this.sql
+      .exec(
+        `SELECT merchant_id, COUNT(*) AS count, SUM(amount) AS total,
+           MIN(date) AS first_date, MAX(date) AS last_date, MIN(timestamp) AS first_at, MAX(timestamp) AS last_at
+         FROM transactions ${where} AND merchant_id IS NOT NULL
+         GROUP BY merchant_id
+         ORDER BY total DESC, merchant_id`,
+        ...bindings
+      )
+      .toArray()
+      .map(row => {
+        const count = Number(row.count);
+        const total = Number(row.total);
+        const span = (Number(row.last_at) - Number(row.first_at)) / (24 * 60 * 60 * 1000);
+        return {
+          merchantId: String(row.merchant_id),
+          name: names.get(String(row.merchant_id)) ?? String(row.merchant_id),
+          count,
+          total: roundCents(total),
+          averageTicket: roundCents(total / count),
+          firstDate: String(row.first_date),
+          lastDate: String(row.last_date),
+          averageDaysBetween: count > 1 ? Math.round(span / (count - 1) * 10) / 10 : null
+        };
+      });
+  }
+
+  // ========== ATTACHMENTS ==========
+
+  saveAttachment(attachment: Attachment): void {
+    this.sql.exec(
+      `INSERT OR REPLACE INTO attachments (id, transaction_id, filename, content_type, size, has_thumbnail, source, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      attachment.id, attachment.transactionId, attachment.filename, attachment.contentType,
+      attachment.size, attachment.hasThumbnail ? 1 : 0, attachment.source, attachment.createdAt
+    );
+  }
+
+  getAttachment(id: string): Attachment | null {
+    const rows = this.sql.exec(`SELECT * FROM attachments WHERE id = ?`, id).toArray();
+    return rows.length > 0 ? toAttachment(rows[0]) : null;
+  }
+
+  /**
+   * Attachments of the given transactions (live or trashed), oldest first
+   */
+  listAttachments(transactionIds: string[]): Attachment[] {
+    return this.sql
+      .exec(
+        `SELECT * FROM attachments WHERE transaction_id IN (SELECT value FROM json_each(?)) ORDER BY created_at, id`,
+        JSON.stringify(transactionIds)
+      )
+      .toArray()
+      .map(toAttachment);
+  }
+
+  /**
+   * Every attachment, linked or not
+   */
+  listAllAttachments(): Attachment[] {
+    return this.sql.exec(`SELECT * FROM attachments ORDER BY created_at, id`).toArray().map(toAttachment);
+  }
+
+  /**
+   * Scanned receipts never linked to a transaction, created before the cutoff
+   */
+  listPendingAttachments(createdUpTo: number): Attachment[] {
+    return this.sql
+      .exec(`SELECT * FROM attachments WHERE transaction_id IS NULL AND created_at <= ? ORDER BY created_at`, createdUpTo)
+      .toArray()
+      .map(toAttachment);
+  }
+
+  /**
+   * When the oldest still-unlinked receipt was scanned, or null if there is none
+   */
+  oldestPendingAttachmentAt(): number | null {
+    const row = this.sql.exec(`SELECT MIN(created_at) AS oldest FROM attachments WHERE transaction_id IS NULL`).one();
+    return row.oldest === null ? null : Number(row.oldest);
+  }
+
+  /**
+   * Remove attachment metadata; the caller deletes the stored files
+   */
+  deleteAttachments(ids: string[]): void {
+    if (ids.length === 0) return;
+    this.sql.exec(`DELETE FROM attachments WHERE id IN (SELECT value FROM json_each(?))`, JSON.stringify(ids));
+  }
+
+  // ========== BUDGETS ==========
+
+  getBudgets(): Record<string, number> {
+    const budgets: Record<string, number> = {};
+    for (const row of this.sql.exec(`SELECT category, amount FROM budgets ORDER BY category`)) {
+      budgets[String(row.category)] = Number(row.amount);
+    }
+    return budgets;
+  }
+
+  /**
+   * Set a category budget and return the previous amount (0 if none)
+   */
+  setBudget(category: string, amount: number): number {
+    const existing = this.sql.exec(`SELECT amount FROM budgets WHERE category = ?`, category).toArray();
+    this.sql.exec(
+      `INSERT INTO budgets (category, amount) VALUES (?, ?)
+       ON CONFLICT (category) DO UPDATE SET amount = excluded.amount`,
+      category, amount
+    );
+    return existing.length > 0 ? Number(existing[0].amount) : 0;
+  }
+
+  deleteBudget(category: string): void {
+    this.sql.exec(`DELETE FROM budgets WHERE category = ?`, category);
+  }
+
+  /**
+   * A household member's own budgets, measured against the spending they recorded
+   */
+  getPersonalBudgets(memberId: string): Record<string, number> {
+    const budgets: Record<string, number> = {};
+    for (const row of this.sql.exec(`SELECT category, amount FROM personal_budgets WHERE member_id = ? ORDER BY category`, memberId)) {
+      budgets[String(row.category)] = Number(row.amount);
+    }
+    return budgets;
+  }
+
+  /**
+   * Set a member's personal budget for a category and return the previous amount (0 if none)
+   */
+  setPersonalBudget(memberId: string, category: string, amount: number): number {
+    const previous = this.getPersonalBudgets(memberId)[category] ?? 0;
+    this.sql.exec(
+      `INSERT INTO personal_budgets (member_id, category, amount) VALUES (?, ?, ?)
+       ON CONFLICT (member_id, category) DO UPDATE SET amount = excluded.amount`,
+      memberId, category, amount
+    );
+    return previous;
+  }
+
+  deletePersonalBudget(memberId: string, category: string): void {
+    this.sql.exec(`DELETE FROM personal_budgets WHERE member_id = ? AND category = ?`, memberId, category);
+  }
+
+  /**
+   * Members with a personal budget for a category
+   */
+  personalBudgetMembers(category: string): string[] {
+    return this.sql.exec(`SELECT member_id FROM personal_budgets WHERE category = ?`, category).toArray().map(row => String(row.member_id));
+  }
+
+  // ========== GOALS ==========
+
+  listGoals(): Goal[] {
+    return this.sql.exec(`SELECT * FROM goals ORDER BY created_at`).toArray().map(toGoal);
+  }
+
+  getGoal(id: string): Goal | null {
+    const rows = this.sql.exec(`SELECT * FROM goals WHERE id = ?`, id).toArray();
+    return rows.length > 0 ? toGoal(rows[0]) : null;
+  }
+
+  /**
+   * Create a goal, or merge the given fields into an existing one when `id` matches
+   */
+  saveGoal(input: Partial<Goal>): Goal {
+    const existing = input.id
+      ? this.sql.exec(`SELECT * FROM goals WHERE id = ?`, input.id).toArray().map(toGoal)[0]
+      : undefined;
+
+    const goal: Goal = {
+      ...(existing || { current: 0 }),
+      ...input,
+      id: existing?.id || input.id || crypto.randomUUID(),
+      createdAt: existing?.createdAt || input.createdAt || Date.now()
+    } as Goal;
+
+    this.sql.exec(
+      `INSERT OR REPLACE INTO goals (id, name, target, current, deadline, created_at, member_id) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      goal.id, String(goal.name ?? ''), Number(goal.target) || 0, Number(goal.current) || 0,
+      goal.deadline || null, goal.createdAt, goal.memberId || null
+    );
+    return goal;
+  }
+
+  deleteGoal(id: string): void {
+    this.sql.exec(`DELETE FROM goals WHERE id = ?`, id);
+  }
+
+  // ========== CONVERSATIONS ==========
+
+  appendMessage(conversationId: string, message: ConversationMessage): void {
+    this.storage.transactionSync(() => {
+      this.sql.exec(
+        `INSERT INTO conversations (id, start_time, last_updated) VALUES (?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET last_updated = excluded.last_updated`,
+        conversationId, message.timestamp, message.timestamp
+      );
+      this.sql.exec(
+        `INSERT INTO conversation_messages (conversation_id, role, content, timestamp) VALUES (?, ?, ?, ?)`,
+        conversationId, message.role, message.content, message.timestamp
+      );
+      this.sql.exec(
+        `DELETE FROM conversation_messages WHERE conversation_id = ? AND seq NOT IN (
+           SELECT seq FROM conversation_messages WHERE conversation_id = ? ORDER BY seq DESC LIMIT ?
+         )`,
+        conversationId, conversationId, MAX_CONVERSATION_MESSAGES
+      );
+    });
+  }
+
+  getMessages(conversationId: string): ConversationMessage[] {
+    return this.sql
+      .exec(
+        `SELECT role, content, timestamp FROM conversation_messages WHERE conversation_id = ? ORDER BY seq`,
+        conversationId
+      )
+      .toArray()
+      .map(row => ({
+        role: row.role as ConversationMessage['role'],
+        content: String(row.content),
+        timestamp: Number(row.timestamp)
+      }));
+  }
+
+  clearConversation(conversationId: string): void {
+    this.storage.transactionSync(() => {
+      this.sql.exec(`DELETE FROM conversation_messages WHERE conversation_id = ?`, conversationId);
+      this.sql.exec(`DELETE FROM conversations WHERE id = ?`, conversationId);
+    });
+  }
+
+  listConversations(): Record<string, Conversation> {
+    const conversations: Record<string, Conversation> = {};
+    for (const row of this.sql.exec(`SELECT * FROM conversations ORDER BY start_time`)) {
+      const id = String(row.id);
+      conversations[id] = {
+        id,
+        messages: this.getMessages(id),
+        startTime: Number(row.start_time),
+        lastUpdated: Number(row.last_updated)
+      };
+    }
+    return conversations;
+  }
+
+  // ========== AUDIT LOG ==========
+
+  /**
+   * Append entries to the audit log (never deleted; only redacted), returning them with their ids
+   */
+  appendAudit(entries: NewAuditEntry[]): AuditEntry[] {
+    const saved: AuditEntry[] = [];
+    this.storage.transactionSync(() => {
+      for (const entry of entries) {
+        this.sql.exec(
+          `INSERT INTO audit_log (timestamp, actor, entity, entity_id, action, before, after, batch_id, revert_of)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          entry.timestamp, entry.actor, entry.entity, entry.entityId, entry.action,
+          JSON.stringify(entry.before ?? null), JSON.stringify(entry.after ?? null), entry.batchId ?? null, entry.revertOf ?? null
+        );
+        const id = Number(this.sql.exec(`SELECT last_insert_rowid() AS seq`).one().seq);
+        saved.push({ id, ...entry });
+      }
+    });
+    return saved;
+  }
+
+  /**
+   * Drop the before and after snapshots of every entry about the given entities, once
+   * they are purged for good. The entries stay, so the log still shows what happened.
+   */
+  redactAudit(refs: AuditRef[]): void {
+    this.storage.transactionSync(() => {
+      for (const ref of refs) {
+        this.sql.exec(`UPDATE audit_log SET before = NULL, after = NULL WHERE entity = ? AND entity_id = ?`, ref.entity, ref.id);
+      }
+    });
+  }
+
+  getAuditEntry(id: number): AuditEntry | null {
+    const rows = this.sql.exec(`${AUDIT_SELECT} WHERE a.seq = ?`, id).toArray();
+    return rows.length > 0 ? toAuditEntry(rows[0]) : null;
+  }
+
+  /**
+   * Audit entries matching the query, newest first, plus the cursor for the next page
+   */
+  listAudit(query: AuditQuery): { entries: AuditEntry[]; nextBefore: number | null } {
+    const clauses: string[] = [];
+    const bindings: any[] = [];
+    if (query.entity) { clauses.push('a.entity = ?'); bindings.push(query.entity); }
+    if (query.entityId) { clauses.push('a.entity_id = ?'); bindings.push(query.entityId); }
+    if (query.actor === 'ai') clauses.push(`a.actor LIKE 'ai:%'`);
+    else if (query.actor === 'user') clauses.push(`(a.actor = 'user' OR a.actor LIKE 'user:%')`);
+    else if (query.actor) { clauses.push('a.actor = ?'); bindings.push(query.actor); }
+    if (query.action) { clauses.push('a.action = ?'); bindings.push(query.action); }
+    if (query.batchId) { clauses.push('a.batch_id = ?'); bindings.push(query.batchId); }
+    if (query.from) { clauses.push('a.timestamp >= ?'); bindings.push(Date.parse(`${query.from}T00:00:00Z`)); }
+    if (query.to) { clauses.push('a.timestamp < ?'); bindings.push(Date.parse(`${query.to}T00:00:00Z`) + 24 * 60 * 60 * 1000); }
+    if (query.before) { clauses.push('a.seq < ?'); bindings.push(query.before); }
+    if (query.memberId) {
+      // As isOthersPersonalEntry: personal budget ids start with their member, goals carry theirs
+      const prefix = `${query.memberId}/`;
+      clauses.push(`NOT (a.entity = 'personalBudget' AND substr(a.entity_id, 1, ?) <> ?)`);
+      bindings.push(prefix.length, prefix);
+      clauses.push(`NOT (a.entity = 'goal' AND IFNULL(COALESCE(json_extract(a.before, '$.memberId'), json_extract(a.after, '$.memberId')), ?) <> ?)`);
+      bindings.push(query.memberId, query.memberId);
+    }
+
+    const rows = this.sql
+      .exec(
+        `${AUDIT_SELECT} ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''} ORDER BY a.seq DESC LIMIT ?`,
+        ...bindings, query.limit + 1
+      )
+      .toArray()
+      .map(toAuditEntry);
+
+    const entries = rows.slice(0, query.limit);
+    return {
+      entries,
+      nextBefore: rows.length > query.limit ? entries[entries.length - 1].id : null
+    };
+  }
+
+  // ========== IDEMPOTENCY KEYS ==========
+
+  /**
+   * The result first recorded for a key, unless it was recorded before `createdAfter`
+   */
+  getIdempotencyRecord(key: string, createdAfter: number): IdempotencyRecord | null {
+    const rows = this.sql
+      .exec(`SELECT * FROM idempotency_keys WHERE key = ? AND created_at >= ?`, key, createdAfter)
+      .toArray();
+    if (rows.length === 0) return null;
+    return {
+      key: String(rows[0].key),
+      fingerprint: String(rows[0].fingerprint),
+      response: JSON.parse(String(rows[0].response)),
+      createdAt: Number(rows[0].created_at)
+    };
+  }
+
+  /**
+   * Record the result for a key, dropping keys recorded before `expiredBefore`
+   */
+  saveIdempotencyRecord(record: IdempotencyRecord, expiredBefore: number): void {
+    this.storage.transactionSync(() => {
+      this.sql.exec(`DELETE FROM idempotency_keys WHERE created_at < ?`, expiredBefore);
+      this.sql.exec(
+        `INSERT OR REPLACE INTO idempotency_keys (key, fingerprint, response, created_at) VALUES (?, ?, ?, ?)`,
+        record.key, record.fingerprint, JSON.stringify(record.response), record.createdAt
+      );
+    });
+  }
+
+  // ========== DUPLICATES ==========
+
+  /**
+   * Id pairs of live transactions with the same type and amount dated at most `windowDays`
+   * apart, newest first, leaving out dismissed pairs. Each pair is ordered by id.
+   */
+  sameAmountPairs(windowDays: number, range: { from?: string; to?: string } = {}): [string, string][] {
+    const clauses = [`NOT EXISTS (SELECT 1 FROM duplicate_dismissals d WHERE d.transaction_id = a.id AND d.other_id = b.id)`];
+    const bindings: any[] = [`-${windowDays} days`, `+${windowDays} days`];
+    if (range.from) { clauses.push('a.date >= ?', 'b.date >= ?'); bindings.push(range.from, range.from); }
+    if (range.to) { clauses.push('a.date <= ?', 'b.date <= ?'); bindings.push(range.to, range.to); }
+
+    return this.sql
+      .exec(
+        `SELECT a.id AS a_id, b.id AS b_id
+         FROM transactions a
+         JOIN transactions b ON b.id > a.id AND b.type = a.type AND ROUND(b.amount * 100) = ROUND(a.amount * 100)
+           AND b.date BETWEEN date(a.date, ?) AND date(a.date, ?)
+         WHERE ${clauses.join(' AND ')}
+         ORDER BY MAX(a.date, b.date) DESC, a.id, b.id`,
+        ...bindings
+      )
+      .toArray()
+      .map(row => [String(row.a_id), String(row.b_id)] as [string, string]);
+  }
+
+  /**
+   * Mark a pair (ordered by id) as reviewed and not a duplicate
+   */
+  dismissDuplicatePair(ids: [string, string], dismissedAt: number): void {
+    this.sql.exec(
+      `INSERT OR REPLACE INTO duplicate_dismissals (transaction_id, other_id, dismissed_at) VALUES (?, ?, ?)`,
+      ids[0], ids[1], dismissedAt
+    );
+  }
+
+  // ========== IMPORTS ==========
+
+  /**
+   * The transactions (live or in the trash) already imported under any of these external ids, by external id
+   */
+  findByExternalIds(externalIds: string[]): Map<string, string> {
+    const found = new Map<string, string>();
+    if (externalIds.length === 0) return found;
+    const rows = this.sql.exec(
+      `SELECT id, external_id FROM transactions WHERE external_id IN (SELECT value FROM json_each(?))
+       UNION ALL
+       SELECT id, external_id FROM transaction_trash WHERE external_id IN (SELECT value FROM json_each(?))`,
+      JSON.stringify(externalIds), JSON.stringify(externalIds)
+    ).toArray();
+    for (const row of rows) {
+      if (!found.has(String(row.external_id))) found.set(String(row.external_id), String(row.id));
+    }
+    return found;
+  }
+
+  getPendingImport(id: string, createdAfter: number): PendingImport | null {
+    const rows = this.sql.exec(`SELECT data FROM pending_imports WHERE id = ? AND created_at >= ?`, id, createdAfter).toArray();
+    return rows.length > 0 ? JSON.parse(String(rows[0].data)) as PendingImport : null;
+  }
+
+  /**
+   * Keep an import preview until it is committed, dropping previews created before `expiredBefore`
+   */
+  savePendingImport(pending: PendingImport, expiredBefore: number): void {
+    this.storage.transactionSync(() => {
+      this.sql.exec(`DELETE FROM pending_imports WHERE created_at < ?`, expiredBefore);
+      this.sql.exec(
+        `INSERT OR REPLACE INTO pending_imports (id, created_at, data) VALUES (?, ?, ?)`,
+        pending.id, pending.createdAt, JSON.stringify(pending)
+      );
+    });
+  }
+
+  deletePendingImport(id: string): boolean {
+    return this.sql.exec(`DELETE FROM pending_imports WHERE id = ?`, id).rowsWritten > 0;
+  }
+
+  listImportMappings(): SavedCsvMapping[] {
+    return this.sql.exec(`SELECT data FROM import_mappings ORDER BY created_at, name`).toArray()
+      .map(row => JSON.parse(String(row.data)) as SavedCsvMapping);
+  }
+
+  getImportMapping(name: string): SavedCsvMapping | null {
+    const rows = this.sql.exec(`SELECT data FROM import_mappings WHERE name = ? COLLATE NOCASE`, name).toArray();
+    return rows.length > 0 ? JSON.parse(String(rows[0].data)) as SavedCsvMapping : null;
+  }
+
+  /**
+   * Save a mapping, replacing any with the same name (ignoring case)
+   */
+  saveImportMapping(mapping: SavedCsvMapping): void {
+    this.storage.transactionSync(() => {
+      this.sql.exec(`DELETE FROM import_mappings WHERE name = ? COLLATE NOCASE`, mapping.name);
+      this.sql.exec(`INSERT INTO import_mappings (name, data, created_at) VALUES (?, ?, ?)`, mapping.name, JSON.stringify(mapping), mapping.createdAt);
+    });
+  }
+
+  deleteImportMapping(name: string): boolean {
+    return this.sql.exec(`DELETE FROM import_mappings WHERE name = ? COLLATE NOCASE`, name).rowsWritten > 0;
+  }
+
+  /**
+   * Record a balance a statement reported, replacing one reported for the same day
+   */
+  saveStatementBalance(balance: StatementBalance): void {
+    this.sql.exec(
+      `INSERT OR REPLACE INTO statement_balances (account_id, as_of, balance, available, currency, source, recorded_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      balance.accountId, balance.asOf, balance.balance, balance.available ?? null, balance.currency ?? null, balance.source, balance.recordedAt
+    );
+  }
+
+  /**
+   * Balances statements reported for an account, latest first
+   */
+  listStatementBalances(accountId: string): StatementBalance[] {
+    return this.sql.exec(`SELECT * FROM statement_balances WHERE account_id = ? ORDER BY as_of DESC`, accountId).toArray().map(row => ({
+      accountId: String(row.account_id),
+      asOf: String(row.as_of),
+      balance: Number(row.balance),
+      ...(row.available !== null ? { available: Number(row.available) } : {}),
+      ...(row.currency !== null ? { currency: String(row.currency) } : {}),
+      source: row.source as ImportFormat,
+      recordedAt: Number(row.recorded_at)
+    }));
+  }
+
+  // ========== BACKUP ==========
+
+  /**
+   * Columns of each of the store's tables, as a backup's rows are checked against them
+   */
+  tableSchemas(): Record<string, TableSchema> {
+    return Object.fromEntries(TABLES.map(table => {
+      const columns = this.sql.exec(`PRAGMA table_info(${table})`).toArray();
+      return [table, {
+        columns: columns.map(column => String(column.name)),
+        required: columns.filter(column => Number(column.notnull) === 1 && column.dflt_value === null).map(column => String(column.name))
+      }];
+    }));
+  }
+
+  /**
+   * Every row of every table, as stored
+   */
+  backupTables(): Record<string, TableRow[]> {
+    return Object.fromEntries(TABLES.map(table => [table, this.sql.exec(`SELECT * FROM ${table}`).toArray() as TableRow[]]));
+  }
+
+  /**
+   * Write a backup's rows in one transaction. `replace` empties every table first; `merge`
+   * adds only rows whose key is not taken (a transaction's id in the trash too), leaves the
+   * audit log as it is (the backup's entries describe another ledger), and gives merged
+   * conversation messages new sequence numbers. Returns how many rows of each table were added.
+   */
+  restoreTables(tables: Record<string, TableRow[]>, mode: RestoreMode): Record<string, number> {
+    const schemas = this.tableSchemas();
+    const added: Record<string, number> = {};
+    const addedIds = new Map<string, Set<SqlStorageValue>>();
+    this.storage.transactionSync(() => {
+      if (mode === 'replace') {
+        for (const table of TABLES) this.sql.exec(`DELETE FROM ${table}`);
+      }
+      for (const table of TABLES) {
+        const rows = tables[table] ?? [];
+        if (rows.length === 0 || (mode === 'merge' && table === 'audit_log')) continue;
+        const keys = this.sql.exec(`PRAGMA table_info(${table})`).toArray().filter(c => Number(c.pk) > 0).map(c => String(c.name));
+        const parent = mode === 'merge' ? MERGE_CHILDREN[table] : undefined;
+        added[table] = 0;
+        for (const row of rows) {
+          if (parent && !parent.parents.some(p => addedIds.get(p)?.has(row[parent.column]))) continue;
+          if (mode === 'merge' && !parent && this.hasRow(table, keys, row)) continue;
+          // Merged messages follow the ones already stored
+          const columns = Object.keys(row).filter(c => schemas[table].columns.includes(c) && !(parent && table === 'conversation_messages' && c === 'seq'));
+          this.sql.exec(
+            `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+            ...columns.map(c => row[c])
+          );
+          added[table]++;
+          if (row.id !== undefined) addedIds.set(table, (addedIds.get(table) ?? new Set()).add(row.id));
+        }
+      }
+    });
+    return added;
+  }
+
+  private hasRow(table: string, keys: string[], row: TableRow): boolean {
+    const tables = table === 'transactions' || table === 'transaction_trash' ? ['transactions', 'transaction_trash'] : [table];
+    const where = keys.map(key => `${key} = ?`).join(' AND ');
+    return tables.some(t => this.sql.exec(`SELECT 1 FROM ${t} WHERE ${where}`, ...keys.map(key => row[key] ?? null)).toArray().length > 0);
+  }
+}
+
+// Audit rows with the id of the latest entry that reverted each one
+const AUDIT_SELECT = `SELECT a.*, (SELECT MAX(r.seq) FROM audit_log r WHERE r.revert_of = a.seq) AS reverted_by FROM audit_log a`;
+
+/**
+ * WHERE clause for a filter. Over whole transactions, a category filter also matches
+ * transactions with a split line in that category; over category lines (`lines`) it
+ * matches only the line's own category.
+ */
+function buildWhere(filter: TransactionFilter, lines = false): { where: string; clauses: string[]; bindings: any[] } {
+  const clauses: string[] = [];
+  const bindings: any[] = [];
+
+  if (filter.from) { clauses.push('date >= ?'); bindings.push(filter.from); }
+  if (filter.to) { clauses.push('date <= ?'); bindings.push(filter.to); }
+  if (filter.month) { clauses.push('date BETWEEN ? AND ?'); bindings.push(`${filter.month}-01`, `${filter.month}-31`); }
+  if (filter.type) { clauses.push('type = ?'); bindings.push(filter.type); }
+  if (filter.category) {
+    // A parent category also matches its subcategories
+    const categories = `(SELECT ? UNION SELECT id FROM categories WHERE parent_id = ?)`;
+    clauses.push(lines
+      ? `category IN ${categories}`
+      : `(category IN ${categories} OR id IN (SELECT transaction_id FROM transaction_splits WHERE category IN ${categories}))`);
+    bindings.push(...(lines ? [filter.category, filter.category] : [filter.category, filter.category, filter.category, filter.category]));
+  }
+  if (filter.accountId) { clauses.push('(account_id = ? OR to_account_id = ?)'); bindings.push(filter.accountId, filter.accountId); }
+  if (filter.search) { clauses.push('instr(lower(description), lower(?)) > 0'); bindings.push(filter.search); }
+  if (filter.merchant) { clauses.push('instr(lower(description), lower(?)) = 1'); bindings.push(filter.merchant); }
+  if (filter.merchantId) { clauses.push('merchant_id = ?'); bindings.push(filter.merchantId); }
+  if (filter.createdBy) { clauses.push('created_by = ?'); bindings.push(filter.createdBy); }
+  if (filter.minAmount !== undefined) { clauses.push('amount >= ?'); bindings.push(filter.minAmount); }
+  if (filter.maxAmount !== undefined) { clauses.push('amount <= ?'); bindings.push(filter.maxAmount); }
+  for (const tag of filter.tags || []) {
+    clauses.push('id IN (SELECT transaction_id FROM transaction_tags WHERE tag = ?)');
+    bindings.push(tag);
+  }
+
+  return {
+    where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '',
+    clauses,
+    bindings
+  };
+}
+
+/**
+ * Aggregates never count transfers: moving money between accounts is neither income nor spending
+ */
+function buildAggregateWhere(filter: TransactionFilter, lines = false): { where: string; bindings: any[] } {
+  const { clauses, bindings } = buildWhere(filter, lines);
+  clauses.push(`type != 'transfer'`);
+  return { where: `WHERE ${clauses.join(' AND ')}`, bindings };
+}
+
+function toTransaction(row: Record<string, SqlStorageValue>): Transaction {
+  return {
+    id: String(row.id),
+    amount: Number(row.amount),
+    description: String(row.description),
+    category: String(row.category),
+    type: row.type as TransactionType,
+    date: String(row.date),
+    timestamp: Number(row.timestamp),
+    accountId: String(row.account_id ?? DEFAULT_ACCOUNT_ID),
+    ...(row.to_account_id ? { toAccountId: String(row.to_account_id) } : {}),
+    ...(row.merchant_id ? { merchantId: String(row.merchant_id) } : {}),
+    ...(row.created_by ? { createdBy: String(row.created_by) } : {}),
+    ...(row.external_id ? { externalId: String(row.external_id) } : {}),
+    ...(row.bank_details ? { bankDetails: JSON.parse(String(row.bank_details)) } : {})
+  };
+}
+
+function toAccount(row: Record<string, SqlStorageValue>): Account {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    type: row.type as AccountType,
+    openingBalance: Number(row.opening_balance),
+    openingDate: String(row.opening_date),
+    createdAt: Number(row.created_at),
+    ...(row.external_ref ? { externalRef: String(row.external_ref) } : {})
+  };
+}
+
+function toCategory(row: Record<string, SqlStorageValue>): Category {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    kind: row.kind as CategoryKind,
+    color: String(row.color),
+    icon: String(row.icon),
+    archived: Boolean(row.archived),
+    defaultBudget: row.default_budget === null ? null : Number(row.default_budget),
+    keywords: JSON.parse(String(row.keywords)),
+    parentId: row.parent_id ? String(row.parent_id) : null,
+    createdAt: Number(row.created_at)
+  };
+}
+
+function toMerchant(row: Record<string, SqlStorageValue>): Merchant {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    aliases: JSON.parse(String(row.aliases)),
+    createdAt: Number(row.created_at)
+  };
+}
+
+function toAttachment(row: Record<string, SqlStorageValue>): Attachment {
+  return {
+    id: String(row.id),
+    transactionId: row.transaction_id === null ? null : String(row.transaction_id),
+    filename: String(row.filename),
+    contentType: String(row.content_type),
+    size: Number(row.size),
+    hasThumbnail: Boolean(row.has_thumbnail),
+    source: String(row.source) as AttachmentSource,
+    createdAt: Number(row.created_at)
+  };
+}
+
+function toAuditEntry(row: Record<string, SqlStorageValue>): AuditEntry {
+  return {
+    id: Number(row.seq),
+    timestamp: Number(row.timestamp),
+    actor: String(row.actor) as AuditActor,
+    entity: String(row.entity) as AuditEntity,
+    entityId: String(row.entity_id),
+    action: String(row.action) as AuditAction,
+    before: row.before === null ? null : JSON.parse(String(row.before)),
+    after: row.after === null ? null : JSON.parse(String(row.after)),
+    // appendAudit stores a missing snapshot as JSON null; SQL NULL in both is a redaction
+    ...(row.before === null && row.after === null ? { redacted: true as const } : {}),
+    ...(row.batch_id !== null ? { batchId: String(row.batch_id) } : {}),
+    ...(row.revert_of !== null ? { revertOf: Number(row.revert_of) } : {}),
+    ...(row.reverted_by !== null ? { revertedBy: Number(row.reverted_by) } : {})
+  };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toGoal(row: Record<string, SqlStorageValue>): Goal {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    target: Number(row.target),
+    current: Number(row.current),
+    deadline: row.deadline ? String(row.deadline) : undefined,
+    createdAt: Number(row.created_at),
+    ...(row.member_id ? { memberId: String(row.member_id) } : {})
+  };
+}
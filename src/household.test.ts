@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MEMBERS_HEADER,
+  describeMember,
+  memberContext,
+  memberName,
+  roleScope,
+  validateHouseholdInput,
+  validateMemberInput
+} from './household';
+import { USER_ID_HEADER } from './identity';
+
+const members = [
+  { userId: 'u1', email: 'alice@example.com', role: 'owner' as const, joinedAt: 1 },
+  { userId: 'u2', email: 'bob@example.com', role: 'viewer' as const, joinedAt: 2 }
+];
+
+describe('Household', () => {
+  it('should cap each role at a scope', () => {
+    expect(roleScope('viewer')).toBe('read');
+    expect(roleScope('editor')).toBe('write');
+    expect(roleScope('owner')).toBe('admin');
+  });
+
+  it('should read the member context the Worker forwards', () => {
+    const request = new Request('http://localhost/api/get-summary', {
+      headers: { [USER_ID_HEADER]: 'u1', [MEMBERS_HEADER]: encodeURIComponent(JSON.stringify(members)) }
+    });
+    const context = memberContext(request);
+    expect(context).toEqual({ userId: 'u1', members });
+    expect(describeMember(context, 'u1')).toBe('you');
+    expect(describeMember(context, 'u2')).toBe('bob');
+    expect(describeMember(context, 'u3')).toBe('u3');
+    expect(memberName(members[0])).toBe('alice');
+
+    const personal = memberContext(new Request('http://localhost/', { headers: { [USER_ID_HEADER]: 'u1', [MEMBERS_HEADER]: '%E0%A4%A' } }));
+    expect(personal).toEqual({ userId: 'u1', members: [] });
+  });
+
+  it('should validate households and members', () => {
+    expect(validateHouseholdInput({ name: ' Home ' })).toEqual({ valid: true, value: { name: 'Home' } });
+    expect(validateHouseholdInput({ name: '' }).valid).toBe(false);
+    expect(validateMemberInput({ email: ' Bob@Example.com', role: 'editor' })).toEqual({ valid: true, value: { email: 'bob@example.com', role: 'editor' } });
+    expect(validateMemberInput({ role: 'viewer' }, true)).toEqual({ valid: true, value: { role: 'viewer' } });
+    const invalid = validateMemberInput({ role: 'admin' });
+    expect(invalid.valid).toBe(false);
+    if (!invalid.valid) expect(invalid.errors.map(e => e.field)).toEqual(['email', 'role']);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Household Domain Model
+ * A household is a ledger several users share, kept in a FinanceAgent instance of its
+ * own. Members have a role: viewers can read, editors can also add and change data,
+ * and owners can also manage members and reset the household's data.
+ */
+
+import type { Scope } from './auth';
+import type { FieldError, ValidationResult } from './transaction';
+import { USER_ID_HEADER } from './identity';
+
+export const HOUSEHOLD_ROLES = ['viewer', 'editor', 'owner'] as const;
+export type HouseholdRole = typeof HOUSEHOLD_ROLES[number];
+
+export interface Household {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface HouseholdMember {
+  userId: string;
+  email: string;
+  role: HouseholdRole;
+  joinedAt: number;
+}
+
+// Sent by the client to act on a household's ledger instead of their own (or ?household=)
+export const HOUSEHOLD_HEADER = 'X-Finance-Household';
+
+// Set by the Worker on household requests: the member list, URI-encoded JSON
+export const MEMBERS_HEADER = 'X-Finance-Members';
+
+const MAX_HOUSEHOLD_NAME_LENGTH = 60;
+
+// Endpoints only owners may use on a household's ledger, whatever scope they need elsewhere:
+// a backup holds every member's personal budgets, goals and conversations
+export const OWNER_ONLY_PATHS = ['/api/backup'];
+
+/**
+ * The most a role allows, whatever the credential's own scopes
+ */
+export function roleScope(role: HouseholdRole): Scope {
+  return role === 'owner' ? 'admin' : role === 'editor' ? 'write' : 'read';
+}
+
+export function isHouseholdRole(value: unknown): value is HouseholdRole {
+  return (HOUSEHOLD_ROLES as readonly unknown[]).includes(value);
+}
+
+/**
+ * How a member is named in summaries and AI answers: the part of their email before the @
+ */
+export function memberName(member: Pick<HouseholdMember, 'email'>): string {
+  return member.email.split('@')[0];
+}
+
+// ========== REQUEST CONTEXT ==========
+
+/**
+ * Who a FinanceAgent request acts for: the signed-in user and, on a household's
+ * ledger, every member of it (empty on a personal ledger)
+ */
+export interface MemberContext {
+  userId: string | null;
+  members: HouseholdMember[];
+}
+
+export const NO_MEMBER: MemberContext = { userId: null, members: [] };
+
+export function memberContext(request: Request): MemberContext {
+  const userId = request.headers.get(USER_ID_HEADER);
+  const header = request.headers.get(MEMBERS_HEADER);
+  let members: HouseholdMember[] = [];
+  if (header) {
+    try {
+      members = JSON.parse(decodeURIComponent(header));
+    } catch {
+      members = [];
+    }
+  }
+  return { userId, members: Array.isArray(members) ? members : [] };
+}
+
+/**
+ * The member asking on a household's ledger; null on a personal ledger
+ */
+export function householdMember(context: MemberContext): string | null {
+  return context.members.length > 0 ? context.userId : null;
+}
+
+/**
+ * A member's display name, "you" for the one asking, or the raw id for someone who has left
+ */
+export function describeMember(context: MemberContext, userId: string | null): string {
+  if (userId !== null && userId === context.userId) return 'you';
+  const member = context.members.find(m => m.userId === userId);
+  return member ? memberName(member) : userId ?? 'unknown';
+}
+
+// ========== VALIDATION ==========
+
+export function validateHouseholdInput(input: unknown): ValidationResult<{ name: string }> {
+  const body = input && typeof input === 'object' && !Array.isArray(input) ? input as Record<string, unknown> : null;
+  if (!body) return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) return { valid: false, errors: [{ field: 'name', message: 'is required' }] };
+  if (name.length > MAX_HOUSEHOLD_NAME_LENGTH) {
+    return { valid: false, errors: [{ field: 'name', message: `must be at most ${MAX_HOUSEHOLD_NAME_LENGTH} characters` }] };
+  }
+  return { valid: true, value: { name } };
+}
+
+/**
+ * Validate a member invitation ({ email, role }) or, when `roleOnly`, a role change ({ role })
+ */
+export function validateMemberInput(input: unknown, roleOnly = false): ValidationResult<{ email?: string; role: HouseholdRole }> {
+  const body = input && typeof input === 'object' && !Array.isArray(input) ? input as Record<string, unknown> : null;
+  if (!body) return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+
+  const errors: FieldError[] = [];
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+  if (!roleOnly && !email) errors.push({ field: 'email', message: 'is required' });
+  if (!isHouseholdRole(body.role)) errors.push({ field: 'role', message: `must be one of: ${HOUSEHOLD_ROLES.join(', ')}` });
+
+  if (errors.length > 0) return { valid: false, errors };
+  return { valid: true, value: { ...(roleOnly ? {} : { email }), role: body.role as HouseholdRole } };
+}
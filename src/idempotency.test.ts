@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { isValidIdempotencyKey, requestFingerprint, MAX_IDEMPOTENCY_KEY_LENGTH } from './idempotency';
+
+describe('idempotency', () => {
+  it('should accept printable keys within the length limit', () => {
+    expect(isValidIdempotencyKey(crypto.randomUUID())).toBe(true);
+    expect(isValidIdempotencyKey('')).toBe(false);
+    expect(isValidIdempotencyKey('has space')).toBe(false);
+    expect(isValidIdempotencyKey('x'.repeat(MAX_IDEMPOTENCY_KEY_LENGTH + 1))).toBe(false);
+    expect(isValidIdempotencyKey(42)).toBe(false);
+  });
+
+  it('should fingerprint requests regardless of field order', async () => {
+    const a = await requestFingerprint({ amount: 5, description: 'Coffee', tags: ['x'] });
+    const b = await requestFingerprint({ tags: ['x'], description: 'Coffee', amount: 5 });
+    expect(a).toBe(b);
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+    expect(await requestFingerprint({ amount: 6, description: 'Coffee', tags: ['x'] })).not.toBe(a);
+  });
+});
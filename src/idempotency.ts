@@ -0,0 +1,45 @@
+/**
+ * Idempotency Keys
+ * A client that sends the same key again (a double click, a retried request, the AI
+ * repeating a call) gets the first result back instead of creating a second transaction.
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 200;
+
+// Keys are forgotten after this long, so the same key may then create again
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface IdempotencyRecord {
+  key: string;          // namespaced by caller, e.g. "api:<key>" or "ai:<conversationId>:<key>"
+  fingerprint: string;  // of the request the key was first used with
+  response: unknown;    // the result returned then, replayed as is
+  createdAt: number;
+}
+
+/**
+ * Keys are 1 to MAX_IDEMPOTENCY_KEY_LENGTH printable ASCII characters, e.g. a UUID
+ */
+export function isValidIdempotencyKey(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_IDEMPOTENCY_KEY_LENGTH && /^[\x21-\x7e]+$/.test(value);
+}
+
+/**
+ * SHA-256 (hex) of a request body with object keys sorted, so reordered fields
+ * count as the same request
+ */
+export async function requestFingerprint(body: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(body)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
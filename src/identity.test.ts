@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SESSION_COOKIE,
+  DirectoryIdentityVerifier,
+  LocalIdentityVerifier,
+  createIdentityVerifier,
+  parseLocalTokens,
+  requestCredentials
+} from './identity';
+
+const ALL = ['read', 'write', 'admin'];
+
+function request(headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/api/get-summary', { headers });
+}
+
+describe('requestCredentials', () => {
+  it('should prefer a bearer token over the session cookie', () => {
+    expect(requestCredentials(request({ Cookie: `theme=dark; ${SESSION_COOKIE}=fs_abc` }))).toEqual({ method: 'session', value: 'fs_abc' });
+    expect(requestCredentials(request({ Cookie: `${SESSION_COOKIE}=fs_abc`, Authorization: 'Bearer fa_xyz' }))).toEqual({ method: 'token', value: 'fa_xyz' });
+    expect(requestCredentials(request({ Authorization: 'Basic abc' }))).toBeNull();
+  });
+});
+
+describe('LocalIdentityVerifier', () => {
+  it('should map fixed tokens to users', async () => {
+    const verifier = new LocalIdentityVerifier({ 'alice-token': { userId: 'alice', scopes: ['read'] } });
+    expect(await verifier.verify(request({ Authorization: 'Bearer alice-token' }))).toEqual({ userId: 'alice', method: 'token', scopes: ['read'] });
+    expect(await verifier.verify(request({ Authorization: 'Bearer constructor' }))).toBeNull();
+    expect(await verifier.verify(request())).toBeNull();
+  });
+
+  it('should act as the default user when no credentials are sent', async () => {
+    const verifier = new LocalIdentityVerifier({}, 'local');
+    expect(await verifier.verify(request())).toEqual({ userId: 'local', method: 'session', scopes: ALL });
+  });
+
+  it('should parse token tables from configuration', () => {
+    expect(parseLocalTokens('t1:alice, t2:bob:read,bad,t3:carol:owner')).toEqual({
+      t1: { userId: 'alice', scopes: ALL },
+      t2: { userId: 'bob', scopes: ['read'] }
+    });
+  });
+});
+
+describe('createIdentityVerifier', () => {
+  it('should only use fixed tokens in development', () => {
+    const AuthDirectory = {} as DurableObjectNamespace;
+    expect(createIdentityVerifier({ AuthDirectory })).toBeInstanceOf(DirectoryIdentityVerifier);
+    expect(createIdentityVerifier({ AuthDirectory, ENVIRONMENT: 'development', LOCAL_USER_ID: 'local' })).toBeInstanceOf(LocalIdentityVerifier);
+    expect(createIdentityVerifier({ AuthDirectory, ENVIRONMENT: 'production', LOCAL_USER_ID: 'local' })).toBeInstanceOf(DirectoryIdentityVerifier);
+    expect(() => createIdentityVerifier({ ENVIRONMENT: 'production' })).toThrow(/AuthDirectory/);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Identity
+ * Who is making a request, resolved at the Worker entry point so every user is routed
+ * to a FinanceAgent Durable Object of their own. Credentials are checked by a pluggable
+ * IdentityVerifier: the AuthDirectory's sessions and API tokens in production, a fixed
+ * token table for tests and local development.
+ */
+
+import { SCOPES, Scope } from './auth';
+
+export interface Identity {
+  userId: string;
+  method: 'session' | 'token';
+  scopes: Scope[];
+  credentialId?: string;   // the session or API token used, when it has one
+}
+
+// Name of the single AuthDirectory instance
+export const AUTH_DIRECTORY_NAME = 'directory';
+
+export interface IdentityVerifier {
+  /** The identity a request carries, or null when it has no valid credentials */
+  verify(request: Request): Promise<Identity | null>;
+}
+
+export const SESSION_COOKIE = 'finance_session';
+
+// Set by the Worker on requests it forwards to a Durable Object; any client-sent values are replaced
+export const USER_ID_HEADER = 'X-Finance-User';
+export const CREDENTIAL_ID_HEADER = 'X-Finance-Credential';
+
+const MAX_USER_ID_LENGTH = 128;
+
+export function isValidUserId(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_USER_ID_LENGTH && /^[\w.@+-]+$/.test(value);
+}
+
+/**
+ * Credentials on a request: the bearer token from the Authorization header, else the session cookie
+ */
+export function requestCredentials(request: Request): { method: Identity['method']; value: string } | null {
+  const authorization = request.headers.get('Authorization');
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (bearer) return { method: 'token', value: bearer[1] };
+
+  const cookie = readCookie(request.headers.get('Cookie'), SESSION_COOKIE);
+  return cookie ? { method: 'session', value: cookie } : null;
+}
+
+function readCookie(header: string | null, name: string): string | null {
+  for (const part of (header ?? '').split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name && rest.length > 0) return decodeURIComponent(rest.join('='));
+  }
+  return null;
+}
+
+// ========== DIRECTORY ==========
+
+/**
+ * Checks session secrets and API tokens against the AuthDirectory Durable Object, which
+ * knows their owners, scopes, expiry and revocation
+ */
+export class DirectoryIdentityVerifier implements IdentityVerifier {
+  constructor(private directory: DurableObjectNamespace) {}
+
+  async verify(request: Request): Promise<Identity | null> {
+    const credentials = requestCredentials(request);
+    if (!credentials) return null;
+
+    const stub = this.directory.get(this.directory.idFromName(AUTH_DIRECTORY_NAME));
+    const response = await stub.fetch('https://auth-directory/internal/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': request.headers.get('User-Agent') ?? '' },
+      body: JSON.stringify({ secret: credentials.value })
+    });
+    if (!response.ok) return null;
+    const { identity } = await response.json() as { identity: Identity | null };
+    return identity;
+  }
+}
+
+// ========== LOCAL ==========
+
+/**
+ * Fixed credentials for tests and local development: each token (sent as a bearer token
+ * or session cookie) names a user and, optionally, its scopes. With `defaultUserId`,
+ * requests without credentials act as that user, so the UI works under `wrangler dev`.
+ */
+export class LocalIdentityVerifier implements IdentityVerifier {
+  constructor(private tokens: Record<string, { userId: string; scopes: Scope[] }>, private defaultUserId?: string) {}
+
+  async verify(request: Request): Promise<Identity | null> {
+    const credentials = requestCredentials(request);
+    if (!credentials) return this.defaultUserId ? { userId: this.defaultUserId, method: 'session', scopes: [...SCOPES] } : null;
+    const token = Object.prototype.hasOwnProperty.call(this.tokens, credentials.value) ? this.tokens[credentials.value] : undefined;
+    return token ? { userId: token.userId, method: credentials.method, scopes: token.scopes } : null;
+  }
+}
+
+/**
+ * Parse LOCAL_AUTH_TOKENS ("token:user,token:user:read") into a token table;
+ * tokens without a scope get every scope
+ */
+export function parseLocalTokens(value: string | undefined): Record<string, { userId: string; scopes: Scope[] }> {
+  const tokens: Record<string, { userId: string; scopes: Scope[] }> = {};
+  for (const entry of (value ?? '').split(',')) {
+    const [token, userId, scope] = entry.trim().split(':');
+    if (!token || !isValidUserId(userId)) continue;
+    if (scope !== undefined && !(SCOPES as readonly string[]).includes(scope)) continue;
+    tokens[token] = { userId, scopes: scope ? [scope as Scope] : [...SCOPES] };
+  }
+  return tokens;
+}
+
+/**
+ * The verifier for a deployment: the local verifier when ENVIRONMENT is "development" and
+ * LOCAL_USER_ID or LOCAL_AUTH_TOKENS is set, else the AuthDirectory
+ */
+export function createIdentityVerifier(env: { AuthDirectory?: DurableObjectNamespace; ENVIRONMENT?: string; LOCAL_AUTH_TOKENS?: string; LOCAL_USER_ID?: string }): IdentityVerifier {
+  if (env.ENVIRONMENT === 'development' && (env.LOCAL_USER_ID || env.LOCAL_AUTH_TOKENS)) {
+    return new LocalIdentityVerifier(parseLocalTokens(env.LOCAL_AUTH_TOKENS), env.LOCAL_USER_ID || undefined);
+  }
+  if (env.AuthDirectory) {
+    return new DirectoryIdentityVerifier(env.AuthDirectory);
+  }
+  throw new Error('Authentication is not configured: bind the AuthDirectory Durable Object');
+}
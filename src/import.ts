@@ -0,0 +1,276 @@
+/**
+ * Statement Import
+ * Bank files become transactions in two steps. A format's parser reads the file into
+ * candidate rows; the preview validates each row, flags rows imported before (same
+ * external id) and rows that look like a transaction already entered by hand, and is
+ * kept for IMPORT_TTL_MS. Committing the preview adds the chosen rows the way
+ * POST /api/add-transaction adds one.
+ */
+
+import { Account, AccountType, MAX_ACCOUNT_NAME_LENGTH } from './account';
+import type { Category, CategoryKind } from './category';
+import type { BankDetails, FieldError, TransactionInput, TransactionSplit, TransactionType, ValidationResult } from './transaction';
+
+export const IMPORT_FORMATS = ['csv', 'ofx', 'qif', 'beancount', 'hledger', 'camt053', 'mt940'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+// Previews not committed by then are dropped
+export const IMPORT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * A statement line as a format's parser read it, before validation
+ */
+export interface ParsedRow {
+  line: number;            // where the row starts in the file (1-based), or its position in formats not laid out by line
+  date?: string;           // YYYY-MM-DD
+  amount?: number;         // positive; `type` says which way the money went
+  type?: TransactionType;
+  description?: string;
+  category?: string;       // as the file names it: a category id or name
+  merchant?: string;       // payee, when the file has one apart from the description
+  externalId?: string;     // the bank's stable id for the line, when the format has one
+  account?: string;        // in files spanning several accounts, the one it belongs to
+  toAccount?: string;      // the account a transfer goes to
+  splits?: TransactionSplit[];
+  tags?: string[];
+  sourceId?: string;       // its id in the ledger it was exported from, when that was this app
+  bankDetails?: BankDetails;
+  errors: FieldError[];    // what could not be read
+}
+
+/**
+ * An account a file spanning several accounts (a ledger journal, a QIF file) names.
+ * Rows refer to it by `key` until it is matched to an account here.
+ */
+export interface DeclaredAccount {
+  key: string;
+  id?: string;             // its id in the ledger it was exported from
+  name: string;
+  type: AccountType;
+  openingBalance?: number;
+  openingDate?: string;
+}
+
+/**
+ * A category such a file names; `parent` is the key of its parent category
+ */
+export interface DeclaredCategory {
+  key: string;
+  id?: string;
+  name: string;
+  kind: CategoryKind;
+  parent?: string;
+  details?: Partial<Pick<Category, 'color' | 'icon' | 'archived' | 'defaultBudget' | 'keywords'>>;
+}
+
+export interface LedgerParseResult {
+  accounts: DeclaredAccount[];
+  categories: DeclaredCategory[];
+  rows: ParsedRow[];       // accounts and categories (splits' too) by key
+  currencies: string[];
+  errors: FieldError[];    // problems with the file as a whole
+}
+
+// new: will be added; duplicate: probably entered already, added only on request;
+// imported: this very line was imported before; invalid: cannot be added
+export type ImportRowStatus = 'new' | 'duplicate' | 'imported' | 'invalid';
+
+export interface ImportRow {
+  line: number;
+  status: ImportRowStatus;
+  externalId: string;                                     // the bank's id, or a fingerprint of the line
+  transaction?: TransactionInput & { accountId: string }; // the validated transaction, unless invalid
+  duplicateOf?: string;                                   // existing transaction it repeats (duplicate and imported)
+  bankDetails?: BankDetails;                              // kept on the transaction when committed
+  errors: FieldError[];
+}
+
+/**
+ * A balance the bank reported with a statement, kept to reconcile the account against
+ */
+export interface StatementBalance {
+  accountId: string;
+  asOf: string;            // YYYY-MM-DD
+  balance: number;
+  available?: number;      // what the bank said could be spent, when it differs
+  currency?: string;
+  source: ImportFormat;
+  recordedAt: number;
+}
+
+/**
+ * What a statement says about its account, for formats that identify one
+ */
+export interface StatementAccount {
+  accountRef?: string;     // the bank's id for the account; linked to the import's account on commit
+  newAccount?: Account;    // an account not seen before, created on commit
+  balance?: Omit<StatementBalance, 'accountId' | 'recordedAt'>;  // recorded on commit
+}
+
+export interface PendingImport extends StatementAccount {
+  id: string;
+  format: ImportFormat;
+  accountId: string;
+  createdAt: number;
+  details: Record<string, unknown>;  // how the parser read the file, e.g. the CSV delimiter and columns
+  rows: ImportRow[];
+  newAccounts?: Account[];      // accounts a ledger file names that are not here yet, created on commit
+  newCategories?: Category[];   // likewise categories
+}
+
+/**
+ * A balance as a bank statement reports it; negative when overdrawn
+ */
+export interface ReportedBalance {
+  amount: number;
+  asOf: string;            // YYYY-MM-DD
+}
+
+/**
+ * A statement from the European bank formats (camt.053, MT940): one account, in one
+ * currency, over a period
+ */
+export interface BankStatement {
+  account: string;         // the bank's identifier for it: an IBAN, or a bank code and account number
+  servicer?: string;       // the bank's name, or its BIC
+  type?: AccountType;      // when the statement says
+  currency?: string;
+  start?: string;
+  end?: string;
+  openingBalance?: ReportedBalance;
+  closingBalance?: ReportedBalance;
+  availableBalance?: ReportedBalance;
+  rows: ParsedRow[];
+}
+
+export interface BankStatementParseResult {
+  statements: BankStatement[];
+  errors: FieldError[];    // problems with the file as a whole
+}
+
+/**
+ * Banks send one statement a day; consecutive statements for the same account and
+ * currency are imported as one, from the first's opening to the last's closing balance
+ */
+export function combineStatements(statements: readonly BankStatement[]): BankStatement[] {
+  const combined: BankStatement[] = [];
+  for (const statement of statements) {
+    const last = combined[combined.length - 1];
+    if (!last || last.account !== statement.account || last.currency !== statement.currency) {
+      combined.push({ ...statement, rows: [...statement.rows] });
+      continue;
+    }
+    last.rows.push(...statement.rows);
+    if (statement.end) last.end = statement.end;
+    if (statement.closingBalance) last.closingBalance = statement.closingBalance;
+    if (statement.availableBalance) last.availableBalance = statement.availableBalance;
+  }
+  return combined;
+}
+
+/**
+ * How a bank statement's account is known and what to call a new account for it, e.g.
+ * "Musterbank Checking 3000". IBANs make the same reference in every format, so a
+ * camt.053 import and an MT940 import of one account link to the same account.
+ */
+export function bankAccountDetails(statement: Pick<BankStatement, 'account' | 'servicer' | 'type'>): { externalRef: string; name: string; type: AccountType } {
+  const id = statement.account.replace(/\s+/g, '').toUpperCase();
+  const type = statement.type ?? 'checking';
+  const label = { checking: 'Checking', savings: 'Savings', credit_card: 'Credit Card', cash: 'Cash', loan: 'Loan' }[type];
+  const name = [statement.servicer, label, id.slice(-4)].filter(Boolean).join(' ');
+  return {
+    externalRef: /^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(id) ? `iban:${id}` : `bank:${id}`,
+    name: name.length > MAX_ACCOUNT_NAME_LENGTH ? `${label} ${id.slice(-4)}` : name,
+    type
+  };
+}
+
+export type ImportSummary = Record<ImportRowStatus, number> & { total: number };
+
+export function summarizeImport(rows: readonly ImportRow[]): ImportSummary {
+  const summary: ImportSummary = { total: rows.length, new: 0, duplicate: 0, imported: 0, invalid: 0 };
+  for (const row of rows) summary[row.status]++;
+  return summary;
+}
+
+/**
+ * External ids for parsed rows: the bank's own where it gave one, else a fingerprint of
+ * the account, date, amount, direction and description. Identical lines are numbered
+ * so two real coffees on one day stay two rows, and importing the file again matches both.
+ */
+export async function rowExternalIds(rows: readonly ParsedRow[], accountId: string): Promise<string[]> {
+  const occurrences = new Map<string, number>();
+  return Promise.all(rows.map(async row => {
+    if (row.externalId) return row.externalId;
+    const key = [row.account ?? accountId, row.date ?? '', row.amount?.toFixed(2) ?? '', row.type ?? '', (row.description ?? '').trim().toLowerCase()].join('|');
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${key}|${occurrence}`));
+    return `line:${Array.from(new Uint8Array(digest).slice(0, 12), byte => byte.toString(16).padStart(2, '0')).join('')}`;
+  }));
+}
+
+/**
+ * Validate an import request carrying the file as text in `field`, with an optional target account
+ */
+export function validateFileImportInput(input: unknown, field: string): ValidationResult<{ text: string; accountId?: string }> {
+  const body = input && typeof input === 'object' && !Array.isArray(input) ? input as Record<string, unknown> : null;
+  if (!body) return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+
+  const errors: FieldError[] = [];
+  const text = body[field];
+  if (typeof text !== 'string' || !text.trim()) errors.push({ field, message: 'is required: the file contents as text' });
+  if (body.accountId !== undefined && (typeof body.accountId !== 'string' || !body.accountId.trim())) {
+    errors.push({ field: 'accountId', message: 'must be a non-empty string' });
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+  return {
+    valid: true,
+    value: { text: text as string, ...(body.accountId !== undefined ? { accountId: (body.accountId as string).trim() } : {}) }
+  };
+}
+
+/**
+ * Which preview rows to add: by default every new row, plus likely duplicates with
+ * `includeDuplicates`; or exactly the listed `lines` (rows imported before are never re-added)
+ */
+export interface ImportCommitInput {
+  lines?: number[];
+  includeDuplicates: boolean;
+}
+
+export function validateImportCommit(input: unknown): ValidationResult<ImportCommitInput> {
+  const body = input === null || input === undefined ? {} : input;
+  if (typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+  const { lines, includeDuplicates } = body as Record<string, unknown>;
+
+  const errors: FieldError[] = [];
+  if (lines !== undefined && (!Array.isArray(lines) || !lines.every(line => Number.isInteger(line) && line > 0))) {
+    errors.push({ field: 'lines', message: 'must be an array of line numbers' });
+  }
+  if (includeDuplicates !== undefined && typeof includeDuplicates !== 'boolean') {
+    errors.push({ field: 'includeDuplicates', message: 'must be true or false' });
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+  return {
+    valid: true,
+    value: { ...(lines !== undefined ? { lines: lines as number[] } : {}), includeDuplicates: includeDuplicates === true }
+  };
+}
+
+/**
+ * The rows a commit adds
+ */
+export function rowsToCommit(rows: readonly ImportRow[], selection: ImportCommitInput): ImportRow[] {
+  return rows.filter(row => {
+    if (!row.transaction || row.status === 'imported') return false;
+    if (selection.lines) return selection.lines.includes(row.line);
+    return row.status === 'new' || (row.status === 'duplicate' && selection.includeDuplicates);
+  });
+}
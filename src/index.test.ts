@@ -0,0 +1,652 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { routeRequest, agentNameFor } from './index';
+import { FinanceAgent } from './simple-agent';
+import { AuthDirectory } from './auth-directory';
+import { DirectoryIdentityVerifier, LocalIdentityVerifier, SESSION_COOKIE, USER_ID_HEADER } from './identity';
+import { DirectoryRateLimiter, PERIOD_MS, periodStart } from './rate-limit';
+import { createTestNamespace } from './test-support';
+import { TIMEZONE_HEADER } from './transaction';
+
+describe('Worker routing', () => {
+  const verifier = new LocalIdentityVerifier({
+    'alice-token': { userId: 'alice', scopes: ['read', 'write', 'admin'] },
+    'bob-token': { userId: 'bob', scopes: ['read', 'write', 'admin'] }
+  });
+  let env: any;
+  let agents: Map<string, FinanceAgent>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    env = { AI: { run: async () => ({ response: '' }) } };
+    agents = new Map();
+    env.FinanceAgent = createTestNamespace(state => {
+      const agent = new FinanceAgent(state, env);
+      agents.set(state.id.name!, agent);
+      return agent;
+    });
+  });
+
+  function call(token: string | null, path: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    return routeRequest(new Request(`http://localhost${path}`, { ...init, headers }), env, verifier);
+  }
+
+  it('should reject requests without an identity', async () => {
+    const response = await call(null, '/api/transactions');
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toContain('Bearer');
+    expect(await response.json()).toMatchObject({ success: false, error: 'unauthenticated' });
+    expect((await call('wrong-token', '/api/transactions')).status).toBe(401);
+  });
+
+  it('should keep users\' data apart', async () => {
+    const added = await call('alice-token', '/api/add-transaction', {
+      method: 'POST',
+      body: JSON.stringify({ amount: 4321, description: 'Alice only', category: 'shopping', type: 'expense' })
+    });
+    expect(added.status).toBe(200);
+
+    const search = (token: string) => call(token, '/api/transactions?q=Alice%20only').then(r => r.json()) as Promise<any>;
+    expect((await search('alice-token')).total).toBe(1);
+    expect((await search('bob-token')).total).toBe(0);
+
+    await call('bob-token', '/api/reset-data?confirm=delete-all-data', { method: 'POST' });
+    expect((await search('alice-token')).total).toBe(1);
+  });
+
+  it('should start ledgers empty unless the deployment asks for sample data, and reset to empty', async () => {
+    const total = (token: string) => call(token, '/api/transactions?limit=1').then(r => r.json()).then((r: any) => r.total);
+    expect(await total('alice-token')).toBe(0);
+
+    env.SAMPLE_DATA = 'true';
+    expect(await total('bob-token')).toBeGreaterThan(0);
+    await call('bob-token', '/api/reset-data?confirm=delete-all-data', { method: 'POST' });
+    expect(await total('bob-token')).toBe(0);
+  });
+
+  it('should not trust a user id sent by the client', async () => {
+    await call('alice-token', '/api/add-transaction', {
+      method: 'POST',
+      headers: { [USER_ID_HEADER]: 'bob' },
+      body: JSON.stringify({ amount: 99, description: 'Spoofed', category: 'shopping', type: 'expense' })
+    });
+    const bob = await (await call('bob-token', '/api/transactions?q=Spoofed')).json() as any;
+    expect(bob.total).toBe(0);
+  });
+
+  it('should date a transaction on the client\'s calendar, not the server\'s', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-04-03T03:30:00Z'));
+    try {
+      const add = (timeZone?: string) => call('alice-token', '/api/add-transaction', {
+        method: 'POST',
+        headers: timeZone ? { [TIMEZONE_HEADER]: timeZone } : {},
+        body: JSON.stringify({ amount: 7, description: 'Late taco run', category: 'food', type: 'expense' })
+      }).then(r => r.json()) as Promise<any>;
+      expect((await add('America/Denver')).transaction.date).toBe('2026-04-02');
+      // Clients that name no time zone get the UTC date, as before
+      expect((await add()).transaction.date).toBe('2026-04-03');
+      expect(await add('Mars/Olympus')).toMatchObject({ success: false, errors: [{ field: 'X-Timezone' }] });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should refuse a budget without a valid category and amount before writing it', async () => {
+    const setBudget = (body: unknown) => call('alice-token', '/api/set-budget', { method: 'POST', body: JSON.stringify(body) });
+    for (const body of [{ category: 'food' }, { category: 'food', amount: '100' }, { category: 'pets', amount: 100 }, { category: 'food', amount: -5 }]) {
+      const response = await setBudget(body);
+      expect(response.status).toBe(400);
+      expect((await response.json() as any).errors).toHaveLength(1);
+    }
+    expect((await call('alice-token', '/api/audit').then(r => r.json()) as any).entries).toEqual([]);
+    expect((await setBudget({ category: 'food', amount: 250 })).status).toBe(200);
+  });
+
+  it('should purge the trash when its alarm fires and redact what the audit log held', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime('2026-03-01T12:00:00Z');
+      const added = await call('alice-token', '/api/add-transaction', {
+        method: 'POST',
+        body: JSON.stringify({ amount: 84, description: 'Pharmacy', category: 'healthcare', type: 'expense' })
+      }).then(r => r.json()) as any;
+      const id = added.transaction.id;
+      expect((await call('alice-token', `/api/transactions/${id}`, { method: 'DELETE' })).status).toBe(200);
+
+      // The alarm fires exactly at the end of the retention period
+      vi.setSystemTime('2026-03-31T12:00:00Z');
+      await agents.get('user:alice')!.alarm();
+      expect((await call('alice-token', '/api/trash').then(r => r.json()) as any).transactions).toEqual([]);
+
+      const audit = await call('alice-token', `/api/audit?entityId=${id}`).then(r => r.json()) as any;
+      expect(audit.entries.map((e: any) => e.action)).toEqual(['purge', 'delete', 'create']);
+      expect(audit.entries.every((e: any) => e.redacted && e.before === null && e.after === null)).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should preview a CSV statement and commit only rows not entered before', async () => {
+    const json = (response: Promise<Response>) => response.then(r => r.json()) as Promise<any>;
+    await call('alice-token', '/api/add-transaction', {
+      method: 'POST',
+      body: JSON.stringify({ amount: 4.5, description: 'Coffee shop', category: 'food', type: 'expense', date: '2026-01-15' })
+    });
+
+    const csv = 'Date;Text;Amount\n15.01.2026;COFFEE SHOP;-4,50\n16.01.2026;Acme Payroll;2.000,00\n17.01.2026;Oops;\n';
+    const upload = () => call('alice-token', '/api/import/csv', { method: 'POST', body: JSON.stringify({ csv, saveMappingAs: 'My bank' }) });
+    const created = await upload();
+    expect(created.status).toBe(201);
+    const preview = (await created.json() as any).import;
+    expect(preview.details).toMatchObject({ delimiter: ';', decimal: ',', dateOrder: 'DMY' });
+    expect(preview.rows.map((r: any) => r.status)).toEqual(['duplicate', 'new', 'invalid']);
+    expect(preview.summary).toMatchObject({ total: 3, new: 1, duplicate: 1, invalid: 1 });
+
+    const committed = await json(call('alice-token', `/api/import/${preview.id}/commit`, { method: 'POST' }));
+    expect(committed).toMatchObject({ success: true, imported: 1 });
+    const salary = await json(call('alice-token', '/api/transactions?q=Acme%20Payroll'));
+    expect(salary.transactions[0]).toMatchObject({ amount: 2000, type: 'income', date: '2026-01-16' });
+    expect((await call('alice-token', `/api/import/${preview.id}`)).status).toBe(404);
+
+    const again = (await (await upload()).json() as any).import;
+    expect(again.details.savedMapping).toBe('My bank');
+    expect(again.rows.map((r: any) => r.status)).toEqual(['duplicate', 'imported', 'invalid']);
+    expect((await json(call('alice-token', '/api/import/mappings'))).mappings.map((m: any) => m.name)).toEqual(['My bank']);
+  });
+
+  it('should import an OFX statement into the account it names and reconcile it', async () => {
+    const json = (response: Promise<Response>) => response.then(r => r.json()) as Promise<any>;
+    const ofx = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX><SIGNONMSGSRSV1><SONRS><FI><ORG>Acme Bank</FI></SONRS></SIGNONMSGSRSV1>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD
+<BANKACCTFROM><BANKID>021000021<ACCTID>000123456789<ACCTTYPE>SAVINGS</BANKACCTFROM>
+<BANKTRANLIST><DTSTART>20260201<DTEND>20260228
+<STMTTRN><TRNTYPE>INT<DTPOSTED>20260227<TRNAMT>12.40<FITID>f1<NAME>Interest paid</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260228<TRNAMT>-2.40<FITID>f2<NAME>Zorblax monthly fee</STMTTRN>
+</BANKTRANLIST><LEDGERBAL><BALAMT>1010.00<DTASOF>20260228</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+    const upload = () => json(call('alice-token', '/api/import/ofx', { method: 'POST', body: JSON.stringify({ ofx }) }));
+
+    const [preview] = (await upload()).imports;
+    expect(preview.newAccount).toMatchObject({ id: 'acme-bank-savings-6789', type: 'savings', openingBalance: 1000, openingDate: '2026-02-01' });
+    expect(preview.summary).toMatchObject({ total: 2, new: 2 });
+    const committed = await json(call('alice-token', `/api/import/${preview.id}/commit`, { method: 'POST' }));
+    expect(committed).toMatchObject({ success: true, accountId: 'acme-bank-savings-6789', imported: 2 });
+
+    const reconciliation = await json(call('alice-token', '/api/accounts/acme-bank-savings-6789/reconciliation'));
+    expect(reconciliation.statements).toMatchObject([{ asOf: '2026-02-28', statementBalance: 1010, computedBalance: 1010, reconciled: true, source: 'ofx' }]);
+
+    const [again] = (await upload()).imports;
+    expect(again.newAccount).toBeUndefined();
+    expect(again.accountId).toBe('acme-bank-savings-6789');
+    expect(again.rows.map((r: any) => r.status)).toEqual(['imported', 'imported']);
+  });
+
+  it('should add a line a statement repeats once, even after an invalid copy', async () => {
+    const json = (response: Promise<Response>) => response.then(r => r.json()) as Promise<any>;
+    const line = (amount: string) => `<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260210${amount}<FITID>r1<NAME>Quokka cafe</STMTTRN>`;
+    const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD
+<BANKACCTFROM><BANKID>021000021<ACCTID>000555501234<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>${line('')}${line('<TRNAMT>-3.20')}${line('<TRNAMT>-3.20')}</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+    const [preview] = (await json(call('alice-token', '/api/import/ofx', { method: 'POST', body: JSON.stringify({ ofx }) }))).imports;
+    expect(preview.rows.map((r: any) => r.status)).toEqual(['invalid', 'new', 'imported']);
+
+    const committed = await json(call('alice-token', `/api/import/${preview.id}/commit`, { method: 'POST' }));
+    expect(committed).toMatchObject({ success: true, imported: 1 });
+  });
+
+  it('should import an MT940 statement with its bank details and reconcile it', async () => {
+    const json = (response: Promise<Response>) => response.then(r => r.json()) as Promise<any>;
+    const mt940 = `:20:STMT
+:25:NL91ABNA0417164300
+:60F:C260301EUR500,00
+:61:2603030303D42,10NDDTNONREF//B3C03
+:86:/EREF/INV-88/NAME/Wombat Waterworks/REMI/USTD//Water March/
+:62F:C260303EUR457,90`;
+    const created = await call('alice-token', '/api/import/mt940', { method: 'POST', body: JSON.stringify({ mt940 }) });
+    expect(created.status).toBe(201);
+    const [preview] = (await created.json() as any).imports;
+    expect(preview.newAccount).toMatchObject({ name: 'Checking 4300', openingBalance: 500, openingDate: '2026-03-01' });
+    expect(preview.details).toMatchObject({ account: 'NL91ABNA0417164300', currency: 'EUR' });
+    const committed = await json(call('alice-token', `/api/import/${preview.id}/commit`, { method: 'POST' }));
+    expect(committed).toMatchObject({ success: true, imported: 1 });
+
+    const water = await json(call('alice-token', '/api/transactions?q=Wombat%20Waterworks'));
+    expect(water.transactions[0]).toMatchObject({
+      amount: 42.1, type: 'expense', date: '2026-03-03', accountId: committed.accountId,
+      bankDetails: { valueDate: '2026-03-03', counterparty: 'Wombat Waterworks', remittance: 'Water March', endToEndId: 'INV-88', bankReference: 'B3C03' }
+    });
+    const reconciliation = await json(call('alice-token', `/api/accounts/${committed.accountId}/reconciliation`));
+    expect(reconciliation.statements).toMatchObject([{ asOf: '2026-03-03', statementBalance: 457.9, reconciled: true, source: 'mt940' }]);
+  });
+
+  it('should back up a ledger and restore it elsewhere by merging or replacing', async () => {
+    const json = (response: Promise<Response>) => response.then(r => r.json()) as Promise<any>;
+    const post = (token: string, path: string, body: unknown) => call(token, path, { method: 'POST', body: JSON.stringify(body) });
+    const added = await json(post('alice-token', '/api/add-transaction', { amount: 12, description: 'Numbat backup check', category: 'food', type: 'expense' }));
+    const png = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+    expect((await post('alice-token', `/api/transactions/${added.transaction.id}/attachments`, { file: png, filename: 'receipt.png' })).ok).toBe(true);
+    await post('alice-token', '/api/net-worth', { assets: [{ name: 'Numbat fund', amount: 900 }], liabilities: [] });
+
+    const download = await call('alice-token', '/api/backup');
+    expect(download.headers.get('Content-Disposition')).toMatch(/^attachment; filename="finance-backup-\d{4}-\d{2}-\d{2}\.json"$/);
+    const backup = await download.json() as any;
+    expect(backup).toMatchObject({ format: 'finance-agent-backup', version: 1, storage: { netWorth: { assets: [{ name: 'Numbat fund' }] } } });
+    expect(backup.files).toHaveLength(1);
+
+    const merged = await json(post('bob-token', '/api/restore', backup));
+    expect(merged).toMatchObject({ success: true, mode: 'merge', keys: 1, files: 1 });
+    const numbat = await json(call('bob-token', '/api/transactions?q=Numbat%20backup'));
+    expect(numbat.total).toBe(1);
+    const attachments = await json(call('bob-token', `/api/transactions/${added.transaction.id}/attachments`));
+    expect((await call('bob-token', `/api/attachments/${attachments.attachments[0].id}`)).headers.get('Content-Type')).toBe('image/png');
+
+    expect((await post('bob-token', '/api/restore?mode=replace', backup)).status).toBe(400);
+    await post('bob-token', '/api/add-transaction', { amount: 3, description: 'Bob before replace', category: 'food', type: 'expense' });
+    // A backup taken before bank details were recorded is brought up to date
+    const older = { ...backup, schemaVersion: 12, tables: { ...backup.tables, transactions: backup.tables.transactions.map(({ bank_details, ...row }: any) => row) } };
+    const replaced = await json(post('bob-token', '/api/restore?mode=replace&confirm=replace-all-data', older));
+    expect(replaced.message).toMatch(/migrated from schema version 12/);
+    expect((await json(call('bob-token', '/api/transactions?q=Bob%20before'))).total).toBe(0);
+    expect((await json(call('bob-token', '/api/transactions?limit=1'))).total).toBe((await json(call('alice-token', '/api/transactions?limit=1'))).total);
+    expect((await json(call('bob-token', '/api/net-worth'))).assets).toEqual([{ name: 'Numbat fund', amount: 900 }]);
+  });
+
+  it('should restore all or nothing, keep search in step and not seed sample data', async () => {
+    const json = (response: Promise<Response>) => response.then(r => r.json()) as Promise<any>;
+    const post = (token: string, path: string, body: unknown) => json(call(token, path, { method: 'POST', body: JSON.stringify(body) }));
+    const vectors = new Map<string, any>();
+    env.VECTORIZE = {
+      upsert: async (list: any[]) => list.forEach(v => vectors.set(v.id, v)),
+      deleteByIds: async (ids: string[]) => ids.forEach(id => vectors.delete(id))
+    };
+    env.AI.run = async (_model: string, { text }: { text: string[] }) => ({ data: text.map(() => [1]) });
+    const indexed = (owner: string, id: string) => [...vectors.values()].some(v => v.metadata.ownerId === owner && v.metadata.id === id);
+    const alices = (await post('alice-token', '/api/add-transaction', { amount: 5, description: 'Wallaby restore check', category: 'food', type: 'expense' })).transaction;
+    const bobs = (await post('bob-token', '/api/add-transaction', { amount: 3, description: 'Bob before replace', category: 'food', type: 'expense' })).transaction;
+    await post('bob-token', '/api/net-worth', { assets: [{ name: 'Bob fund', amount: 10 }], liabilities: [] });
+    expect(indexed('bob', bobs.id)).toBe(true);
+
+    const backup = await json(call('alice-token', '/api/backup'));
+    const replace = '/api/restore?mode=replace&confirm=replace-all-data';
+    // The same row twice passes the checks but not the table's key
+    const broken = { ...backup, tables: { ...backup.tables, transactions: [...backup.tables.transactions, backup.tables.transactions[0]] } };
+    expect((await post('bob-token', replace, broken)).success).toBe(false);
+    expect((await json(call('bob-token', '/api/net-worth'))).assets).toEqual([{ name: 'Bob fund', amount: 10 }]);
+    expect((await json(call('bob-token', '/api/transactions?q=Bob%20before'))).total).toBe(1);
+
+    expect((await post('bob-token', replace, backup)).success).toBe(true);
+    expect(indexed('bob', bobs.id)).toBe(false);
+    expect(indexed('bob', alices.id)).toBe(true);
+
+    const empty = { ...backup, schemaVersion: 2, storage: {}, tables: {}, files: [] };
+    expect((await post('bob-token', replace, empty)).success).toBe(true);
+    expect((await json(call('bob-token', '/api/transactions?limit=1'))).total).toBe(0);
+    expect([...vectors.values()].some(v => v.metadata.ownerId === 'bob')).toBe(false);
+  });
+
+  it('should export a ledger as beancount and import it into another ledger', async () => {
+    const json = (response: Promise<Response>) => response.then(r => r.json()) as Promise<any>;
+    const post = (token: string, path: string, body: unknown) => json(call(token, path, { method: 'POST', body: JSON.stringify(body) }));
+    await post('alice-token', '/api/accounts', { name: 'Quokka Card', type: 'credit_card', openingBalance: -50, openingDate: '2026-01-01' });
+    await post('alice-token', '/api/categories', { name: 'Quokka Treats', kind: 'expense', parentId: 'food', icon: '🍬' });
+    await post('alice-token', '/api/add-transaction', {
+      amount: 30, description: 'Quokka snack run', type: 'expense', category: 'quokka-treats', date: '2026-02-03',
+      accountId: 'quokka-card', tags: ['rottnest'], splits: [{ amount: 25, category: 'quokka-treats' }, { amount: 5, category: 'other', note: 'bags' }]
+    });
+    await post('alice-token', '/api/add-transaction', {
+      amount: 100, description: 'Quokka card payment', type: 'transfer', date: '2026-02-10', accountId: 'checking', toAccountId: 'quokka-card'
+    });
+
+    const exported = await call('alice-token', '/api/export/beancount?currency=AUD');
+    expect(exported.headers.get('Content-Disposition')).toMatch(/^attachment; filename="finance-\d{4}-\d{2}-\d{2}\.beancount"$/);
+    const beancount = await exported.text();
+    expect(beancount).toContain('Liabilities:CreditCard:Quokka-Card');
+
+    const preview = (await post('bob-token', '/api/import/beancount', { beancount })).import;
+    expect(preview.newAccounts.map((a: any) => [a.id, a.type, a.openingBalance])).toEqual([['quokka-card', 'credit_card', -50]]);
+    expect(preview.newCategories).toMatchObject([{ id: 'quokka-treats', parentId: 'food', icon: '🍬' }]);
+    expect(preview.summary.invalid).toBe(0);
+    const committed = await json(call('bob-token', `/api/import/${preview.id}/commit`, { method: 'POST' }));
+    expect(committed).toMatchObject({ success: true, accountsCreated: ['quokka-card'], categoriesCreated: ['quokka-treats'] });
+
+    const { transactions } = await json(call('bob-token', '/api/transactions?search=quokka'));
+    const snack = transactions.find((t: any) => t.description === 'Quokka snack run');
+    expect(snack).toMatchObject({ accountId: 'quokka-card', category: 'quokka-treats', tags: ['rottnest'], splits: [{ amount: 25 }, { amount: 5, category: 'other', note: 'bags' }] });
+    expect(transactions.find((t: any) => t.type === 'transfer')).toMatchObject({ accountId: 'checking', toAccountId: 'quokka-card', amount: 100 });
+
+    // Importing the same export again adds nothing
+    const again = (await post('bob-token', '/api/import/beancount', { beancount })).import;
+    expect(again.newAccounts).toBeUndefined();
+    expect(again.summary).toMatchObject({ new: 0, invalid: 0 });
+  });
+
+  it('should keep the legacy owner on the shared instance', () => {
+    expect(agentNameFor('alice', { LEGACY_OWNER_ID: 'alice' })).toBe('finance-agent-instance');
+    expect(agentNameFor('bob', { LEGACY_OWNER_ID: 'alice' })).toBe('user:bob');
+    expect(agentNameFor('bob', {})).toBe('user:bob');
+  });
+});
+
+describe('Accounts and API tokens', () => {
+  let env: any;
+  let verifier: DirectoryIdentityVerifier;
+  let limiter: DirectoryRateLimiter;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    env = { AI: { run: async () => ({ response: '' }) }, ADMIN_EMAILS: 'admin@example.com' };
+    env.FinanceAgent = createTestNamespace(state => new FinanceAgent(state, env));
+    env.AuthDirectory = createTestNamespace(state => new AuthDirectory(state, env));
+    verifier = new DirectoryIdentityVerifier(env.AuthDirectory);
+    limiter = new DirectoryRateLimiter(env.AuthDirectory);
+  });
+
+  function call(path: string, init: RequestInit & { cookie?: string; token?: string } = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (init.cookie) headers.set('Cookie', `${SESSION_COOKIE}=${init.cookie}`);
+    if (init.token) headers.set('Authorization', `Bearer ${init.token}`);
+    return routeRequest(new Request(`http://localhost${path}`, { ...init, headers }), env, verifier, limiter);
+  }
+
+  const credentials = { email: 'Alice@Example.com', password: 'correct horse' };
+
+  async function signUp(email: string = credentials.email): Promise<string> {
+    const response = await call('/api/auth/signup', { method: 'POST', body: JSON.stringify({ ...credentials, email }) });
+    expect(response.status).toBe(201);
+    return decodeURIComponent(response.headers.get('Set-Cookie')!.match(/finance_session=([^;]+)/)![1]);
+  }
+
+  // Sessions need a fresh password check before admin actions
+  async function stepUp(cookie: string, password: string = credentials.password): Promise<Response> {
+    return call('/api/auth/step-up', { method: 'POST', cookie, body: JSON.stringify({ password }) });
+  }
+
+  async function createToken(cookie: string, scopes: string[]): Promise<{ id: string; secret: string }> {
+    expect((await stepUp(cookie)).status).toBe(200);
+    const response = await call('/api/auth/tokens', { method: 'POST', cookie, body: JSON.stringify({ name: 'script', scopes }) });
+    expect(response.status).toBe(201);
+    const body = await response.json() as any;
+    return { id: body.token.id, secret: body.secret };
+  }
+
+  it('should sign up, log in and reject bad passwords', async () => {
+    const cookie = await signUp();
+    const me = await (await call('/api/auth/me', { cookie })).json() as any;
+    expect(me.user.email).toBe('alice@example.com');
+
+    const duplicate = await call('/api/auth/signup', { method: 'POST', body: JSON.stringify(credentials) });
+    expect(duplicate.status).toBe(409);
+
+    const wrong = await call('/api/auth/login', { method: 'POST', body: JSON.stringify({ ...credentials, password: 'wrong password' }) });
+    expect(wrong.status).toBe(401);
+    const unknown = await call('/api/auth/login', { method: 'POST', body: JSON.stringify({ ...credentials, email: 'nobody@example.com' }) });
+    expect(await unknown.json()).toEqual(await wrong.json());
+
+    const login = await call('/api/auth/login', { method: 'POST', body: JSON.stringify(credentials) });
+    expect(login.status).toBe(200);
+    expect(login.headers.get('Set-Cookie')).toMatch(/HttpOnly; Secure; SameSite=Lax/);
+  });
+
+  it('should limit sign-in attempts by account and by address', async () => {
+    await signUp();
+    const login = (email: string, ip: string) => call('/api/auth/login', {
+      method: 'POST', headers: { 'CF-Connecting-IP': ip }, body: JSON.stringify({ email, password: 'wrong password' })
+    });
+
+    // Signing up was the account's first attempt
+    for (let i = 0; i < 4; i++) expect((await login(credentials.email, `10.0.0.${i}`)).status).toBe(401);
+    const account = await login(credentials.email, '10.0.0.99');
+    expect(account.status).toBe(429);
+    expect(await account.json()).toMatchObject({ error: 'rate_limited', subject: 'account', period: 'minute', limit: 5 });
+    expect(Number(account.headers.get('Retry-After'))).toBeGreaterThan(0);
+
+    for (let i = 0; i < 19; i++) await login(`user${i}@example.com`, '10.0.0.1');
+    const address = await call('/api/auth/signup', { method: 'POST', headers: { 'CF-Connecting-IP': '10.0.0.1' }, body: JSON.stringify({ ...credentials, email: 'new@example.com' }) });
+    expect(await address.json()).toMatchObject({ error: 'rate_limited', subject: 'ip' });
+    expect((await login('bob@example.com', '10.0.0.2')).status).toBe(401);
+  });
+
+  it('should give sessions admin scope only for a while after a step-up', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const cookie = await signUp();
+      const listTokens = () => call('/api/auth/tokens', { cookie });
+      expect((await call('/api/add-transaction', { method: 'POST', cookie, body: JSON.stringify({ amount: 5, description: 'Coffee', category: 'food', type: 'expense' }) })).status).toBe(200);
+      const denied = await listTokens();
+      expect(denied.status).toBe(403);
+      expect(await denied.json()).toMatchObject({ error: 'insufficient_scope', requiredScope: 'admin', message: expect.stringContaining('/api/auth/step-up') });
+
+      expect((await stepUp(cookie, 'wrong password')).status).toBe(401);
+      const elevated = await stepUp(cookie);
+      expect(await elevated.json()).toMatchObject({ success: true, elevatedUntil: Date.now() + 15 * 60 * 1000 });
+      expect((await listTokens()).status).toBe(200);
+
+      // API tokens keep the scopes they were created with
+      const writer = await createToken(cookie, ['write']);
+      expect((await call('/api/auth/step-up', { method: 'POST', token: writer.secret, body: JSON.stringify(credentials) })).status).toBe(400);
+
+      vi.setSystemTime(Date.now() + 16 * 60 * 1000);
+      expect((await listTokens()).status).toBe(403);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should end revoked sessions', async () => {
+    const cookie = await signUp();
+    expect((await call('/api/transactions', { cookie })).status).toBe(200);
+
+    const logout = await call('/api/auth/logout', { method: 'POST', cookie });
+    expect(logout.headers.get('Set-Cookie')).toMatch(/Max-Age=0/);
+    expect((await call('/api/transactions', { cookie })).status).toBe(401);
+  });
+
+  it('should enforce token scopes', async () => {
+    const cookie = await signUp();
+    const reader = await createToken(cookie, ['read']);
+    const writer = await createToken(cookie, ['write']);
+
+    expect((await call('/api/transactions', { token: reader.secret })).status).toBe(200);
+    const denied = await call('/api/add-transaction', {
+      method: 'POST',
+      token: reader.secret,
+      body: JSON.stringify({ amount: 5, description: 'Coffee', category: 'food', type: 'expense' })
+    });
+    expect(denied.status).toBe(403);
+    expect(await denied.json()).toMatchObject({ error: 'insufficient_scope', requiredScope: 'write' });
+
+    expect((await call('/api/transactions', { token: writer.secret })).status).toBe(200);
+    expect((await call('/api/auth/tokens', { token: writer.secret })).status).toBe(403);
+    expect((await call('/api/reset-data?confirm=delete-all-data', { method: 'POST', token: writer.secret })).status).toBe(403);
+
+    expect((await call(`/api/auth/tokens/${reader.id}`, { method: 'DELETE', cookie })).status).toBe(200);
+    expect((await call('/api/transactions', { token: reader.secret })).status).toBe(401);
+    const tokens = await (await call('/api/auth/tokens', { cookie })).json() as any;
+    expect(tokens.tokens.map((t: any) => t.id)).toEqual([writer.id]);
+    expect(JSON.stringify(tokens)).not.toContain(writer.secret);
+  });
+
+  it('should require admin scope and confirmation to reset data', async () => {
+    const cookie = await signUp();
+    const admin = await createToken(cookie, ['admin']);
+
+    const unconfirmed = await call('/api/reset-data', { method: 'POST', token: admin.secret });
+    expect(unconfirmed.status).toBe(400);
+    expect(await unconfirmed.json()).toMatchObject({ success: false, errors: [{ field: 'confirm' }] });
+
+    const confirmed = await call('/api/reset-data?confirm=delete-all-data', { method: 'POST', token: admin.secret });
+    expect(confirmed.status).toBe(200);
+  });
+
+  it('should enforce rate limits and the daily AI quota that admins configure', async () => {
+    const admin = await signUp('admin@example.com');
+    const alice = await signUp('alice@example.com');
+    const ask = () => call('/api/suggest-category', { method: 'POST', cookie: alice, body: JSON.stringify({ description: 'Coffee' }) });
+
+    const limits = { ai: { user: { perDay: 2 } }, write: { token: { perMinute: 1 } } };
+    await stepUp(admin);
+    await stepUp(alice);
+    const notAdmin = await call('/api/admin/limits', { method: 'PATCH', cookie: alice, body: JSON.stringify(limits) });
+    expect(notAdmin.status).toBe(403);
+    expect(await notAdmin.json()).toMatchObject({ error: 'not_an_admin' });
+    const invalid = await call('/api/admin/limits', { method: 'PATCH', cookie: admin, body: JSON.stringify({ ai: { user: { perDay: -1 } } }) });
+    expect(invalid.status).toBe(400);
+    const updated = await call('/api/admin/limits', { method: 'PATCH', cookie: admin, body: JSON.stringify(limits) });
+    expect((await updated.json() as any).limits.ai.user).toEqual({ perMinute: 10, perDay: 2 });
+
+    await ask();
+    await ask();
+    const limited = await ask();
+    expect(limited.status).toBe(429);
+    const body = await limited.json() as any;
+    expect(body).toMatchObject({ success: false, error: 'rate_limited', endpointClass: 'ai', subject: 'user', period: 'day', limit: 2 });
+    expect(body.resetAt).toBe(periodStart('day', Date.now()) + PERIOD_MS.day);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect((await call('/api/transactions', { cookie: alice })).status).toBe(200);
+    expect((await call('/api/suggest-category', { method: 'POST', cookie: admin, body: JSON.stringify({ description: 'Coffee' }) })).status).not.toBe(429);
+
+    // A token has limits of its own within its user's
+    const writer = await createToken(alice, ['write']);
+    const add = () => call('/api/add-transaction', {
+      method: 'POST',
+      token: writer.secret,
+      body: JSON.stringify({ amount: 5, description: 'Coffee', category: 'food', type: 'expense' })
+    });
+    expect((await add()).status).toBe(200);
+    const tokenLimited = await add();
+    expect(tokenLimited.status).toBe(429);
+    expect(await tokenLimited.json()).toMatchObject({ subject: 'token', period: 'minute', endpointClass: 'write' });
+    expect((await call('/api/add-transaction', { method: 'POST', cookie: alice, body: JSON.stringify({ amount: 5, description: 'Tea', category: 'food', type: 'expense' }) })).status).toBe(200);
+
+    const usage = await (await call('/api/usage', { cookie: alice })).json() as any;
+    expect(usage.usage).toContainEqual(expect.objectContaining({ endpointClass: 'ai', subject: 'user', period: 'day', used: 2, limit: 2 }));
+
+    await call('/api/admin/limits', { method: 'DELETE', cookie: admin });
+    expect((await ask()).status).not.toBe(429);
+  });
+
+  it('should charge AI insights to the daily AI quota', async () => {
+    const admin = await signUp('admin@example.com');
+    const alice = await signUp('alice@example.com');
+    await stepUp(admin);
+    await call('/api/admin/limits', { method: 'PATCH', cookie: admin, body: JSON.stringify({ ai: { user: { perDay: 1 } } }) });
+
+    expect((await call('/api/ai-insights', { cookie: alice })).status).toBe(200);
+    const limited = await call('/api/ai-insights', { cookie: alice });
+    expect(limited.status).toBe(429);
+    expect(await limited.json()).toMatchObject({ endpointClass: 'ai', period: 'day', limit: 1 });
+  });
+
+  describe('households', () => {
+    const expense = (description: string, amount: number) => JSON.stringify({ amount, description, category: 'food', type: 'expense' });
+
+    it('should share one ledger between members within their roles', async () => {
+      const alice = await signUp('alice@example.com');
+      const bob = await signUp('bob@example.com');
+      const carol = await signUp('carol@example.com');
+
+      const created = await call('/api/households', { method: 'POST', cookie: alice, body: JSON.stringify({ name: 'Home' }) });
+      expect(created.status).toBe(201);
+      const householdId = (await created.json() as any).household.id;
+      const inHousehold = { 'X-Finance-Household': householdId };
+
+      const invite = await call(`/api/households/${householdId}/members`, {
+        method: 'POST', cookie: alice, body: JSON.stringify({ email: 'bob@example.com', role: 'viewer' })
+      });
+      expect(invite.status).toBe(201);
+      const bobId = (await invite.json() as any).members.find((m: any) => m.email === 'bob@example.com').userId;
+
+      // Viewers can read but not write; people outside the household can do neither
+      expect((await call('/api/transactions', { cookie: bob, headers: inHousehold })).status).toBe(200);
+      const denied = await call('/api/add-transaction', { method: 'POST', cookie: bob, headers: inHousehold, body: expense('Bob dinner', 30) });
+      expect(denied.status).toBe(403);
+      expect(await denied.json()).toMatchObject({ error: 'insufficient_role', role: 'viewer' });
+      expect((await call('/api/transactions', { cookie: carol, headers: inHousehold })).status).toBe(403);
+      const notOwner = await call(`/api/households/${householdId}/members`, {
+        method: 'POST', cookie: bob, body: JSON.stringify({ email: 'carol@example.com', role: 'owner' })
+      });
+      expect(notOwner.status).toBe(403);
+
+      await call(`/api/households/${householdId}/members/${bobId}`, { method: 'PATCH', cookie: alice, body: JSON.stringify({ role: 'editor' }) });
+      expect((await call('/api/add-transaction', { method: 'POST', cookie: bob, headers: inHousehold, body: expense('Bob dinner', 30) })).status).toBe(200);
+      expect((await call('/api/add-transaction', { method: 'POST', cookie: alice, headers: inHousehold, body: expense('Alice lunch', 12.5) })).status).toBe(200);
+
+      // Each transaction records its member; the members' own ledgers stay separate
+      const shared = await (await call('/api/transactions?q=Bob%20dinner', { cookie: alice, headers: inHousehold })).json() as any;
+      expect(shared.transactions[0].createdBy).toBe(bobId);
+      const personal = await (await call('/api/transactions?q=Bob%20dinner', { cookie: bob })).json() as any;
+      expect(personal.total).toBe(0);
+
+      const summary = await (await call('/api/get-summary', { cookie: bob, headers: inHousehold })).json() as any;
+      const byName = Object.fromEntries(summary.memberBreakdown.map((m: any) => [m.name, m]));
+      expect(byName.bob).toMatchObject({ isYou: true, totalExpenses: 30, transactionCount: 1 });
+      expect(byName.alice).toMatchObject({ isYou: false, totalExpenses: 12.5, transactionCount: 1 });
+
+      const answer = await call('/api/advice', {
+        method: 'POST', cookie: alice, headers: inHousehold,
+        body: JSON.stringify({ message: 'How much did I spend vs. my partner on food?' })
+      });
+      expect((await answer.json() as any).response).toContain('You spent $17.50 less than bob');
+
+      // The last owner cannot leave others behind
+      const aliceId = (await (await call('/api/auth/me', { cookie: alice })).json() as any).user.id;
+      expect((await call(`/api/households/${householdId}/members/${aliceId}`, { method: 'DELETE', cookie: alice })).status).toBe(409);
+      expect((await call(`/api/households/${householdId}/members/${bobId}`, { method: 'DELETE', cookie: bob })).status).toBe(200);
+      expect((await call('/api/transactions', { cookie: bob, headers: inHousehold })).status).toBe(403);
+    });
+
+    it('should keep personal goals and budgets to their member', async () => {
+      const alice = await signUp('alice@example.com');
+      const bob = await signUp('bob@example.com');
+      const householdId = (await (await call('/api/households', { method: 'POST', cookie: alice, body: JSON.stringify({ name: 'Home' }) })).json() as any).household.id;
+      await call(`/api/households/${householdId}/members`, { method: 'POST', cookie: alice, body: JSON.stringify({ email: 'bob@example.com', role: 'editor' }) });
+      const inHousehold = { 'X-Finance-Household': householdId };
+
+      await call('/api/goals', { method: 'POST', cookie: alice, headers: inHousehold, body: JSON.stringify({ name: 'Holiday', target: 2000 }) });
+      await call('/api/goals', { method: 'POST', cookie: alice, headers: inHousehold, body: JSON.stringify({ name: 'New bike', target: 800, personal: true }) });
+      const goalNames = async (cookie: string) => ((await (await call('/api/goals', { cookie, headers: inHousehold })).json() as any).goals as any[]).map(g => g.name);
+      expect(await goalNames(alice)).toEqual(['Holiday', 'New bike']);
+      expect(await goalNames(bob)).toEqual(['Holiday']);
+
+      await call('/api/set-budget', { method: 'POST', cookie: bob, headers: inHousehold, body: JSON.stringify({ category: 'food', amount: 150, personal: true }) });
+      const budgets = async (cookie: string) => (await call('/api/get-budgets', { cookie, headers: inHousehold })).json() as Promise<any>;
+      expect((await budgets(bob)).personalBudgets).toEqual({ food: 150 });
+      expect((await budgets(alice)).personalBudgets).toEqual({});
+
+      // The audit log names the member, and keeps personal entries to their member
+      const aliceId = (await (await call('/api/auth/me', { cookie: alice })).json() as any).user.id;
+      const audit = async (cookie: string) => ((await (await call('/api/audit', { cookie, headers: inHousehold })).json() as any).entries as any[]);
+      expect((await audit(bob)).map(e => [e.entity, e.after?.name ?? e.after?.category])).toEqual([['personalBudget', 'food'], ['goal', 'Holiday']]);
+      expect((await audit(alice)).map(e => e.actor)).toEqual([`user:${aliceId}`, `user:${aliceId}`]);
+      const bikeEntry = (await audit(alice)).find(e => e.after.name === 'New bike');
+      expect((await call(`/api/audit/${bikeEntry.id}/revert`, { method: 'POST', cookie: bob, headers: inHousehold })).status).toBe(404);
+    });
+
+    it('should keep each member\'s conversations and leave backups to owners', async () => {
+      const alice = await signUp('alice@example.com');
+      const bob = await signUp('bob@example.com');
+      const householdId = (await (await call('/api/households', { method: 'POST', cookie: alice, body: JSON.stringify({ name: 'Home' }) })).json() as any).household.id;
+      await call(`/api/households/${householdId}/members`, { method: 'POST', cookie: alice, body: JSON.stringify({ email: 'bob@example.com', role: 'editor' }) });
+      const inHousehold = { 'X-Finance-Household': householdId };
+
+      await call('/api/advice', { method: 'POST', cookie: alice, headers: inHousehold, body: JSON.stringify({ message: 'Should I buy a kayak?' }) });
+      const history = async (cookie: string) => ((await (await call('/api/conversation/history', { cookie, headers: inHousehold })).json() as any).messages as any[]);
+      expect((await history(alice))[0]).toMatchObject({ role: 'user', content: 'Should I buy a kayak?' });
+      expect(await history(bob)).toEqual([]);
+      await call('/api/conversation/clear', { method: 'POST', cookie: bob, headers: inHousehold, body: '{}' });
+      expect(await history(alice)).not.toEqual([]);
+
+      const denied = await call('/api/backup', { cookie: bob, headers: inHousehold });
+      expect(denied.status).toBe(403);
+      expect(await denied.json()).toMatchObject({ error: 'insufficient_role', requiredScope: 'admin' });
+      expect((await call('/api/backup', { cookie: alice, headers: inHousehold })).status).toBe(200);
+    });
+  });
+});
@@ -1,15 +1,156 @@
 import { FinanceAgent } from './simple-agent';
+import { AuthDirectory } from './auth-directory';
+import { hasScope, requiredScope } from './auth';
+import { AUTH_DIRECTORY_NAME, CREDENTIAL_ID_HEADER, IdentityVerifier, USER_ID_HEADER, createIdentityVerifier } from './identity';
+import { HOUSEHOLD_HEADER, HouseholdMember, HouseholdRole, MEMBERS_HEADER, OWNER_ONLY_PATHS, roleScope } from './household';
+import { RateLimiter, createRateLimiter, describeLimit, endpointClass } from './rate-limit';
 
-export { FinanceAgent };
+export { FinanceAgent, AuthDirectory };
+
+interface Env {
+  FinanceAgent: DurableObjectNamespace;
+  AuthDirectory?: DurableObjectNamespace;
+  ENVIRONMENT?: string;
+  LOCAL_AUTH_TOKENS?: string;
+  LOCAL_USER_ID?: string;
+  LEGACY_OWNER_ID?: string;
+  ADMIN_EMAILS?: string;
+}
+
+// The single shared instance every request used before per-user routing
+const LEGACY_INSTANCE_NAME = 'finance-agent-instance';
+
+// Reachable without credentials; the AuthDirectory answers them
+const PUBLIC_AUTH_PATHS = ['/api/auth/signup', '/api/auth/login'];
+
+/**
+ * Name of a user's FinanceAgent instance. LEGACY_OWNER_ID keeps the user it names on the
+ * old shared instance, so data entered before per-user routing stays reachable.
+ */
+export function agentNameFor(userId: string, env: Pick<Env, 'LEGACY_OWNER_ID'>): string {
+  return env.LEGACY_OWNER_ID && userId === env.LEGACY_OWNER_ID ? LEGACY_INSTANCE_NAME : `user:${userId}`;
+}
+
+function authDirectory(env: Env): DurableObjectStub | null {
+  return env.AuthDirectory ? env.AuthDirectory.get(env.AuthDirectory.idFromName(AUTH_DIRECTORY_NAME)) : null;
+}
+
+function errorResponse(status: number, body: Record<string, unknown>, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ success: false, ...body }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+/**
+ * Resolve who is calling, check their credentials allow the endpoint and their rate
+ * limits allow another request, and forward the request to their own FinanceAgent, the FinanceAgent of a household they belong to
+ * (X-Finance-Household or ?household=), or the AuthDirectory for accounts and households
+ */
+export async function routeRequest(request: Request, env: Env, verifier: IdentityVerifier, limiter: RateLimiter | null = null): Promise<Response> {
+  const url = new URL(request.url);
+  const isDirectoryPath = url.pathname.startsWith('/api/auth/') || url.pathname === '/api/households' || url.pathname.startsWith('/api/households/')
+    || url.pathname === '/api/usage' || url.pathname.startsWith('/api/admin/');
+  const directory = authDirectory(env);
+
+  if (PUBLIC_AUTH_PATHS.includes(url.pathname)) {
+    if (!directory) return errorResponse(404, { message: 'Accounts are not enabled' });
+    return directory.fetch(request);
+  }
+
+  const identity = await verifier.verify(request);
+  if (!identity) {
+    return errorResponse(401, {
+      error: 'unauthenticated',
+      message: 'Sign in, or send an API token as "Authorization: Bearer <token>"'
+    }, { 'WWW-Authenticate': 'Bearer realm="finance-agent"' });
+  }
+
+  const scope = requiredScope(request.method, url.pathname);
+  if (!hasScope(identity.scopes, scope)) {
+    return errorResponse(403, {
+      error: 'insufficient_scope',
+      requiredScope: scope,
+      message: identity.method === 'session'
+        ? 'Confirm your password with POST /api/auth/step-up to do this'
+        : `This endpoint needs a token with the "${scope}" scope`
+    }, { 'WWW-Authenticate': `Bearer realm="finance-agent", error="insufficient_scope", scope="${scope}"` });
+  }
+
+  if (limiter) {
+    const { endpointClass: limitClass, cost } = endpointClass(request.method, url.pathname);
+    const decision = await limiter.consume(identity, limitClass, cost);
+    if (!decision.allowed) {
+      const { allowed, ...exceeded } = decision;
+      const retryAfter = Math.max(1, Math.ceil((exceeded.resetAt - Date.now()) / 1000));
+      return errorResponse(429, {
+        error: 'rate_limited',
+        ...exceeded,
+        retryAfter,
+        message: describeLimit(exceeded)
+      }, {
+        'Retry-After': String(retryAfter),
+        'X-RateLimit-Limit': String(exceeded.limit),
+        'X-RateLimit-Reset': String(Math.ceil(exceeded.resetAt / 1000))
+      });
+    }
+  }
+
+  const forwarded = new Request(request);
+  forwarded.headers.set(USER_ID_HEADER, identity.userId);
+  forwarded.headers.delete(CREDENTIAL_ID_HEADER);
+  forwarded.headers.delete(MEMBERS_HEADER);
+  if (identity.credentialId) forwarded.headers.set(CREDENTIAL_ID_HEADER, identity.credentialId);
+
+  if (isDirectoryPath) {
+    if (!directory) return errorResponse(404, { message: 'Accounts are not enabled' });
+    return directory.fetch(forwarded);
+  }
+
+  const householdId = request.headers.get(HOUSEHOLD_HEADER) || url.searchParams.get('household');
+  if (!householdId) {
+    forwarded.headers.delete(HOUSEHOLD_HEADER);
+    const id = env.FinanceAgent.idFromName(agentNameFor(identity.userId, env));
+    return env.FinanceAgent.get(id).fetch(forwarded);
+  }
+
+  // A household's ledger: the member's role caps what their credentials may do there
+  if (!directory) return errorResponse(404, { message: 'Households are not enabled' });
+  const membership = await directory.fetch('https://auth-directory/internal/membership', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ householdId, userId: identity.userId })
+  });
+  if (!membership.ok) {
+    return errorResponse(403, { error: 'not_a_member', message: 'You are not a member of this household' });
+  }
+  const { role, members } = await membership.json() as { role: HouseholdRole; members: HouseholdMember[] };
+  const householdScope = OWNER_ONLY_PATHS.includes(url.pathname) ? 'admin' : scope;
+  if (!hasScope([roleScope(role)], householdScope)) {
+    return errorResponse(403, {
+      error: 'insufficient_role',
+      role,
+      requiredScope: householdScope,
+      message: `Household ${role}s cannot do this`
+    });
+  }
+
+  forwarded.headers.set(HOUSEHOLD_HEADER, householdId);
+  forwarded.headers.set(MEMBERS_HEADER, encodeURIComponent(JSON.stringify(members)));
+  const id = env.FinanceAgent.idFromName(`household:${householdId}`);
+  return env.FinanceAgent.get(id).fetch(forwarded);
+}
 
 // Export as default for Cloudflare Workers
 export default {
-  async fetch(request: Request, env: any, ctx: ExecutionContext): Promise<Response> {
-    // Get Durable Object instance
-    const id = env.FinanceAgent.idFromName('finance-agent-instance');
-    const agent = env.FinanceAgent.get(id);
-    
-    // Forward request to the agent
-    return agent.fetch(request);
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    let verifier: IdentityVerifier;
+    try {
+      verifier = createIdentityVerifier(env);
+    } catch (error) {
+      console.error(error);
+      return errorResponse(500, { message: String(error instanceof Error ? error.message : error) });
+    }
+    return routeRequest(request, env, verifier, createRateLimiter(env));
   }
 };
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { LedgerExport, parseLedger, parseLedgerAmount, writeLedger } from './ledger';
+import { Account } from './account';
+import { Category } from './category';
+import { Transaction } from './transaction';
+
+const accounts: Account[] = [
+  { id: 'checking', name: 'Checking', type: 'checking', openingBalance: 1200, openingDate: '2026-01-01', createdAt: 1 },
+  { id: 'visa', name: 'Visa', type: 'credit_card', openingBalance: 0, openingDate: '2026-01-01', createdAt: 1 }
+];
+
+const categories: Category[] = [
+  { id: 'food', name: 'Food', kind: 'expense', color: '#48bb78', icon: '🍕', archived: false, defaultBudget: 500, keywords: ['grocery'], parentId: null, createdAt: 1 },
+  { id: 'groceries', name: 'Groceries', kind: 'expense', color: '#718096', icon: '🛒', archived: false, defaultBudget: null, keywords: [], parentId: 'food', createdAt: 1 },
+  { id: 'household', name: 'Household', kind: 'expense', color: '#718096', icon: '🏷️', archived: true, defaultBudget: null, keywords: [], parentId: null, createdAt: 1 },
+  { id: 'income', name: 'Income', kind: 'income', color: '#38a169', icon: '💰', archived: false, defaultBudget: null, keywords: [], parentId: null, createdAt: 1 }
+];
+
+const transaction = (fields: Partial<Transaction> & Pick<Transaction, 'id' | 'amount' | 'description' | 'type' | 'category' | 'date'>): Transaction =>
+  ({ accountId: 'checking', timestamp: 1, ...fields } as Transaction);
+
+const data: LedgerExport = {
+  accounts,
+  categories,
+  transactions: [
+    transaction({ id: 't1', amount: 2500, description: 'Salary', type: 'income', category: 'income', date: '2026-01-02', externalId: 'ofx:1:A1' }),
+    transaction({
+      id: 't2', amount: 80, description: 'Weekly shop; cash back', type: 'expense', category: 'groceries', date: '2026-01-03',
+      merchantId: 'm1', tags: ['lisbon-trip'],
+      splits: [{ amount: 60, category: 'groceries' }, { amount: 20, category: 'household', note: 'bin bags' }]
+    }),
+    transaction({ id: 't3', amount: 300, description: 'Card payment', type: 'transfer', category: 'transfer', date: '2026-01-04', toAccountId: 'visa' })
+  ],
+  merchantNames: { m1: 'Corner Market' },
+  currency: 'EUR',
+  exportedOn: '2026-02-01'
+};
+
+describe('ledger', () => {
+  it('should read posting amounts in the usual notations', () => {
+    expect(parseLedgerAmount('-42.17 USD')).toEqual({ amount: -42.17, commodity: 'USD' });
+    expect(parseLedgerAmount('$-1,042.17')).toEqual({ amount: -1042.17, commodity: '$' });
+    expect(parseLedgerAmount('EUR 42,17')).toEqual({ amount: 42.17, commodity: 'EUR' });
+    expect(parseLedgerAmount('10 AAPL @ 150 USD')).toEqual({ amount: 10, commodity: 'AAPL' });
+    expect(parseLedgerAmount('lots')).toBeNull();
+  });
+
+  for (const format of ['beancount', 'hledger'] as const) {
+    it(`should read back a ${format} export`, () => {
+      const result = parseLedger(writeLedger(format, data), format);
+      expect(result.errors).toEqual([]);
+      expect(result.currencies).toEqual(['EUR']);
+
+      expect(result.accounts.map(a => [a.id, a.name, a.type, a.openingBalance ?? 0, a.openingDate])).toEqual([
+        ['checking', 'Checking', 'checking', 1200, '2026-01-01'],
+        ['visa', 'Visa', 'credit_card', 0, '2026-01-01']
+      ]);
+      const byId = Object.fromEntries(result.categories.map(c => [c.id, c]));
+      expect(byId.groceries).toMatchObject({ name: 'Groceries', kind: 'expense', details: { icon: '🛒' } });
+      expect(result.categories.find(c => c.key === byId.groceries.parent)?.id).toBe('food');
+      expect(byId.food.details).toEqual({ color: '#48bb78', icon: '🍕', defaultBudget: 500, keywords: ['grocery'] });
+      expect(byId.household.details?.archived).toBe(true);
+
+      const key = (id: string) => result.accounts.find(a => a.id === id)!.key;
+      const [salary, shop, payment] = result.rows;
+      expect(salary).toMatchObject({ date: '2026-01-02', amount: 2500, type: 'income', description: 'Salary', externalId: 'ofx:1:A1', sourceId: 't1', errors: [] });
+      expect(shop).toMatchObject({
+        amount: 80, type: 'expense', description: 'Weekly shop; cash back', merchant: 'Corner Market',
+        tags: ['lisbon-trip'], externalId: 'ledger:t2', account: key('checking'), errors: []
+      });
+      expect(shop.splits?.map(s => [result.categories.find(c => c.key === s.category)?.id, s.amount, s.note])).toEqual([
+        ['groceries', 60, undefined],
+        ['household', 20, 'bin bags']
+      ]);
+      expect(payment).toMatchObject({ type: 'transfer', amount: 300, account: key('checking'), toAccount: key('visa'), errors: [] });
+    });
+  }
+
+  it('should read a hand-written hledger journal', () => {
+    const result = parseLedger(`
+2026-03-01 Opening
+    assets:bank:savings      500.00 USD
+    equity:opening
+
+2026-03-05 Bakery  ; breakfast:
+    expenses:food:bread          4.50 USD
+    assets:bank:savings
+
+2026-03-06 Refund and purchase
+    assets:bank:savings         10 USD
+    expenses:food              -20 USD
+    expenses:fun                10 USD
+`, 'hledger');
+
+    expect(result.accounts).toEqual([{ key: 'assets:bank:savings', name: 'Savings', type: 'savings', openingBalance: 500, openingDate: '2026-03-01' }]);
+    expect(result.rows[0]).toMatchObject({ amount: 4.5, type: 'expense', description: 'Bakery', category: 'expenses:food:bread', tags: ['breakfast'] });
+    expect(result.categories.map(c => [c.key, c.name, c.parent])).toEqual([
+      ['expenses:food', 'Food', undefined],
+      ['expenses:food:bread', 'Bread', 'expenses:food']
+    ]);
+    expect(result.rows[1].errors[0].field).toBe('postings');
+  });
+
+  it('should report unbalanced and mixed-commodity transactions', () => {
+    const result = parseLedger(`2026-03-01 * "Off"
+  Assets:Bank:Checking  -10 USD
+  Expenses:Food  9 USD
+
+2026-03-02 * "Mixed"
+  Assets:Bank:Checking  -10 USD
+  Expenses:Food  10 EUR
+`, 'beancount');
+    expect(result.rows.map(r => r.errors[0]?.message)).toEqual(['postings do not balance (off by -1.00)', 'mixes USD and EUR']);
+  });
+});
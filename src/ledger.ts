@@ -0,0 +1,532 @@
+/**
+ * Plain-Text Ledgers
+ * Writes the ledger as a beancount or hledger journal and reads such journals back.
+ * Accounts become Assets:/Liabilities: accounts, categories Expenses:/Income: accounts
+ * (a subcategory under its parent) and every transaction balanced postings: spending
+ * moves money from an account to categories, a transfer from one account to another,
+ * and opening balances come from Equity:Opening-Balances. Ids, names and category
+ * details ride along as metadata, so importing an export reproduces the same data.
+ */
+
+import { Account, AccountType, MAX_ACCOUNT_NAME_LENGTH } from './account';
+import { Category, CategoryKind, MAX_CATEGORY_NAME_LENGTH } from './category';
+import { FieldError, MAX_DESCRIPTION_LENGTH, Transaction, TransactionSplit, isValidISODate } from './transaction';
+import { normalizeTag } from './tag';
+import { DeclaredAccount, DeclaredCategory, LedgerParseResult, MAX_IMPORT_ROWS, ParsedRow } from './import';
+
+export const LEDGER_FORMATS = ['beancount', 'hledger'] as const;
+export type LedgerFormat = typeof LEDGER_FORMATS[number];
+
+export const OPENING_BALANCES_ACCOUNT = 'Equity:Opening-Balances';
+
+export interface LedgerExport {
+  accounts: Account[];
+  categories: Category[];      // archived ones too
+  transactions: Transaction[];
+  merchantNames: Record<string, string>;  // merchant id → name, written as the payee
+  currency: string;
+  exportedOn: string;          // YYYY-MM-DD
+}
+
+const ACCOUNT_PARENTS: Record<AccountType, string> = {
+  checking: 'Assets:Bank',
+  savings: 'Assets:Bank',
+  cash: 'Assets:Cash',
+  credit_card: 'Liabilities:CreditCard',
+  loan: 'Liabilities:Loan'
+};
+
+const CATEGORY_ROOTS: Record<CategoryKind, string> = { expense: 'Expenses', income: 'Income' };
+
+// Metadata keys the journal carries for this app; any other key is left alone
+const META_KEYS = ['id', 'external-id', 'name', 'type', 'opening-date', 'kind', 'color', 'icon', 'archived', 'budget', 'keywords', 'payee', 'description'];
+
+/**
+ * A name as one component of a ledger account name: "Pet care" → "Pet-Care"
+ */
+export function accountSegment(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return words.map(word => word[0].toUpperCase() + word.slice(1)).join('-') || 'Unnamed';
+}
+
+/**
+ * A name from one component of a ledger account name: "Pet-Care" → "Pet Care", "bread" → "Bread"
+ */
+function segmentName(segment: string): string {
+  const name = segment.replace(/-/g, ' ');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// ========== EXPORT ==========
+
+function quote(text: string): string {
+  return `"${text.replace(/\s+/g, ' ').replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Ledger account names for the ledger's accounts and categories, kept unique
+ */
+function ledgerNames(data: LedgerExport): { accounts: Map<string, string>; categories: Map<string, string> } {
+  const used = new Set<string>([OPENING_BALANCES_ACCOUNT]);
+  const unique = (name: string) => {
+    let candidate = name;
+    for (let n = 2; used.has(candidate); n++) candidate = `${name}-${n}`;
+    used.add(candidate);
+    return candidate;
+  };
+
+  const accounts = new Map(data.accounts.map(a => [a.id, unique(`${ACCOUNT_PARENTS[a.type]}:${accountSegment(a.name)}`)]));
+  const categories = new Map<string, string>();
+  const byId = new Map(data.categories.map(c => [c.id, c]));
+  for (const category of [...data.categories].sort((a, b) => Number(Boolean(a.parentId)) - Number(Boolean(b.parentId)))) {
+    const parent = category.parentId ? categories.get(category.parentId) : undefined;
+    const kind = category.parentId ? byId.get(category.parentId)?.kind ?? category.kind : category.kind;
+    categories.set(category.id, unique(`${parent ?? CATEGORY_ROOTS[kind]}:${accountSegment(category.name)}`));
+  }
+  return { accounts, categories };
+}
+
+/**
+ * The postings of a transaction, as [ledger account, signed amount, note]
+ */
+function postings(transaction: Transaction, accountName: (id: string) => string, categoryName: (id: string) => string): [string, number, string?][] {
+  const { amount } = transaction;
+  if (transaction.type === 'transfer') {
+    return [[accountName(transaction.toAccountId!), amount], [accountName(transaction.accountId), -amount]];
+  }
+  const sign = transaction.type === 'expense' ? 1 : -1;
+  const lines: TransactionSplit[] = transaction.splits?.length ? transaction.splits : [{ amount, category: transaction.category }];
+  return [
+    ...lines.map(line => [categoryName(line.category), sign * line.amount, line.note] as [string, number, string?]),
+    [accountName(transaction.accountId), -sign * amount]
+  ];
+}
+
+/**
+ * The ledger as a beancount or hledger journal
+ */
+export function writeLedger(format: LedgerFormat, data: LedgerExport): string {
+  const names = ledgerNames(data);
+  const extraCategories = new Map<string, string>();
+  const categoryName = (id: string) => names.categories.get(id) ?? extraCategories.get(id)
+    ?? extraCategories.set(id, `Expenses:${accountSegment(id)}`).get(id)!;
+  const accountName = (id: string) => names.accounts.get(id) ?? `Assets:${accountSegment(id)}`;
+
+  const amount = (value: number) => `${value.toFixed(2)} ${data.currency}`;
+  const meta = (pairs: [string, string | undefined][]) => pairs
+    .filter((pair): pair is [string, string] => pair[1] !== undefined)
+    .map(([key, value]) => (format === 'beancount' ? `  ${key}: ${quote(value)}` : `    ; ${key}: ${value.replace(/\s+/g, ' ')}`));
+  const posting = (account: string, value: number | null, note?: string) => {
+    const line = `${format === 'beancount' ? '  ' : '    '}${account}${value === null ? '' : `  ${amount(value)}`}`;
+    return note ? `${line}  ; ${note.replace(/\s+/g, ' ')}` : line;
+  };
+
+  const dates = [...data.transactions.map(t => t.date), ...data.accounts.map(a => a.openingDate)].sort();
+  const since = dates[0] ?? data.exportedOn;
+  const opened = (account: Account) => [account.openingDate, ...data.transactions
+    .filter(t => t.accountId === account.id || t.toAccountId === account.id).map(t => t.date)].sort()[0];
+
+  const open = (name: string, date: string, currency?: string) => (format === 'beancount'
+    ? `${date} open ${name}${currency ? ` ${currency}` : ''}`
+    : `account ${name}`);
+
+  const blocks: string[][] = [[
+    `${format === 'beancount' ? ';;' : ';'} Exported from Finance AI on ${data.exportedOn}`,
+    ...(format === 'beancount' ? [`option "operating_currency" "${data.currency}"`] : [`commodity 1000.00 ${data.currency}`])
+  ]];
+
+  blocks.push([open(OPENING_BALANCES_ACCOUNT, since)]);
+  for (const account of data.accounts) {
+    blocks.push([
+      open(names.accounts.get(account.id)!, opened(account), data.currency),
+      ...meta([['id', account.id], ['name', account.name], ['type', account.type], ['opening-date', account.openingDate]])
+    ]);
+  }
+  for (const category of data.categories) {
+    blocks.push([
+      open(names.categories.get(category.id)!, since),
+      ...meta([
+        ['id', category.id],
+        ['name', category.name],
+        ['kind', category.kind],
+        ['color', category.color],
+        ['icon', category.icon],
+        ['archived', category.archived ? 'true' : undefined],
+        ['budget', category.defaultBudget === null ? undefined : String(category.defaultBudget)],
+        ['keywords', category.keywords.length > 0 ? category.keywords.join(', ') : undefined]
+      ])
+    ]);
+  }
+
+  for (const account of data.accounts) {
+    if (account.openingBalance === 0) continue;
+    blocks.push([
+      format === 'beancount' ? `${account.openingDate} * "Opening balance"` : `${account.openingDate} * Opening balance`,
+      posting(names.accounts.get(account.id)!, account.openingBalance),
+      posting(OPENING_BALANCES_ACCOUNT, null)
+    ]);
+  }
+
+  for (const transaction of data.transactions) {
+    const payee = transaction.merchantId ? data.merchantNames[transaction.merchantId] : undefined;
+    const description = transaction.description.replace(/\s+/g, ' ').trim();
+    const tags = transaction.tags ?? [];
+    let header: string;
+    const pairs: [string, string | undefined][] = [['id', transaction.id], ['external-id', transaction.externalId]];
+    if (format === 'beancount') {
+      header = `${transaction.date} * ${payee ? `${quote(payee)} ` : ''}${quote(description)}${tags.map(tag => ` #${tag}`).join('')}`;
+    } else {
+      // hledger ends the description at ";" and splits it at "|"; such text goes in metadata too
+      const plain = (text: string) => !/[;|]/.test(text);
+      header = `${transaction.date} * ${payee ? `${payee.replace(/[;|]/g, ' ')} | ` : ''}${description.replace(/[;|]/g, ' ')}`;
+      if (payee && !plain(payee)) pairs.push(['payee', payee]);
+      if (!plain(description)) pairs.push(['description', description]);
+    }
+    blocks.push([
+      header,
+      ...meta(pairs),
+      ...(format === 'hledger' ? tags.map(tag => `    ; ${tag}:`) : []),
+      ...postings(transaction, accountName, categoryName).map(([account, value, note]) => posting(account, value, note))
+    ]);
+  }
+
+  // Categories the transactions use that no longer exist
+  for (const [id, name] of extraCategories) blocks.splice(2, 0, [open(name, since), ...meta([['id', id], ['name', id]])]);
+  return blocks.map(block => block.join('\n')).join('\n\n') + '\n';
+}
+
+// ========== IMPORT ==========
+
+interface Posting {
+  account: string;
+  amount: number | null;
+  commodity: string;
+  note?: string;
+}
+
+/**
+ * A posting's amount, in any of "-42.17 USD", "USD -42.17", "$-42.17", "-$1,042.17";
+ * costs, prices and balance assertions after it are dropped
+ */
+export function parseLedgerAmount(text: string): { amount: number; commodity: string } | null {
+  const own = text.replace(/\{.*\}/, '').split(/\s*(?:@@?|==?)\s*/)[0].trim();
+  const number = own.match(/[-+]?\d[\d,]*(?:\.\d+)?|[-+]?\.\d+/);
+  if (!number) return null;
+  const negative = number[0].startsWith('-') || /^-/.test(own.slice(0, number.index));
+  const digits = number[0].replace(/^[-+]/, '');
+  const amount = Number(/^\d+,\d{1,2}$/.test(digits) ? digits.replace(',', '.') : digits.replace(/,/g, ''));
+  const commodity = (own.slice(0, number.index) + own.slice(number.index! + number[0].length)).replace(/[-+"\s]/g, '');
+  return Number.isFinite(amount) ? { amount: negative ? -amount : amount, commodity } : null;
+}
+
+/**
+ * Metadata on one line: beancount's `key: "value"`, or an hledger comment's `key: value`
+ * (hledger tags, `tag:` with no value, become the row's tags)
+ */
+function readMeta(line: string, format: LedgerFormat, meta: Record<string, string>, tags: string[]): boolean {
+  if (format === 'beancount') {
+    const match = line.match(/^([a-z][\w-]*):\s*(.*)$/);
+    if (!match) return false;
+    meta[match[1]] = match[2].replace(/^"(.*)"$/, '$1').replace(/\\(["\\])/g, '$1');
+    return true;
+  }
+  if (!line.startsWith(';')) return false;
+  const comment = line.slice(1).trim();
+  const known = comment.match(/^([\w-]+):\s?(.*)$/);
+  if (known && META_KEYS.includes(known[1])) {
+    meta[known[1]] = known[2].trim();
+    return true;
+  }
+  for (const [, name, value] of comment.matchAll(/(?:^|,)\s*([^\s:,]+):([^,]*)/g)) {
+    if (!value.trim()) tags.push(name);
+  }
+  return true;
+}
+
+/**
+ * The top-level account type, however the journal capitalizes it ("assets" in many hledger files)
+ */
+function rootOf(account: string): string {
+  const root = account.split(':')[0];
+  return root.charAt(0).toUpperCase() + root.slice(1).toLowerCase();
+}
+
+function accountType(key: string, meta: Record<string, string>): AccountType {
+  if (meta.type && meta.type in ACCOUNT_PARENTS) return meta.type as AccountType;
+  const path = key.toLowerCase();
+  if (rootOf(key) === 'Liabilities') return /credit|card/.test(path) ? 'credit_card' : 'loan';
+  return /cash/.test(path) ? 'cash' : /saving/.test(path) ? 'savings' : 'checking';
+}
+
+/**
+ * An account as a journal declares or uses it; its name, unless given, comes from the
+ * path below the generic Bank/Cash/CreditCard/Loan level
+ */
+function declaredAccount(key: string, meta: Record<string, string> = {}): DeclaredAccount {
+  const segments = key.split(':').slice(1);
+  const specific = segments.length > 1 && /^(Bank|Cash|CreditCard|Loan)$/i.test(segments[0]) ? segments.slice(1) : segments;
+  const name = (meta.name || specific.map(segmentName).join(' ') || key).slice(0, MAX_ACCOUNT_NAME_LENGTH);
+  return {
+    key,
+    ...(meta.id ? { id: meta.id } : {}),
+    name,
+    type: accountType(key, meta),
+    ...(isValidISODate(meta['opening-date']) ? { openingDate: meta['opening-date'] } : {})
+  };
+}
+
+/**
+ * A category as a journal declares or uses it. Categories nest one level, so an
+ * account deeper than Expenses:A:B is category "B C…" under "A".
+ */
+function declaredCategory(key: string, meta: Record<string, string> = {}): DeclaredCategory {
+  const [root, top, ...rest] = key.split(':');
+  const kind: CategoryKind = meta.kind === 'income' || meta.kind === 'expense' ? meta.kind : rootOf(key) === 'Income' ? 'income' : 'expense';
+  const name = (meta.name || (rest.length > 0 ? rest : [top]).map(segmentName).join(' ')).slice(0, MAX_CATEGORY_NAME_LENGTH);
+  const budget = meta.budget !== undefined ? Number(meta.budget) : NaN;
+  const details: DeclaredCategory['details'] = {
+    ...(/^#[0-9a-fA-F]{6}$/.test(meta.color ?? '') ? { color: meta.color.toLowerCase() } : {}),
+    ...(meta.icon ? { icon: meta.icon } : {}),
+    ...(meta.archived === 'true' ? { archived: true } : {}),
+    ...(Number.isFinite(budget) && budget >= 0 ? { defaultBudget: budget } : {}),
+    ...(meta.keywords ? { keywords: meta.keywords.split(',').map(k => k.trim().toLowerCase()).filter(Boolean) } : {})
+  };
+  return {
+    key,
+    ...(meta.id ? { id: meta.id } : {}),
+    name,
+    kind,
+    ...(rest.length > 0 ? { parent: `${root}:${top}` } : {}),
+    ...(Object.keys(details).length > 0 ? { details } : {})
+  };
+}
+
+interface Entry {
+  line: number;
+  date: string;
+  payee?: string;
+  description: string;
+  tags: string[];
+  meta: Record<string, string>;
+  postings: Posting[];
+}
+
+/**
+ * A transaction's header after its date, per format
+ */
+function readHeader(rest: string, format: LedgerFormat): Pick<Entry, 'payee' | 'description' | 'tags'> {
+  if (format === 'beancount') {
+    const strings = [...rest.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map(m => m[1].replace(/\\(["\\])/g, '$1'));
+    const tags = [...rest.replace(/"((?:[^"\\]|\\.)*)"/g, '').matchAll(/#([\w/.-]+)/g)].map(m => m[1]);
+    return strings.length >= 2 ? { payee: strings[0], description: strings[1], tags } : { description: strings[0] ?? '', tags };
+  }
+  const text = rest.replace(/^=\S+\s*/, '').replace(/^[*!]\s*/, '').replace(/^\([^)]*\)\s*/, '');
+  const [description, comment] = [text.split(';')[0].trim(), text.includes(';') ? text.slice(text.indexOf(';')) : ''];
+  const tags: string[] = [];
+  if (comment) readMeta(comment, format, {}, tags);
+  const bar = description.indexOf('|');
+  return bar >= 0
+    ? { payee: description.slice(0, bar).trim(), description: description.slice(bar + 1).trim(), tags }
+    : { description, tags };
+}
+
+/**
+ * A posting line: beancount separates the account from the amount by any whitespace,
+ * hledger (whose account names may hold single spaces) by two spaces or a tab
+ */
+function readPosting(line: string, format: LedgerFormat): Posting | null | 'skip' {
+  const [body, ...comment] = line.replace(/^[*!]\s+/, '').split(';');
+  const match = format === 'beancount'
+    ? body.trim().match(/^(\S+)\s*(.*)$/)
+    : body.trim().match(/^(.+?)(?:\s{2,}|\t)\s*(.*)$/) ?? body.trim().match(/^(.+)$()/);
+  if (!match) return null;
+  let account = match[1];
+  if (/^\(.*\)$/.test(account)) return 'skip';   // hledger's unbalanced virtual posting
+  account = account.replace(/^\[(.*)\]$/, '$1');
+  const note = comment.join(';').trim();
+  if (!match[2].trim()) return { account, amount: null, commodity: '', ...(note ? { note } : {}) };
+  const amount = parseLedgerAmount(match[2]);
+  return amount ? { account, ...amount, ...(note ? { note } : {}) } : null;
+}
+
+const LEDGER_DATE = /^(\d{4})[-/.](\d{2})[-/.](\d{2})\b/;
+
+/**
+ * Read a beancount or hledger journal
+ */
+export function parseLedger(text: string, format: LedgerFormat): LedgerParseResult {
+  const accounts = new Map<string, DeclaredAccount>();
+  const categories = new Map<string, DeclaredCategory>();
+  const entries: Entry[] = [];
+  const errors: FieldError[] = [];
+
+  let block: { kind: 'open'; key: string; meta: Record<string, string> } | { kind: 'entry'; entry: Entry } | { kind: 'skip' } | null = null;
+  const declare = (key: string, meta: Record<string, string>) => {
+    const root = rootOf(key);
+    if (root === 'Assets' || root === 'Liabilities') accounts.set(key, declaredAccount(key, meta));
+    else if (root === 'Expenses' || root === 'Income') categories.set(key, declaredCategory(key, meta));
+  };
+  const close = () => {
+    if (block?.kind === 'open') declare(block.key, block.meta);
+    block = null;
+  };
+
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  lines.forEach((raw, index) => {
+    const line = raw.replace(/\s+$/, '');
+    if (!line) return;
+    if (/^\s/.test(line)) {
+      const content = line.trim();
+      if (!block || block.kind === 'skip') return;
+      const meta = block.kind === 'open' ? block.meta : block.entry.meta;
+      const tags = block.kind === 'entry' ? block.entry.tags : [];
+      if (content.startsWith(';') && format === 'beancount') return;
+      if (readMeta(content, format, meta, tags)) return;
+      if (block.kind === 'entry') {
+        const posting = readPosting(content, format);
+        if (posting === null) errors.push({ field: `line ${index + 1}`, message: `"${content}" is not a posting` });
+        else if (posting !== 'skip') block.entry.postings.push(posting);
+      }
+      return;
+    }
+
+    close();
+    const date = line.match(LEDGER_DATE);
+    if (date) {
+      const iso = `${date[1]}-${date[2]}-${date[3]}`;
+      const rest = line.slice(date[0].length).trim();
+      const directive = rest.match(/^(open|close|balance|pad|price|note|event|document|commodity|custom|query)\b\s*(.*)$/);
+      if (directive) {
+        block = directive[1] === 'open' ? { kind: 'open', key: directive[2].split(/\s+/)[0], meta: {} } : { kind: 'skip' };
+      } else if (!isValidISODate(iso)) {
+        errors.push({ field: `line ${index + 1}`, message: `"${date[0]}" is not a valid date` });
+        block = { kind: 'skip' };
+      } else {
+        block = { kind: 'entry', entry: { line: index + 1, date: iso, meta: {}, postings: [], ...readHeader(rest, format) } };
+        entries.push(block.entry);
+      }
+      return;
+    }
+    const account = format === 'hledger' ? line.match(/^account\s+(.+?)(?:\s{2,}|\t|\s*;|$)/) : null;
+    block = account ? { kind: 'open', key: account[1], meta: {} } : { kind: 'skip' };
+  });
+  close();
+
+  if (entries.length > MAX_IMPORT_ROWS) {
+    return { accounts: [], categories: [], rows: [], currencies: [], errors: [{ field: format, message: `has more than ${MAX_IMPORT_ROWS} transactions` }] };
+  }
+
+  const currencies = new Set<string>();
+  const rows: ParsedRow[] = [];
+  for (const entry of entries) {
+    const row = entryRow(entry, accounts, currencies);
+    if (row) rows.push(row);
+  }
+
+  // Accounts and categories used without being declared, parents before children
+  for (const row of rows) {
+    for (const key of [row.account, row.toAccount]) {
+      if (key && !accounts.has(key)) accounts.set(key, declaredAccount(key));
+    }
+    for (const key of [row.category, ...(row.splits ?? []).map(s => s.category)]) {
+      if (key && !categories.has(key)) categories.set(key, declaredCategory(key));
+    }
+  }
+  for (const category of [...categories.values()]) {
+    if (category.parent && !categories.has(category.parent)) categories.set(category.parent, declaredCategory(category.parent));
+  }
+
+  if (rows.length === 0 && accounts.size === 0 && errors.length === 0) errors.push({ field: format, message: 'has no transactions or accounts' });
+  return {
+    accounts: [...accounts.values()],
+    categories: [...categories.values()].sort((a, b) => Number(Boolean(a.parent)) - Number(Boolean(b.parent))),
+    rows,
+    currencies: [...currencies],
+    errors: rows.length > 0 || accounts.size > 0 ? [] : errors
+  };
+}
+
+/**
+ * The row for a journal transaction, or null for an opening balance (which is set on
+ * its account instead)
+ */
+function entryRow(entry: Entry, accounts: Map<string, DeclaredAccount>, currencies: Set<string>): ParsedRow | null {
+  const row: ParsedRow = { line: entry.line, date: entry.date, errors: [] };
+  const description = (entry.meta.description || entry.description || entry.payee || '').replace(/\s+/g, ' ').trim();
+  if (description) row.description = description.slice(0, MAX_DESCRIPTION_LENGTH);
+  else row.errors.push({ field: 'description', message: 'is empty' });
+  const payee = entry.meta.payee || entry.payee;
+  if (payee) row.merchant = payee.slice(0, MAX_DESCRIPTION_LENGTH);
+  const tags = entry.tags.map(normalizeTag).filter((tag): tag is string => !!tag);
+  if (tags.length > 0) row.tags = [...new Set(tags)];
+  if (entry.meta.id) row.sourceId = entry.meta.id;
+  const externalId = entry.meta['external-id'] || (entry.meta.id ? `ledger:${entry.meta.id}` : undefined);
+  if (externalId) row.externalId = externalId;
+
+  // Balance the postings: one may leave its amount out
+  const postings = entry.postings;
+  const commodities = new Set(postings.map(p => p.commodity).filter(Boolean));
+  commodities.forEach(c => currencies.add(c));
+  const missing = postings.filter(p => p.amount === null);
+  const total = postings.reduce((sum, p) => sum + (p.amount ?? 0), 0);
+  if (commodities.size > 1) {
+    row.errors.push({ field: 'amount', message: `mixes ${[...commodities].join(' and ')}` });
+    return row;
+  }
+  if (missing.length > 1 || postings.length < 2) {
+    row.errors.push({ field: 'amount', message: postings.length < 2 ? 'needs at least two postings' : 'leaves out more than one posting amount' });
+    return row;
+  }
+  if (missing.length === 1) missing[0].amount = -total;
+  else if (Math.abs(total) >= 0.005) {
+    row.errors.push({ field: 'amount', message: `postings do not balance (off by ${total.toFixed(2)})` });
+    return row;
+  }
+
+  const held = postings.filter(p => ['Assets', 'Liabilities'].includes(rootOf(p.account)));
+  const categoryLines = postings.filter(p => ['Expenses', 'Income'].includes(rootOf(p.account)));
+  const equity = postings.filter(p => rootOf(p.account) === 'Equity');
+  const other = postings.length - held.length - categoryLines.length - equity.length;
+
+  if (equity.length > 0 && held.length === 1 && categoryLines.length === 0 && other === 0) {
+    const key = held[0].account;
+    const account = accounts.get(key) ?? declaredAccount(key);
+    accounts.set(key, {
+      ...account,
+      openingBalance: Math.round(((account.openingBalance ?? 0) + held[0].amount!) * 100) / 100,
+      openingDate: account.openingDate && account.openingDate < entry.date ? account.openingDate : entry.date
+    });
+    return null;
+  }
+
+  if (held.length === 2 && categoryLines.length === 0 && equity.length === 0 && other === 0) {
+    const [from, to] = held[0].amount! < 0 ? held : [held[1], held[0]];
+    row.type = 'transfer';
+    row.amount = Math.round(Math.abs(to.amount!) * 100) / 100;
+    row.account = from.account;
+    row.toAccount = to.account;
+    delete row.merchant;
+    if (row.amount === 0) row.errors.push({ field: 'amount', message: 'is zero' });
+    return row;
+  }
+
+  if (held.length !== 1 || categoryLines.length === 0 || equity.length > 0 || other > 0) {
+    row.errors.push({ field: 'postings', message: 'must move money between one account and categories, or between two accounts' });
+    return row;
+  }
+
+  const [account] = held;
+  const sign = account.amount! < 0 ? 1 : -1;
+  const lines = categoryLines.map(p => ({ amount: Math.round(sign * p.amount! * 100) / 100, category: p.account, ...(p.note ? { note: p.note } : {}) }));
+  if (lines.some(line => line.amount <= 0)) {
+    row.errors.push({ field: 'postings', message: 'has category postings going both ways; enter them as separate transactions' });
+    return row;
+  }
+  row.type = sign > 0 ? 'expense' : 'income';
+  row.amount = Math.round(Math.abs(account.amount!) * 100) / 100;
+  row.account = account.account;
+  if (row.amount === 0) row.errors.push({ field: 'amount', message: 'is zero' });
+  row.category = [...lines].sort((a, b) => b.amount - a.amount)[0].category;
+  if (lines.length > 1) row.splits = lines;
+  return row;
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { merchantKey, matchMerchant, merchantNameFromKey, similarity, validateMerchantInput } from './merchant';
+
+describe('Merchant Model', () => {
+  describe('merchantKey', () => {
+    it('should strip store numbers, boilerplate and trailing visit words', () => {
+      expect(merchantKey('COSTCO WHOLESALE #123')).toBe('costco');
+      expect(merchantKey('Costco run')).toBe('costco');
+      expect(merchantKey('Gas fill-up')).toBe('gas');
+      expect(merchantKey('Gas station')).toBe('gas');
+      expect(merchantKey('Whole Foods Market 0042')).toBe('whole foods market');
+      expect(merchantKey('Store')).toBe('store');
+      expect(merchantKey("Valentine's dinner")).toBe('valentines dinner');
+    });
+  });
+
+  describe('matchMerchant', () => {
+    const merchants = [
+      { id: 'costco', name: 'Costco', aliases: [] },
+      { id: 'starbucks', name: 'Starbucks', aliases: ['sbux'] },
+      { id: 'uber', name: 'Uber', aliases: [] },
+      { id: 'uber-eats', name: 'Uber Eats', aliases: [] }
+    ];
+
+    it('should prefer exact names and aliases, then the longest leading match', () => {
+      expect(matchMerchant('Costco groceries', merchants)?.id).toBe('costco');
+      expect(matchMerchant('SBUX #881', merchants)?.id).toBe('starbucks');
+      expect(matchMerchant('Uber Eats order', merchants)?.id).toBe('uber-eats');
+      expect(matchMerchant('Uber to airport', merchants)?.id).toBe('uber');
+    });
+
+    it('should fuzzy-match near spellings but not unrelated names', () => {
+      expect(matchMerchant('Starbuck', merchants)?.id).toBe('starbucks');
+      expect(matchMerchant('Starbuck coffee', merchants)?.id).toBe('starbucks');
+      expect(matchMerchant('Target', merchants)).toBeNull();
+      expect(similarity('costco', 'costco')).toBe(1);
+    });
+  });
+
+  it('should title-case names and normalize aliases', () => {
+    expect(merchantNameFromKey('whole foods')).toBe('Whole Foods');
+    const result = validateMerchantInput({ name: 'Costco', aliases: ['COSTCO WHOLESALE #1', 'costco'] });
+    expect(result.valid && result.value).toEqual({ name: 'Costco', aliases: ['costco'] });
+    expect(validateMerchantInput({ aliases: 'x' }, true).valid).toBe(false);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Merchant Domain Model
+ * Links the many spellings of one payee ("Costco run", "COSTCO WHOLESALE #123")
+ * to a single canonical merchant: alias rules are tried first, then fuzzy matching.
+ * Unmatched descriptions become new merchants, so the registry fills itself.
+ */
+
+import type { FieldError, ValidationResult } from './transaction';
+
+export interface Merchant {
+  id: string;
+  name: string;        // display name, e.g. "Costco"
+  aliases: string[];   // merchant keys that also mean this merchant, matched as whole words from the start
+  createdAt: number;
+}
+
+export interface MerchantInput {
+  name: string;
+  aliases: string[];
+}
+
+export type MerchantPatch = Partial<MerchantInput>;
+
+// Spending at one merchant; transfers and income are never counted
+export interface MerchantStats {
+  merchantId: string;
+  name: string;
+  count: number;
+  total: number;
+  averageTicket: number;
+  firstDate: string;
+  lastDate: string;
+  averageDaysBetween: number | null;  // typical gap between visits, null after a single visit
+}
+
+export const MAX_MERCHANT_NAME_LENGTH = 60;
+
+// Receipt boilerplate around the payee's name ("COSTCO WHOLESALE #123", "Acme Inc.")
+const NOISE_WORDS = new Set(['the', 'inc', 'llc', 'ltd', 'corp', 'co', 'wholesale', 'supercenter', 'store']);
+
+// Trailing words that describe the visit rather than the payee ("Gas fill-up", "Costco run", "Rent payment")
+const VISIT_WORDS = new Set(['run', 'fill', 'up', 'station', 'order', 'orders', 'payment', 'bill', 'service', 'purchase', 'visit', 'ride', 'rides']);
+
+// Keys at least this similar (0..1) are treated as one merchant ("starbuck" vs "starbucks")
+const FUZZY_THRESHOLD = 0.85;
+
+/**
+ * The comparable core of a raw description or receipt merchant string:
+ * lowercase words without store numbers, boilerplate or trailing visit words
+ * ("COSTCO WHOLESALE #123" → "costco", "Gas fill-up" → "gas")
+ */
+export function merchantKey(raw: string): string {
+  const words = raw.toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/#\s*\d+/g, ' ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word && !/^\d+$/.test(word));
+  const core = words.filter(word => !NOISE_WORDS.has(word));
+  const kept = core.length > 0 ? core : words;
+  while (kept.length > 1 && VISIT_WORDS.has(kept[kept.length - 1])) kept.pop();
+  return kept.join(' ');
+}
+
+/**
+ * Id for a merchant created from a key ("whole foods" → "whole-foods")
+ */
+export function merchantIdFromKey(key: string): string {
+  return key.replace(/\s+/g, '-');
+}
+
+/**
+ * Display name for a merchant created from a key ("whole foods" → "Whole Foods")
+ */
+export function merchantNameFromKey(key: string): string {
+  return key.replace(/(^|\s)(\p{L})/gu, (_, space, letter) => space + letter.toUpperCase());
+}
+
+/**
+ * The merchant a raw string refers to, or null when none is close enough.
+ * An exact key or alias beats one that starts the key ("costco" for "costco groceries"),
+ * which beats one the key starts, which beats a fuzzy match; longer aliases win ties.
+ */
+export function matchMerchant<T extends Pick<Merchant, 'name' | 'aliases'>>(raw: string, merchants: readonly T[]): T | null {
+  const key = merchantKey(raw);
+  if (!key) return null;
+
+  let best: { merchant: T; score: number } | null = null;
+  for (const merchant of merchants) {
+    for (const alias of [merchantKey(merchant.name), ...merchant.aliases]) {
+      const score = matchScore(key, alias);
+      if (score > (best?.score ?? 0)) best = { merchant, score };
+    }
+  }
+  return best ? best.merchant : null;
+}
+
+function matchScore(key: string, alias: string): number {
+  if (!alias) return 0;
+  const specificity = alias.length / 1000;
+  if (key === alias) return 3 + specificity;
+  if (key.startsWith(`${alias} `)) return 2 + specificity;
+  if (alias.startsWith(`${key} `)) return 1 + specificity;
+  // Fuzzy: the whole key, or its leading words when the key has more ("starbuck coffee" vs "starbucks")
+  const lead = key.split(' ').slice(0, alias.split(' ').length).join(' ');
+  const score = Math.max(
+    similarity(key.replace(/ /g, ''), alias.replace(/ /g, '')),
+    similarity(lead.replace(/ /g, ''), alias.replace(/ /g, ''))
+  );
+  return score >= FUZZY_THRESHOLD ? score : 0;
+}
+
+/**
+ * 1 minus the edit distance relative to the longer string (1 = identical)
+ */
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * Validate untrusted input for a merchant. With `partial`, every field is optional
+ * (for PATCH) but at least one must be present. Aliases are stored as merchant keys.
+ */
+export function validateMerchantInput(input: unknown, partial = false): ValidationResult<MerchantPatch> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+
+  const body = input as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const value: MerchantPatch = {};
+
+  for (const field of Object.keys(body)) {
+    if (!['name', 'aliases'].includes(field)) errors.push({ field, message: 'is not a merchant field' });
+  }
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || !merchantKey(name)) errors.push({ field: 'name', message: 'is required' });
+    else if (name.length > MAX_MERCHANT_NAME_LENGTH) errors.push({ field: 'name', message: `must be at most ${MAX_MERCHANT_NAME_LENGTH} characters` });
+    else value.name = name;
+  }
+
+  if (body.aliases !== undefined) {
+    if (Array.isArray(body.aliases) && body.aliases.every(a => typeof a === 'string')) {
+      value.aliases = [...new Set((body.aliases as string[]).map(merchantKey).filter(Boolean))];
+    } else {
+      errors.push({ field: 'aliases', message: 'must be an array of strings' });
+    }
+  }
+
+  if (errors.length === 0 && partial && Object.keys(value).length === 0) {
+    errors.push({ field: 'body', message: 'must include name or aliases' });
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+  return { valid: true, value: partial ? value : { aliases: [], ...value } };
+}
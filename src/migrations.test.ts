@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MIGRATIONS, LATEST_SCHEMA_VERSION, SCHEMA_VERSION_KEY, Migration, runMigrations } from './migrations';
+import { FinanceStore } from './finance-store';
+import { createTestState } from './test-support';
+import { normalizeNetWorth } from './net-worth';
+
+// Key-value storage as left behind by the original, pre-SQL version of the agent
+const LEGACY_SNAPSHOT: Record<string, unknown> = {
+  transactions: [
+    { id: 'tx-1', amount: 42.5, description: 'Costco run', category: 'food', type: 'expense', date: '2025-11-03' },
+    { id: 'tx-2', amount: 3200, description: 'Salary', category: 'salary', type: 'income', timestamp: Date.UTC(2025, 10, 1, 12) },
+    { id: 'tx-3', amount: 60, description: 'Gas fill-up', category: 'transportation', type: 'expense', date: '2025-11-07', timestamp: 0 }
+  ],
+  budgets: { food: 400 },
+  netWorth: {
+    assets: [{ name: 'Savings', value: '1500.456' }, { name: '', value: 10 }],
+    liabilities: [{ name: 'Card', amount: -250 }, 'junk']
+  }
+};
+
+describe('migrations', () => {
+  let state: DurableObjectState;
+  let store: FinanceStore;
+
+  beforeEach(async () => {
+    state = await createTestState();
+    store = new FinanceStore(state.storage);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  async function loadSnapshot(snapshot: Record<string, unknown>) {
+    for (const [key, value] of Object.entries(snapshot)) await state.storage.put(key, value);
+  }
+
+  it('should number migrations consecutively from 1', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+    expect(LATEST_SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+
+  it('should seed sample data into empty storage when asked', async () => {
+    const version = await runMigrations({ storage: state.storage, store, sampleData: true });
+
+    expect(version).toBe(LATEST_SCHEMA_VERSION);
+    expect(await state.storage.get(SCHEMA_VERSION_KEY)).toBe(LATEST_SCHEMA_VERSION);
+    expect(store.countTransactions()).toBeGreaterThan(0);
+    expect(store.getAccount('checking')).not.toBeNull();
+    expect(store.listCategories().length).toBeGreaterThan(0);
+  });
+
+  it('should leave empty storage empty by default', async () => {
+    await runMigrations({ storage: state.storage, store });
+
+    expect(store.countTransactions()).toBe(0);
+    expect(store.getAccount('checking')).not.toBeNull();
+  });
+
+  it('should bring a legacy snapshot to the latest version without seeding', async () => {
+    await loadSnapshot(LEGACY_SNAPSHOT);
+
+    await runMigrations({ storage: state.storage, store });
+
+    const transactions = store.listTransactions();
+    expect(transactions.map(t => t.id).sort()).toEqual(['tx-1', 'tx-2', 'tx-3']);
+    expect(transactions.every(t => t.timestamp > 0)).toBe(true);
+    expect(transactions.find(t => t.id === 'tx-2')!.date).toBe('2025-11-01');
+    expect(transactions.find(t => t.id === 'tx-1')!.merchantId).toBe('costco');
+    expect(store.getBudgets()).toEqual({ food: 400 });
+    expect(await state.storage.get('transactions')).toBeUndefined();
+    expect(await state.storage.get('netWorth')).toEqual({
+      assets: [{ name: 'Savings', amount: 1500.46 }],
+      liabilities: [{ name: 'Card', amount: 250 }]
+    });
+  });
+
+  it('should not reseed a ledger the user emptied', async () => {
+    await runMigrations({ storage: state.storage, store, sampleData: true });
+    store.replaceTransactions([]);
+
+    await runMigrations({ storage: state.storage, store, sampleData: true });
+
+    expect(store.countTransactions()).toBe(0);
+  });
+
+  it('should only run migrations newer than the stored version', async () => {
+    const ran: number[] = [];
+    const migrations: Migration[] = [1, 2, 3].map(version => ({ version, name: `m${version}`, up: () => { ran.push(version); } }));
+    await state.storage.put(SCHEMA_VERSION_KEY, 1);
+
+    expect(await runMigrations({ storage: state.storage, store }, migrations)).toBe(3);
+    expect(await runMigrations({ storage: state.storage, store }, migrations)).toBe(3);
+    expect(ran).toEqual([2, 3]);
+  });
+
+  it('should keep the version of the last migration that succeeded', async () => {
+    const migrations: Migration[] = [
+      { version: 1, name: 'ok', up: () => {} },
+      { version: 2, name: 'broken', up: () => { throw new Error('boom'); } }
+    ];
+
+    await expect(runMigrations({ storage: state.storage, store }, migrations)).rejects.toThrow('boom');
+    expect(await state.storage.get(SCHEMA_VERSION_KEY)).toBe(1);
+  });
+
+  // Storage as code at this version left it: that version's schema, recorded
+  async function openAt(version: number) {
+    for (const migration of MIGRATIONS.slice(0, version)) {
+      if (migration.schema) store.applySchema(migration.schema);
+    }
+    await state.storage.put(SCHEMA_VERSION_KEY, version);
+  }
+
+  // Table -> columns, plus index names, as storage has them
+  function schemaOf(): { tables: Record<string, string[]>; indexes: string[] } {
+    const sql = state.storage.sql;
+    const tables: Record<string, string[]> = {};
+    const entries = sql.exec(`SELECT type, name FROM sqlite_master WHERE name NOT LIKE 'sqlite_%'`).toArray();
+    for (const { name } of entries.filter(entry => entry.type === 'table')) {
+      tables[String(name)] = sql.exec(`PRAGMA table_info(${name})`).toArray().map(row => String(row.name));
+    }
+    return { tables, indexes: entries.filter(entry => entry.type === 'index').map(entry => String(entry.name)) };
+  }
+
+  it.each(MIGRATIONS.filter(m => m.version > 1 && m.schema).map(m => m.version))(
+    'should apply only the schema of migration %i to storage at the version before it',
+    async version => {
+      const migration = MIGRATIONS[version - 1];
+      await openAt(version - 1);
+      const before = schemaOf();
+
+      expect(await runMigrations({ storage: state.storage, store }, MIGRATIONS.slice(0, version))).toBe(version);
+      const after = schemaOf();
+
+      const created = (migration.schema!.tables ?? []).map(sql => sql.match(/CREATE TABLE IF NOT EXISTS (\w+)/)![1]);
+      const indexed = (migration.schema!.indexes ?? []).map(sql => sql.match(/CREATE INDEX IF NOT EXISTS (\w+)/)![1]);
+      expect(Object.keys(after.tables).filter(table => !before.tables[table]).sort()).toEqual(created.sort());
+      expect(after.indexes.filter(index => !before.indexes.includes(index)).sort()).toEqual(indexed.sort());
+      const added = Object.entries(before.tables).flatMap(([table, columns]) =>
+        after.tables[table].filter(column => !columns.includes(column)).map(column => `${table}.${column}`));
+      expect(added.sort()).toEqual((migration.schema!.columns ?? []).map(c => `${c.table}.${c.column}`).sort());
+    }
+  );
+
+  it('should give a migrated ledger the same schema as a new one', async () => {
+    await openAt(8);
+    await runMigrations({ storage: state.storage, store });
+    const migrated = schemaOf();
+
+    state = await createTestState();
+    store = new FinanceStore(state.storage);
+    await runMigrations({ storage: state.storage, store });
+
+    expect(schemaOf()).toEqual(migrated);
+  });
+
+  it('should refuse storage written by newer code', async () => {
+    await state.storage.put(SCHEMA_VERSION_KEY, LATEST_SCHEMA_VERSION + 1);
+    await expect(runMigrations({ storage: state.storage, store })).rejects.toThrow(/newer than this code/);
+  });
+});
+
+describe('normalizeNetWorth', () => {
+  it('should default missing lists and drop invalid items', () => {
+    expect(normalizeNetWorth(null)).toEqual({ assets: [], liabilities: [] });
+    expect(normalizeNetWorth({ assets: [{ name: 'House', amount: 0 }, { name: 'Car', amount: 'abc' }] }))
+      .toEqual({ assets: [], liabilities: [] });
+  });
+});
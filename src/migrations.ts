@@ -0,0 +1,226 @@
+/**
+ * Storage Migrations
+ * The Durable Object records which schema version its storage is at, and every
+ * migration after that version runs once, in order, before any request is served.
+ * Migrations must be idempotent: one interrupted before its version is recorded runs again.
+ */
+
+import { FinanceStore, INITIAL_SCHEMA, SchemaChange } from './finance-store';
+import { generateSampleTransactions } from './sample-data';
+import { normalizeNetWorth } from './net-worth';
+
+// Key-value storage key holding the version of the last migration applied
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+export interface MigrationContext {
+  storage: DurableObjectStorage;
+  store: FinanceStore;
+  sampleData?: boolean;    // seed demo transactions into brand-new storage (SAMPLE_DATA)
+}
+
+/**
+ * A migration changes the schema (`schema`), the data (`up`), or both. Each version's
+ * schema holds only what that version adds, so replaying the migrations from any version
+ * gives the same tables as a ledger that was there all along.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  schema?: SchemaChange;
+  up?(context: MigrationContext): void | Promise<void>;
+}
+
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    name: 'create tables',
+    schema: INITIAL_SCHEMA
+  },
+  {
+    version: 2,
+    name: 'move legacy key-value blobs into SQL',
+    up: ({ store }) => store.migrateLegacyBlobs()
+  },
+  {
+    // Demo data only where a deployment asks for it, and into brand-new storage only: never
+    // over a ledger the user has emptied, reset or restored from a backup
+    version: 3,
+    name: 'seed sample transactions',
+    up: ({ store, sampleData }) => {
+      if (sampleData && store.countTransactions() === 0 && store.oldestTrashedAt() === null) {
+        store.insertTransactions(generateSampleTransactions());
+      }
+    }
+  },
+  {
+    version: 4,
+    name: 'repair transaction dates and timestamps',
+    up: ({ store }) => { store.repairTransactionDates(); }
+  },
+  {
+    version: 5,
+    name: 'default account',
+    up: ({ store }) => store.ensureDefaultAccount()
+  },
+  {
+    version: 6,
+    name: 'default categories',
+    up: ({ store }) => store.ensureDefaultCategories()
+  },
+  {
+    version: 7,
+    name: 'link transactions to merchants',
+    up: ({ store }) => store.ensureMerchants()
+  },
+  {
+    version: 8,
+    name: 'normalize net worth',
+    up: async ({ storage }) => {
+      const netWorth = await storage.get('netWorth');
+      if (netWorth !== undefined) await storage.put('netWorth', normalizeNetWorth(netWorth));
+    }
+  },
+  {
+    version: 9,
+    name: 'idempotency keys and duplicate dismissals',
+    schema: {
+      tables: [
+        `CREATE TABLE IF NOT EXISTS idempotency_keys (
+          key TEXT PRIMARY KEY,
+          fingerprint TEXT NOT NULL,
+          response TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        )`,
+        `CREATE TABLE IF NOT EXISTS duplicate_dismissals (
+          transaction_id TEXT NOT NULL,
+          other_id TEXT NOT NULL,
+          dismissed_at INTEGER NOT NULL,
+          PRIMARY KEY (transaction_id, other_id)
+        )`
+      ],
+      indexes: [
+        `CREATE INDEX IF NOT EXISTS idx_audit_log_revert ON audit_log (revert_of)`,
+        `CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created ON idempotency_keys (created_at)`
+      ]
+    }
+  },
+  {
+    version: 10,
+    name: 'household members on transactions, personal budgets and goals',
+    schema: {
+      tables: [
+        `CREATE TABLE IF NOT EXISTS personal_budgets (
+          member_id TEXT NOT NULL,
+          category TEXT NOT NULL,
+          amount REAL NOT NULL,
+          PRIMARY KEY (member_id, category)
+        )`
+      ],
+      columns: [
+        { table: 'transactions', column: 'created_by', definition: 'TEXT' },
+        { table: 'transaction_trash', column: 'created_by', definition: 'TEXT' },
+        { table: 'goals', column: 'member_id', definition: 'TEXT' }
+      ],
+      indexes: [
+        `CREATE INDEX IF NOT EXISTS idx_transactions_created_by ON transactions (created_by, date)`
+      ]
+    }
+  },
+  {
+    version: 11,
+    name: 'statement imports',
+    schema: {
+      tables: [
+        `CREATE TABLE IF NOT EXISTS pending_imports (
+          id TEXT PRIMARY KEY,
+          created_at INTEGER NOT NULL,
+          data TEXT NOT NULL
+        )`,
+        `CREATE TABLE IF NOT EXISTS import_mappings (
+          name TEXT PRIMARY KEY,
+          data TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        )`
+      ],
+      columns: [
+        { table: 'transactions', column: 'external_id', definition: 'TEXT' },
+        { table: 'transaction_trash', column: 'external_id', definition: 'TEXT' }
+      ],
+      indexes: [
+        `CREATE INDEX IF NOT EXISTS idx_transactions_external_id ON transactions (external_id)`,
+        `CREATE INDEX IF NOT EXISTS idx_transaction_trash_external_id ON transaction_trash (external_id)`
+      ]
+    }
+  },
+  {
+    version: 12,
+    name: 'statement accounts and balances',
+    schema: {
+      tables: [
+        `CREATE TABLE IF NOT EXISTS statement_balances (
+          account_id TEXT NOT NULL,
+          as_of TEXT NOT NULL,
+          balance REAL NOT NULL,
+          available REAL,
+          currency TEXT,
+          source TEXT NOT NULL,
+          recorded_at INTEGER NOT NULL,
+          PRIMARY KEY (account_id, as_of)
+        )`
+      ],
+      columns: [
+        { table: 'accounts', column: 'external_ref', definition: 'TEXT' }
+      ]
+    }
+  },
+  {
+    version: 13,
+    name: 'bank details on imported transactions',
+    schema: {
+      columns: [
+        { table: 'transactions', column: 'bank_details', definition: 'TEXT' },
+        { table: 'transaction_trash', column: 'bank_details', definition: 'TEXT' }
+      ]
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * The latest tables, columns and indexes in storage that starts empty, without the
+ * migrations that change data
+ */
+export function createSchema(store: FinanceStore): void {
+  for (const migration of MIGRATIONS) {
+    if (migration.schema) store.applySchema(migration.schema);
+  }
+}
+
+/**
+ * Apply every migration newer than the stored schema version, recording the version
+ * after each one. Returns the version the storage is at afterwards.
+ *
+ * The pending migrations' schema changes all go in before any of their data changes:
+ * those run through the store's current code, which reads and writes every column up
+ * to the version being migrated to.
+ */
+export async function runMigrations(context: MigrationContext, migrations: readonly Migration[] = MIGRATIONS): Promise<number> {
+  let version = Number(await context.storage.get(SCHEMA_VERSION_KEY)) || 0;
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  if (version > latest) {
+    throw new Error(`Storage is at schema version ${version}, newer than this code (${latest})`);
+  }
+
+  const pending = migrations.filter(migration => migration.version > version);
+  for (const migration of pending) {
+    if (migration.schema) context.store.applySchema(migration.schema);
+  }
+  for (const migration of pending) {
+    await migration.up?.(context);
+    version = migration.version;
+    await context.storage.put(SCHEMA_VERSION_KEY, version);
+    console.log(`Applied migration ${migration.version}: ${migration.name}`);
+  }
+  return version;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseInformation, parseMt940 } from './mt940-import';
+
+const MT940 = `{1:F01COBADEFFAXXX0000000000}{2:I940COBADEFFXXXXN}{4:
+:20:STARTUMS
+:25:37040044/0532013000
+:28C:00001/001
+:60F:C260227EUR1000,00
+:61:2602280301DR115,50NDDTNONREF//KREF0001
+:86:105?00SEPA-LASTSCHRIFT?20EREF+INV-2026-042?21SVWZ+Strom Februar Kunde?22nnr 4711?31DE02700500000000012345
+?32Stadtwerke Muen?33chen
+:61:260302C1500,00NTRFNONREF
+:86:166?00GUTSCHRIFT?20SVWZ+Gehalt Maerz?32Acme GmbH
+:62F:C260302EUR2384,50
+:64:C260302EUR2300,00
+-}`;
+
+describe('mt940-import', () => {
+  it('should read a statement with German structured information', () => {
+    const { statements, errors } = parseMt940(MT940);
+    expect(errors).toEqual([]);
+    expect(statements).toHaveLength(1);
+    const [statement] = statements;
+    expect(statement).toMatchObject({
+      account: '37040044/0532013000',
+      currency: 'EUR',
+      openingBalance: { amount: 1000, asOf: '2026-02-27' },
+      closingBalance: { amount: 2384.5, asOf: '2026-03-02' },
+      availableBalance: { amount: 2300, asOf: '2026-03-02' }
+    });
+
+    const [power, salary] = statement.rows;
+    expect(power).toMatchObject({
+      line: 6, date: '2026-03-01', amount: 115.5, type: 'expense',
+      description: 'Stadtwerke Muenchen - Strom Februar Kundennr 4711', merchant: 'Stadtwerke Muenchen',
+      externalId: 'mt940:37040044/0532013000:2026-03-01:KREF0001',
+      bankDetails: {
+        valueDate: '2026-02-28', counterparty: 'Stadtwerke Muenchen', counterpartyAccount: 'DE02700500000000012345',
+        remittance: 'Strom Februar Kundennr 4711', endToEndId: 'INV-2026-042', bankReference: 'KREF0001'
+      },
+      errors: []
+    });
+    expect(salary).toMatchObject({ date: '2026-03-02', amount: 1500, type: 'income', description: 'Acme GmbH - Gehalt Maerz' });
+    expect(salary.externalId).toBeUndefined();
+  });
+
+  it('should read /KEY/ information and free text', () => {
+    expect(parseInformation('/TRTP/SEPA OVERBOEKING/IBAN/NL12RABO0123456789/BIC/RABONL2U/NAME/Bakkerij de Vries/REMI/USTD//Factuur\n 2026-17/EREF/E2E-17')).toEqual({
+      counterparty: 'Bakkerij de Vries',
+      counterpartyAccount: 'NL12RABO0123456789',
+      remittance: 'Factuur 2026-17',
+      endToEndId: 'E2E-17'
+    });
+    expect(parseInformation('CARD PAYMENT\nCOFFEE SHOP')).toEqual({ remittance: 'CARD PAYMENT COFFEE SHOP' });
+  });
+
+  it('should place a booking date in the year nearest its value date', () => {
+    const { statements } = parseMt940(':20:X\n:25:NL91ABNA0417164300\n:60F:C251231EUR0,00\n:61:2512310102D10,00NMSCNONREF\n:86:Fee\n:62F:D260102EUR10,00');
+    expect(statements[0].rows[0]).toMatchObject({ date: '2026-01-02', bankDetails: { valueDate: '2025-12-31' } });
+    expect(parseMt940('Date;Amount').errors[0].field).toBe('mt940');
+  });
+});
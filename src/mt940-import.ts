@@ -0,0 +1,223 @@
+/**
+ * MT940 Statement Import
+ * Reads SWIFT MT940 customer statements as banks let customers download them. A file
+ * holds one or more statements, each starting at :20:. :25: names the account, :60F:
+ * and :62F: give the opening and closing balances (and with them the currency), and
+ * every :61: statement line is a row, described by the :86: field after it. Banks fill
+ * :86: in one of three ways: German ?NN subfields (with SEPA keywords such as EREF+ and
+ * SVWZ+), /KEY/value pairs (/EREF/, /NAME/, /REMI/...), or free text, read as remittance.
+ */
+
+import { BankDetails, FieldError, MAX_DESCRIPTION_LENGTH, isValidISODate } from './transaction';
+import { BankStatement, BankStatementParseResult, MAX_IMPORT_ROWS, ParsedRow, ReportedBalance, combineStatements } from './import';
+
+interface Mt940Field {
+  tag: string;             // e.g. "61", "60F"
+  line: number;
+  value: string;           // continuation lines joined with "\n"
+}
+
+/**
+ * The fields of the file's text blocks, in order; the {1:...}{2:...} headers and
+ * "-}" trailers some downloads keep are dropped
+ */
+function readFields(text: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.replace(/^\{1:[^}]*\}(\{2:[^}]*\})?(\{3:(\{[^}]*\})*\})?\{4:/, '').replace(/\s+$/, '');
+    if (!line || /^-\}?$/.test(line) || /^\{\d:/.test(line)) return;
+    const field = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (field) fields.push({ tag: field[1], line: index + 1, value: field[2] });
+    else if (fields.length > 0) fields[fields.length - 1].value += `\n${line}`;
+  });
+  return fields;
+}
+
+function amountOf(text: string): number | null {
+  return /^\d+,\d*$/.test(text) ? Number(text.replace(',', '.')) : null;
+}
+
+/**
+ * A YYMMDD date as YYYY-MM-DD
+ */
+function dateOf(text: string): string | null {
+  const iso = `20${text.slice(0, 2)}-${text.slice(2, 4)}-${text.slice(4, 6)}`;
+  return /^\d{6}$/.test(text) && isValidISODate(iso) ? iso : null;
+}
+
+/**
+ * A balance field (:60F:, :62F:, :64:...): C or D, YYMMDD, currency, amount
+ */
+function balanceOf(value: string): (ReportedBalance & { currency: string }) | null {
+  const match = value.trim().match(/^([CD])(\d{6})([A-Z]{3})(\d+,\d*)$/);
+  const asOf = match ? dateOf(match[2]) : null;
+  const amount = match ? amountOf(match[4]) : null;
+  if (!match || !asOf || amount === null) return null;
+  return { amount: match[1] === 'D' ? -amount : amount, asOf, currency: match[3] };
+}
+
+/**
+ * What :86: says about a line: who the other party was, what for, and the references
+ */
+export function parseInformation(value: string): Omit<BankDetails, 'valueDate' | 'bankReference'> & { text?: string } {
+  const text = value.replace(/\n/g, '');   // structured fields wrap mid-word
+  const clean = (part: string | undefined) => part?.replace(/\s+/g, ' ').trim() || undefined;
+
+  // German structured: ?00 booking text, ?20-?29 and ?60-?63 remittance, ?31 account, ?32-?33 name
+  if (/^\d{3}\?/.test(text) || text.startsWith('?')) {
+    const subfields = new Map<string, string>();
+    for (const [, code, content] of text.matchAll(/\?(\d{2})([^?]*)/g)) subfields.set(code, (subfields.get(code) ?? '') + content);
+    const purpose = [...subfields].filter(([code]) => (code >= '20' && code <= '29') || (code >= '60' && code <= '63')).map(([, part]) => part).join('');
+    // SEPA keywords divide the purpose lines: EREF+ end-to-end id, SVWZ+ remittance...
+    const keywords = new Map<string, string>();
+    const parts = purpose.split(/(EREF|KREF|MREF|CRED|DEBT|SVWZ|ABWA|ABWE|IBAN|BIC)\+/);
+    for (let i = 1; i < parts.length; i += 2) keywords.set(parts[i], parts[i + 1]);
+    const name = clean([subfields.get('32'), subfields.get('33')].filter(Boolean).join(''));
+    const remittance = clean(keywords.size > 0 ? keywords.get('SVWZ') ?? parts[0] : purpose);
+    const endToEndId = clean(keywords.get('EREF'));
+    const account = clean(subfields.get('31'));
+    return {
+      ...(name ? { counterparty: name } : {}),
+      ...(account ? { counterpartyAccount: account } : {}),
+      ...(remittance ? { remittance } : {}),
+      ...(endToEndId ? { endToEndId } : {}),
+      ...(clean(subfields.get('00')) ? { text: clean(subfields.get('00')) } : {})
+    };
+  }
+
+  // /KEY/value pairs, as Dutch and SWIFT-style banks write them; CNTP is account/BIC/name/city
+  if (/^\/[A-Z]{2,4}\//.test(text)) {
+    const pairs = new Map<string, string>();
+    const parts = text.split(/\/(EREF|NAME|REMI|IBAN|BIC|CNTP|ORDP|BENM|MARF|CSID|TRTP|ADDR|RTRN|PREF|ID|ISDT|SVCL|USTD|STRD|CDTRREF|CDTRREFTP|CD|ISSR|TYPE|BUSP|PURP)\//);
+    for (let i = 1; i < parts.length; i += 2) if (!pairs.has(parts[i])) pairs.set(parts[i], parts[i + 1]);
+    const counterpartyFields = (pairs.get('CNTP') ?? '').split('/');
+    const name = clean(pairs.get('NAME') ?? counterpartyFields[2]);
+    const account = clean(pairs.get('IBAN') ?? counterpartyFields[0]);
+    // REMI holds USTD// (unstructured) or STRD/CUR/<reference>
+    const remi = pairs.get('REMI')?.replace(/^(USTD\/|STRD\/CUR\/)/, '');
+    const remittance = clean(remi ?? pairs.get('USTD') ?? pairs.get('CDTRREF'))?.replace(/^\/+|\/+$/g, '') || undefined;
+    const endToEndId = clean(pairs.get('EREF'))?.replace(/\/+$/, '');
+    return {
+      ...(name ? { counterparty: name.replace(/\/+$/, '') } : {}),
+      ...(account ? { counterpartyAccount: account.replace(/\/+$/, '') } : {}),
+      ...(remittance ? { remittance } : {}),
+      ...(endToEndId && endToEndId !== 'NOTPROVIDED' ? { endToEndId } : {})
+    };
+  }
+
+  const remittance = clean(value);
+  return remittance ? { remittance } : {};
+}
+
+/**
+ * A :61: statement line: value date, optional booking date (MMDD), D/C/RD/RC, optional
+ * funds code, amount, transaction type, customer reference, //bank reference and, on the
+ * next line, supplementary details
+ */
+function statementLine(field: Mt940Field, information: string | undefined, account: string): ParsedRow {
+  const row: ParsedRow = { line: field.line, errors: [] };
+  const [first, supplementary] = field.value.split('\n');
+  const match = first.match(/^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^/]*?)(?:\/\/(.*))?$/);
+  if (!match) {
+    row.errors.push({ field: 'line', message: `"${first}" is not an MT940 statement line` });
+    return row;
+  }
+  const [, rawValueDate, rawBooking, mark, , rawAmount, , customerReference, bankReference] = match;
+
+  const valueDate = dateOf(rawValueDate);
+  let date = valueDate;
+  if (valueDate && rawBooking) {
+    // The booking date has no year: take the one that puts it nearest the value date
+    const year = Number(valueDate.slice(0, 4));
+    const candidates = [year - 1, year, year + 1].map(y => `${y}-${rawBooking.slice(0, 2)}-${rawBooking.slice(2)}`).filter(isValidISODate);
+    const distance = (iso: string) => Math.abs(Date.parse(iso) - Date.parse(valueDate));
+    date = candidates.sort((a, b) => distance(a) - distance(b))[0] ?? valueDate;
+  }
+  if (date) row.date = date;
+  else row.errors.push({ field: 'date', message: `"${rawValueDate}" is not a YYMMDD date` });
+
+  const amount = amountOf(rawAmount);
+  if (amount === null || amount === 0) row.errors.push({ field: 'amount', message: amount === 0 ? 'is zero' : `"${rawAmount}" is not an amount` });
+  else row.amount = Math.round(amount * 100) / 100;
+  // RC reverses a credit (money out), RD a debit (money back in)
+  row.type = mark === 'D' || mark === 'RC' ? 'expense' : 'income';
+
+  const details = information ? parseInformation(information) : {};
+  const { text, ...known } = details;
+  const customer = customerReference.trim();
+  const bankDetails: BankDetails = {
+    ...(valueDate ? { valueDate } : {}),
+    ...known,
+    ...(!known.endToEndId && customer && customer !== 'NONREF' ? { endToEndId: customer } : {}),
+    ...(bankReference?.trim() ? { bankReference: bankReference.trim() } : {})
+  };
+  row.bankDetails = bankDetails;
+
+  const description = [known.counterparty, known.remittance].filter(Boolean).join(' - ') || text || supplementary?.trim() || '';
+  if (description) row.description = description.slice(0, MAX_DESCRIPTION_LENGTH);
+  else row.errors.push({ field: 'description', message: 'has no :86: information' });
+  if (known.counterparty) row.merchant = known.counterparty.slice(0, MAX_DESCRIPTION_LENGTH);
+
+  const reference = bankReference?.trim();
+  if (reference && reference !== 'NONREF') row.externalId = `mt940:${account}:${date}:${reference}`;
+  return row;
+}
+
+/**
+ * Read the statements in an MT940 file
+ */
+export function parseMt940(text: string): BankStatementParseResult {
+  const fields = readFields(text);
+  if (!fields.some(f => f.tag === '20') || !fields.some(f => f.tag === '25')) {
+    return { statements: [], errors: [{ field: 'mt940', message: 'is not an MT940 file: it has no :20: and :25: fields' }] };
+  }
+
+  const errors: FieldError[] = [];
+  const statements: BankStatement[] = [];
+  let current: BankStatement | null = null;
+  let rows = 0;
+  for (const [i, field] of fields.entries()) {
+    if (field.tag === '20') {
+      current = { account: '', rows: [] };
+      statements.push(current);
+      continue;
+    }
+    if (!current) continue;
+    if (field.tag === '25') {
+      current.account = field.value.trim();
+    } else if (field.tag === '60F' || field.tag === '60M') {
+      const opening = balanceOf(field.value);
+      if (opening) {
+        const { currency, ...balance } = opening;
+        current.currency = currency;
+        current.openingBalance = balance;
+        current.start = balance.asOf;
+      }
+    } else if (field.tag === '62F' || field.tag === '62M') {
+      const closing = balanceOf(field.value);
+      if (closing) {
+        const { currency, ...balance } = closing;
+        current.currency ??= currency;
+        current.closingBalance = balance;
+        current.end = balance.asOf;
+      }
+    } else if (field.tag === '64') {
+      const available = balanceOf(field.value);
+      if (available) current.availableBalance = { amount: available.amount, asOf: available.asOf };
+    } else if (field.tag === '61') {
+      const next = fields[i + 1];
+      current.rows.push(statementLine(field, next?.tag === '86' ? next.value : undefined, current.account));
+      rows++;
+    }
+  }
+
+  const complete = statements.filter(statement => {
+    if (statement.account) return true;
+    errors.push({ field: 'mt940', message: 'a statement has no :25: account' });
+    return false;
+  });
+  if (rows > MAX_IMPORT_ROWS) {
+    return { statements: [], errors: [{ field: 'mt940', message: `has more than ${MAX_IMPORT_ROWS} statement lines; export a shorter period` }] };
+  }
+  return { statements: combineStatements(complete), errors: complete.length > 0 ? [] : errors };
+}
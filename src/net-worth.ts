@@ -0,0 +1,43 @@
+/**
+ * Net Worth Domain Model
+ * A hand-maintained statement of assets and liabilities, stored as one
+ * key-value document because it is always read and written whole.
+ */
+
+export interface NetWorthItem {
+  name: string;
+  amount: number;   // positive; liabilities are subtracted
+}
+
+export interface NetWorth {
+  assets: NetWorthItem[];
+  liabilities: NetWorthItem[];
+}
+
+export const MAX_NET_WORTH_ITEMS = 100;
+const MAX_ITEM_NAME_LENGTH = 80;
+
+/**
+ * Coerce any stored or posted document into a NetWorth: items without a name or a
+ * positive finite amount are dropped, and older `value` fields are read as `amount`
+ */
+export function normalizeNetWorth(input: unknown): NetWorth {
+  const body = input && typeof input === 'object' && !Array.isArray(input) ? input as Record<string, unknown> : {};
+  return {
+    assets: normalizeItems(body.assets),
+    liabilities: normalizeItems(body.liabilities)
+  };
+}
+
+function normalizeItems(items: unknown): NetWorthItem[] {
+  if (!Array.isArray(items)) return [];
+  return items
+    .map(item => {
+      const raw = item && typeof item === 'object' ? item as Record<string, unknown> : {};
+      const name = typeof raw.name === 'string' ? raw.name.trim().slice(0, MAX_ITEM_NAME_LENGTH) : '';
+      const amount = Math.round(Math.abs(Number(raw.amount ?? raw.value)) * 100) / 100;
+      return { name, amount };
+    })
+    .filter(item => item.name && Number.isFinite(item.amount) && item.amount > 0)
+    .slice(0, MAX_NET_WORTH_ITEMS);
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { parseOfx, parseOfxTree, parseOfxDate, parseOfxAmount, ofxAccountDetails } from './ofx-import';
+
+const SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+CHARSET:1252
+
+<OFX>
+<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS><DTSERVER>20260305120000<LANGUAGE>ENG
+<FI><ORG>Acme Bank<FID>1234</FI></SONRS></SIGNONMSGSRSV1>
+<BANKMSGSRSV1><STMTTRNRS><TRNUID>1<STATUS><CODE>0<SEVERITY>INFO</STATUS>
+<STMTRS><CURDEF>USD
+<BANKACCTFROM><BANKID>021000021<ACCTID>000123456789<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST><DTSTART>20260201<DTEND>20260228
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260203120000[-5:EST]<TRNAMT>-42.17<FITID>2026020301<NAME>WHOLE FOODS #102<MEMO>POS PURCHASE</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260215<TRNAMT>2500.00<FITID>2026021501<NAME>ACME PAYROLL &amp; CO</STMTTRN>
+<STMTTRN><TRNTYPE>CHECK<DTPOSTED>20260220<TRNAMT>-100<FITID>2026022001<CHECKNUM>1042</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>3357.83<DTASOF>20260228</LEDGERBAL>
+<AVAILBAL><BALAMT>3300.00<DTASOF>20260228</AVAILBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const XML = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1>
+    <CCSTMTTRNRS>
+      <TRNUID>1</TRNUID>
+      <STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>
+      <CCSTMTRS>
+        <CURDEF>EUR</CURDEF>
+        <CCACCTFROM><ACCTID>4111111111111111</ACCTID></CCACCTFROM>
+        <BANKTRANLIST>
+          <DTSTART>20260301</DTSTART><DTEND>20260331</DTEND>
+          <STMTTRN>
+            <TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20260302</DTPOSTED><TRNAMT>-19,99</TRNAMT>
+            <FITID>A1</FITID><PAYEE><NAME>Streaming Co</NAME></PAYEE><MEMO></MEMO>
+          </STMTTRN>
+        </BANKTRANLIST>
+        <LEDGERBAL><BALAMT>-19.99</BALAMT><DTASOF>20260331</DTASOF></LEDGERBAL>
+      </CCSTMTRS>
+    </CCSTMTTRNRS>
+  </CREDITCARDMSGSRSV1>
+</OFX>`;
+
+describe('ofx-import', () => {
+  it('should read dates and amounts', () => {
+    expect(parseOfxDate('20260203120000.000[-5:EST]')).toBe('2026-02-03');
+    expect(parseOfxDate('20260230')).toBeNull();
+    expect(parseOfxAmount('-1,50')).toBe(-1.5);
+    expect(parseOfxAmount('+12')).toBe(12);
+    expect(parseOfxAmount('twelve')).toBeNull();
+  });
+
+  it('should close SGML values and aggregates left open', () => {
+    const tree = parseOfxTree('<OFX><A><B>1<C>2</A><D>3</OFX>')!;
+    expect(tree.children.map(c => c.name)).toEqual(['A', 'D']);
+    expect(tree.children[0].children).toEqual([{ name: 'B', text: '1', children: [] }, { name: 'C', text: '2', children: [] }]);
+    expect(parseOfxTree('name,amount\nCoffee,3')).toBeNull();
+  });
+
+  it('should read a 1.x bank statement', () => {
+    const { institution, statements, errors } = parseOfx(SGML);
+    expect(errors).toEqual([]);
+    expect(institution).toBe('Acme Bank');
+    expect(statements).toHaveLength(1);
+    const [statement] = statements;
+    expect(statement).toMatchObject({
+      account: { kind: 'bank', bankId: '021000021', acctId: '000123456789', acctType: 'CHECKING' },
+      currency: 'USD',
+      start: '2026-02-01',
+      end: '2026-02-28',
+      ledgerBalance: { amount: 3357.83, asOf: '2026-02-28' },
+      availableBalance: { amount: 3300, asOf: '2026-02-28' }
+    });
+    expect(statement.rows.map(({ line, date, amount, type, description, merchant, externalId }) => ({ line, date, amount, type, description, merchant, externalId }))).toEqual([
+      { line: 1, date: '2026-02-03', amount: 42.17, type: 'expense', description: 'WHOLE FOODS #102 - POS PURCHASE', merchant: 'WHOLE FOODS #102', externalId: 'ofx:000123456789:2026020301' },
+      { line: 2, date: '2026-02-15', amount: 2500, type: 'income', description: 'ACME PAYROLL & CO', merchant: 'ACME PAYROLL & CO', externalId: 'ofx:000123456789:2026021501' },
+      { line: 3, date: '2026-02-20', amount: 100, type: 'expense', description: 'Check 1042', merchant: undefined, externalId: 'ofx:000123456789:2026022001' }
+    ]);
+  });
+
+  it('should read a 2.x credit card statement', () => {
+    const { statements } = parseOfx(XML);
+    expect(statements[0].account).toEqual({ kind: 'creditcard', acctId: '4111111111111111' });
+    expect(statements[0].currency).toBe('EUR');
+    expect(statements[0].rows[0]).toMatchObject({ date: '2026-03-02', amount: 19.99, type: 'expense', description: 'Streaming Co', errors: [] });
+  });
+
+  it('should report files without statements', () => {
+    expect(parseOfx('not ofx').errors[0].message).toContain('no <OFX> element');
+    const failed = parseOfx('<OFX><BANKMSGSRSV1><STMTTRNRS><STATUS><CODE>2000<SEVERITY>ERROR<MESSAGE>Account locked</STATUS></STMTTRNRS></BANKMSGSRSV1></OFX>');
+    expect(failed.errors).toEqual([{ field: 'ofx', message: 'the bank returned no statement (status 2000: Account locked)' }]);
+  });
+
+  it('should describe statement accounts', () => {
+    const { institution, statements: [bank] } = parseOfx(SGML);
+    expect(ofxAccountDetails(bank.account, institution)).toEqual({ externalRef: 'ofx:021000021:000123456789', name: 'Acme Bank Checking 6789', type: 'checking' });
+    expect(ofxAccountDetails(parseOfx(XML).statements[0].account)).toEqual({ externalRef: 'ofx:creditcard:4111111111111111', name: 'Credit Card 1111', type: 'credit_card' });
+  });
+});
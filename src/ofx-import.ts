@@ -0,0 +1,250 @@
+/**
+ * OFX/QFX Statement Import
+ * Reads OFX 1.x (SGML, where elements holding a value are never closed) and OFX 2.x
+ * (XML) downloads; QFX is OFX with Quicken's additions, which are ignored. Each bank or
+ * credit card statement in a file is imported on its own: its STMTTRN records are the
+ * rows, FITIDs make their external ids, BANKACCTFROM/CCACCTFROM identify the account
+ * and LEDGERBAL is kept for reconciliation.
+ */
+
+import { AccountType, MAX_ACCOUNT_NAME_LENGTH } from './account';
+import { FieldError, MAX_DESCRIPTION_LENGTH, isValidISODate } from './transaction';
+import { MAX_IMPORT_ROWS, ParsedRow } from './import';
+
+/**
+ * An element of an OFX document: aggregates have children, other elements a value
+ */
+export interface OfxNode {
+  name: string;
+  text?: string;
+  children: OfxNode[];
+}
+
+export interface OfxAccount {
+  kind: 'bank' | 'creditcard';
+  bankId?: string;
+  acctId: string;
+  acctType?: string;       // CHECKING, SAVINGS, MONEYMRKT, CREDITLINE or CD; bank accounts only
+}
+
+export interface OfxBalance {
+  amount: number;
+  asOf: string;            // YYYY-MM-DD
+}
+
+export interface OfxStatement {
+  account: OfxAccount;
+  currency?: string;
+  start?: string;
+  end?: string;
+  ledgerBalance?: OfxBalance;
+  availableBalance?: OfxBalance;
+  rows: ParsedRow[];
+}
+
+export interface OfxParseResult {
+  institution?: string;    // FI/ORG from the sign-on response
+  statements: OfxStatement[];
+  errors: FieldError[];    // problems with the file as a whole
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Replace XML/SGML character and entity references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return ENTITIES[code.toLowerCase()] ?? entity;
+    return String.fromCodePoint(code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : Number(code.slice(1)));
+  });
+}
+
+/**
+ * Read the <OFX> element of a 1.x or 2.x file into a tree. In SGML an element with a
+ * value ends where the next tag starts; a closing tag also closes any aggregates left
+ * open inside it.
+ */
+export function parseOfxTree(text: string): OfxNode | null {
+  const start = text.search(/<OFX>/i);
+  if (start < 0) return null;
+
+  const root: OfxNode = { name: '', children: [] };
+  const stack = [root];
+  const body = text.slice(start).replace(/<!--[\s\S]*?-->/g, '');
+  for (const [, closing, rawName, rawText] of body.matchAll(/<(\/?)([A-Za-z][\w.]*)[^>]*>([^<]*)/g)) {
+    const name = rawName.toUpperCase();
+    const parent = stack[stack.length - 1];
+    if (closing) {
+      const last = parent.children[parent.children.length - 1];
+      if (last?.name === name && last.text !== undefined) continue;   // XML's end of a value
+      const open = stack.map(node => node.name).lastIndexOf(name);
+      if (open > 0) stack.length = open;
+      continue;
+    }
+    const node: OfxNode = { name, children: [] };
+    parent.children.push(node);
+    const value = decodeEntities(rawText.trim());
+    if (value) node.text = value;
+    else stack.push(node);
+  }
+  return root.children.find(node => node.name === 'OFX') ?? null;
+}
+
+/**
+ * Every element named `name` under `node`, outermost first
+ */
+export function findAll(node: OfxNode, name: string): OfxNode[] {
+  return node.children.flatMap(child => (child.name === name ? [child] : findAll(child, name)));
+}
+
+/**
+ * The value of the first element named `name` under `node`. Searching below direct
+ * children also finds values inside an SGML element left empty and so read as an aggregate.
+ */
+function value(node: OfxNode | undefined, name: string): string | undefined {
+  if (!node) return undefined;
+  for (const child of node.children) {
+    const found = child.name === name && child.text !== undefined ? child.text : value(child, name);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+}
+
+/**
+ * An OFX datetime (YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]) as YYYY-MM-DD, the date the bank gave
+ */
+export function parseOfxDate(text: string | undefined): string | null {
+  const match = text?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const iso = `${match[1]}-${match[2]}-${match[3]}`;
+  return isValidISODate(iso) ? iso : null;
+}
+
+/**
+ * An OFX amount; some banks write a decimal comma
+ */
+export function parseOfxAmount(text: string | undefined): number | null {
+  const normalized = text?.trim().replace(/^\+/, '');
+  if (!normalized) return null;
+  const decimal = normalized.includes('.') ? normalized : normalized.replace(',', '.');
+  return /^-?(\d+\.?\d*|\.\d+)$/.test(decimal) ? Number(decimal) : null;
+}
+
+function balance(node: OfxNode | undefined): OfxBalance | undefined {
+  const amount = parseOfxAmount(value(node, 'BALAMT'));
+  const asOf = parseOfxDate(value(node, 'DTASOF'));
+  return amount !== null && asOf ? { amount, asOf } : undefined;
+}
+
+function statementRow(record: OfxNode, line: number, acctId: string): ParsedRow {
+  const row: ParsedRow = { line, errors: [] };
+
+  const rawDate = value(record, 'DTPOSTED') ?? value(record, 'DTUSER');
+  const date = parseOfxDate(rawDate);
+  if (date) row.date = date;
+  else row.errors.push({ field: 'date', message: rawDate ? `"${rawDate}" is not an OFX date` : 'is empty' });
+
+  const rawAmount = value(record, 'TRNAMT');
+  const amount = parseOfxAmount(rawAmount);
+  if (amount === null) row.errors.push({ field: 'amount', message: rawAmount ? `"${rawAmount}" is not an amount` : 'is empty' });
+  else if (Math.round(amount * 100) === 0) row.errors.push({ field: 'amount', message: 'is zero' });
+  else {
+    row.amount = Math.round(Math.abs(amount) * 100) / 100;
+    row.type = amount < 0 ? 'expense' : 'income';
+  }
+
+  // Banks cut NAME short and continue in MEMO
+  const name = value(record, 'NAME')?.replace(/\s+/g, ' ');
+  const memo = value(record, 'MEMO')?.replace(/\s+/g, ' ');
+  const checkNumber = value(record, 'CHECKNUM');
+  const description = [name, memo && !name?.includes(memo) ? memo : undefined].filter(Boolean).join(' - ')
+    || (checkNumber ? `Check ${checkNumber}` : '');
+  if (description) row.description = description.slice(0, MAX_DESCRIPTION_LENGTH);
+  else row.errors.push({ field: 'description', message: 'has no NAME or MEMO' });
+  if (name) row.merchant = name.slice(0, MAX_DESCRIPTION_LENGTH);
+
+  const fitId = value(record, 'FITID');
+  if (fitId) row.externalId = `ofx:${acctId}:${fitId}`;
+  return row;
+}
+
+/**
+ * Read the bank and credit card statements in an OFX or QFX file
+ */
+export function parseOfx(text: string): OfxParseResult {
+  const ofx = parseOfxTree(text);
+  if (!ofx) return { statements: [], errors: [{ field: 'ofx', message: 'is not an OFX file: it has no <OFX> element' }] };
+
+  const errors: FieldError[] = [];
+  const statements: OfxStatement[] = [];
+  let line = 0;
+  for (const kind of ['bank', 'creditcard'] as const) {
+    for (const response of findAll(ofx, kind === 'bank' ? 'STMTTRNRS' : 'CCSTMTTRNRS')) {
+      const statement = findAll(response, kind === 'bank' ? 'STMTRS' : 'CCSTMTRS')[0];
+      if (!statement) {
+        const code = value(findAll(response, 'STATUS')[0], 'CODE');
+        const message = value(findAll(response, 'STATUS')[0], 'MESSAGE');
+        errors.push({ field: 'ofx', message: `the bank returned no statement${code ? ` (status ${code}${message ? `: ${message}` : ''})` : ''}` });
+        continue;
+      }
+
+      const from = findAll(statement, kind === 'bank' ? 'BANKACCTFROM' : 'CCACCTFROM')[0];
+      const acctId = value(from, 'ACCTID');
+      if (!acctId) {
+        errors.push({ field: 'ofx', message: `a ${kind === 'bank' ? 'bank' : 'credit card'} statement has no ACCTID` });
+        continue;
+      }
+      const bankId = value(from, 'BANKID');
+      const acctType = value(from, 'ACCTTYPE');
+      const list = findAll(statement, 'BANKTRANLIST')[0];
+      const currency = value(statement, 'CURDEF');
+      const start = parseOfxDate(value(list, 'DTSTART'));
+      const end = parseOfxDate(value(list, 'DTEND'));
+      const ledgerBalance = balance(findAll(statement, 'LEDGERBAL')[0]);
+      const availableBalance = balance(findAll(statement, 'AVAILBAL')[0]);
+
+      statements.push({
+        account: { kind, acctId, ...(bankId ? { bankId } : {}), ...(acctType ? { acctType: acctType.toUpperCase() } : {}) },
+        ...(currency ? { currency: currency.toUpperCase() } : {}),
+        ...(start ? { start } : {}),
+        ...(end ? { end } : {}),
+        ...(ledgerBalance ? { ledgerBalance } : {}),
+        ...(availableBalance ? { availableBalance } : {}),
+        rows: (list ? findAll(list, 'STMTTRN') : []).map(record => statementRow(record, ++line, acctId))
+      });
+    }
+  }
+
+  if (statements.length === 0 && errors.length === 0) {
+    errors.push({ field: 'ofx', message: 'has no bank or credit card statement' });
+  }
+  if (line > MAX_IMPORT_ROWS) {
+    return { statements: [], errors: [{ field: 'ofx', message: `has more than ${MAX_IMPORT_ROWS} transactions; download a shorter period` }] };
+  }
+  const institution = value(findAll(ofx, 'FI')[0], 'ORG');
+  return { ...(institution ? { institution } : {}), statements, errors: statements.length > 0 ? [] : errors };
+}
+
+const ACCOUNT_TYPES_BY_OFX: Record<string, AccountType> = {
+  CHECKING: 'checking',
+  SAVINGS: 'savings',
+  MONEYMRKT: 'savings',
+  CD: 'savings',
+  CREDITLINE: 'loan'
+};
+
+/**
+ * How a statement's account is known (the bank's routing number, if any, and account
+ * number) and what to call a new account for it, e.g. "Acme Bank Checking 6789"
+ */
+export function ofxAccountDetails(account: OfxAccount, institution?: string): { externalRef: string; name: string; type: AccountType } {
+  const type = account.kind === 'creditcard' ? 'credit_card' : ACCOUNT_TYPES_BY_OFX[account.acctType ?? ''] ?? 'checking';
+  const label = { checking: 'Checking', savings: 'Savings', credit_card: 'Credit Card', cash: 'Cash', loan: 'Credit Line' }[type];
+  const name = [institution, label, account.acctId.slice(-4)].filter(Boolean).join(' ');
+  return {
+    externalRef: `ofx:${account.bankId ?? account.kind}:${account.acctId}`,
+    name: name.length > MAX_ACCOUNT_NAME_LENGTH ? `${label} ${account.acctId.slice(-4)}` : name,
+    type
+  };
+}
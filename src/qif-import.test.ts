@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { parseQif } from './qif-import';
+
+const EXPORT = `!Type:Cat
+NFood
+E
+^
+NFood:Groceries
+E
+^
+NSalary
+I
+^
+!Account
+NEveryday
+TBank
+^
+!Type:Bank
+D1/ 1'26
+T1,000.00
+POpening Balance
+L[Everyday]
+^
+D1/15'26
+T-84.20
+PCorner Market
+MWeekly shop
+LFood:Groceries/Home
+^
+D1/20'26
+T2,500.00
+PAcme Payroll
+LSalary
+^
+D1/22'26
+T-120.00
+PCity Mall
+SFood:Groceries
+$-100.00
+SHousehold
+EBin bags
+$-20.00
+^
+D1/25'26
+T-300.00
+PCard payment
+L[Visa]
+^
+!Account
+NVisa
+TCCard
+^
+!Type:CCard
+D1/25'26
+T300.00
+PCard payment
+L[Everyday]
+^
+D1/28'26
+T-15.99
+PStreaming Co
+^
+`;
+
+describe('qif-import', () => {
+  it('should read accounts, categories, splits and opening balances', () => {
+    const result = parseQif(EXPORT);
+    expect(result.errors).toEqual([]);
+    expect(result.accounts).toEqual([
+      { key: 'Everyday', name: 'Everyday', type: 'checking', openingBalance: 1000, openingDate: '2026-01-01' },
+      { key: 'Visa', name: 'Visa', type: 'credit_card' }
+    ]);
+    expect(result.categories.map(c => [c.key, c.name, c.kind, c.parent])).toEqual([
+      ['Food', 'Food', 'expense', undefined],
+      ['Salary', 'Salary', 'income', undefined],
+      ['Household', 'Household', 'expense', undefined],
+      ['Food:Groceries', 'Groceries', 'expense', 'Food']
+    ]);
+
+    const [shop, salary, mall, payment, streaming] = result.rows;
+    expect(shop).toMatchObject({
+      date: '2026-01-15', amount: 84.2, type: 'expense', description: 'Corner Market - Weekly shop',
+      merchant: 'Corner Market', category: 'Food:Groceries', account: 'Everyday', errors: []
+    });
+    expect(salary).toMatchObject({ amount: 2500, type: 'income', category: 'Salary' });
+    expect(mall).toMatchObject({
+      amount: 120,
+      category: 'Food:Groceries',
+      splits: [{ amount: 100, category: 'Food:Groceries' }, { amount: 20, category: 'Household', note: 'Bin bags' }]
+    });
+    expect(payment).toMatchObject({ type: 'transfer', amount: 300, account: 'Everyday', toAccount: 'Visa' });
+    expect(payment.merchant).toBeUndefined();
+    expect(streaming).toMatchObject({ account: 'Visa', amount: 15.99, type: 'expense' });
+    expect(result.rows).toHaveLength(5);   // the card's side of the payment is the same transfer
+  });
+
+  it('should read a register exported without an account list', () => {
+    const result = parseQif(`!Type:Bank
+D15/03/2026
+T-12,50
+PBakery
+^
+D20/03/2026
+T-7,00
+MBus
+^
+`);
+    expect(result.accounts).toEqual([]);
+    expect(result.rows.map(r => [r.date, r.amount, r.description, r.account])).toEqual([
+      ['2026-03-15', 12.5, 'Bakery', undefined],
+      ['2026-03-20', 7, 'Bus', undefined]
+    ]);
+  });
+
+  it('should honour the date order given and report unreadable records', () => {
+    const result = parseQif(`!Type:Cash
+D03/04/2026
+T-5.00
+PCoffee
+^
+Dsoon
+T-5.00
+^
+`, { dateOrder: 'DMY' });
+    expect(result.rows[0].date).toBe('2026-04-03');
+    expect(result.rows[1].errors.map(e => e.field)).toEqual(['date', 'description']);
+    expect(parseQif('Date,Amount\n2026-01-01,5').errors[0].field).toBe('qif');
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * QIF Import
+ * Reads Quicken Interchange Format files: a register for one account, or a full export
+ * with !Account sections and a !Type:Cat category list. L fields name a category
+ * ("Food:Groceries", optionally "/Class") or, in brackets, the other account of a
+ * transfer; a transfer that appears in both accounts' registers is read once. A
+ * transaction whose payee is "Opening Balance" and whose L names its own account sets
+ * that account's opening balance, as Quicken writes it.
+ */
+
+import { AccountType, MAX_ACCOUNT_NAME_LENGTH } from './account';
+import { CategoryKind, MAX_CATEGORY_NAME_LENGTH } from './category';
+import { FieldError, MAX_DESCRIPTION_LENGTH } from './transaction';
+import { DeclaredAccount, DeclaredCategory, LedgerParseResult, MAX_IMPORT_ROWS, ParsedRow } from './import';
+import { DateOrder, detectDateOrder, detectDecimal, parseAmount, parseDate } from './csv-import';
+
+const ACCOUNT_TYPES_BY_QIF: Record<string, AccountType> = {
+  bank: 'checking',
+  cash: 'cash',
+  ccard: 'credit_card',
+  'oth a': 'savings',
+  'oth l': 'loan'
+};
+
+interface QifRecord {
+  line: number;
+  fields: [string, string][];   // code letter and value, in order
+}
+
+/**
+ * Split a section of the file into records, each ended by "^"
+ */
+function records(lines: readonly { line: number; text: string }[]): QifRecord[] {
+  const result: QifRecord[] = [];
+  let current: QifRecord | null = null;
+  for (const { line, text } of lines) {
+    if (text === '^') {
+      if (current) result.push(current);
+      current = null;
+      continue;
+    }
+    current ??= { line, fields: [] };
+    current.fields.push([text[0], text.slice(1).trim()]);
+  }
+  if (current) result.push(current);
+  return result;
+}
+
+function field(record: QifRecord, code: string): string | undefined {
+  return record.fields.find(([c]) => c === code)?.[1];
+}
+
+/**
+ * An L or S field: a category path or a [transfer account], without its /class
+ */
+function target(value: string | undefined): { category?: string; account?: string } {
+  const text = value?.split('/')[0].trim();
+  if (!text) return {};
+  const transfer = text.match(/^\[(.*)\]$/);
+  return transfer ? { account: transfer[1].trim() } : { category: text };
+}
+
+function declaredCategory(key: string, kind: CategoryKind): DeclaredCategory {
+  const [top, ...rest] = key.split(':').map(part => part.trim());
+  return {
+    key,
+    name: (rest.length > 0 ? rest.join(' ') : top).slice(0, MAX_CATEGORY_NAME_LENGTH),
+    kind,
+    ...(rest.length > 0 ? { parent: top } : {})
+  };
+}
+
+/**
+ * Read a QIF file; `dateOrder` overrides the order guessed from the dates (QIF from
+ * US Quicken is month-first)
+ */
+export function parseQif(text: string, options: { dateOrder?: DateOrder } = {}): LedgerParseResult {
+  const sections: { header: string; lines: { line: number; text: string }[] }[] = [];
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+    if (line.startsWith('!')) sections.push({ header: line.slice(1).toLowerCase(), lines: [] });
+    else if (sections.length > 0) sections[sections.length - 1].lines.push({ line: index + 1, text: line });
+  });
+  if (sections.length === 0) {
+    return { accounts: [], categories: [], rows: [], currencies: [], errors: [{ field: 'qif', message: 'is not a QIF file: it has no !Type or !Account header' }] };
+  }
+
+  const registers = sections.flatMap(s => (s.header.startsWith('type:') ? records(s.lines).map(r => ({ record: r, header: s.header })) : []));
+  const dates = registers.map(({ record }) => (field(record, 'D') ?? '').replace(/'/g, '/')).filter(Boolean);
+  const decimal = detectDecimal(registers.map(({ record }) => field(record, 'T') ?? field(record, 'U') ?? ''), '.');
+  const dateOrder = options.dateOrder ?? detectDateOrder(dates, decimal);
+
+  const accounts = new Map<string, DeclaredAccount>();
+  const categories = new Map<string, DeclaredCategory>();
+  const rows: ParsedRow[] = [];
+  const transfers = new Set<string>();
+  const untyped = new Set<string>();   // accounts whose type comes from their register's header
+  let account: string | undefined;
+
+  for (const section of sections) {
+    if (section.header === 'account') {
+      // An account list, or (with AutoSwitch off) the account the following register belongs to
+      for (const record of records(section.lines)) {
+        const name = field(record, 'N');
+        if (!name) continue;
+        const type = ACCOUNT_TYPES_BY_QIF[(field(record, 'T') ?? '').toLowerCase()];
+        accounts.set(name, { key: name, name: name.slice(0, MAX_ACCOUNT_NAME_LENGTH), type: type ?? 'checking' });
+        if (!type) untyped.add(name);
+        account = name;
+      }
+      continue;
+    }
+    if (section.header === 'type:cat') {
+      for (const record of records(section.lines)) {
+        const name = field(record, 'N');
+        if (name) categories.set(name, declaredCategory(name, record.fields.some(([c]) => c === 'I') ? 'income' : 'expense'));
+      }
+      continue;
+    }
+    const register = section.header.match(/^type:(bank|cash|ccard|oth a|oth l)$/);
+    if (!register) continue;
+    const registerType = ACCOUNT_TYPES_BY_QIF[register[1]];
+    if (account && untyped.delete(account)) accounts.get(account)!.type = registerType;
+
+    for (const record of records(section.lines)) {
+      const row: ParsedRow = { line: record.line, errors: [], ...(account ? { account } : {}) };
+
+      const rawDate = field(record, 'D');
+      const date = rawDate ? parseDate(rawDate.replace(/'\s*/g, '/'), dateOrder) : null;
+      if (date) row.date = date;
+      else row.errors.push({ field: 'date', message: rawDate ? `"${rawDate}" is not a ${dateOrder} date` : 'is empty' });
+
+      const rawAmount = field(record, 'T') ?? field(record, 'U');
+      const signed = rawAmount ? parseAmount(rawAmount, decimal) : null;
+      if (signed === null) row.errors.push({ field: 'amount', message: rawAmount ? `"${rawAmount}" is not an amount` : 'is empty' });
+      else if (Math.round(signed * 100) === 0) row.errors.push({ field: 'amount', message: 'is zero' });
+      else row.amount = Math.round(Math.abs(signed) * 100) / 100;
+
+      const payee = field(record, 'P');
+      const memo = field(record, 'M');
+      const check = field(record, 'N');
+      const description = [payee, memo && memo !== payee ? memo : undefined].filter(Boolean).join(' - ')
+        || (check && /^\d+$/.test(check) ? `Check ${check}` : '');
+      if (description) row.description = description.replace(/\s+/g, ' ').slice(0, MAX_DESCRIPTION_LENGTH);
+      else row.errors.push({ field: 'description', message: 'has no payee or memo' });
+      if (payee) row.merchant = payee.slice(0, MAX_DESCRIPTION_LENGTH);
+
+      const { category, account: other } = target(field(record, 'L'));
+      const direction: CategoryKind = (signed ?? 0) < 0 ? 'expense' : 'income';
+
+      // A register exported on its own names its account only here
+      if (other !== undefined && (account === undefined || other === account) && /^opening balance$/i.test(payee ?? '')) {
+        account = other;
+        const declared = accounts.get(other) ?? { key: other, name: other.slice(0, MAX_ACCOUNT_NAME_LENGTH), type: registerType };
+        accounts.set(other, { ...declared, ...(signed !== null && date ? { openingBalance: signed, openingDate: date } : {}) });
+        continue;
+      }
+
+      if (other !== undefined) {
+        if (!accounts.has(other)) accounts.set(other, { key: other, name: other.slice(0, MAX_ACCOUNT_NAME_LENGTH), type: 'checking' });
+        const [from, to] = direction === 'expense' ? [account, other] : [other, account];
+        row.type = 'transfer';
+        row.account = from;
+        row.toAccount = to;
+        delete row.merchant;
+        if (from === undefined || to === undefined) row.errors.push({ field: 'account', message: 'a transfer needs the register\'s account; export the file with its !Account header' });
+        // Each side of a transfer is in its own account's register; keep the first seen
+        const pair = `${row.date}|${row.amount}|${from}|${to}`;
+        if (transfers.has(pair)) continue;
+        transfers.add(pair);
+        rows.push(row);
+        continue;
+      }
+
+      row.type = direction;
+      const splits = record.fields.flatMap(([code, value], i) => {
+        if (code !== 'S') return [];
+        const amountField = record.fields.slice(i + 1).find(([c]) => c === '$' || c === 'S');
+        const note = record.fields.slice(i + 1).find(([c]) => c === 'E' || c === 'S');
+        return [{ target: target(value), amount: amountField?.[0] === '$' ? parseAmount(amountField[1], decimal) : null, note: note?.[0] === 'E' ? note[1] : undefined }];
+      });
+      if (splits.length > 1) {
+        if (splits.some(s => s.target.account !== undefined)) {
+          row.errors.push({ field: 'splits', message: 'a split into another account is not supported; import the transfer on its own' });
+        } else if (splits.some(s => s.amount === null || Math.sign(s.amount) !== Math.sign(signed ?? 0))) {
+          row.errors.push({ field: 'splits', message: 'every split line needs an amount going the same way as the total' });
+        } else {
+          row.splits = splits.map(s => ({
+            amount: Math.round(Math.abs(s.amount!) * 100) / 100,
+            category: s.target.category ?? 'Other',
+            ...(s.note ? { note: s.note } : {})
+          }));
+          row.category = [...row.splits].sort((a, b) => b.amount - a.amount)[0].category;
+        }
+      } else if (category) {
+        row.category = category;
+      }
+      for (const key of [row.category, ...(row.splits ?? []).map(s => s.category)]) {
+        if (key && !categories.has(key)) categories.set(key, declaredCategory(key, direction));
+      }
+      rows.push(row);
+    }
+  }
+
+  for (const category of [...categories.values()]) {
+    if (category.parent && !categories.has(category.parent)) categories.set(category.parent, declaredCategory(category.parent, category.kind));
+  }
+
+  const errors: FieldError[] = [];
+  if (rows.length > MAX_IMPORT_ROWS) errors.push({ field: 'qif', message: `has more than ${MAX_IMPORT_ROWS} transactions` });
+  else if (rows.length === 0 && accounts.size === 0) errors.push({ field: 'qif', message: 'has no transactions or accounts' });
+  return {
+    accounts: [...accounts.values()],
+    categories: [...categories.values()].sort((a, b) => Number(Boolean(a.parent)) - Number(Boolean(b.parent))),
+    rows: errors.length > 0 ? [] : rows,
+    currencies: [],
+    errors
+  };
+}
@@ -4,34 +4,81 @@
  */
 
 import { retrieveRelevantKnowledge, KnowledgeEntry } from './knowledge-base';
+import { Transaction } from './transaction';
+
+/**
+ * A transaction returned from semantic search, with its similarity score
+ */
+export type ScoredTransaction = Transaction & { relevanceScore?: number };
 
 export interface RAGContext {
   knowledgeEntries: KnowledgeEntry[];
-  similarTransactions?: any[];
+  similarTransactions?: ScoredTransaction[];
   spendingPatterns?: any;
 }
 
 /**
  * Embed and store a transaction for semantic search
+ * Upserts, so re-indexing an edited transaction replaces its old vector
  * Works with both ChromaDB and Vectorize
  */
 export async function indexTransaction(
-  transaction: any,
+  transaction: Transaction,
   ai: any,
   vectorDB: any
 ): Promise<void> {
-  const embedding = await ai.run('@cf/baai/bge-base-en-v1.5', {
-    text: `${transaction.description} ${transaction.category} ${transaction.type}`
-  });
+  await indexTransactions([transaction], ai, vectorDB);
+}
 
-  await vectorDB.insert([{
-    id: `transaction_${transaction.id}`,
-    values: embedding.data[0],
-    metadata: {
-      ...transaction,
-      indexType: 'transaction'
-    }
-  }]);
+// Texts embedded, or vectors removed, per call
+const VECTOR_BATCH_SIZE = 100;
+
+/**
+ * Embed and store many transactions, one model call and one upsert per batch,
+ * so a large import does not make a call per row
+ */
+export async function indexTransactions(
+  transactions: readonly Transaction[],
+  ai: any,
+  vectorDB: any
+): Promise<void> {
+  for (let start = 0; start < transactions.length; start += VECTOR_BATCH_SIZE) {
+    const batch = transactions.slice(start, start + VECTOR_BATCH_SIZE);
+    const embedding = await ai.run('@cf/baai/bge-base-en-v1.5', {
+      text: batch.map(transaction => `${transaction.description} ${transaction.category} ${transaction.type}`)
+    });
+
+    await vectorDB.upsert(batch.map((transaction, i) => ({
+      id: `transaction_${transaction.id}`,
+      values: embedding.data[i],
+      metadata: {
+        ...transaction,
+        indexType: 'transaction'
+      }
+    })));
+  }
+}
+
+/**
+ * Remove a transaction's vector so deleted transactions stop appearing in search
+ */
+export async function unindexTransaction(
+  transactionId: string,
+  vectorDB: any
+): Promise<void> {
+  await unindexTransactions([transactionId], vectorDB);
+}
+
+/**
+ * Remove many transactions' vectors, a batch per call
+ */
+export async function unindexTransactions(
+  transactionIds: readonly string[],
+  vectorDB: any
+): Promise<void> {
+  for (let start = 0; start < transactionIds.length; start += VECTOR_BATCH_SIZE) {
+    await vectorDB.delete(transactionIds.slice(start, start + VECTOR_BATCH_SIZE).map(id => `transaction_${id}`));
+  }
 }
 
 /**
@@ -43,7 +90,7 @@ export async function searchTransactions(
   ai: any,
   vectorDB: any,
   topK: number = 5
-): Promise<any[]> {
+): Promise<ScoredTransaction[]> {
   const queryEmbedding = await ai.run('@cf/baai/bge-base-en-v1.5', {
     text: query
   });
@@ -60,6 +107,16 @@ export async function searchTransactions(
   }));
 }
 
+/**
+ * One "category: $amount" line per category, in a stable order so patterns embed comparably
+ */
+function describeCategoryTotals(categoryTotals: { [key: string]: number }): string {
+  return Object.keys(categoryTotals)
+    .sort()
+    .map(category => `${category}: $${categoryTotals[category] || 0}`)
+    .join('\n    ');
+}
+
 /**
  * Generate monthly spending pattern embedding
  * Works with both ChromaDB and Vectorize
@@ -74,12 +131,7 @@ export async function indexMonthlyPattern(
   // Create a text representation of spending pattern
   const patternText = `
     Month: ${month} ${year}
-    Food spending: $${categoryTotals.food || 0}
-    Transportation: $${categoryTotals.transportation || 0}
-    Entertainment: $${categoryTotals.entertainment || 0}
-    Shopping: $${categoryTotals.shopping || 0}
-    Housing: $${categoryTotals.housing || 0}
-    Healthcare: $${categoryTotals.healthcare || 0}
+    ${describeCategoryTotals(categoryTotals)}
     Total: $${Object.values(categoryTotals).reduce((a, b) => a + b, 0)}
   `.trim();
 
@@ -110,14 +162,7 @@ export async function findSimilarSpendingMonths(
   vectorDB: any,
   topK: number = 2
 ): Promise<any[]> {
-  const currentPattern = `
-    Food spending: $${currentCategoryTotals.food || 0}
-    Transportation: $${currentCategoryTotals.transportation || 0}
-    Entertainment: $${currentCategoryTotals.entertainment || 0}
-    Shopping: $${currentCategoryTotals.shopping || 0}
-    Housing: $${currentCategoryTotals.housing || 0}
-    Healthcare: $${currentCategoryTotals.healthcare || 0}
-  `.trim();
+  const currentPattern = describeCategoryTotals(currentCategoryTotals);
 
   const embedding = await ai.run('@cf/baai/bge-base-en-v1.5', {
     text: currentPattern
@@ -138,7 +183,7 @@ export async function findSimilarSpendingMonths(
  */
 export async function retrieveContext(
   userQuery: string,
-  transactions: any[],
+  transactions: Transaction[],
   ai: any,
   vectorDB: any
 ): Promise<RAGContext> {
@@ -151,7 +196,7 @@ export async function retrieveContext(
   );
 
   // 2. Optionally search for similar transactions
-  let similarTransactions: any[] = [];
+  let similarTransactions: ScoredTransaction[] = [];
 
   // Check if query is about transactions/spending
   const isTransactionQuery = /spent|spending|bought|purchased|transactions|expenses/i.test(userQuery);
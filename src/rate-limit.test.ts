@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_LIMITS, endpointClass, mergeLimits, periodStart, validateLimitsPatch } from './rate-limit';
+
+describe('Rate limits', () => {
+  it('should put model-calling endpoints in the AI class with their cost', () => {
+    expect(endpointClass('POST', '/api/advice')).toEqual({ endpointClass: 'ai', cost: 3 });
+    expect(endpointClass('POST', '/api/suggest-category')).toEqual({ endpointClass: 'ai', cost: 1 });
+    expect(endpointClass('GET', '/api/ai-insights')).toEqual({ endpointClass: 'ai', cost: 1 });
+    expect(endpointClass('GET', '/api/transactions')).toEqual({ endpointClass: 'read', cost: 1 });
+    expect(endpointClass('POST', '/api/add-transaction')).toEqual({ endpointClass: 'write', cost: 1 });
+  });
+
+  it('should start days at midnight UTC', () => {
+    const at = Date.UTC(2025, 2, 14, 17, 45, 30);
+    expect(periodStart('day', at)).toBe(Date.UTC(2025, 2, 14));
+    expect(periodStart('minute', at)).toBe(Date.UTC(2025, 2, 14, 17, 45));
+  });
+
+  it('should merge validated changes over the current limits', () => {
+    const validation = validateLimitsPatch({ ai: { token: { perDay: null } }, read: { user: { perMinute: 50 } } });
+    expect(validation.valid).toBe(true);
+    if (!validation.valid) return;
+
+    const merged = mergeLimits(DEFAULT_LIMITS, validation.value);
+    expect(merged.ai.token).toEqual({ perMinute: DEFAULT_LIMITS.ai.token.perMinute, perDay: null });
+    expect(merged.read.user.perMinute).toBe(50);
+    expect(DEFAULT_LIMITS.read.user.perMinute).toBe(300);
+  });
+
+  it('should reject unknown classes and invalid limits', () => {
+    const validation = validateLimitsPatch({ chat: {}, ai: { admin: {}, user: { perDay: 1.5, burst: 3 } } });
+    expect(validation.valid).toBe(false);
+    if (validation.valid) return;
+    expect(validation.errors.map(e => e.field)).toEqual(['chat', 'ai.admin', 'ai.user.perDay', 'ai.user.burst']);
+  });
+});
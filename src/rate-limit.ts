@@ -0,0 +1,227 @@
+/**
+ * Rate Limits and AI Quotas
+ * Every authenticated request counts against per-minute limits for its endpoint class,
+ * kept for the user and, separately, for the API token it used. AI endpoints also
+ * spend a daily quota, counted in model calls. Counters and the limits themselves live
+ * in the AuthDirectory; admins (ADMIN_EMAILS) can change the limits at runtime.
+ * Password checks, which come before any identity, are limited per client IP address
+ * and per account instead.
+ */
+
+import type { FieldError, ValidationResult } from './transaction';
+import { AUTH_DIRECTORY_NAME, Identity } from './identity';
+
+export const ENDPOINT_CLASSES = ['read', 'write', 'ai'] as const;
+export type EndpointClass = typeof ENDPOINT_CLASSES[number];
+
+export const LIMIT_PERIODS = ['minute', 'day'] as const;
+export type LimitPeriod = typeof LIMIT_PERIODS[number];
+
+export const PERIOD_MS: Record<LimitPeriod, number> = {
+  minute: 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+
+// Who a counter belongs to: the user across all their credentials, or one API token
+export const LIMIT_SUBJECTS = ['user', 'token'] as const;
+export type LimitSubject = typeof LIMIT_SUBJECTS[number];
+
+/**
+ * Requests allowed per minute and units allowed per (UTC) day; null means unlimited
+ */
+export interface LimitRule {
+  perMinute: number | null;
+  perDay: number | null;
+}
+
+export type RateLimits = Record<EndpointClass, Record<LimitSubject, LimitRule>>;
+
+export const DEFAULT_LIMITS: RateLimits = {
+  read: {
+    user: { perMinute: 300, perDay: null },
+    token: { perMinute: 120, perDay: null }
+  },
+  write: {
+    user: { perMinute: 60, perDay: null },
+    token: { perMinute: 30, perDay: null }
+  },
+  ai: {
+    user: { perMinute: 10, perDay: 300 },
+    token: { perMinute: 5, perDay: 100 }
+  }
+};
+
+const MAX_LIMIT = 1_000_000;
+
+// Model calls each AI endpoint makes, whatever its method, spent from the daily quota. The
+// embedding that indexes each transaction added (by hand, by the assistant or by an import)
+// is not counted: it runs on the small embedding model, adding by hand is held to the
+// write limit and an import to its row limit, embedding its rows in batches.
+const AI_ENDPOINT_COSTS: Record<string, number> = {
+  '/api/advice': 3,               // intent parsing, context embedding and the answer
+  '/api/ai-insights': 1,
+  '/api/suggest-category': 1,
+  '/api/scan-receipt': 1,
+  '/api/goal-advice': 1,
+  '/api/init-knowledge-base': 1
+};
+
+/**
+ * The class a request counts against and how many units of the daily quota it spends
+ */
+export function endpointClass(method: string, pathname: string): { endpointClass: EndpointClass; cost: number } {
+  if (Object.prototype.hasOwnProperty.call(AI_ENDPOINT_COSTS, pathname)) {
+    return { endpointClass: 'ai', cost: AI_ENDPOINT_COSTS[pathname] };
+  }
+  return { endpointClass: method === 'GET' || method === 'HEAD' ? 'read' : 'write', cost: 1 };
+}
+
+/**
+ * Start of the fixed window `at` falls in; days start at midnight UTC
+ */
+export function periodStart(period: LimitPeriod, at: number): number {
+  return at - (at % PERIOD_MS[period]);
+}
+
+/**
+ * A request over a limit: which one, and when its window resets
+ */
+export interface LimitExceeded {
+  endpointClass: EndpointClass;
+  subject: LimitSubject;
+  period: LimitPeriod;
+  limit: number;
+  used: number;
+  resetAt: number;
+}
+
+export type LimitDecision = { allowed: true } | ({ allowed: false } & LimitExceeded);
+
+// An admin's change to some of the limits
+export type LimitsPatch = Partial<Record<EndpointClass, Partial<Record<LimitSubject, Partial<LimitRule>>>>>;
+
+/**
+ * Apply an admin's changes on top of the limits (or earlier changes) they replace
+ */
+export function mergeLimits<T extends LimitsPatch>(current: T, changes: LimitsPatch): T {
+  const merged: LimitsPatch = structuredClone(current);
+  for (const cls of ENDPOINT_CLASSES) {
+    for (const subject of LIMIT_SUBJECTS) {
+      const rule = changes[cls]?.[subject];
+      if (rule) Object.assign((merged[cls] ??= {})[subject] ??= {}, rule);
+    }
+  }
+  return merged as T;
+}
+
+/**
+ * Validate an admin's change to the limits, e.g. { ai: { user: { perDay: 500 } } }
+ */
+export function validateLimitsPatch(input: unknown): ValidationResult<LimitsPatch> {
+  const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+  if (!isObject(input)) return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+
+  const errors: FieldError[] = [];
+  const patch: LimitsPatch = {};
+  for (const [cls, subjects] of Object.entries(input)) {
+    if (!(ENDPOINT_CLASSES as readonly string[]).includes(cls)) {
+      errors.push({ field: cls, message: `is not an endpoint class; use one of: ${ENDPOINT_CLASSES.join(', ')}` });
+      continue;
+    }
+    if (!isObject(subjects)) {
+      errors.push({ field: cls, message: 'must be an object with "user" and/or "token" limits' });
+      continue;
+    }
+    for (const [subject, rule] of Object.entries(subjects)) {
+      const field = `${cls}.${subject}`;
+      if (!(LIMIT_SUBJECTS as readonly string[]).includes(subject)) {
+        errors.push({ field, message: 'must be "user" or "token"' });
+        continue;
+      }
+      if (!isObject(rule)) {
+        errors.push({ field, message: 'must be an object with perMinute and/or perDay' });
+        continue;
+      }
+      for (const [key, value] of Object.entries(rule)) {
+        if (key !== 'perMinute' && key !== 'perDay') {
+          errors.push({ field: `${field}.${key}`, message: 'must be perMinute or perDay' });
+        } else if (value !== null && (!Number.isInteger(value) || (value as number) < 0 || (value as number) > MAX_LIMIT)) {
+          errors.push({ field: `${field}.${key}`, message: `must be a whole number from 0 to ${MAX_LIMIT}, or null for no limit` });
+        } else {
+          ((patch[cls as EndpointClass] ??= {})[subject as LimitSubject] ??= {})[key] = value as number | null;
+        }
+      }
+    }
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: patch };
+}
+
+// ========== SIGN-IN ATTEMPTS ==========
+
+// Counter class of password checks: signing up, logging in and stepping up
+export const ATTEMPT_CLASS = 'sign-in';
+
+export const ATTEMPT_SUBJECTS = ['ip', 'account'] as const;
+export type AttemptSubject = typeof ATTEMPT_SUBJECTS[number];
+
+// An account's limit is lower: guessing one password is the attack; an IP may be shared
+export const ATTEMPT_LIMITS: Record<AttemptSubject, LimitRule> = {
+  ip: { perMinute: 20, perDay: 500 },
+  account: { perMinute: 5, perDay: 50 }
+};
+
+/**
+ * How an exceeded sign-in attempt limit is explained to the caller
+ */
+export function describeAttemptLimit(subject: AttemptSubject, resetAt: number): string {
+  return `Too many sign-in attempts ${subject === 'ip' ? 'from this address' : 'for this account'}; try again at ${new Date(resetAt).toISOString()}`;
+}
+
+// ========== LIMITER ==========
+
+export interface RateLimiter {
+  /** Count a request against the caller's limits, unless it would go over one of them */
+  consume(identity: Identity, endpointClass: EndpointClass, cost: number): Promise<LimitDecision>;
+}
+
+/**
+ * Keeps counters in the AuthDirectory Durable Object, next to the credentials they belong to
+ */
+export class DirectoryRateLimiter implements RateLimiter {
+  constructor(private directory: DurableObjectNamespace) {}
+
+  async consume(identity: Identity, endpointClass: EndpointClass, cost: number): Promise<LimitDecision> {
+    const stub = this.directory.get(this.directory.idFromName(AUTH_DIRECTORY_NAME));
+    const response = await stub.fetch('https://auth-directory/internal/consume', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        userId: identity.userId,
+        tokenId: identity.method === 'token' ? identity.credentialId ?? null : null,
+        endpointClass,
+        cost
+      })
+    });
+    const { decision } = await response.json() as { decision: LimitDecision };
+    return decision;
+  }
+}
+
+/**
+ * The limiter for a deployment: the AuthDirectory's, or none when it is not bound
+ */
+export function createRateLimiter(env: { AuthDirectory?: DurableObjectNamespace }): RateLimiter | null {
+  return env.AuthDirectory ? new DirectoryRateLimiter(env.AuthDirectory) : null;
+}
+
+/**
+ * How an exceeded limit is explained to the caller
+ */
+export function describeLimit(exceeded: LimitExceeded): string {
+  const who = exceeded.subject === 'token' ? 'this API token' : 'your account';
+  if (exceeded.period === 'day') {
+    return `The daily ${exceeded.endpointClass === 'ai' ? 'AI quota' : `${exceeded.endpointClass} limit`} of ${exceeded.limit} for ${who} is used up; it resets at ${new Date(exceeded.resetAt).toISOString()}`;
+  }
+  return `Too many ${exceeded.endpointClass} requests for ${who} (${exceeded.limit} a minute); try again at ${new Date(exceeded.resetAt).toISOString()}`;
+}
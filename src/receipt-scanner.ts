@@ -1,6 +1,9 @@
 // Receipt Scanner using Cloudflare Workers AI Vision Models
 // Supports multi-model fallback and heuristic extraction
 
+import { isValidISODate } from './transaction';
+import { Category, DEFAULT_CATEGORIES, FALLBACK_CATEGORY_ID } from './category';
+
 interface Env {
   AI: any;
 }
@@ -18,13 +21,28 @@ interface ScanResult {
   error?: string;
 }
 
+interface ExtractedReceipt {
+  merchant: string;
+  amount: number;
+  date: string;
+  category: string;
+  note: string;
+  model?: string;
+  rawText: string;
+}
+
 export class ReceiptScanner {
   private ai: any;
   private storage: DurableObjectStorage;
+  private categories: readonly Pick<Category, 'id' | 'keywords'>[];
 
-  constructor(ai: any, storage: DurableObjectStorage) {
+  /**
+   * @param categories - the active expense categories receipts may be filed under
+   */
+  constructor(ai: any, storage: DurableObjectStorage, categories: readonly Pick<Category, 'id' | 'keywords'>[] = DEFAULT_CATEGORIES.filter(c => c.kind === 'expense')) {
     this.ai = ai;
     this.storage = storage;
+    this.categories = categories;
   }
 
   /**
@@ -88,6 +106,11 @@ export class ReceiptScanner {
    * Build the AI prompt for receipt extraction
    */
   private buildExtractionPrompt(): string {
+    const ids = this.categories.map(c => c.id);
+    const guidelines = this.categories
+      .map(c => `- ${c.id}: ${c.id === FALLBACK_CATEGORY_ID ? 'anything else' : c.keywords.join(', ') || c.id}`)
+      .join('\n');
+
     return `You are a receipt data extraction expert. Analyze this receipt image carefully and extract key information.
 
 Your task:
@@ -101,17 +124,11 @@ Respond with ONLY this JSON format (no markdown, no explanation):
   "merchant": "exact store name",
   "amount": 0.00,
   "date": "YYYY-MM-DD",
-  "category": "one of: food, transportation, housing, entertainment, shopping, healthcare, other"
+  "category": "one of: ${ids.join(', ')}"
 }
 
 Category guidelines:
-- food: restaurants, groceries, cafes, food delivery
-- transportation: gas stations, uber, parking, auto services
-- shopping: retail stores, clothing, electronics, general merchandise
-- entertainment: movies, games, subscriptions, events
-- healthcare: pharmacy, medical, gym, health services
-- housing: rent, utilities, home improvement
-- other: anything else
+${guidelines}
 
 If date is unclear, use: ${new Date().toISOString().slice(0,10)}
 If amount is unclear, estimate from visible numbers.
@@ -210,8 +227,8 @@ RESPOND WITH ONLY THE JSON OBJECT.`;
   /**
    * Parse AI response and extract structured data
    */
-  private parseAIResponse(result: any): any {
-    const extracted = {
+  private parseAIResponse(result: any): ExtractedReceipt {
+    const extracted: ExtractedReceipt = {
       merchant: '',
       amount: 0,
       date: new Date().toISOString().slice(0, 10),
@@ -261,8 +278,8 @@ RESPOND WITH ONLY THE JSON OBJECT.`;
       if (parsed) {
         extracted.merchant = (parsed.merchant || '').toString().trim();
         extracted.amount = parseFloat(parsed.amount) || 0;
-        extracted.date = parsed.date || extracted.date;
-        extracted.category = parsed.category || 'other';
+        extracted.date = this.normalizeDate(parsed.date, extracted.date);
+        extracted.category = this.normalizeCategory(parsed.category);
         
         console.log('✅ Extracted data:', { merchant: extracted.merchant, amount: extracted.amount, category: extracted.category });
       }
@@ -277,14 +294,14 @@ RESPOND WITH ONLY THE JSON OBJECT.`;
   /**
    * Check if extracted data is insufficient (needs fallback)
    */
-  private isInsufficient(extracted: any): boolean {
+  private isInsufficient(extracted: ExtractedReceipt): boolean {
     return !extracted.merchant || extracted.amount <= 0;
   }
 
   /**
    * Merge results from fallback model
    */
-  private mergeFallbackResults(primary: any, fallback: any): any {
+  private mergeFallbackResults(primary: ExtractedReceipt, fallback: any): ExtractedReceipt {
     try {
       let jsonStr = fallback.response.replace(/```json\s*/g, '').replace(/```\s*/g, '');
       const match = jsonStr.match(/\{[\s\S]*?\}/);
@@ -294,8 +311,8 @@ RESPOND WITH ONLY THE JSON OBJECT.`;
         return {
           merchant: primary.merchant || (parsed.merchant || '').toString().trim(),
           amount: primary.amount > 0 ? primary.amount : (parseFloat(parsed.amount) || 0),
-          date: parsed.date || primary.date,
-          category: parsed.category || primary.category,
+          date: this.normalizeDate(parsed.date, primary.date),
+          category: parsed.category ? this.normalizeCategory(parsed.category) : primary.category,
           note: fallback.note || 'parsed_successfully_fallback',
           model: fallback.model,
           rawText: fallback.response
@@ -312,7 +329,7 @@ RESPOND WITH ONLY THE JSON OBJECT.`;
   /**
    * Apply heuristic extraction (regex patterns) as last resort
    */
-  private applyHeuristicExtraction(extracted: any, rawText: string): any {
+  private applyHeuristicExtraction(extracted: ExtractedReceipt, rawText: string): ExtractedReceipt {
     try {
       const text = rawText.replace(/\s+/g, ' ').trim();
 
@@ -382,8 +399,8 @@ RESPOND WITH ONLY THE JSON OBJECT.`;
   /**
    * Build success response with all extracted data
    */
-  private buildSuccessResponse(extracted: any): ScanResult {
-    const success = extracted.amount > 0 && extracted.merchant && extracted.merchant.length > 1;
+  private buildSuccessResponse(extracted: ExtractedReceipt): ScanResult {
+    const success = extracted.amount > 0 && extracted.merchant.length > 1;
 
     return {
       success,
@@ -403,6 +420,21 @@ RESPOND WITH ONLY THE JSON OBJECT.`;
     };
   }
 
+  /**
+   * Map a model-supplied category onto an active one, defaulting to the fallback category
+   */
+  private normalizeCategory(category: unknown): string {
+    const value = (category || '').toString().trim().toLowerCase();
+    return this.categories.some(c => c.id === value) ? value : FALLBACK_CATEGORY_ID;
+  }
+
+  /**
+   * Keep a model-supplied date only if it is a real YYYY-MM-DD date
+   */
+  private normalizeDate(date: unknown, fallback: string): string {
+    return isValidISODate(date) ? date : fallback;
+  }
+
   /**
    * Build error response
    */
@@ -1,14 +1,7 @@
 // Sample data generation for the Finance AI application
 
-interface Transaction {
-  id: string;
-  amount: number;
-  description: string;
-  category: string;
-  type: 'income' | 'expense';
-  date: string;
-  timestamp: number;
-}
+import { Transaction, timestampForDate } from './transaction';
+import { DEFAULT_ACCOUNT_ID } from './account';
 
 export function generateSampleTransactions(): Transaction[] {
   const transactions: Transaction[] = [];
@@ -419,8 +412,8 @@ export function generateSampleTransactions(): Transaction[] {
       const month = String(monthData.month + 1).padStart(2, '0');
       const day = String(tx.day).padStart(2, '0');
       const dateStr = `${year}-${month}-${day}`;
-      // Parse the date string directly to avoid timezone shifts - adding 'T12:00:00' keeps it in the specified date
-      const timestamp = new Date(`${dateStr}T12:00:00`).getTime();
+      // Parse the date string directly to avoid timezone shifts - noon keeps it in the specified date
+      const timestamp = timestampForDate(dateStr);
       
       transactions.push({
         id: `${monthData.year}-${monthData.month}-${tx.day}-${tx.description.replace(/\s+/g, '-')}`,
@@ -429,7 +422,8 @@ export function generateSampleTransactions(): Transaction[] {
         category: tx.category,
         type: tx.type as 'income' | 'expense',
         date: dateStr,
-        timestamp: timestamp
+        timestamp: timestamp,
+        accountId: DEFAULT_ACCOUNT_ID
       });
     });
   });
@@ -1,5 +1,8 @@
-import { generateSampleTransactions } from './sample-data';
 import { APIHandlers } from './api-handlers';
+import { FinanceStore } from './finance-store';
+import { runMigrations } from './migrations';
+import { USER_ID_HEADER } from './identity';
+import { HOUSEHOLD_HEADER } from './household';
 
 interface Env {
   AI: any;
@@ -9,33 +12,41 @@ interface Env {
   CHROMA_TENANT?: string;
   CHROMA_DATABASE?: string;
   FinanceAgent: DurableObjectNamespace;
+  TRASH_RETENTION_DAYS?: string;
+  SAMPLE_DATA?: string;
 }
 
 export class FinanceAgent {
   state: DurableObjectState;
   env: Env;
+  store: FinanceStore;
   apiHandlers: APIHandlers;
 
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.env = env;
-    this.apiHandlers = new APIHandlers(state, env);
+    this.store = new FinanceStore(state.storage);
+    this.apiHandlers = new APIHandlers(state, env, this.store);
+
+    // Bring storage up to the current schema version before any request runs
+    state.blockConcurrencyWhile(() => this.migrate());
   }
 
-  private async ensureInitialized() {
-    const transactions = await this.state.storage.get('transactions') as any[];
-    // Reseed if empty or if no 2026 data exists yet
-    const has2026 = transactions && transactions.some((t: any) => t.date && t.date.startsWith('2026'));
-    if (!transactions || transactions.length === 0 || !has2026) {
-      const sampleTransactions = generateSampleTransactions();
-      await this.state.storage.put('transactions', sampleTransactions);
-    }
+  /**
+   * With `sampleData`, a brand-new ledger gets demo transactions; only a deployment with
+   * SAMPLE_DATA="true" asks for them, and never after a reset or a restore
+   */
+  private async migrate(sampleData = this.env.SAMPLE_DATA === 'true'): Promise<void> {
+    await runMigrations({ storage: this.state.storage, store: this.store, sampleData });
   }
 
   async fetch(request: Request): Promise<Response> {
-    // Ensure we have sample data on first request
-    await this.ensureInitialized();
-    
+    // Each instance serves one user or one household; the Worker names them on every request
+    const userId = request.headers.get(USER_ID_HEADER);
+    const householdId = request.headers.get(HOUSEHOLD_HEADER);
+    if (householdId) this.apiHandlers.ownerId = `household:${householdId}`;
+    else if (userId) this.apiHandlers.ownerId = userId;
+
     const url = new URL(request.url);
     
     // API endpoints - delegate to API handlers
@@ -47,17 +58,176 @@ export class FinanceAgent {
       return this.apiHandlers.addTransaction(request);
     }
     
+    if (url.pathname === '/api/transactions' && request.method === 'GET') {
+      return this.apiHandlers.listTransactions(request);
+    }
+    
+    const transactionMatch = url.pathname.match(/^\/api\/transactions\/([^/]+)$/);
+    if (transactionMatch && request.method === 'PATCH') {
+      return this.apiHandlers.updateTransaction(request, decodeURIComponent(transactionMatch[1]));
+    }
+    if (transactionMatch && request.method === 'DELETE') {
+      return this.apiHandlers.deleteTransaction(request, decodeURIComponent(transactionMatch[1]));
+    }
+
+    // Attachments (receipt images and PDFs)
+    const transactionAttachmentsMatch = url.pathname.match(/^\/api\/transactions\/([^/]+)\/attachments$/);
+    if (transactionAttachmentsMatch && request.method === 'GET') {
+      return this.apiHandlers.getTransactionAttachments(decodeURIComponent(transactionAttachmentsMatch[1]));
+    }
+    if (transactionAttachmentsMatch && request.method === 'POST') {
+      return this.apiHandlers.addAttachment(request, decodeURIComponent(transactionAttachmentsMatch[1]));
+    }
+    const attachmentMatch = url.pathname.match(/^\/api\/attachments\/([^/]+)$/);
+    if (attachmentMatch && request.method === 'GET') {
+      return this.apiHandlers.getAttachmentFile(request, decodeURIComponent(attachmentMatch[1]));
+    }
+    if (attachmentMatch && request.method === 'DELETE') {
+      return this.apiHandlers.deleteAttachment(request, decodeURIComponent(attachmentMatch[1]));
+    }
+
+    // Possible duplicate transactions
+    if (url.pathname === '/api/duplicates' && request.method === 'GET') {
+      return this.apiHandlers.getDuplicates(request);
+    }
+    if (url.pathname === '/api/duplicates/dismiss' && request.method === 'POST') {
+      return this.apiHandlers.dismissDuplicate(request);
+    }
+
+    // Trash (soft-deleted transactions)
+    if (url.pathname === '/api/trash' && request.method === 'GET') {
+      return this.apiHandlers.getTrash();
+    }
+    const restoreMatch = url.pathname.match(/^\/api\/trash\/([^/]+)\/restore$/);
+    if (restoreMatch && request.method === 'POST') {
+      return this.apiHandlers.restoreTransaction(request, decodeURIComponent(restoreMatch[1]));
+    }
+
+    // Statement imports: preview a bank file, then commit the rows to keep
+    if (url.pathname === '/api/import/csv' && request.method === 'POST') {
+      return this.apiHandlers.importCsv(request);
+    }
+    if (url.pathname === '/api/import/ofx' && request.method === 'POST') {
+      return this.apiHandlers.importOfx(request);
+    }
+    const bankStatementMatch = url.pathname.match(/^\/api\/import\/(camt053|mt940)$/);
+    if (bankStatementMatch && request.method === 'POST') {
+      return this.apiHandlers.importBankStatement(request, bankStatementMatch[1] as 'camt053' | 'mt940');
+    }
+    const ledgerImportMatch = url.pathname.match(/^\/api\/import\/(qif|beancount|hledger)$/);
+    if (ledgerImportMatch && request.method === 'POST') {
+      return this.apiHandlers.importLedger(request, ledgerImportMatch[1] as 'qif' | 'beancount' | 'hledger');
+    }
+    const ledgerExportMatch = url.pathname.match(/^\/api\/export\/(beancount|hledger)$/);
+    if (ledgerExportMatch && request.method === 'GET') {
+      return this.apiHandlers.exportLedger(request, ledgerExportMatch[1] as 'beancount' | 'hledger');
+    }
+    if (url.pathname === '/api/import/mappings') {
+      if (request.method === 'GET') return this.apiHandlers.getImportMappings();
+      if (request.method === 'POST') return this.apiHandlers.saveImportMapping(request);
+    }
+    const importMappingMatch = url.pathname.match(/^\/api\/import\/mappings\/([^/]+)$/);
+    if (importMappingMatch && request.method === 'DELETE') {
+      return this.apiHandlers.deleteImportMapping(decodeURIComponent(importMappingMatch[1]));
+    }
+    const importMatch = url.pathname.match(/^\/api\/import\/([^/]+)$/);
+    if (importMatch && request.method === 'GET') {
+      return this.apiHandlers.getImport(decodeURIComponent(importMatch[1]));
+    }
+    if (importMatch && request.method === 'DELETE') {
+      return this.apiHandlers.discardImport(decodeURIComponent(importMatch[1]));
+    }
+    const importCommitMatch = url.pathname.match(/^\/api\/import\/([^/]+)\/commit$/);
+    if (importCommitMatch && request.method === 'POST') {
+      return this.apiHandlers.commitImport(request, decodeURIComponent(importCommitMatch[1]));
+    }
+    
     if (url.pathname === '/api/get-summary') {
       return this.apiHandlers.getSummary(request);
     }
     
     // Reset data endpoint (for clearing old sample data)
     if (url.pathname === '/api/reset-data' && request.method === 'POST') {
-      const response = await this.apiHandlers.handleResetData();
-      await this.ensureInitialized();
+      const response = await this.apiHandlers.handleResetData(request);
+      // Storage is empty again, so every migration reruns, without sample data
+      if (response.ok) await this.state.blockConcurrencyWhile(() => this.migrate(false));
+      return response;
+    }
+
+    // Backup and restore of everything stored
+    if (url.pathname === '/api/backup' && request.method === 'GET') {
+      return this.apiHandlers.getBackup();
+    }
+    if (url.pathname === '/api/restore' && request.method === 'POST') {
+      const response = await this.apiHandlers.restoreBackup(request);
+      // Storage is at the backup's schema version, so migrations since bring it up to date
+      if (response.ok) await this.state.blockConcurrencyWhile(() => this.migrate(false));
       return response;
     }
     
+    // Accounts and balances
+    if (url.pathname === '/api/accounts') {
+      if (request.method === 'GET') return this.apiHandlers.getAccounts();
+      if (request.method === 'POST') return this.apiHandlers.saveAccount(request);
+    }
+    const reconciliationMatch = url.pathname.match(/^\/api\/accounts\/([^/]+)\/reconciliation$/);
+    if (reconciliationMatch && request.method === 'GET') {
+      return this.apiHandlers.getReconciliation(decodeURIComponent(reconciliationMatch[1]));
+    }
+    
+    // Categories
+    if (url.pathname === '/api/categories') {
+      if (request.method === 'GET') return this.apiHandlers.getCategories(request);
+      if (request.method === 'POST') return this.apiHandlers.createCategory(request);
+    }
+    const categoryMatch = url.pathname.match(/^\/api\/categories\/([^/]+)$/);
+    if (categoryMatch && request.method === 'PATCH') {
+      return this.apiHandlers.updateCategory(request, decodeURIComponent(categoryMatch[1]));
+    }
+    const mergeMatch = url.pathname.match(/^\/api\/categories\/([^/]+)\/merge$/);
+    if (mergeMatch && request.method === 'POST') {
+      return this.apiHandlers.mergeCategory(request, decodeURIComponent(mergeMatch[1]));
+    }
+
+    // Merchants
+    if (url.pathname === '/api/merchants') {
+      if (request.method === 'GET') return this.apiHandlers.getMerchants(request);
+      if (request.method === 'POST') return this.apiHandlers.createMerchant(request);
+    }
+    const merchantMatch = url.pathname.match(/^\/api\/merchants\/([^/]+)$/);
+    if (merchantMatch && request.method === 'PATCH') {
+      return this.apiHandlers.updateMerchant(request, decodeURIComponent(merchantMatch[1]));
+    }
+    const merchantMergeMatch = url.pathname.match(/^\/api\/merchants\/([^/]+)\/merge$/);
+    if (merchantMergeMatch && request.method === 'POST') {
+      return this.apiHandlers.mergeMerchant(request, decodeURIComponent(merchantMergeMatch[1]));
+    }
+
+    // Tags
+    if (url.pathname === '/api/tags') {
+      if (request.method === 'GET') return this.apiHandlers.getTags();
+      if (request.method === 'POST') return this.apiHandlers.createTag(request);
+    }
+    if (url.pathname === '/api/tags/report' && request.method === 'GET') {
+      return this.apiHandlers.getTagReport(request);
+    }
+    const tagMatch = url.pathname.match(/^\/api\/tags\/([^/]+)$/);
+    if (tagMatch && request.method === 'PATCH') {
+      return this.apiHandlers.updateTag(request, decodeURIComponent(tagMatch[1]));
+    }
+    if (tagMatch && request.method === 'DELETE') {
+      return this.apiHandlers.deleteTag(request, decodeURIComponent(tagMatch[1]));
+    }
+    
+    // Audit log
+    if (url.pathname === '/api/audit' && request.method === 'GET') {
+      return this.apiHandlers.getAudit(request);
+    }
+    const auditRevertMatch = url.pathname.match(/^\/api\/audit\/(\d+)\/revert$/);
+    if (auditRevertMatch && request.method === 'POST') {
+      return this.apiHandlers.revertAuditEntry(request, Number(auditRevertMatch[1]));
+    }
+    
     if (url.pathname === '/api/set-budget' && request.method === 'POST') {
       return this.apiHandlers.setBudget(request);
     }
@@ -92,7 +262,7 @@ export class FinanceAgent {
 
     // Goals endpoints
     if (url.pathname === '/api/goals') {
-      if (request.method === 'GET') return this.apiHandlers.getGoals();
+      if (request.method === 'GET') return this.apiHandlers.getGoals(request);
       if (request.method === 'POST') return this.apiHandlers.saveGoal(request);
     }
     if (url.pathname === '/api/goals/delete' && request.method === 'POST') {
@@ -124,6 +294,13 @@ export class FinanceAgent {
     return new Response('Not Found', { status: 404 });
   }
 
+  /**
+   * Alarm handler: purge trashed transactions past their retention period and unclaimed scanned receipts
+   */
+  async alarm(): Promise<void> {
+    await this.apiHandlers.purgeExpiredTrash();
+  }
+
 
 }
 
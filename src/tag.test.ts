@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeTag, findTagInMessage, MAX_TAG_LENGTH } from './tag';
+
+describe('Tag Model', () => {
+  describe('normalizeTag', () => {
+    it('should lowercase, hyphenate spaces and drop a leading #', () => {
+      expect(normalizeTag(' Lisbon Trip ')).toBe('lisbon-trip');
+      expect(normalizeTag('#Vacation-2026')).toBe('vacation-2026');
+      expect(normalizeTag('reimbursable')).toBe('reimbursable');
+    });
+
+    it('should reject empty, punctuated, overlong and non-string tags', () => {
+      for (const value of ['', '  ', 'a/b', '-leading', 'x'.repeat(MAX_TAG_LENGTH + 1), 42, null]) {
+        expect(normalizeTag(value)).toBeNull();
+      }
+    });
+  });
+
+  describe('findTagInMessage', () => {
+    const tags = ['lisbon', 'lisbon-trip', 'wedding', 'vacation-2026'];
+
+    it('should match whole words with hyphens read as spaces, preferring the longest tag', () => {
+      expect(findTagInMessage('How much did the Lisbon trip cost?', tags)).toBe('lisbon-trip');
+      expect(findTagInMessage('what did we spend in lisbon', tags)).toBe('lisbon');
+      expect(findTagInMessage('Total for vacation-2026?', tags)).toBe('vacation-2026');
+    });
+
+    it('should not match inside other words', () => {
+      expect(findTagInMessage('How much on weddings gifts?', tags)).toBeNull();
+    });
+  });
+});
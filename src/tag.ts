@@ -0,0 +1,44 @@
+/**
+ * Tag Domain Model
+ * Tags are free-form labels ("vacation-2026", "reimbursable") that cut across
+ * categories. A transaction can carry several; using a new tag registers it.
+ */
+
+export const MAX_TAG_LENGTH = 40;
+export const MAX_TAGS_PER_TRANSACTION = 10;
+
+export interface Tag {
+  name: string;
+  count: number;      // transactions currently carrying the tag (trash excluded)
+  createdAt: number;
+}
+
+// Spending and income under one tag; transfers are never counted
+export interface TagSummary {
+  tag: string;
+  count: number;
+  spent: number;
+  income: number;
+  firstDate: string;
+  lastDate: string;
+}
+
+/**
+ * Canonical form of a tag ("Lisbon Trip" → "lisbon-trip"), or null when it is not usable:
+ * letters, digits, "-" and "_" only, starting with a letter or digit
+ */
+export function normalizeTag(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const tag = value.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-');
+  return tag.length <= MAX_TAG_LENGTH && /^[\p{L}\p{N}][\p{L}\p{N}_-]*$/u.test(tag) ? tag : null;
+}
+
+/**
+ * The known tag a free-text question refers to, matched as whole words with "-" and "_"
+ * read as spaces ("how much did the Lisbon trip cost?" → "lisbon-trip"). Longest tag wins.
+ */
+export function findTagInMessage(message: string, tags: readonly string[]): string | null {
+  const words = ` ${message.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ')} `;
+  const matches = tags.filter(tag => words.includes(` ${tag.replace(/[-_]+/g, ' ')} `));
+  return matches.sort((a, b) => b.length - a.length)[0] ?? null;
+}
@@ -0,0 +1,167 @@
+/**
+ * Test support: an in-memory DurableObjectState backed by sql.js
+ * so storage code can be exercised under vitest without workerd.
+ */
+
+import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js';
+
+let sqlJs: SqlJsStatic | null = null;
+
+function toSqlValue(value: any): any {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  return value;
+}
+
+function createCursor(rows: Record<string, any>[], columnNames: string[], rowsWritten: number) {
+  let index = 0;
+  return {
+    columnNames,
+    rowsRead: rows.length,
+    rowsWritten,
+    toArray: () => rows.slice(index),
+    one: () => {
+      if (rows.length !== 1) throw new Error(`Expected exactly one row, got ${rows.length}`);
+      return rows[0];
+    },
+    next: () => index < rows.length ? { done: false, value: rows[index++] } : { done: true },
+    raw: () => rows.map(row => columnNames.map(c => row[c]))[Symbol.iterator](),
+    [Symbol.iterator]: () => rows[Symbol.iterator]()
+  };
+}
+
+/**
+ * Create a fresh in-memory Durable Object state (SQL + key-value storage)
+ */
+export async function createTestState(name: string = 'test'): Promise<DurableObjectState> {
+  sqlJs = sqlJs || await initSqlJs();
+  let db: Database = new sqlJs.Database();
+  const kv = new Map<string, any>();
+  let alarm: number | null = null;
+
+  const sql = {
+    exec(query: string, ...bindings: any[]) {
+      const statement = db.prepare(query);
+      try {
+        statement.bind(bindings.map(toSqlValue));
+        const rows: Record<string, any>[] = [];
+        while (statement.step()) {
+          rows.push(statement.getAsObject());
+        }
+        return createCursor(rows, statement.getColumnNames(), db.getRowsModified());
+      } finally {
+        statement.free();
+      }
+    },
+    get databaseSize() {
+      return db.export().length;
+    }
+  };
+
+  const storage = {
+    sql,
+    async get(keyOrKeys: string | string[]) {
+      if (Array.isArray(keyOrKeys)) {
+        const result = new Map<string, any>();
+        keyOrKeys.forEach(k => { if (kv.has(k)) result.set(k, structuredClone(kv.get(k))); });
+        return result;
+      }
+      return kv.has(keyOrKeys) ? structuredClone(kv.get(keyOrKeys)) : undefined;
+    },
+    async put(keyOrEntries: string | Record<string, any>, value?: any) {
+      if (typeof keyOrEntries === 'string') {
+        kv.set(keyOrEntries, structuredClone(value));
+      } else {
+        Object.entries(keyOrEntries).forEach(([k, v]) => kv.set(k, structuredClone(v)));
+      }
+    },
+    async delete(keyOrKeys: string | string[]) {
+      if (Array.isArray(keyOrKeys)) {
+        return keyOrKeys.filter(k => kv.delete(k)).length;
+      }
+      return kv.delete(keyOrKeys);
+    },
+    async list(options: { prefix?: string } = {}) {
+      const result = new Map<string, any>();
+      [...kv.keys()].sort().forEach(k => {
+        if (!options.prefix || k.startsWith(options.prefix)) result.set(k, structuredClone(kv.get(k)));
+      });
+      return result;
+    },
+    async deleteAll() {
+      kv.clear();
+      alarm = null;
+      db.close();
+      db = new sqlJs!.Database();
+    },
+    transactionSync<T>(closure: () => T): T {
+      db.run('SAVEPOINT txn');
+      try {
+        const result = closure();
+        db.run('RELEASE txn');
+        return result;
+      } catch (error) {
+        db.run('ROLLBACK TO txn');
+        db.run('RELEASE txn');
+        throw error;
+      }
+    },
+    async getAlarm() {
+      return alarm;
+    },
+    async setAlarm(time: number | Date) {
+      alarm = typeof time === 'number' ? time : time.getTime();
+    },
+    async deleteAlarm() {
+      alarm = null;
+    }
+  };
+
+  const state = {
+    id: { toString: () => name, name, equals: (other: any) => other?.name === name },
+    storage,
+    waitUntil: () => {},
+    blockConcurrencyWhile: async <T>(callback: () => Promise<T>) => {
+      const result = callback();
+      blocked.set(state, result.catch(() => {}));
+      return result;
+    }
+  };
+
+  return state as unknown as DurableObjectState;
+}
+
+const blocked = new WeakMap<object, Promise<unknown>>();
+
+/**
+ * Resolves once work started with blockConcurrencyWhile (such as a constructor's migrations)
+ * has finished, as the runtime would before delivering the next request
+ */
+export async function whenUnblocked(state: DurableObjectState): Promise<void> {
+  await blocked.get(state);
+}
+
+/**
+ * A DurableObjectNamespace whose objects are created on first use, each with its own test state
+ */
+export function createTestNamespace(create: (state: DurableObjectState) => { fetch(request: Request): Promise<Response> }): DurableObjectNamespace {
+  const objects = new Map<string, Promise<{ state: DurableObjectState; object: { fetch(request: Request): Promise<Response> } }>>();
+  const instance = (name: string) => {
+    if (!objects.has(name)) {
+      objects.set(name, createTestState(name).then(state => ({ state, object: create(state) })));
+    }
+    return objects.get(name)!;
+  };
+
+  return {
+    idFromName: (name: string) => ({ toString: () => name, name, equals: (other: any) => other?.name === name }),
+    get: (id: { name: string }) => ({
+      fetch: async (input: RequestInfo, init?: RequestInit) => {
+        const { state, object } = await instance(id.name);
+        await whenUnblocked(state);
+        return object.fetch(input instanceof Request ? input : new Request(input, init));
+      }
+    })
+  } as unknown as DurableObjectNamespace;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { parseTransactionQuery, encodeCursor, decodeCursor, DEFAULT_PAGE_SIZE } from './transaction-query';
+
+describe('Transaction Query', () => {
+  it('should default to newest first by date', () => {
+    const result = parseTransactionQuery(new URLSearchParams());
+    expect(result.valid && result.value).toEqual({ filter: {}, sort: 'date', order: 'desc', limit: DEFAULT_PAGE_SIZE, cursor: undefined });
+  });
+
+  it('should parse filters, sort and limit', () => {
+    const params = new URLSearchParams('from=2026-01-01&to=2026-03-31&category=Food&type=expense&minAmount=10&maxAmount=99.5&q=coffee&merchant=Shell&sort=amount&order=asc&limit=20');
+    const result = parseTransactionQuery(params);
+    expect(result.valid && result.value).toMatchObject({
+      filter: { from: '2026-01-01', to: '2026-03-31', category: 'food', type: 'expense', minAmount: 10, maxAmount: 99.5, search: 'coffee', merchant: 'Shell' },
+      sort: 'amount',
+      order: 'asc',
+      limit: 20
+    });
+  });
+
+  it('should collect repeated and comma-separated tags', () => {
+    const result = parseTransactionQuery(new URLSearchParams('tag=Lisbon Trip,wedding&tag=wedding'));
+    expect(result.valid && result.value.filter.tags).toEqual(['lisbon-trip', 'wedding']);
+    expect(parseTransactionQuery(new URLSearchParams('tag=a/b')).valid).toBe(false);
+  });
+
+  it('should report every invalid parameter', () => {
+    const result = parseTransactionQuery(new URLSearchParams('from=yesterday&type=refund&minAmount=abc&sort=name&limit=500'));
+    expect(!result.valid && result.errors.map(e => e.field)).toEqual(['from', 'type', 'minAmount', 'sort', 'limit']);
+  });
+
+  it('should round-trip cursors and reject ones for a different sort', () => {
+    const cursor = encodeCursor(['2026-03-01', 1772366400000, 'abc']);
+    expect(decodeCursor(cursor, 'date')).toEqual(['2026-03-01', 1772366400000, 'abc']);
+    expect(decodeCursor(cursor, 'amount')).toBeNull();
+    expect(decodeCursor('not-a-cursor', 'date')).toBeNull();
+  });
+});
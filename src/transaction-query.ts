@@ -0,0 +1,152 @@
+/**
+ * Transaction Query
+ * Parses `GET /api/transactions` query parameters into a store filter,
+ * sort and keyset cursor so clients can page through the ledger.
+ */
+
+import type { TransactionFilter } from './finance-store';
+import { FieldError, ValidationResult, Transaction, TRANSACTION_TYPES, TransactionType, isValidISODate } from './transaction';
+import { normalizeTag } from './tag';
+
+export type TransactionSortField = 'date' | 'amount';
+export type SortOrder = 'asc' | 'desc';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// A transaction field whose column has the same name, so it can be both sorted on and
+// read back from the last row of a page
+export type SortKey = keyof Transaction & ('date' | 'timestamp' | 'amount' | 'id');
+
+// Columns that make up the keyset for each sort; `id` is the final tie-breaker
+export const SORT_KEYS: Record<TransactionSortField, readonly SortKey[]> = {
+  date: ['date', 'timestamp', 'id'],
+  amount: ['amount', 'id']
+};
+
+export interface TransactionQuery {
+  filter: TransactionFilter;
+  sort: TransactionSortField;
+  order: SortOrder;
+  limit: number;
+  cursor?: (string | number)[];   // values of SORT_KEYS[sort] for the last row already seen
+}
+
+export interface TransactionPage<T> {
+  transactions: T[];
+  total: number;
+  nextCursor: string | null;
+}
+
+/**
+ * Opaque cursor: base64url-encoded JSON of the keyset values
+ */
+export function encodeCursor(values: (string | number)[]): string {
+  return btoa(JSON.stringify(values)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeCursor(cursor: string, sort: TransactionSortField): (string | number)[] | null {
+  try {
+    const values = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+    const valid = Array.isArray(values)
+      && values.length === SORT_KEYS[sort].length
+      && values.every(v => typeof v === 'string' || typeof v === 'number');
+    return valid ? values : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseAmount(params: URLSearchParams, name: string, errors: FieldError[]): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    errors.push({ field: name, message: 'must be a number' });
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Validate query-string parameters for the transaction list endpoint
+ */
+export function parseTransactionQuery(params: URLSearchParams): ValidationResult<TransactionQuery> {
+  const errors: FieldError[] = [];
+  const filter: TransactionFilter = {};
+
+  for (const name of ['from', 'to'] as const) {
+    const value = params.get(name);
+    if (!value) continue;
+    if (isValidISODate(value)) filter[name] = value;
+    else errors.push({ field: name, message: 'must be a valid date in YYYY-MM-DD format' });
+  }
+
+  const month = params.get('month');
+  if (month) {
+    if (/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) filter.month = month;
+    else errors.push({ field: 'month', message: 'must be in YYYY-MM format' });
+  }
+
+  const type = params.get('type');
+  if (type) {
+    if (TRANSACTION_TYPES.includes(type as TransactionType)) filter.type = type;
+    else errors.push({ field: 'type', message: `must be one of: ${TRANSACTION_TYPES.join(', ')}` });
+  }
+
+  const category = params.get('category');
+  if (category) filter.category = category.trim().toLowerCase();
+
+  const search = params.get('q');
+  if (search) filter.search = search.trim();
+
+  const merchant = params.get('merchant');
+  if (merchant) filter.merchant = merchant.trim();
+
+  // Household ledgers: only what one member recorded
+  const createdBy = params.get('createdBy');
+  if (createdBy) filter.createdBy = createdBy.trim();
+
+  // `tag` may repeat or hold a comma-separated list; transactions must carry all of them
+  const tags = params.getAll('tag').flatMap(value => value.split(',')).filter(value => value.trim());
+  if (tags.length > 0) {
+    const normalized = tags.map(normalizeTag);
+    if (normalized.every(Boolean)) filter.tags = [...new Set(normalized as string[])];
+    else errors.push({ field: 'tag', message: 'must contain only letters, digits, "-" and "_"' });
+  }
+
+  const minAmount = parseAmount(params, 'minAmount', errors);
+  if (minAmount !== undefined) filter.minAmount = minAmount;
+  const maxAmount = parseAmount(params, 'maxAmount', errors);
+  if (maxAmount !== undefined) filter.maxAmount = maxAmount;
+
+  const sort = (params.get('sort') || 'date') as TransactionSortField;
+  if (!(sort in SORT_KEYS)) {
+    errors.push({ field: 'sort', message: `must be one of: ${Object.keys(SORT_KEYS).join(', ')}` });
+  }
+
+  const order = (params.get('order') || 'desc') as SortOrder;
+  if (order !== 'asc' && order !== 'desc') {
+    errors.push({ field: 'order', message: 'must be asc or desc' });
+  }
+
+  let limit = DEFAULT_PAGE_SIZE;
+  const rawLimit = params.get('limit');
+  if (rawLimit) {
+    limit = Number(rawLimit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      errors.push({ field: 'limit', message: `must be an integer between 1 and ${MAX_PAGE_SIZE}` });
+    }
+  }
+
+  let cursor: (string | number)[] | undefined;
+  const rawCursor = params.get('cursor');
+  if (rawCursor && sort in SORT_KEYS) {
+    cursor = decodeCursor(rawCursor, sort) || undefined;
+    if (!cursor) errors.push({ field: 'cursor', message: 'is invalid or does not match the sort' });
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, value: { filter, sort, order, limit, cursor } };
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { validateTransactionInput, validateTransactionPatch, applyTransactionPatch, isValidISODate, createTransaction, localDate, clientToday } from './transaction';
+
+describe('Transaction Model', () => {
+  const valid = { amount: 42.5, description: 'Groceries', category: 'food', type: 'expense', date: '2026-03-15', accountId: 'checking' };
+
+  describe('isValidISODate', () => {
+    it('should accept real calendar dates', () => {
+      expect(isValidISODate('2026-02-28')).toBe(true);
+      expect(isValidISODate('2024-02-29')).toBe(true);
+    });
+
+    it('should reject impossible or malformed dates', () => {
+      expect(isValidISODate('2026-02-30')).toBe(false);
+      expect(isValidISODate('2026-13-01')).toBe(false);
+      expect(isValidISODate('03/15/2026')).toBe(false);
+      expect(isValidISODate(20260315)).toBe(false);
+    });
+  });
+
+  describe('validateTransactionInput', () => {
+    it('should accept a well-formed transaction', () => {
+      const result = validateTransactionInput(valid);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should normalize category case and trim the description', () => {
+      const result = validateTransactionInput({ ...valid, category: 'Food', description: '  Groceries ' });
+      expect(result.valid && result.value).toMatchObject({ category: 'food', description: 'Groceries' });
+    });
+
+    it('should reject string, negative and non-finite amounts', () => {
+      for (const amount of ['42', -5, 0, Infinity, NaN]) {
+        const result = validateTransactionInput({ ...valid, amount });
+        expect(result.valid).toBe(false);
+        expect(!result.valid && result.errors.map(e => e.field)).toEqual(['amount']);
+      }
+    });
+
+    it('should report every invalid field at once', () => {
+      const result = validateTransactionInput({ amount: 'ten', description: '', category: 'snacks', type: 'refund', date: '2026-02-31' });
+      expect(!result.valid && result.errors.map(e => e.field)).toEqual(['amount', 'description', 'category', 'type', 'date']);
+    });
+
+    it('should accept transfers with a destination account and no category', () => {
+      const { category, ...withoutCategory } = valid;
+      const result = validateTransactionInput({ ...withoutCategory, type: 'transfer', toAccountId: 'savings' });
+      expect(result.valid && result.value).toMatchObject({ category: 'transfer', toAccountId: 'savings' });
+    });
+
+    it('should require a distinct destination for transfers and reject one elsewhere', () => {
+      const missing = validateTransactionInput({ ...valid, type: 'transfer' });
+      expect(!missing.valid && missing.errors).toEqual([{ field: 'toAccountId', message: 'is required for transfers' }]);
+      expect(validateTransactionInput({ ...valid, type: 'transfer', toAccountId: 'checking' }).valid).toBe(false);
+      expect(validateTransactionInput({ ...valid, toAccountId: 'savings' }).valid).toBe(false);
+    });
+
+    it('should accept splits that add up to the amount and take the largest line as the category', () => {
+      const { category, ...withoutCategory } = valid;
+      const result = validateTransactionInput({
+        ...withoutCategory,
+        amount: 100,
+        splits: [{ amount: 35.5, category: 'Shopping', note: ' towels ' }, { amount: 64.5, category: 'food' }]
+      });
+      expect(result.valid && result.value).toMatchObject({
+        category: 'food',
+        splits: [{ amount: 35.5, category: 'shopping', note: 'towels' }, { amount: 64.5, category: 'food' }]
+      });
+    });
+
+    it('should reject splits that do not add up, have one line or split a transfer', () => {
+      const lines = [{ amount: 30, category: 'food' }, { amount: 20, category: 'shopping' }];
+      const mismatch = validateTransactionInput({ ...valid, amount: 60, splits: lines });
+      expect(!mismatch.valid && mismatch.errors.map(e => e.field)).toEqual(['splits']);
+      expect(validateTransactionInput({ ...valid, amount: 30, splits: lines.slice(0, 1) }).valid).toBe(false);
+      expect(validateTransactionInput({ ...valid, amount: 50, type: 'transfer', toAccountId: 'savings', splits: lines }).valid).toBe(false);
+    });
+
+    it('should normalize and de-duplicate tags, dropping an empty list', () => {
+      const result = validateTransactionInput({ ...valid, tags: ['Lisbon Trip', 'lisbon-trip', '#reimbursable'] });
+      expect(result.valid && result.value.tags).toEqual(['lisbon-trip', 'reimbursable']);
+      const untagged = validateTransactionInput({ ...valid, tags: [] });
+      expect(untagged.valid && 'tags' in untagged.value).toBe(false);
+      expect(validateTransactionInput({ ...valid, tags: ['a/b'] }).valid).toBe(false);
+      expect(validateTransactionInput({ ...valid, tags: 'trip' }).valid).toBe(false);
+    });
+
+    it('should reject non-object bodies', () => {
+      expect(validateTransactionInput(null).valid).toBe(false);
+      expect(validateTransactionInput([valid]).valid).toBe(false);
+    });
+  });
+
+  describe('validateTransactionPatch', () => {
+    it('should accept a subset of fields', () => {
+      const result = validateTransactionPatch({ amount: 18, category: 'Food' });
+      expect(result.valid && result.value).toEqual({ amount: 18, category: 'food' });
+    });
+
+    it('should reject empty patches and non-editable fields', () => {
+      expect(validateTransactionPatch({}).valid).toBe(false);
+      const result = validateTransactionPatch({ id: 'abc', amount: -1 });
+      expect(!result.valid && result.errors.map(e => e.field)).toEqual(['id', 'amount']);
+    });
+  });
+
+  describe('applyTransactionPatch', () => {
+    it('should recompute the timestamp when the date changes', () => {
+      const original = createTransaction({ ...valid, type: 'expense' });
+      const updated = applyTransactionPatch(original, { date: '2026-03-20', amount: 18 });
+      expect(updated).toMatchObject({ id: original.id, amount: 18, date: '2026-03-20' });
+      expect(updated.timestamp).toBe(new Date('2026-03-20T12:00:00').getTime());
+    });
+  });
+
+  describe('localDate', () => {
+    it('should give the calendar day in the client\'s time zone', () => {
+      const evening = new Date('2026-04-03T03:30:00Z');
+      expect(localDate('America/Denver', evening)).toBe('2026-04-02');
+      expect(localDate('Europe/Berlin', evening)).toBe('2026-04-03');
+      expect(localDate('Mars/Olympus', evening)).toBeNull();
+      expect(localDate(null, evening)).toBeNull();
+    });
+  });
+
+  describe('clientToday', () => {
+    it('should fall back to the UTC date without a zone and refuse an unknown one', () => {
+      const evening = new Date('2026-04-03T03:30:00Z');
+      expect(clientToday('America/Denver', evening)).toEqual({ valid: true, value: '2026-04-02' });
+      expect(clientToday(null, evening)).toEqual({ valid: true, value: '2026-04-03' });
+      expect(clientToday('Mars/Olympus', evening)).toMatchObject({ valid: false, errors: [{ field: 'X-Timezone' }] });
+    });
+  });
+});
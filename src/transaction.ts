@@ -0,0 +1,413 @@
+/**
+ * Transaction Domain Model
+ * Shared transaction types plus runtime validation for anything that
+ * arrives from the REST API or from an AI function call.
+ */
+
+import { DEFAULT_CATEGORY_IDS } from './category';
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_TRANSACTION, normalizeTag } from './tag';
+
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+export const TRANSACTION_TYPES: readonly TransactionType[] = ['income', 'expense', 'transfer'];
+
+
+export const MAX_DESCRIPTION_LENGTH = 200;
+
+// Transfers move money between accounts; they carry this category and no spending category
+export const TRANSFER_CATEGORY = 'transfer';
+
+// One line of a split transaction; a transaction's lines always sum to its amount
+export interface TransactionSplit {
+  amount: number;
+  category: string;
+  note?: string;
+}
+
+/**
+ * What a bank statement said about an imported line beyond the transaction itself; the
+ * transaction's `date` is the booking date
+ */
+export interface BankDetails {
+  valueDate?: string;           // YYYY-MM-DD, when the money counts as moved for interest
+  counterparty?: string;        // the payer or payee's name
+  counterpartyAccount?: string; // their IBAN or account number
+  remittance?: string;          // the reference text the payer gave
+  endToEndId?: string;          // the payer's reference that travels with a SEPA payment
+  bankReference?: string;       // the bank's own reference for the line
+}
+
+export interface Transaction {
+  id: string;
+  amount: number;
+  description: string;
+  category: string;
+  type: TransactionType;
+  date: string;       // YYYY-MM-DD
+  timestamp: number;  // noon local time on `date`, in ms
+  accountId: string;
+  toAccountId?: string;  // destination account, transfers only
+  splits?: TransactionSplit[];  // per-category lines; `category` is then the largest line's
+  tags?: string[];              // normalized, no duplicates
+  merchantId?: string;          // canonical payee; transfers have none
+  attachmentIds?: string[];     // receipts and other files, managed through the attachment endpoints
+  createdBy?: string;           // user who recorded it; set by the server, never edited
+  externalId?: string;          // the statement line it was imported from; set by the server, never edited
+  bankDetails?: BankDetails;    // likewise, from statements that give them
+}
+
+export interface TransactionInput {
+  amount: number;
+  description: string;
+  category: string;
+  type: TransactionType;
+  date?: string;
+  accountId?: string;
+  toAccountId?: string;
+  splits?: TransactionSplit[];  // an empty array removes existing splits
+  tags?: string[];              // an empty array removes existing tags
+  merchant?: string;            // payee as printed (e.g. on a receipt); defaults to the description
+}
+
+export type TransactionPatch = Partial<TransactionInput>;
+
+export const EDITABLE_FIELDS: readonly (keyof TransactionInput)[] = ['amount', 'description', 'category', 'type', 'date', 'accountId', 'toAccountId', 'splits', 'tags', 'merchant'];
+
+// Fields that may be omitted when creating a transaction
+const OPTIONAL_FIELDS: readonly (keyof TransactionInput)[] = ['date', 'accountId', 'toAccountId', 'splits', 'tags', 'merchant'];
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: FieldError[] };
+
+export interface ValidationOptions {
+  categories?: readonly string[];  // active category ids; defaults to the seeded categories
+  accountIds?: readonly string[];  // when given, accountId must be one of these
+}
+
+/**
+ * Check that a string is a real calendar date in YYYY-MM-DD format
+ */
+export function isValidISODate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Check a single field, returning an error message or null when valid
+ */
+function checkField(field: keyof TransactionInput, value: unknown, options: ValidationOptions): string | null {
+  const categories = options.categories || DEFAULT_CATEGORY_IDS;
+  switch (field) {
+    case 'amount':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a finite number';
+      if (value <= 0) return 'must be greater than zero';
+      return null;
+    case 'description':
+    case 'merchant': {
+      const text = typeof value === 'string' ? value.trim() : '';
+      if (!text) return 'is required';
+      if (text.length > MAX_DESCRIPTION_LENGTH) return `must be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+      return null;
+    }
+    case 'category': {
+      const category = typeof value === 'string' ? value.trim().toLowerCase() : '';
+      return categories.includes(category) || category === TRANSFER_CATEGORY ? null : `must be one of: ${categories.join(', ')}`;
+    }
+    case 'type':
+      return TRANSACTION_TYPES.includes(value as TransactionType) ? null : `must be one of: ${TRANSACTION_TYPES.join(', ')}`;
+    case 'date':
+      return isValidISODate(value) ? null : 'must be a valid date in YYYY-MM-DD format';
+    case 'accountId':
+    case 'toAccountId':
+      if (typeof value !== 'string' || !value.trim()) return 'must be a non-empty string';
+      return !options.accountIds || options.accountIds.includes(value) ? null : 'does not match any account';
+    case 'splits':
+      return checkSplits(value, categories);
+    case 'tags':
+      if (!Array.isArray(value)) return 'must be an array of tags';
+      if (value.length > MAX_TAGS_PER_TRANSACTION) return `must have at most ${MAX_TAGS_PER_TRANSACTION} tags`;
+      return value.every(tag => normalizeTag(tag)) ? null : `must contain only letters, digits, "-" and "_" (at most ${MAX_TAG_LENGTH} characters each)`;
+  }
+}
+
+/**
+ * Split lines: none at all (no split) or at least two, each with a positive amount,
+ * a known category and an optional short note
+ */
+function checkSplits(value: unknown, categories: readonly string[]): string | null {
+  if (!Array.isArray(value)) return 'must be an array of split lines';
+  if (value.length === 1) return 'must have at least two lines (or none)';
+  for (const [i, line] of value.entries()) {
+    const split = asObject(line);
+    if (!split) return `line ${i + 1} must be an object`;
+    if (typeof split.amount !== 'number' || !Number.isFinite(split.amount) || split.amount <= 0) {
+      return `line ${i + 1} amount must be greater than zero`;
+    }
+    const category = typeof split.category === 'string' ? split.category.trim().toLowerCase() : '';
+    if (!categories.includes(category)) return `line ${i + 1} category must be one of: ${categories.join(', ')}`;
+    if (split.note !== undefined && (typeof split.note !== 'string' || split.note.length > MAX_DESCRIPTION_LENGTH)) {
+      return `line ${i + 1} note must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalize a field that has already passed checkField
+ */
+function normalizeField(field: keyof TransactionInput, value: unknown): unknown {
+  if (field === 'description' || field === 'merchant') return (value as string).trim();
+  if (field === 'category') return (value as string).trim().toLowerCase();
+  if (field === 'splits') {
+    return (value as TransactionSplit[]).map(split => ({
+      amount: split.amount,
+      category: split.category.trim().toLowerCase(),
+      ...(split.note?.trim() ? { note: split.note.trim() } : {})
+    }));
+  }
+  if (field === 'tags') return [...new Set((value as string[]).map(tag => normalizeTag(tag)!))];
+  return value;
+}
+
+function asObject(input: unknown): Record<string, unknown> | null {
+  return input && typeof input === 'object' && !Array.isArray(input) ? input as Record<string, unknown> : null;
+}
+
+/**
+ * Validate untrusted input for a new transaction.
+ * Returns every field-level problem at once rather than stopping at the first.
+ */
+export function validateTransactionInput(input: unknown, options: ValidationOptions = {}): ValidationResult<TransactionInput> {
+  const body = asObject(input);
+  if (!body) {
+    return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+
+  const errors: FieldError[] = [];
+  const value: Record<string, unknown> = {};
+
+  for (const field of EDITABLE_FIELDS) {
+    // Date defaults to today and the account to the caller's default
+    const missing = body[field] === undefined || body[field] === null || body[field] === '';
+    if (missing && OPTIONAL_FIELDS.includes(field)) continue;
+    if (missing && field === 'category' && (body.type === 'transfer' || Array.isArray(body.splits))) continue;
+
+    const message = checkField(field, body[field], options);
+    if (message) {
+      errors.push({ field, message });
+    } else {
+      value[field] = normalizeField(field, body[field]);
+    }
+  }
+
+  if (errors.length === 0 && value.type === 'transfer') {
+    value.category = TRANSFER_CATEGORY;
+  }
+  if (errors.length === 0 && Array.isArray(value.splits)) {
+    if ((value.splits as TransactionSplit[]).length === 0) delete value.splits;
+    else value.category = primarySplitCategory(value.splits as TransactionSplit[]);
+  }
+  if (Array.isArray(value.tags) && value.tags.length === 0) {
+    delete value.tags;
+  }
+  if (errors.length === 0) {
+    const input = value as unknown as TransactionInput;
+    errors.push(...transferErrors(input), ...splitErrors(input));
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, value: value as unknown as TransactionInput };
+}
+
+/**
+ * Cross-field rules for transfers: they need a distinct destination account,
+ * and only transfers may have one or use the transfer category
+ */
+export function transferErrors(transaction: Pick<TransactionInput, 'type' | 'category' | 'accountId' | 'toAccountId'>): FieldError[] {
+  if (transaction.type === 'transfer') {
+    if (!transaction.toAccountId) return [{ field: 'toAccountId', message: 'is required for transfers' }];
+    if (transaction.accountId && transaction.toAccountId === transaction.accountId) {
+      return [{ field: 'toAccountId', message: 'must be different from accountId' }];
+    }
+    return [];
+  }
+
+  const errors: FieldError[] = [];
+  if (transaction.toAccountId) errors.push({ field: 'toAccountId', message: 'is only allowed for transfers' });
+  if (transaction.category === TRANSFER_CATEGORY) errors.push({ field: 'category', message: 'must be a spending or income category' });
+  return errors;
+}
+
+/**
+ * Split lines must add up to the transaction amount (to the cent), and transfers cannot be split
+ */
+export function splitErrors(transaction: Pick<TransactionInput, 'type' | 'amount' | 'splits'>): FieldError[] {
+  if (!transaction.splits || transaction.splits.length === 0) return [];
+  if (transaction.type === 'transfer') return [{ field: 'splits', message: 'are not allowed on transfers' }];
+
+  const total = transaction.splits.reduce((sum, split) => sum + Math.round(split.amount * 100), 0);
+  if (total !== Math.round(transaction.amount * 100)) {
+    return [{ field: 'splits', message: `must add up to the amount (${transaction.amount.toFixed(2)}), but total ${(total / 100).toFixed(2)}` }];
+  }
+  return [];
+}
+
+/**
+ * The category a split transaction is filed under when shown as one row: its largest line's
+ */
+export function primarySplitCategory(splits: TransactionSplit[]): string {
+  return splits.reduce((largest, split) => split.amount > largest.amount ? split : largest).category;
+}
+
+/**
+ * The (amount, category) lines a transaction contributes to category reports:
+ * its splits when it has them, otherwise the whole amount in its category
+ */
+export function categoryLines(transaction: Pick<Transaction, 'amount' | 'category' | 'splits'>): TransactionSplit[] {
+  return transaction.splits && transaction.splits.length > 0
+    ? transaction.splits
+    : [{ amount: transaction.amount, category: transaction.category }];
+}
+
+/**
+ * Validate a partial update. Only editable fields may be present, and at least one is required.
+ */
+export function validateTransactionPatch(input: unknown, options: ValidationOptions = {}): ValidationResult<TransactionPatch> {
+  const body = asObject(input);
+  if (!body) {
+    return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+
+  const errors: FieldError[] = [];
+  const value: Record<string, unknown> = {};
+
+  for (const [field, fieldValue] of Object.entries(body)) {
+    if (!(EDITABLE_FIELDS as readonly string[]).includes(field)) {
+      errors.push({ field, message: 'is not editable' });
+      continue;
+    }
+    const message = checkField(field as keyof TransactionInput, fieldValue, options);
+    if (message) {
+      errors.push({ field, message });
+    } else {
+      value[field] = normalizeField(field as keyof TransactionInput, fieldValue);
+    }
+  }
+
+  if (errors.length === 0 && Object.keys(value).length === 0) {
+    errors.push({ field: 'body', message: `must include at least one of: ${EDITABLE_FIELDS.join(', ')}` });
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, value: value as TransactionPatch };
+}
+
+/**
+ * Format field errors as a single readable sentence
+ */
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map(e => `${e.field} ${e.message}`).join('; ');
+}
+
+/**
+ * Format split lines as "food $60.00, shopping $40.00", or "none" when unsplit
+ */
+export function formatSplits(splits: TransactionSplit[] | undefined): string {
+  if (!splits || splits.length === 0) return 'none';
+  return splits.map(split => `${split.category} $${split.amount.toFixed(2)}${split.note ? ` (${split.note})` : ''}`).join(', ');
+}
+
+/**
+ * Timestamp for a YYYY-MM-DD date.
+ * Noon keeps the intended calendar day regardless of timezone.
+ */
+export function timestampForDate(date: string): number {
+  return new Date(`${date}T12:00:00`).getTime();
+}
+
+// Request header naming the client's IANA time zone (e.g. "America/Denver"); a
+// transaction sent without a date is dated on the client's calendar day in that zone,
+// or on the UTC date when the client names none
+export const TIMEZONE_HEADER = 'X-Timezone';
+
+/**
+ * The calendar date (YYYY-MM-DD) it is in a time zone, or null when the zone is missing or unknown
+ */
+export function localDate(timeZone: string | null | undefined, now: Date = new Date()): string | null {
+  if (!timeZone) return null;
+  try {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Today's date for a request: in the time zone the client names, else in UTC. A zone
+ * that is named but unknown is an error rather than a silent switch to UTC.
+ */
+export function clientToday(timeZone: string | null | undefined, now: Date = new Date()): ValidationResult<string> {
+  if (!timeZone) return { valid: true, value: now.toISOString().slice(0, 10) };
+  const date = localDate(timeZone, now);
+  return date
+    ? { valid: true, value: date }
+    : { valid: false, errors: [{ field: TIMEZONE_HEADER, message: 'must be an IANA time zone such as "America/Denver"' }] };
+}
+
+/**
+ * Build a transaction from validated input with its account and date resolved
+ */
+export function createTransaction(input: TransactionInput & { accountId: string; date: string }): Transaction {
+  const date = input.date;
+  return {
+    id: crypto.randomUUID(),
+    amount: input.amount,
+    description: input.description,
+    category: input.category,
+    type: input.type,
+    date,
+    timestamp: timestampForDate(date),
+    accountId: input.accountId,
+    ...(input.type === 'transfer' ? { category: TRANSFER_CATEGORY, toAccountId: input.toAccountId } : {}),
+    ...(input.splits && input.splits.length > 0 ? { splits: input.splits } : {}),
+    ...(input.tags && input.tags.length > 0 ? { tags: input.tags } : {})
+  };
+}
+
+/**
+ * Apply a validated patch, keeping the id and recomputing the timestamp when the date changes
+ */
+export function applyTransactionPatch(transaction: Transaction, patch: TransactionPatch): Transaction {
+  // The raw merchant string is resolved to a merchantId by the caller, not stored
+  const { merchant, ...fields } = patch;
+  const updated: Transaction = { ...transaction, ...fields, id: transaction.id } as Transaction;
+  if (patch.date) {
+    updated.timestamp = timestampForDate(patch.date);
+  }
+  if (updated.type === 'transfer') {
+    updated.category = TRANSFER_CATEGORY;
+  } else if (patch.type) {
+    // No longer a transfer, so there is no destination account
+    delete updated.toAccountId;
+  }
+  if (updated.splits && updated.splits.length > 0) {
+    if (updated.type !== 'transfer') updated.category = primarySplitCategory(updated.splits);
+  } else {
+    delete updated.splits;
+  }
+  if (updated.tags && updated.tags.length === 0) {
+    delete updated.tags;
+  }
+  return updated;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_VECTOR_ID_BYTES, createVectorDB } from './vector-db-factory';
+import { indexTransaction, indexTransactions, searchTransactions, unindexTransaction } from './rag-handler';
+import { Transaction } from './transaction';
+
+/**
+ * An in-memory Vectorize index that matches every vector passing the filter, and
+ * refuses ids longer than Vectorize takes
+ */
+function fakeVectorize() {
+  const vectors = new Map<string, { id: string; values: number[]; metadata: any }>();
+  const store = (list: any[]) => list.forEach(v => {
+    if (new TextEncoder().encode(v.id).length > MAX_VECTOR_ID_BYTES) throw new Error(`id too long: ${v.id}`);
+    vectors.set(v.id, v);
+  });
+  return {
+    vectors,
+    upsert: async (list: any[]) => store(list),
+    insert: async (list: any[]) => store(list),
+    deleteByIds: async (ids: string[]) => ids.forEach(id => vectors.delete(id)),
+    query: async (_values: number[], options: any) => ({
+      matches: [...vectors.values()]
+        .filter(v => Object.entries(options.filter ?? {}).every(([key, value]) => v.metadata[key] === value))
+        .slice(0, options.topK)
+        .map(v => ({ id: v.id, score: 1, metadata: v.metadata }))
+    })
+  };
+}
+
+describe('createVectorDB', () => {
+  const ai = { run: async () => ({ data: [[0.1, 0.2]] }) };
+  const transaction = (description: string): Transaction => ({
+    id: '2026-03-05-Groceries', accountId: 'checking', amount: 50, description, category: 'food', type: 'expense', date: '2026-03-05', timestamp: 1
+  });
+
+  it('should keep two owners\' vectors for the same transaction id apart', async () => {
+    const env = { VECTORIZE: fakeVectorize() };
+    const alice = createVectorDB(env, 'alice');
+    const bob = createVectorDB(env, 'bob');
+    await indexTransaction(transaction('Alice groceries'), ai, alice);
+    await indexTransaction(transaction('Bob groceries'), ai, bob);
+    expect(env.VECTORIZE.vectors.size).toBe(2);
+
+    await unindexTransaction('2026-03-05-Groceries', bob);
+    expect((await searchTransactions('groceries', ai, alice)).map(t => t.description)).toEqual(['Alice groceries']);
+    expect(await searchTransactions('groceries', ai, bob)).toEqual([]);
+  });
+
+  it('should keep ids within the limit for household owners and uuid transaction ids', async () => {
+    const env = { VECTORIZE: fakeVectorize() };
+    const household = createVectorDB(env, `household:${crypto.randomUUID()}`);
+    const id = crypto.randomUUID();
+    await indexTransaction({ ...transaction('Shared groceries'), id }, ai, household);
+    const [stored] = env.VECTORIZE.vectors.values();
+    expect(new TextEncoder().encode(stored.id).length).toBeLessThanOrEqual(MAX_VECTOR_ID_BYTES);
+    expect((await searchTransactions('groceries', ai, household)).map(t => t.id)).toEqual([id]);
+
+    await unindexTransaction(id, household);
+    expect(env.VECTORIZE.vectors.size).toBe(0);
+  });
+
+  it('should embed many transactions in batches', async () => {
+    const env = { VECTORIZE: fakeVectorize() };
+    const texts: number[] = [];
+    const batchAI = { run: async (_model: string, { text }: { text: string[] }) => (texts.push(text.length), { data: text.map(() => [0.1]) }) };
+    const many = Array.from({ length: 250 }, (_, i) => ({ ...transaction(`Groceries ${i}`), id: `t${i}` }));
+    await indexTransactions(many, batchAI, createVectorDB(env, 'alice'));
+    expect(texts).toEqual([100, 100, 50]);
+    expect(env.VECTORIZE.vectors.size).toBe(250);
+  });
+
+  it('should share knowledge base articles and ignore vectors stored under their own id', async () => {
+    const env = { VECTORIZE: fakeVectorize() };
+    await createVectorDB(env, 'alice').insert([{ id: 'budgeting-101', values: [1], metadata: { indexType: 'knowledge' } }]);
+    env.VECTORIZE.vectors.set('transaction_old', { id: 'transaction_old', values: [1], metadata: { indexType: 'transaction', ownerId: 'bob' } });
+
+    const bob = createVectorDB(env, 'bob');
+    expect((await bob.query([1], { topK: 5, filter: { indexType: 'knowledge' } })).matches.map(m => m.id)).toEqual(['budgeting-101']);
+    expect((await bob.query([1], { topK: 5, filter: { indexType: 'transaction' } })).matches).toEqual([]);
+  });
+});
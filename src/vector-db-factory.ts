@@ -12,6 +12,14 @@ export interface VectorDB {
     metadata: any;
   }>): Promise<void>;
 
+  upsert(vectors: Array<{
+    id: string;
+    values: number[];
+    metadata: any;
+  }>): Promise<void>;
+
+  delete(ids: string[]): Promise<void>;
+
   query(
     queryEmbedding: number[],
     options: {
@@ -32,6 +40,14 @@ class VectorizeWrapper implements VectorDB {
     await this.vectorize.insert(vectors);
   }
 
+  async upsert(vectors: Array<{ id: string; values: number[]; metadata: any }>) {
+    await this.vectorize.upsert(vectors);
+  }
+
+  async delete(ids: string[]) {
+    await this.vectorize.deleteByIds(ids);
+  }
+
   async query(queryEmbedding: number[], options: any) {
     const result = await this.vectorize.query(queryEmbedding, options);
     // Vectorize returns { matches: [...] } already
@@ -49,16 +65,92 @@ class ChromaDBWrapper implements VectorDB {
     await this.chroma.insert(vectors);
   }
 
+  async upsert(vectors: Array<{ id: string; values: number[]; metadata: any }>) {
+    await this.chroma.upsert(vectors);
+  }
+
+  async delete(ids: string[]) {
+    await this.chroma.delete(ids);
+  }
+
   async query(queryEmbedding: number[], options: any) {
     return await this.chroma.query(queryEmbedding, options);
   }
 }
 
+// Index types holding one user's data; knowledge base articles are shared by everyone
+const OWNED_INDEX_TYPES = ['transaction', 'monthly_pattern'];
+
+// Longest id Vectorize stores
+export const MAX_VECTOR_ID_BYTES = 64;
+
+/**
+ * Keeps users' vectors apart in the shared index: owned vectors are stored under an id
+ * hashed from their owner and their own id, and tagged with both, and searches over them
+ * only match the owner's. Ids such as transaction_<id> repeat across users (sample data
+ * derives them from dates and descriptions), so stored as they are one user's upsert or
+ * delete would overwrite or remove another's vector; joined to the owner in full they
+ * outgrow the id limit.
+ */
+class OwnerScopedVectorDB implements VectorDB {
+  constructor(private inner: VectorDB, private ownerId: string) {}
+
+  /**
+   * 48 hex digits of SHA-256 over the owner and the id: well within the id limit
+   */
+  private async storedId(id: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${this.ownerId}:${id}`));
+    return Array.from(new Uint8Array(digest).slice(0, 24), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private async tag(vectors: Array<{ id: string; values: number[]; metadata: any }>) {
+    return Promise.all(vectors.map(async v => OWNED_INDEX_TYPES.includes(v.metadata?.indexType)
+      ? { ...v, id: await this.storedId(v.id), metadata: { ...v.metadata, ownerId: this.ownerId, vectorId: v.id } }
+      : v));
+  }
+
+  async insert(vectors: Array<{ id: string; values: number[]; metadata: any }>) {
+    await this.inner.insert(await this.tag(vectors));
+  }
+
+  async upsert(vectors: Array<{ id: string; values: number[]; metadata: any }>) {
+    await this.inner.upsert(await this.tag(vectors));
+  }
+
+  /**
+   * Only the owner's vectors can be deleted; shared knowledge base articles are never
+   * removed per user
+   */
+  async delete(ids: string[]) {
+    await this.inner.delete(await Promise.all(ids.map(id => this.storedId(id))));
+  }
+
+  async query(queryEmbedding: number[], options: any) {
+    const owned = OWNED_INDEX_TYPES.includes(options?.filter?.indexType);
+    if (!owned) return await this.inner.query(queryEmbedding, options);
+    const result = await this.inner.query(queryEmbedding, { ...options, filter: { ...options.filter, ownerId: this.ownerId } });
+    // Vectors stored under their own id before ids were hashed may have been overwritten
+    // by another user's or outlived their deletion, so only hashed ones are trusted
+    const matches = [];
+    for (const match of result.matches) {
+      const { vectorId: id, ...metadata } = match.metadata ?? {};
+      if (typeof id === 'string' && match.id === await this.storedId(id)) matches.push({ ...match, id, metadata });
+    }
+    return { ...result, matches };
+  }
+}
+
 /**
  * Create vector database based on environment configuration
  * Priority: ChromaDB > Vectorize > Error
+ * With `ownerId`, transaction vectors are scoped to that user.
  */
-export function createVectorDB(env: any): VectorDB {
+export function createVectorDB(env: any, ownerId?: string): VectorDB {
+  const vectorDB = createSharedVectorDB(env);
+  return ownerId ? new OwnerScopedVectorDB(vectorDB, ownerId) : vectorDB;
+}
+
+function createSharedVectorDB(env: any): VectorDB {
   // Check if ChromaDB is configured
   if (env.CHROMA_URL) {
     console.log('🔷 Using ChromaDB as vector database');